@@ -0,0 +1,29 @@
+import js from '@eslint/js';
+import tseslint from 'typescript-eslint';
+
+export default tseslint.config(
+  { ignores: ['dist/', 'node_modules/'] },
+  js.configs.recommended,
+  ...tseslint.configs.recommended,
+  {
+    files: ['src/**/*.ts', 'test/**/*.ts'],
+    rules: {
+      // Config objects and tool params are untyped JSON in much of the codebase
+      '@typescript-eslint/no-explicit-any': 'off',
+      // Handlebars helpers and resolvers keep their full signatures; `catch (error)`
+      // is used even when the error is not inspected
+      '@typescript-eslint/no-unused-vars': ['error', { args: 'none', caughtErrors: 'none', ignoreRestSiblings: true }],
+      // Handlebars helpers get their own `this`, so the engine is captured
+      '@typescript-eslint/no-this-alias': ['error', { allowedNames: ['engine'] }]
+    }
+  },
+  {
+    // Predates the linter; its findings are reported without failing the run
+    files: ['src/tools/DiagramTools.ts'],
+    rules: {
+      'prefer-const': 'warn',
+      'no-useless-escape': 'warn',
+      'no-useless-catch': 'warn'
+    }
+  }
+);
@@ -1,3 +1,4 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { ToolDefinition, ToolHandler } from './types.js';
 import { IToolSet } from './tools/BaseToolSet.js';
 import { KitTools } from './tools/KitTools.js';
@@ -57,6 +58,13 @@ export class BlueKitTools {
     ];
   }
 
+  /**
+   * Give tools access to the MCP server (e.g. for sampling requests to the client)
+   */
+  setServer(server: Server): void {
+    this.blueprintTools.setServer(server);
+  }
+
   getToolDefinitions(): ToolDefinition[] {
     const allDefinitions: ToolDefinition[] = [];
     
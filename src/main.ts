@@ -10,6 +10,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 import { BlueKitTools } from './BlueKitTools.js';
+import { SCHEMA_RESOURCES } from './schemas/BlueprintSchema.js';
 
 // Get __dirname equivalent in ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -47,6 +48,8 @@ Read these resources to understand how to generate each artifact type:
 - bluekit://prompts/get-diagram-definition.md - Learn about Diagram structure and requirements
 - bluekit://prompts/get-kit-definition.md - Learn about Kit structure and requirements
 - bluekit://prompts/get-walkthrough-definition.md - Learn about Walkthrough structure and requirements
+- bluekit://schemas/blueprint.v1.json - JSON Schema for blueprint.json (validate blueprints while authoring them)
+- bluekit://schemas/task-front-matter.v1.json - JSON Schema for the front matter of blueprint task files
 
 ## Workflow for Generating Artifacts
 
@@ -78,6 +81,19 @@ Read these resources to understand how to generate each artifact type:
 ## Other Tools
 - bluekit_blueprint_listBlueprints - List all blueprints in global registry
 - bluekit_blueprint_getBlueprint - Get a specific blueprint by ID
+- bluekit_blueprint_delete - Delete a blueprint folder and/or its global registry entry
+- bluekit_blueprint_gc - Find dangling, unparseable and duplicate blueprints in the global registry (fix: true unregisters them)
+- bluekit_blueprint_export / bluekit_blueprint_import - Share a blueprint as a .tar.gz bundle with a hash manifest
+- bluekit_blueprint_resolve - Show the merged blueprint produced by an extends chain
+- bluekit_blueprint_diff - Compare two blueprints (forks or versions): layers, tasks, operations, config schema and task files
+- bluekit_blueprint_execute - Run a blueprint's file operations against a target project (dryRun: true previews changes with diffs)
+- bluekit_blueprint_getRun / bluekit_blueprint_pause / bluekit_blueprint_resume - Inspect, pause and resume execution runs
+- bluekit_blueprint_verify - Run the acceptance checks of a blueprint's tasks against a project
+- bluekit_blueprint_rollback - Undo the file changes of an execution run or one of its layers
+- bluekit_blueprint_reapply - Re-apply a blueprint with a new config or version, 3-way merging local edits
+- bluekit_blueprint_upgrade - Upgrade a project to a blueprint's current version, migrating its config
+- bluekit_blueprint_lintTemplates - Check a blueprint's template variables against its config schema
+- bluekit_template_render - Render a blueprint template with a config, without writing anything
 - bluekit_init_project - Initialize a .bluekit directory in a project
 - bluekit_ping - Health check
 
@@ -85,6 +101,7 @@ Always read the appropriate definition resource first to understand the structur
       }
     );
 
+    this.tools.setServer(this.server);
     this.setupHandlers();
   }
 
@@ -132,6 +149,20 @@ Always read the appropriate definition resource first to understand the structur
     this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const uri = request.params.uri;
 
+      // URI format: bluekit://schemas/{name}.v{version}.json
+      const schema = SCHEMA_RESOURCES.find(resource => resource.uri === uri);
+      if (schema) {
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/schema+json',
+              text: JSON.stringify(schema.schema, null, 2),
+            },
+          ],
+        };
+      }
+
       // URI format: bluekit://prompts/{filename}
       if (!uri.startsWith('bluekit://prompts/')) {
         throw new Error(`Invalid resource URI: ${uri}`);
@@ -165,7 +196,8 @@ Always read the appropriate definition resource first to understand the structur
   }
 
   private getPromptResources(): Array<{ uri: string; name: string; description: string; mimeType: string }> {
-    const resources: Array<{ uri: string; name: string; description: string; mimeType: string }> = [];
+    const resources: Array<{ uri: string; name: string; description: string; mimeType: string }> =
+      SCHEMA_RESOURCES.map(({ uri, name, description }) => ({ uri, name, description, mimeType: 'application/schema+json' }));
 
     if (!fs.existsSync(this.promptsDir)) {
       return resources;
@@ -0,0 +1,273 @@
+/**
+ * JSON Schemas for blueprint authoring: blueprint.json and the YAML front
+ * matter of task files. Served as MCP resources so clients can validate
+ * blueprints while writing them.
+ */
+
+import { FILE_OPERATION_TYPES, CONFLICT_POLICIES } from '../tools/FileOperations.js';
+import { TASK_CHECK_TYPES } from '../tools/TaskVerifier.js';
+import { HELPER_PACK_NAMES } from '../tools/TemplateEngine.js';
+import { CONFIG_TRANSFORM_OPS } from '../tools/ConfigMigrator.js';
+import { VERSION_PATTERN } from '../tools/SemVer.js';
+
+/**
+ * Bumped whenever a schema changes incompatibly; part of every schema URI
+ */
+export const BLUEPRINT_SCHEMA_VERSION = 1;
+
+export const BLUEPRINT_SCHEMA_URI = `bluekit://schemas/blueprint.v${BLUEPRINT_SCHEMA_VERSION}.json`;
+export const TASK_FRONT_MATTER_SCHEMA_URI = `bluekit://schemas/task-front-matter.v${BLUEPRINT_SCHEMA_VERSION}.json`;
+
+/**
+ * A single path segment (not "." or ".."): blueprint IDs and task files name folders and files
+ */
+export const PLAIN_NAME_PATTERN = '^(?!\\.\\.?$)[^/\\\\\\u0000]+$';
+
+const plainName = {
+  type: 'string',
+  pattern: PLAIN_NAME_PATTERN
+};
+
+const stringArray = {
+  type: 'array',
+  items: { type: 'string' }
+};
+
+// A semantic version ("1.2.0"), or a whole number read as a major version
+const versionSchema = {
+  type: ['integer', 'string'],
+  minimum: 0,
+  pattern: VERSION_PATTERN
+};
+
+const fileOperationSchema = {
+  type: 'object',
+  properties: {
+    type: { enum: FILE_OPERATION_TYPES, description: 'What the operation does' },
+    source: { type: 'string', description: 'Template, source path (file, directory or glob), or patch file' },
+    destination: { type: 'string', minLength: 1, description: 'Output path relative to the target (may use {{config}} variables)' },
+    content: { type: 'string', description: 'Inline template instead of source' },
+    marker: { type: 'string', minLength: 1, description: 'insert-at-marker: text identifying the line to insert next to' },
+    position: { enum: ['before', 'after'], description: 'insert-at-marker: where the snippet goes (default: after)' },
+    variables: { ...stringArray, description: 'Variables for templating; ["contentType"] renders once per content type' },
+    each: { type: 'string', description: 'Run once per item of a config array, e.g. "contentTypes[*].fields"' },
+    as: { type: 'string', pattern: '^[A-Za-z_$][\\w$]*$', description: 'each: variable holding the item (default: item)' },
+    indexAs: { type: 'string', pattern: '^[A-Za-z_$][\\w$]*$', description: 'each: variable holding the index (default: index)' },
+    parentAs: { type: 'string', pattern: '^[A-Za-z_$][\\w$]*$', description: 'each: variable holding the parent (default: parent)' },
+    when: { type: 'string', description: 'Config expression; the operation is skipped when false' },
+    include: { ...stringArray, description: 'Directory/glob sources: only files matching these globs' },
+    exclude: { ...stringArray, description: 'Directory/glob sources: skip files matching these globs' },
+    templatePattern: { type: 'string', description: 'template with a directory/glob source: files to render (default "*.hbs")' },
+    kits: { ...stringArray, description: 'generate: kits in the target\'s .bluekit/kits given to the model as reference' },
+    onConflict: { enum: CONFLICT_POLICIES, description: 'Policy when the destination exists with different content' }
+  },
+  required: ['type', 'destination'],
+  additionalProperties: false,
+  allOf: [
+    {
+      if: { properties: { type: { enum: ['copy', 'patch'] } } },
+      then: { required: ['source'] }
+    },
+    {
+      if: { properties: { type: { const: 'insert-at-marker' } } },
+      then: { required: ['marker'] }
+    },
+    {
+      if: { properties: { type: { enum: ['template', 'append', 'insert-at-marker', 'json-merge'] } } },
+      then: { oneOf: [{ required: ['source'] }, { required: ['content'] }] }
+    }
+  ]
+};
+
+const taskCheckSchema = {
+  type: 'object',
+  properties: {
+    type: { enum: TASK_CHECK_TYPES, description: 'What the check verifies' },
+    path: { type: 'string', minLength: 1, description: 'File relative to the target (may use {{config}} variables)' },
+    pattern: { type: 'string', minLength: 1, description: 'file-contains: regular expression the file must match' },
+    jsonPath: { type: 'string', minLength: 1, description: 'json-path: path in the JSON/YAML file, e.g. "scripts.build"' },
+    equals: { description: 'json-path: expected value (default: any value other than null)' },
+    command: { type: 'string', minLength: 1, description: 'command: shell command run in the target; passes when it exits 0' },
+    timeout: { type: 'number', exclusiveMinimum: 0, description: 'command: milliseconds before the command is stopped (default 60000)' },
+    description: { type: 'string', description: 'Shown in reports instead of the generated label' }
+  },
+  required: ['type'],
+  additionalProperties: false,
+  allOf: [
+    {
+      if: { properties: { type: { enum: ['file-exists', 'file-contains', 'json-path'] } } },
+      then: { required: ['path'] }
+    },
+    {
+      if: { properties: { type: { const: 'file-contains' } } },
+      then: { required: ['pattern'] }
+    },
+    {
+      if: { properties: { type: { const: 'json-path' } } },
+      then: { required: ['jsonPath'] }
+    },
+    {
+      if: { properties: { type: { const: 'command' } } },
+      then: { required: ['command'] }
+    }
+  ]
+};
+
+const taskSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', minLength: 1, description: 'Task identifier (e.g. \'task-db\')' },
+    taskFile: { ...plainName, description: 'Task file name in the blueprint folder (e.g. \'database-setup.md\')' },
+    description: { type: 'string', minLength: 1, description: 'What this task does' },
+    operations: { type: 'array', items: fileOperationSchema, description: 'File operations run when the blueprint executes' },
+    checks: { type: 'array', items: taskCheckSchema, description: 'Acceptance checks run by bluekit_blueprint_verify' },
+    when: { type: 'string', description: 'Config expression; the task is skipped when false' },
+    dependsOn: { ...stringArray, description: 'IDs of tasks that must complete first' },
+    provides: { ...stringArray, description: 'Capability keys this task makes available' },
+    requires: { ...stringArray, description: 'Capability keys provided by earlier tasks' }
+  },
+  required: ['id', 'taskFile', 'description'],
+  additionalProperties: false
+};
+
+const configTransformSchema = {
+  type: 'object',
+  properties: {
+    op: { enum: CONFIG_TRANSFORM_OPS, description: 'What the transform does to the config' },
+    path: { type: 'string', minLength: 1, description: 'Config path, e.g. "database.url" or "contentTypes[*].fields"' },
+    to: { type: 'string', minLength: 1, description: 'rename: the new key name; move: the destination path' },
+    value: { description: 'set/default: the value to write' }
+  },
+  required: ['op', 'path'],
+  additionalProperties: false,
+  allOf: [
+    {
+      if: { properties: { op: { enum: ['set', 'default'] } } },
+      then: { required: ['value'] }
+    },
+    {
+      if: { properties: { op: { enum: ['rename', 'move'] } } },
+      then: { required: ['to'] }
+    }
+  ]
+};
+
+const migrationSchema = {
+  type: 'object',
+  properties: {
+    version: { ...versionSchema, description: 'Blueprint version the migration upgrades configs to' },
+    description: { type: 'string', description: 'What changed in the config, shown when upgrading' },
+    transforms: { type: 'array', minItems: 1, items: configTransformSchema, description: 'Config changes, applied in order' }
+  },
+  required: ['version', 'transforms'],
+  additionalProperties: false
+};
+
+const layerSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', minLength: 1, description: 'Layer identifier (e.g. \'layer-1\')' },
+    order: { type: 'number', description: 'Execution order (1, 2, 3, ...)' },
+    name: { type: 'string', minLength: 1, description: 'Layer name (e.g. \'Foundation\')' },
+    classification: { enum: ['foundation', 'domain', 'integration', 'configuration'] },
+    tasks: { type: 'array', items: taskSchema },
+    remove: { ...stringArray, description: 'Parent task IDs to drop when overriding an inherited layer' },
+    when: { type: 'string', description: 'Config expression; the whole layer is skipped when false' }
+  },
+  required: ['id', 'order', 'name', 'tasks'],
+  additionalProperties: false
+};
+
+/**
+ * JSON Schema for blueprint.json (BlueprintMetadata)
+ */
+export const BlueprintSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: BLUEPRINT_SCHEMA_URI,
+  title: 'BlueKit blueprint',
+  type: 'object',
+  properties: {
+    $schema: { type: 'string', description: 'URI of this schema, for editors' },
+    id: { ...plainName, description: 'Unique identifier (e.g. \'payment-system-v1\')' },
+    name: { type: 'string', minLength: 1, description: 'Display name' },
+    version: { ...versionSchema, description: 'Semantic version (e.g. "1.2.0"); a whole number is a major version' },
+    description: { type: 'string', minLength: 1, description: 'What this blueprint does' },
+    createdAt: { type: 'string', description: 'ISO timestamp of creation (added when missing)' },
+    layers: { type: 'array', items: layerSchema },
+    extends: { type: 'string', minLength: 1, description: 'Parent blueprint ID' },
+    sourceReference: {
+      type: 'object',
+      properties: {
+        type: { enum: ['local', 'global', 'git'] },
+        path: { type: 'string', description: 'Local path or global registry ID' },
+        gitUrl: { type: 'string', description: 'Git repository' },
+        gitRef: { type: 'string', description: 'Branch, tag or commit' },
+        preservePaths: { ...stringArray, description: 'Files and directories to copy verbatim' }
+      },
+      required: ['type'],
+      additionalProperties: false,
+      allOf: [
+        {
+          if: { properties: { type: { const: 'git' } } },
+          then: { required: ['gitUrl'] },
+          else: { required: ['path'] }
+        }
+      ]
+    },
+    disabledRules: { ...stringArray, description: 'Layer analysis rule IDs to skip' },
+    helperPacks: { type: 'array', items: { enum: HELPER_PACK_NAMES }, description: 'Template helper packs to enable' },
+    strictTemplates: { type: 'boolean', description: 'Fail on undefined template variables' },
+    migrations: { type: 'array', items: migrationSchema, description: 'Config migrations from earlier versions, run by bluekit_blueprint_upgrade' },
+    configSchema: {
+      type: 'object',
+      description: 'JSON Schema the application config must match',
+      properties: {
+        type: { const: 'object' },
+        properties: { type: 'object' },
+        required: stringArray
+      },
+      required: ['type', 'properties']
+    }
+  },
+  required: ['id', 'name', 'version', 'description', 'layers'],
+  additionalProperties: false
+};
+
+/**
+ * JSON Schema for the YAML front matter of task files
+ */
+export const TaskFrontMatterSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: TASK_FRONT_MATTER_SCHEMA_URI,
+  title: 'BlueKit task front matter',
+  type: 'object',
+  properties: {
+    id: { type: 'string', minLength: 1, description: 'Task identifier, derived from the file name' },
+    type: { const: 'task', description: 'Distinguishes tasks from reusable kits' },
+    version: versionSchema,
+    blueprint: { type: 'string', description: 'ID of the blueprint the task belongs to' },
+    blueprint_name: { type: 'string' },
+    layer: { type: 'number', description: 'Order of the layer the task belongs to' },
+    layer_name: { type: 'string' }
+  },
+  required: ['type'],
+  additionalProperties: true
+};
+
+/**
+ * Schemas served as MCP resources
+ */
+export const SCHEMA_RESOURCES = [
+  {
+    uri: BLUEPRINT_SCHEMA_URI,
+    name: `Blueprint Schema v${BLUEPRINT_SCHEMA_VERSION}`,
+    description: 'JSON Schema for blueprint.json',
+    schema: BlueprintSchema
+  },
+  {
+    uri: TASK_FRONT_MATTER_SCHEMA_URI,
+    name: `Task Front Matter Schema v${BLUEPRINT_SCHEMA_VERSION}`,
+    description: 'JSON Schema for the YAML front matter of blueprint task files',
+    schema: TaskFrontMatterSchema
+  }
+];
@@ -3,10 +3,14 @@ import * as path from 'path';
 import * as yaml from 'js-yaml';
 import { ToolDefinition, ToolHandler, Agent } from '../types.js';
 import { BaseToolSet } from './BaseToolSet.js';
+import { PathSafety } from './PathSafety.js';
 
 export class AgentTools extends BaseToolSet {
+  private pathSafety: PathSafety;
+
   constructor() {
     super();
+    this.pathSafety = new PathSafety();
   }
 
   protected createToolDefinitions(): ToolDefinition[] {
@@ -158,6 +162,7 @@ Project path: ${projectPath}
     if (!projectPath || typeof projectPath !== 'string') {
       throw new Error('projectPath is required and must be a string');
     }
+    this.pathSafety.assertSafeName(name, 'name');
 
     // Ensure we have an absolute path
     let resolvedProjectPath: string;
@@ -169,6 +174,8 @@ Project path: ${projectPath}
     
     const bluekitDir = path.join(resolvedProjectPath, '.bluekit');
     const agentsDir = path.join(bluekitDir, 'agents');
+    const agentPath = path.join(agentsDir, `${name}.md`);
+    this.pathSafety.assertWithin(resolvedProjectPath, agentPath, 'Agent file');
 
     try {
       if (!fs.existsSync(agentsDir)) {
@@ -178,7 +185,6 @@ Project path: ${projectPath}
       // Ensure content has YAML front matter with type: agent
       const contentWithFrontMatter = this.ensureFinalNewline(this.ensureYamlFrontMatter(content, name));
 
-      const agentPath = path.join(agentsDir, `${name}.md`);
       fs.writeFileSync(agentPath, contentWithFrontMatter, 'utf8');
 
       // Check for empty tags, description, or capabilities and provide warnings
@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { AppConfig } from './FileOperations.js';
+
+export interface AppliedFile {
+  hash: string;        // sha256 of the rendered content
+  content?: string;    // Rendered content, kept as the merge base for reapply (text files only)
+  binary?: boolean;
+}
+
+export interface AppliedManifest {
+  blueprintId: string;
+  blueprintName: string;
+  blueprintVersion: number | string;
+  config: AppConfig;
+  appliedAt: string;
+  updatedAt: string;
+  runId?: string;                       // Run that last applied the blueprint (absent after reapply)
+  files: Record<string, AppliedFile>;   // Path relative to the target -> rendered file
+}
+
+/**
+ * Persists what a blueprint generated in a project, so it can later be
+ * re-applied with a 3-way merge against the user's edits.
+ *
+ * Stored at {targetPath}/.bluekit/applied/{blueprintId}.json
+ */
+export class AppliedManifestStore {
+  /**
+   * Get the manifest path for a blueprint in a target project
+   */
+  getPath(targetPath: string, blueprintId: string): string {
+    return path.join(targetPath, '.bluekit', 'applied', `${blueprintId}.json`);
+  }
+
+  /**
+   * Load the manifest for a blueprint, or null if it was never applied
+   */
+  load(targetPath: string, blueprintId: string): AppliedManifest | null {
+    const manifestPath = this.getPath(targetPath, blueprintId);
+
+    if (!fs.existsSync(manifestPath)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as AppliedManifest;
+    } catch (error) {
+      throw new Error(`Failed to read applied manifest for "${blueprintId}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Write a manifest to disk, updating its updatedAt timestamp
+   */
+  save(targetPath: string, manifest: AppliedManifest): void {
+    const manifestPath = this.getPath(targetPath, manifest.blueprintId);
+    fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+
+    manifest.updatedAt = new Date().toISOString();
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n', 'utf8');
+  }
+
+  /**
+   * Describe rendered content for the manifest
+   */
+  describeContent(content: Buffer): AppliedFile {
+    const hash = crypto.createHash('sha256').update(content).digest('hex');
+    if (this.isBinary(content)) {
+      return { hash, binary: true };
+    }
+    return { hash, content: content.toString('utf-8') };
+  }
+
+  private isBinary(content: Buffer): boolean {
+    return content.subarray(0, 8000).includes(0);
+  }
+}
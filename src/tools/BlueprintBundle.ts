@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { BlueprintMetadata } from '../types.js';
+import { TarArchive } from './TarArchive.js';
+import { VERSIONS_DIR } from './BlueprintHistory.js';
+
+// Bumped whenever the bundle layout changes incompatibly
+export const BUNDLE_FORMAT = 1;
+
+const MANIFEST_FILE = 'bundle.json';
+
+// Blueprint files are stored under this folder, so they cannot clash with the manifest
+const FILES_DIR = 'blueprint';
+
+// Entries of a blueprint folder that are not exported (archived versions, execution runs)
+const NOT_EXPORTED = [VERSIONS_DIR, 'runs'];
+
+export interface BundleManifest {
+  format: number;
+  blueprintId: string;
+  blueprintName: string;
+  blueprintVersion: number | string;
+  exportedAt: string;
+  files: Record<string, string>;  // Path relative to the blueprint folder -> sha256
+}
+
+export interface UnpackedBundle {
+  manifest: BundleManifest;
+  blueprint: BlueprintMetadata;
+  files: Map<string, Buffer>;  // Path relative to the blueprint folder -> content (hashes verified)
+}
+
+/**
+ * Packs a blueprint folder into a single .tar.gz that can be shared without
+ * a shared filesystem: blueprint.json, task files, templates, partials and
+ * preserved paths, plus a bundle.json manifest with a sha256 per file.
+ *
+ * Unpacking verifies the manifest before anything is written: every file
+ * must be listed, present and match its hash, and every path must stay
+ * inside the blueprint folder.
+ */
+export class BlueprintBundle {
+  constructor(private tarArchive: TarArchive) {}
+
+  /**
+   * Pack a blueprint folder
+   * @returns The archive and its manifest
+   */
+  pack(blueprintFolder: string, blueprint: BlueprintMetadata): { archive: Buffer; manifest: BundleManifest } {
+    const files = this.listFiles(blueprintFolder);
+    const manifest: BundleManifest = {
+      format: BUNDLE_FORMAT,
+      blueprintId: blueprint.id,
+      blueprintName: blueprint.name,
+      blueprintVersion: blueprint.version,
+      exportedAt: new Date().toISOString(),
+      files: {}
+    };
+
+    const entries = files.map(file => {
+      const content = fs.readFileSync(path.join(blueprintFolder, file));
+      manifest.files[file] = this.hash(content);
+      return { path: `${FILES_DIR}/${file}`, content };
+    });
+    entries.unshift({ path: MANIFEST_FILE, content: Buffer.from(`${JSON.stringify(manifest, null, 2)}\n`, 'utf-8') });
+
+    return { archive: this.tarArchive.pack(entries), manifest };
+  }
+
+  /**
+   * Read and verify a bundle
+   * @throws If the bundle is not a blueprint bundle or fails verification
+   */
+  unpack(archive: Buffer): UnpackedBundle {
+    let entries;
+    try {
+      entries = this.tarArchive.unpack(archive);
+    } catch (error) {
+      throw new Error(`Not a valid .tar.gz archive: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const manifestEntry = entries.find(entry => entry.path === MANIFEST_FILE);
+    if (!manifestEntry) {
+      throw new Error(`Not a blueprint bundle: ${MANIFEST_FILE} is missing`);
+    }
+    let manifest: BundleManifest;
+    try {
+      manifest = JSON.parse(manifestEntry.content.toString('utf-8')) as BundleManifest;
+    } catch (error) {
+      throw new Error(`${MANIFEST_FILE} does not parse: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    if (manifest.format !== BUNDLE_FORMAT) {
+      throw new Error(`Unsupported bundle format ${JSON.stringify(manifest.format)} (expected ${BUNDLE_FORMAT})`);
+    }
+    if (!manifest.files || typeof manifest.files !== 'object') {
+      throw new Error(`${MANIFEST_FILE} has no file list`);
+    }
+
+    const problems: string[] = [];
+    const files = new Map<string, Buffer>();
+    for (const entry of entries) {
+      if (entry.path === MANIFEST_FILE) {
+        continue;
+      }
+      const file = entry.path.startsWith(`${FILES_DIR}/`) ? entry.path.slice(FILES_DIR.length + 1) : null;
+      if (file === null || !this.isSafePath(file)) {
+        problems.push(`${entry.path}: unsafe or unexpected path`);
+      } else if (!Object.prototype.hasOwnProperty.call(manifest.files, file)) {
+        problems.push(`${file}: not listed in ${MANIFEST_FILE}`);
+      } else if (this.hash(entry.content) !== manifest.files[file]) {
+        problems.push(`${file}: content does not match its sha256`);
+      } else {
+        files.set(file, entry.content);
+      }
+    }
+    for (const file of Object.keys(manifest.files)) {
+      if (!files.has(file) && !problems.some(problem => problem.startsWith(`${file}:`))) {
+        problems.push(`${file}: listed in ${MANIFEST_FILE} but missing from the archive`);
+      }
+    }
+    if (problems.length > 0) {
+      throw new Error(`Bundle verification failed:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    }
+
+    const blueprintJson = files.get('blueprint.json');
+    if (!blueprintJson) {
+      throw new Error('Bundle has no blueprint.json');
+    }
+    let blueprint: BlueprintMetadata;
+    try {
+      blueprint = JSON.parse(blueprintJson.toString('utf-8')) as BlueprintMetadata;
+    } catch (error) {
+      throw new Error(`blueprint.json does not parse: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    if (blueprint.id !== manifest.blueprintId) {
+      throw new Error(`blueprint.json has id "${blueprint.id}" but ${MANIFEST_FILE} says "${manifest.blueprintId}"`);
+    }
+
+    return { manifest, blueprint, files };
+  }
+
+  /**
+   * Files of a blueprint folder to export, relative and POSIX-style. Symlinks are not followed.
+   */
+  private listFiles(blueprintFolder: string, relative = ''): string[] {
+    const files: string[] = [];
+    for (const dirent of fs.readdirSync(path.join(blueprintFolder, relative), { withFileTypes: true })) {
+      const file = relative ? `${relative}/${dirent.name}` : dirent.name;
+      if (!relative && NOT_EXPORTED.includes(dirent.name)) {
+        continue;
+      }
+      if (dirent.isDirectory()) {
+        files.push(...this.listFiles(blueprintFolder, file));
+      } else if (dirent.isFile()) {
+        files.push(file);
+      }
+    }
+    return files.sort();
+  }
+
+  /**
+   * Whether a bundle path stays inside the blueprint folder
+   */
+  private isSafePath(file: string): boolean {
+    const segments = file.split('/');
+    return file !== '' && !file.includes('\\') && !file.includes('\0') && !path.posix.isAbsolute(file) &&
+      segments.every(segment => segment !== '' && segment !== '.' && segment !== '..') &&
+      !NOT_EXPORTED.includes(segments[0]);
+  }
+
+  private hash(content: Buffer): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+}
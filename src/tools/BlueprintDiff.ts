@@ -0,0 +1,319 @@
+import { BlueprintLayer, BlueprintMetadata, BlueprintTask, FileOperation } from '../types.js';
+import { TextDiff } from './TextDiff.js';
+
+/**
+ * One side of a comparison: a blueprint and the task files it references
+ */
+export interface DiffSide {
+  label: string;                     // e.g. "payments@1.0.0" or a folder path
+  blueprint: BlueprintMetadata;
+  taskFiles: Record<string, string>; // taskFile -> markdown (missing files are absent)
+}
+
+export interface ValueChange {
+  field: string;
+  left: unknown;
+  right: unknown;
+}
+
+export interface LayerRef {
+  id: string;
+  name: string;
+  order: number;
+}
+
+export interface TaskRef {
+  id: string;
+  layerId: string;
+}
+
+export interface OperationChange {
+  taskId: string;
+  change: 'added' | 'removed' | 'modified';
+  key: string;              // "<type> <destination>", how operations are matched
+  left?: FileOperation;
+  right?: FileOperation;
+}
+
+export interface TaskFileChange {
+  taskId: string;
+  status: 'added' | 'removed' | 'modified';
+  leftFile?: string;
+  rightFile?: string;
+  diff?: string;            // Unified diff (modified only)
+}
+
+export interface BlueprintDiffResult {
+  left: string;
+  right: string;
+  identical: boolean;
+  metadata: ValueChange[];  // Top-level fields other than layers and configSchema
+  layers: {
+    added: LayerRef[];
+    removed: LayerRef[];
+    reordered: Array<{ id: string; from: number; to: number }>;
+    changed: Array<{ id: string; changes: ValueChange[] }>;  // name, classification, when
+  };
+  tasks: {
+    added: TaskRef[];
+    removed: TaskRef[];
+    moved: Array<{ id: string; from: string; to: string }>;  // Layer IDs
+    changed: Array<{ id: string; changes: ValueChange[] }>;  // Fields other than operations
+  };
+  operations: OperationChange[];
+  configSchema: {
+    added: string[];        // Dotted property paths, e.g. "database.url"
+    removed: string[];
+    changed: ValueChange[];
+    required: { added: string[]; removed: string[] };
+  };
+  taskFiles: TaskFileChange[];
+}
+
+// Top-level fields compared as plain values
+const METADATA_FIELDS: Array<keyof BlueprintMetadata> = [
+  'name', 'version', 'description', 'extends', 'sourceReference', 'disabledRules', 'helperPacks', 'strictTemplates', 'migrations'
+];
+
+const LAYER_FIELDS: Array<keyof BlueprintLayer> = ['name', 'classification', 'when'];
+
+const TASK_FIELDS: Array<keyof BlueprintTask> = ['taskFile', 'description', 'when', 'dependsOn', 'provides', 'requires', 'checks'];
+
+/**
+ * Compares two blueprints structurally - e.g. two forks of the same
+ * blueprint, or two versions of one.
+ *
+ * Layers and tasks are matched by ID, so a task that changed layer is
+ * reported as moved rather than removed and added. Operations have no ID
+ * and are matched by type and destination within their task.
+ */
+export class BlueprintDiff {
+  constructor(private textDiff: TextDiff) {}
+
+  compare(left: DiffSide, right: DiffSide): BlueprintDiffResult {
+    const result: BlueprintDiffResult = {
+      left: left.label,
+      right: right.label,
+      identical: true,
+      metadata: this.changedFields(left.blueprint, right.blueprint, METADATA_FIELDS),
+      layers: { added: [], removed: [], reordered: [], changed: [] },
+      tasks: { added: [], removed: [], moved: [], changed: [] },
+      operations: [],
+      configSchema: { added: [], removed: [], changed: [], required: { added: [], removed: [] } },
+      taskFiles: []
+    };
+
+    this.compareLayers(left.blueprint.layers || [], right.blueprint.layers || [], result);
+    this.compareTasks(left, right, result);
+    this.compareConfigSchema(left.blueprint.configSchema, right.blueprint.configSchema, result);
+
+    result.identical = result.metadata.length === 0 &&
+      Object.values(result.layers).every(list => list.length === 0) &&
+      Object.values(result.tasks).every(list => list.length === 0) &&
+      result.operations.length === 0 &&
+      result.configSchema.added.length === 0 && result.configSchema.removed.length === 0 &&
+      result.configSchema.changed.length === 0 &&
+      result.configSchema.required.added.length === 0 && result.configSchema.required.removed.length === 0 &&
+      result.taskFiles.length === 0;
+    return result;
+  }
+
+  private compareLayers(left: BlueprintLayer[], right: BlueprintLayer[], result: BlueprintDiffResult): void {
+    const ref = (layer: BlueprintLayer): LayerRef => ({ id: layer.id, name: layer.name, order: layer.order });
+    const rightById = new Map(right.map(layer => [layer.id, layer]));
+    const leftById = new Map(left.map(layer => [layer.id, layer]));
+
+    for (const layer of left) {
+      const other = rightById.get(layer.id);
+      if (!other) {
+        result.layers.removed.push(ref(layer));
+        continue;
+      }
+      const changes = this.changedFields(layer, other, LAYER_FIELDS);
+      if (changes.length > 0) {
+        result.layers.changed.push({ id: layer.id, changes });
+      }
+    }
+    result.layers.added.push(...right.filter(layer => !leftById.has(layer.id)).map(ref));
+
+    // Reordered: the relative order of the layers both sides share changed,
+    // not just their numbers (adding a layer in front renumbers the rest)
+    const rank = (layers: BlueprintLayer[]) => new Map(
+      [...layers]
+        .filter(layer => leftById.has(layer.id) && rightById.has(layer.id))
+        .sort((a, b) => a.order - b.order)
+        .map((layer, index) => [layer.id, index])
+    );
+    const leftRank = rank(left);
+    const rightRank = rank(right);
+    for (const [id, position] of leftRank) {
+      if (rightRank.get(id) !== position) {
+        result.layers.reordered.push({ id, from: leftById.get(id)!.order, to: rightById.get(id)!.order });
+      }
+    }
+  }
+
+  private compareTasks(left: DiffSide, right: DiffSide, result: BlueprintDiffResult): void {
+    const leftTasks = this.tasksById(left.blueprint);
+    const rightTasks = this.tasksById(right.blueprint);
+
+    for (const [id, { task, layerId }] of leftTasks) {
+      const other = rightTasks.get(id);
+      if (!other) {
+        result.tasks.removed.push({ id, layerId });
+        if (left.taskFiles[task.taskFile] !== undefined) {
+          result.taskFiles.push({ taskId: id, status: 'removed', leftFile: task.taskFile });
+        }
+        continue;
+      }
+
+      if (other.layerId !== layerId) {
+        result.tasks.moved.push({ id, from: layerId, to: other.layerId });
+      }
+      const changes = this.changedFields(task, other.task, TASK_FIELDS);
+      if (changes.length > 0) {
+        result.tasks.changed.push({ id, changes });
+      }
+      result.operations.push(...this.compareOperations(id, task.operations || [], other.task.operations || []));
+
+      const leftMarkdown = left.taskFiles[task.taskFile];
+      const rightMarkdown = right.taskFiles[other.task.taskFile];
+      if (leftMarkdown === undefined && rightMarkdown !== undefined) {
+        result.taskFiles.push({ taskId: id, status: 'added', rightFile: other.task.taskFile });
+      } else if (leftMarkdown !== undefined && rightMarkdown === undefined) {
+        result.taskFiles.push({ taskId: id, status: 'removed', leftFile: task.taskFile });
+      } else if (leftMarkdown !== undefined && rightMarkdown !== undefined && leftMarkdown !== rightMarkdown) {
+        const diff = this.textDiff.unified(leftMarkdown, rightMarkdown, other.task.taskFile)
+          .replace(/^--- a\/.*$/m, `--- a/${task.taskFile}`);
+        result.taskFiles.push({ taskId: id, status: 'modified', leftFile: task.taskFile, rightFile: other.task.taskFile, diff });
+      }
+    }
+
+    for (const [id, { task, layerId }] of rightTasks) {
+      if (!leftTasks.has(id)) {
+        result.tasks.added.push({ id, layerId });
+        if (right.taskFiles[task.taskFile] !== undefined) {
+          result.taskFiles.push({ taskId: id, status: 'added', rightFile: task.taskFile });
+        }
+      }
+    }
+  }
+
+  /**
+   * Match operations by "<type> <destination>" (in order, for repeated keys)
+   */
+  private compareOperations(taskId: string, left: FileOperation[], right: FileOperation[]): OperationChange[] {
+    const changes: OperationChange[] = [];
+    const key = (operation: FileOperation) => `${operation.type} ${operation.destination}`;
+    const unmatched = [...right];
+
+    for (const operation of left) {
+      const index = unmatched.findIndex(other => key(other) === key(operation));
+      if (index === -1) {
+        changes.push({ taskId, change: 'removed', key: key(operation), left: operation });
+        continue;
+      }
+      const [other] = unmatched.splice(index, 1);
+      if (!this.equal(operation, other)) {
+        changes.push({ taskId, change: 'modified', key: key(operation), left: operation, right: other });
+      }
+    }
+    changes.push(...unmatched.map(operation => ({ taskId, change: 'added' as const, key: key(operation), right: operation })));
+    return changes;
+  }
+
+  private compareConfigSchema(
+    left: BlueprintMetadata['configSchema'],
+    right: BlueprintMetadata['configSchema'],
+    result: BlueprintDiffResult
+  ): void {
+    const leftProperties = this.flattenProperties(left);
+    const rightProperties = this.flattenProperties(right);
+
+    for (const [property, schema] of leftProperties) {
+      if (!rightProperties.has(property)) {
+        result.configSchema.removed.push(property);
+      } else if (!this.equal(schema, rightProperties.get(property))) {
+        result.configSchema.changed.push({ field: property, left: schema, right: rightProperties.get(property) });
+      }
+    }
+    result.configSchema.added.push(...[...rightProperties.keys()].filter(property => !leftProperties.has(property)));
+
+    const leftRequired = this.flattenRequired(left);
+    const rightRequired = this.flattenRequired(right);
+    result.configSchema.required.added.push(...[...rightRequired].filter(property => !leftRequired.has(property)));
+    result.configSchema.required.removed.push(...[...leftRequired].filter(property => !rightRequired.has(property)));
+  }
+
+  /**
+   * Property schemas by dotted path; nested object properties are listed
+   * separately, so a change is reported on the deepest property it touches
+   */
+  private flattenProperties(schema: any, prefix = '', flattened = new Map<string, unknown>()): Map<string, unknown> {
+    if (!schema || typeof schema !== 'object' || !schema.properties || typeof schema.properties !== 'object') {
+      return flattened;
+    }
+    for (const [name, property] of Object.entries<any>(schema.properties)) {
+      const propertyPath = prefix ? `${prefix}.${name}` : name;
+      if (property && typeof property === 'object') {
+        const { properties, required, ...rest } = property;
+        flattened.set(propertyPath, rest);
+        this.flattenProperties(property, propertyPath, flattened);
+      } else {
+        flattened.set(propertyPath, property);
+      }
+    }
+    return flattened;
+  }
+
+  /**
+   * Required properties by dotted path, at every level
+   */
+  private flattenRequired(schema: any, prefix = '', required = new Set<string>()): Set<string> {
+    if (!schema || typeof schema !== 'object') {
+      return required;
+    }
+    for (const name of Array.isArray(schema.required) ? schema.required : []) {
+      required.add(prefix ? `${prefix}.${name}` : name);
+    }
+    for (const [name, property] of Object.entries<any>(schema.properties || {})) {
+      this.flattenRequired(property, prefix ? `${prefix}.${name}` : name, required);
+    }
+    return required;
+  }
+
+  private tasksById(blueprint: BlueprintMetadata): Map<string, { task: BlueprintTask; layerId: string }> {
+    const tasks = new Map<string, { task: BlueprintTask; layerId: string }>();
+    for (const layer of blueprint.layers || []) {
+      for (const task of layer.tasks || []) {
+        tasks.set(task.id, { task, layerId: layer.id });
+      }
+    }
+    return tasks;
+  }
+
+  private changedFields<T extends object>(left: T, right: T, fields: Array<keyof T>): ValueChange[] {
+    return fields
+      .filter(field => !this.equal(left[field], right[field]))
+      .map(field => ({ field: String(field), left: left[field], right: right[field] }));
+  }
+
+  /**
+   * Deep equality of JSON values (object key order does not matter)
+   */
+  private equal(left: unknown, right: unknown): boolean {
+    return JSON.stringify(this.canonical(left)) === JSON.stringify(this.canonical(right));
+  }
+
+  private canonical(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.canonical(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.keys(value).sort().map(key => [key, this.canonical((value as Record<string, unknown>)[key])])
+      );
+    }
+    return value;
+  }
+}
@@ -0,0 +1,399 @@
+import { BlueprintMetadata, ConflictPolicy } from '../types.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileOperationsExecutor, AppConfig, PlannedWrite } from './FileOperations.js';
+import { ExecutionStateStore, ExecutionRun, LayerState, TaskState } from './ExecutionStateStore.js';
+import { ExecutionJournal } from './ExecutionJournal.js';
+import { ChangePreview, FileChange } from './ChangePreview.js';
+import { TextDiff } from './TextDiff.js';
+import { StructuredMerge } from './StructuredMerge.js';
+import { AppliedManifestStore, AppliedManifest } from './AppliedManifestStore.js';
+import { ConfigExpression } from './ConfigExpression.js';
+
+export interface DryRunResult {
+  changes: FileChange[];
+  errors: string[];   // Operations that could not be planned (e.g., missing templates)
+  skipped: string[];  // Layers, tasks and operations whose `when` is false
+}
+
+export interface BlueprintPlan {
+  writes: Array<{ write: PlannedWrite; origin: string }>;  // In execution order
+  errors: string[];   // Operations that could not be planned (e.g., missing templates)
+  skipped: string[];  // Layers, tasks and operations whose `when` is false
+}
+
+/**
+ * Runs a blueprint's task file operations layer by layer.
+ * Layers execute in `order`; a failed task stops all later layers.
+ * Progress is persisted after every step so runs can be paused and resumed,
+ * and every write is journaled so runs can be rolled back.
+ */
+export class BlueprintExecutor {
+  constructor(
+    private fileOpsExecutor: FileOperationsExecutor,
+    private stateStore: ExecutionStateStore,
+    private journal: ExecutionJournal,
+    private textDiff: TextDiff,
+    private structuredMerge: StructuredMerge,
+    private manifestStore: AppliedManifestStore,
+    private configExpression: ConfigExpression
+  ) {}
+
+  /**
+   * Work out every file change a run would make, without writing anything or
+   * persisting a run. Takes the same arguments as createRun.
+   */
+  async preview(
+    blueprint: BlueprintMetadata,
+    blueprintFolder: string,
+    targetPath: string,
+    config: AppConfig,
+    taskFolders: Record<string, string> = {},
+    onConflict?: ConflictPolicy
+  ): Promise<DryRunResult> {
+    const preview = new ChangePreview(this.textDiff, this.structuredMerge);
+    const { writes, errors, skipped } = await this.plan(
+      blueprint, blueprintFolder, targetPath, config, taskFolders, onConflict
+    );
+
+    for (const { write, origin } of writes) {
+      preview.add(write, origin);
+    }
+
+    return { changes: preview.getChanges(), errors, skipped };
+  }
+
+  /**
+   * Plan every write a run would make, in execution order, without writing anything
+   */
+  async plan(
+    blueprint: BlueprintMetadata,
+    blueprintFolder: string,
+    targetPath: string,
+    config: AppConfig,
+    taskFolders: Record<string, string> = {},
+    onConflict?: ConflictPolicy
+  ): Promise<BlueprintPlan> {
+    const plan: BlueprintPlan = { writes: [], errors: [], skipped: [] };
+
+    // Records a skipped step; a `when` that cannot be evaluated is reported as an error
+    const isSkipped = (label: string, when: string | undefined): boolean => {
+      try {
+        const reason = this.skipReason(when, config);
+        if (reason) {
+          plan.skipped.push(`${label}: ${reason}`);
+        }
+        return Boolean(reason);
+      } catch (error) {
+        plan.errors.push(`${label}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        return true;
+      }
+    };
+
+    for (const layer of [...blueprint.layers].sort((a, b) => a.order - b.order)) {
+      if (isSkipped(`Layer ${layer.order} (${layer.id})`, layer.when)) {
+        continue;
+      }
+
+      for (const task of layer.tasks) {
+        const origin = `Layer ${layer.order} / ${task.id}`;
+        if (isSkipped(origin, task.when)) {
+          continue;
+        }
+
+        for (const [index, operation] of (task.operations || []).entries()) {
+          const label = `${origin}: operation ${index + 1} (${operation.type} -> ${operation.destination})`;
+          if (!operation.each && isSkipped(label, operation.when)) {
+            continue;
+          }
+
+          try {
+            const writes = await this.fileOpsExecutor.plan(
+              operation,
+              config,
+              taskFolders[task.id] || blueprintFolder,
+              targetPath,
+              onConflict,
+              { helperPacks: blueprint.helperPacks, strict: blueprint.strictTemplates },
+              task.taskFile
+            );
+            writes.forEach(write => plan.writes.push({ write, origin }));
+          } catch (error) {
+            plan.errors.push(`${label} would fail: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          }
+        }
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Create and persist a new pending run for a blueprint
+   * @param blueprint - Blueprint metadata (already merged with parents)
+   * @param blueprintFolder - Folder holding templates and preserved paths
+   * @param targetPath - Project directory that receives the generated files
+   * @param config - Application configuration (validated by the caller)
+   * @param taskFolders - Template folders of inherited tasks, by task ID
+   * @param onConflict - Run-wide conflict policy (operations may override it)
+   */
+  createRun(
+    blueprint: BlueprintMetadata,
+    blueprintFolder: string,
+    targetPath: string,
+    config: AppConfig,
+    taskFolders: Record<string, string> = {},
+    onConflict?: ConflictPolicy
+  ): ExecutionRun {
+    const now = new Date().toISOString();
+
+    // Steps whose `when` is false are created as skipped, along with everything inside them
+    const layers: LayerState[] = [...blueprint.layers]
+      .sort((a, b) => a.order - b.order)
+      .map(layer => {
+        const layerSkip = this.skipReason(layer.when, config, `Layer "${layer.id}"`);
+        return {
+          id: layer.id,
+          order: layer.order,
+          name: layer.name,
+          status: layerSkip ? 'skipped' : 'pending',
+          skipReason: layerSkip,
+          tasks: layer.tasks.map(task => {
+            const taskSkip = layerSkip ? undefined : this.skipReason(task.when, config, `Task "${task.id}"`);
+            return {
+              id: task.id,
+              taskFile: task.taskFile,
+              description: task.description,
+              blueprintFolder: taskFolders[task.id] || blueprintFolder,
+              status: layerSkip || taskSkip ? 'skipped' : 'pending',
+              skipReason: taskSkip,
+              operations: (task.operations || []).map((operation, index) => {
+                const opSkip = layerSkip || taskSkip || operation.each
+                  ? undefined
+                  : this.skipReason(operation.when, config, `Task "${task.id}" operation ${index + 1}`);
+                return {
+                  index,
+                  operation,
+                  status: layerSkip || taskSkip || opSkip ? 'skipped' : 'pending',
+                  skipReason: opSkip,
+                  files: []
+                };
+              })
+            };
+          })
+        };
+      });
+
+    const run: ExecutionRun = {
+      runId: this.stateStore.createRunId(),
+      blueprintId: blueprint.id,
+      blueprintName: blueprint.name,
+      blueprintVersion: blueprint.version,
+      blueprintFolder,
+      targetPath,
+      config,
+      onConflict,
+      helperPacks: blueprint.helperPacks,
+      strictTemplates: blueprint.strictTemplates,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+      layers
+    };
+
+    this.stateStore.save(run);
+    return run;
+  }
+
+  /**
+   * Run (or resume) every incomplete task in the run.
+   * Tasks and operations already marked done are skipped, so calling this
+   * on a paused or failed run continues from the first incomplete task.
+   * A pause request stops the run before its next operation.
+   */
+  async run(run: ExecutionRun): Promise<ExecutionRun> {
+    if (run.status === 'done') {
+      return run;
+    }
+
+    this.stateStore.clearPauseRequest(run);
+    run.status = 'running';
+    run.pid = process.pid;
+    run.startedAt = run.startedAt || new Date().toISOString();
+    run.finishedAt = undefined;
+    this.stateStore.save(run);
+
+    for (const layer of run.layers) {
+      if (layer.status === 'done' || layer.status === 'skipped') {
+        continue;
+      }
+
+      layer.status = 'running';
+      layer.startedAt = layer.startedAt || new Date().toISOString();
+      this.stateStore.save(run);
+
+      for (const task of layer.tasks) {
+        if (task.status === 'done' || task.status === 'skipped') {
+          continue;
+        }
+
+        if (this.pauseIfRequested(run, layer)) {
+          return run;
+        }
+
+        if (await this.runTask(run, layer, task) === 'paused') {
+          return run;
+        }
+      }
+
+      layer.finishedAt = new Date().toISOString();
+      layer.status = layer.tasks.some(t => t.status === 'failed') ? 'failed' : 'done';
+      this.stateStore.save(run);
+
+      // Later layers depend on this one - stop once any of its tasks failed
+      if (layer.status === 'failed') {
+        run.status = 'failed';
+        run.pid = undefined;
+        run.finishedAt = new Date().toISOString();
+        this.stateStore.save(run);
+        return run;
+      }
+    }
+
+    run.status = 'done';
+    run.pid = undefined;
+    run.finishedAt = new Date().toISOString();
+    this.stateStore.save(run);
+    this.recordManifest(run);
+    return run;
+  }
+
+  /**
+   * Pause the run if another tool call asked it to, leaving the current
+   * layer and task pending so a resume picks them up again
+   * @returns Whether the run paused
+   */
+  private pauseIfRequested(run: ExecutionRun, layer: LayerState, task?: TaskState): boolean {
+    if (!this.stateStore.isPauseRequested(run)) {
+      return false;
+    }
+    this.stateStore.clearPauseRequest(run);
+    run.status = 'paused';
+    run.pid = undefined;
+    layer.status = 'pending';
+    if (task) {
+      task.status = 'pending';
+    }
+    this.stateStore.save(run);
+    return true;
+  }
+
+  /**
+   * Why a step with a `when` expression is skipped for a config, or undefined if it runs
+   * @param label - Names the step in expression errors, e.g. 'Task "setup"'
+   */
+  private skipReason(when: string | undefined, config: AppConfig, label?: string): string | undefined {
+    if (when === undefined) {
+      return undefined;
+    }
+    try {
+      return this.configExpression.test(when, config) ? undefined : `when "${when}" is false`;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(label ? `${label} when: ${message}` : message);
+    }
+  }
+
+  /**
+   * Record what a completed run generated, as the base for later reapplies
+   */
+  private recordManifest(run: ExecutionRun): void {
+    const now = new Date().toISOString();
+    const manifest: AppliedManifest = {
+      blueprintId: run.blueprintId,
+      blueprintName: run.blueprintName,
+      blueprintVersion: run.blueprintVersion,
+      config: run.config,
+      appliedAt: now,
+      updatedAt: now,
+      runId: run.runId,
+      files: {}
+    };
+
+    for (const layer of run.layers) {
+      for (const task of layer.tasks) {
+        for (const op of task.operations) {
+          for (const file of op.files) {
+            const fullPath = path.join(run.targetPath, file);
+            if (fs.existsSync(fullPath) && fs.statSync(fullPath).isFile()) {
+              manifest.files[file] = this.manifestStore.describeContent(fs.readFileSync(fullPath));
+            }
+          }
+        }
+      }
+    }
+
+    // Journaled so that rolling back the run also restores the previous manifest
+    this.journal.recordRunWrite(run, this.manifestStore.getPath(run.targetPath, run.blueprintId));
+    this.manifestStore.save(run.targetPath, manifest);
+  }
+
+  /**
+   * Run a single task's incomplete operations in declaration order
+   * @returns 'paused' if a pause request stopped the task before it finished
+   */
+  private async runTask(run: ExecutionRun, layer: LayerState, task: TaskState): Promise<'paused' | void> {
+    task.status = 'running';
+    task.startedAt = new Date().toISOString();
+    task.finishedAt = undefined;
+    task.error = undefined;
+    this.stateStore.save(run);
+
+    for (const op of task.operations) {
+      if (op.status === 'done' || op.status === 'skipped') {
+        continue;
+      }
+      if (this.pauseIfRequested(run, layer, task)) {
+        return 'paused';
+      }
+
+      op.status = 'running';
+      op.startedAt = new Date().toISOString();
+      op.error = undefined;
+      this.stateStore.save(run);
+
+      try {
+        const result = await this.fileOpsExecutor.execute(
+          op.operation,
+          run.config,
+          task.blueprintFolder || run.blueprintFolder,
+          run.targetPath,
+          this.journal.recorderFor(run, layer.id, task.id, op.index),
+          run.onConflict,
+          { helperPacks: run.helperPacks, strict: run.strictTemplates },
+          task.taskFile
+        );
+        op.files = result.files;
+        op.conflicts = result.conflicts.length > 0 ? result.conflicts : undefined;
+        op.aiGenerated = result.aiGenerated.length > 0 ? result.aiGenerated : undefined;
+        op.placeholders = result.placeholders.length > 0 ? result.placeholders : undefined;
+        op.status = 'done';
+        op.finishedAt = new Date().toISOString();
+        this.stateStore.save(run);
+      } catch (error) {
+        op.status = 'failed';
+        op.finishedAt = new Date().toISOString();
+        op.error = error instanceof Error ? error.message : 'Unknown error';
+        task.status = 'failed';
+        task.finishedAt = op.finishedAt;
+        task.error = `Operation ${op.index + 1} (${op.operation.type} -> ${op.operation.destination}) failed: ${op.error}`;
+        this.stateStore.save(run);
+        return;
+      }
+    }
+
+    task.status = 'done';
+    task.finishedAt = new Date().toISOString();
+    this.stateStore.save(run);
+  }
+}
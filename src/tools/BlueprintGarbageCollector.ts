@@ -0,0 +1,173 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BlueprintMetadata } from '../types.js';
+
+export type BlueprintRegistry = Record<string, { projectPath: string; createdAt: string }>;
+
+/**
+ * dangling: a registry entry whose project or blueprint folder is gone;
+ * unparseable: a blueprint.json that is not valid JSON or not a blueprint;
+ * id-mismatch: a blueprint.json whose id is not its folder's name;
+ * duplicate: the same blueprint ID in several projects
+ */
+export type GcIssueKind = 'dangling' | 'unparseable' | 'id-mismatch' | 'duplicate';
+
+export interface GcIssue {
+  kind: GcIssueKind;
+  blueprintId: string;
+  folder: string;        // Blueprint folder concerned (for duplicates, the registered one when there is one)
+  detail: string;
+  unregister: boolean;   // Fixed by removing the registry entry; other issues need a person to decide
+}
+
+export interface GcReport {
+  scannedProjects: string[];
+  blueprintCount: number;  // Blueprint folders found in the scanned projects
+  issues: GcIssue[];
+}
+
+/**
+ * Finds what the global blueprint registry and project blueprint folders
+ * got wrong over time. Projects are scanned from the registry entries plus
+ * any projects the caller names.
+ *
+ * Only registry entries are ever fixed automatically (by unregistering
+ * them): blueprint folders are reported, never deleted.
+ */
+export class BlueprintGarbageCollector {
+  /**
+   * Check a registry and the blueprints of the scanned projects
+   * @param projectPaths - Extra projects to scan (absolute paths)
+   */
+  scan(registry: BlueprintRegistry, projectPaths: string[]): GcReport {
+    const issues: GcIssue[] = [];
+    const projects = new Set(projectPaths.map(projectPath => path.resolve(projectPath)));
+
+    for (const [blueprintId, entry] of Object.entries(registry)) {
+      if (!entry || typeof entry.projectPath !== 'string') {
+        issues.push({
+          kind: 'dangling',
+          blueprintId,
+          folder: '',
+          detail: 'registry entry has no projectPath',
+          unregister: true
+        });
+        continue;
+      }
+
+      const folder = this.blueprintFolder(entry.projectPath, blueprintId);
+      if (!fs.existsSync(entry.projectPath)) {
+        issues.push({ kind: 'dangling', blueprintId, folder, detail: `project ${entry.projectPath} no longer exists`, unregister: true });
+      } else if (!fs.existsSync(path.join(folder, 'blueprint.json'))) {
+        issues.push({ kind: 'dangling', blueprintId, folder, detail: `no blueprint.json in ${folder}`, unregister: true });
+      } else {
+        projects.add(path.resolve(entry.projectPath));
+      }
+    }
+
+    // Blueprint ID -> folders that hold it, across every scanned project
+    const folders = new Map<string, string[]>();
+    let blueprintCount = 0;
+    for (const projectPath of projects) {
+      const blueprintsDir = path.join(projectPath, '.bluekit', 'blueprints');
+      if (!fs.existsSync(blueprintsDir)) {
+        continue;
+      }
+
+      for (const dirent of fs.readdirSync(blueprintsDir, { withFileTypes: true })) {
+        if (!dirent.isDirectory()) {
+          continue;
+        }
+        blueprintCount++;
+        const folder = path.join(blueprintsDir, dirent.name);
+        const registered = this.isRegistered(registry, dirent.name, folder);
+
+        const problem = this.readProblem(folder);
+        if (problem) {
+          issues.push({ kind: 'unparseable', blueprintId: dirent.name, folder, detail: problem, unregister: registered });
+          continue;
+        }
+
+        const metadata = JSON.parse(fs.readFileSync(path.join(folder, 'blueprint.json'), 'utf8')) as BlueprintMetadata;
+        if (metadata.id !== dirent.name) {
+          issues.push({
+            kind: 'id-mismatch',
+            blueprintId: dirent.name,
+            folder,
+            detail: `blueprint.json has id ${JSON.stringify(metadata.id)}; blueprints are looked up by folder name`,
+            unregister: false
+          });
+        }
+        folders.set(dirent.name, [...(folders.get(dirent.name) || []), folder]);
+      }
+    }
+
+    for (const [blueprintId, found] of folders) {
+      if (found.length < 2) {
+        continue;
+      }
+      found.sort();
+      const registered = found.find(folder => this.isRegistered(registry, blueprintId, folder));
+      issues.push({
+        kind: 'duplicate',
+        blueprintId,
+        folder: registered || found[0],
+        detail: `found in ${found.length} projects: ${found.join(', ')}` +
+          (registered ? ` (the registry points to ${registered})` : ' (none is registered)'),
+        unregister: false
+      });
+    }
+
+    return { scannedProjects: [...projects], blueprintCount, issues };
+  }
+
+  /**
+   * Remove the registry entries of the issues that unregistering fixes
+   * @returns The IDs removed
+   */
+  fix(registry: BlueprintRegistry, issues: GcIssue[]): string[] {
+    const removed = new Set<string>();
+    for (const issue of issues) {
+      if (issue.unregister && issue.blueprintId in registry) {
+        delete registry[issue.blueprintId];
+        removed.add(issue.blueprintId);
+      }
+    }
+    return [...removed];
+  }
+
+  /**
+   * Why a folder's blueprint.json cannot be used (null if it can)
+   */
+  private readProblem(folder: string): string | null {
+    const blueprintJsonPath = path.join(folder, 'blueprint.json');
+    if (!fs.existsSync(blueprintJsonPath)) {
+      return 'no blueprint.json';
+    }
+
+    let metadata: unknown;
+    try {
+      metadata = JSON.parse(fs.readFileSync(blueprintJsonPath, 'utf8'));
+    } catch (error) {
+      return `blueprint.json does not parse: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+    if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+      return 'blueprint.json is not an object';
+    }
+    const { id, layers } = metadata as Partial<BlueprintMetadata>;
+    if (typeof id !== 'string' || !Array.isArray(layers)) {
+      return 'blueprint.json is not a blueprint (it needs an id and layers)';
+    }
+    return null;
+  }
+
+  private isRegistered(registry: BlueprintRegistry, blueprintId: string, folder: string): boolean {
+    const entry = registry[blueprintId];
+    return Boolean(entry && typeof entry.projectPath === 'string'
+      && path.resolve(this.blueprintFolder(entry.projectPath, blueprintId)) === path.resolve(folder));
+  }
+
+  private blueprintFolder(projectPath: string, blueprintId: string): string {
+    return path.join(projectPath, '.bluekit', 'blueprints', blueprintId);
+  }
+}
@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SemVer } from './SemVer.js';
+
+// Folder inside a blueprint holding the archived versions
+export const VERSIONS_DIR = 'versions';
+
+// Entries of a blueprint folder that are not part of the blueprint itself
+const NOT_ARCHIVED = [VERSIONS_DIR, 'runs'];
+
+/**
+ * Keeps the earlier versions of a blueprint: before generateBlueprint writes
+ * a new version, the current folder is copied to
+ * .bluekit/blueprints/{id}/versions/{version}/.
+ *
+ * Execution runs (runs/) belong to the projects the blueprint was applied
+ * to, not to a version, and are not archived.
+ */
+export class BlueprintHistory {
+  constructor(private semver: SemVer) {}
+
+  /**
+   * Copy a blueprint folder into its versions/ folder, replacing an earlier
+   * archive of the same version
+   * @returns The archive folder
+   */
+  archive(blueprintFolder: string, version: number | string): string {
+    const archiveFolder = path.join(blueprintFolder, VERSIONS_DIR, String(version));
+
+    try {
+      fs.rmSync(archiveFolder, { recursive: true, force: true });
+      fs.mkdirSync(archiveFolder, { recursive: true });
+      for (const entry of fs.readdirSync(blueprintFolder)) {
+        if (!NOT_ARCHIVED.includes(entry)) {
+          fs.cpSync(path.join(blueprintFolder, entry), path.join(archiveFolder, entry), { recursive: true });
+        }
+      }
+      return archiveFolder;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to archive version ${version}: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Archived versions of a blueprint, oldest first
+   */
+  list(blueprintFolder: string): string[] {
+    const versionsDir = path.join(blueprintFolder, VERSIONS_DIR);
+    if (!fs.existsSync(versionsDir)) {
+      return [];
+    }
+
+    return fs.readdirSync(versionsDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && this.semver.isValid(entry.name))
+      .map(entry => entry.name)
+      .sort((a, b) => this.semver.compare(a, b));
+  }
+}
@@ -0,0 +1,261 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BlueprintMetadata } from '../types.js';
+import { AppConfig, PlannedWrite } from './FileOperations.js';
+import { BlueprintExecutor } from './BlueprintExecutor.js';
+import { AppliedManifestStore, AppliedManifest } from './AppliedManifestStore.js';
+import { TextDiff } from './TextDiff.js';
+
+export type ReapplyAction =
+  | 'create'           // New file, written
+  | 'update'           // Not edited locally, replaced with the new rendering
+  | 'merge'            // Edited locally and changed in the blueprint, merged cleanly
+  | 'conflict'         // Edited locally and changed in the blueprint, conflicting regions marked inline
+  | 'kept'             // Edited locally, blueprint output unchanged - local version kept
+  | 'unchanged'        // Already matches the new rendering
+  | 'deleted-locally'  // Generated before but deleted by the user - not recreated
+  | 'orphaned';        // Generated before but no longer produced by the blueprint - left in place
+
+export interface ReapplyFileResult {
+  path: string;
+  action: ReapplyAction;
+  origin?: string;     // e.g. "Layer 1 / setup-config"
+  conflicts?: number;  // Conflicting regions (conflict only)
+  diff?: string;       // Unified diff from the current file to the result
+  detail?: string;
+}
+
+export interface ReapplyResult {
+  files: ReapplyFileResult[];
+  errors: string[];            // Operations that could not be rendered
+  manifest: AppliedManifest;   // Manifest describing the new rendering
+}
+
+/**
+ * Re-applies a blueprint to a project it was applied to before, with a new
+ * config or a newer blueprint version (like copier/cruft updates).
+ *
+ * Each generated file is 3-way merged: the base is the rendering recorded in
+ * the applied manifest, "local" is the file on disk, and "blueprint" is the
+ * new rendering. Local edits are never silently overwritten.
+ *
+ * In-place edits (append, insert-at-marker, patch, json-merge) of a file the
+ * blueprint renders are applied to the rendering before merging, since the
+ * manifest records files as they were after those edits. Edits of other
+ * files are re-applied to the file on disk, which is a no-op when their
+ * change is already present. Delete and mkdir operations are not re-run.
+ */
+export class BlueprintReapplier {
+  constructor(
+    private executor: BlueprintExecutor,
+    private manifestStore: AppliedManifestStore,
+    private textDiff: TextDiff
+  ) {}
+
+  /**
+   * Re-render a blueprint and merge it into the target
+   * @param previous - Manifest recorded when the blueprint was last applied
+   * @param dryRun - Report what would happen without writing anything
+   */
+  async reapply(
+    blueprint: BlueprintMetadata,
+    blueprintFolder: string,
+    targetPath: string,
+    config: AppConfig,
+    taskFolders: Record<string, string>,
+    previous: AppliedManifest,
+    dryRun: boolean
+  ): Promise<ReapplyResult> {
+    const plan = await this.executor.plan(blueprint, blueprintFolder, targetPath, config, taskFolders);
+    if (plan.errors.length > 0 && !dryRun) {
+      throw new Error(`Blueprint could not be rendered, nothing was changed:\n${plan.errors.map(e => `  - ${e}`).join('\n')}`);
+    }
+
+    // Final rendering per destination, with the edits made to it applied
+    // (a later write to the same path wins)
+    const errors = [...plan.errors];
+    const rendered = new Map<string, { write: PlannedWrite; content: Buffer; origin: string }>();
+    let edits: Array<{ write: PlannedWrite; origin: string }> = [];
+    for (const { write, origin } of plan.writes) {
+      if (write.kind === 'delete' || write.kind === 'mkdir') {
+        continue;
+      }
+      if (write.edit) {
+        const target = rendered.get(write.path);
+        if (!target) {
+          edits.push({ write, origin });
+          continue;
+        }
+        const edited = this.applyEdit(write, target.content, origin, dryRun, errors);
+        if (edited) {
+          target.content = edited;
+        }
+        continue;
+      }
+      if (write.onConflict === 'skip' && rendered.has(write.path)) {
+        continue;
+      }
+      const content = write.sourceFile ? fs.readFileSync(write.sourceFile) : Buffer.from(write.content ?? '', 'utf-8');
+      rendered.set(write.path, { write, content, origin });
+      edits = edits.filter(edit => edit.write.path !== write.path);
+    }
+
+    const now = new Date().toISOString();
+    const manifest: AppliedManifest = {
+      blueprintId: blueprint.id,
+      blueprintName: blueprint.name,
+      blueprintVersion: blueprint.version,
+      config,
+      appliedAt: previous.appliedAt,
+      updatedAt: now,
+      files: {}
+    };
+
+    const files: ReapplyFileResult[] = [];
+    const written = new Map<string, Buffer>();  // Path -> content written (or that a dry run would write)
+    for (const [filePath, { write, content, origin }] of rendered) {
+      const result = this.reapplyFile(write, content, previous, blueprint.version, dryRun, written);
+      files.push({ ...result, origin });
+      manifest.files[filePath] = this.manifestStore.describeContent(content);
+    }
+
+    for (const { write, origin } of edits) {
+      const current = written.get(write.path) ??
+        (fs.existsSync(write.absolutePath) ? fs.readFileSync(write.absolutePath) : null);
+      const next = this.applyEdit(write, current, origin, dryRun, errors);
+      if (!next) {
+        continue;
+      }
+
+      if (current !== null && current.equals(next)) {
+        files.push({ path: write.path, action: 'unchanged', origin });
+      } else {
+        this.writeFile(write, next, dryRun, written);
+        files.push({
+          path: write.path,
+          action: current === null ? 'create' : 'update',
+          origin,
+          diff: current === null ? undefined : this.diff(current, next, write.path),
+          detail: 'edited in place'
+        });
+      }
+      manifest.files[write.path] = this.manifestStore.describeContent(next);
+    }
+
+    for (const filePath of Object.keys(previous.files)) {
+      if (!manifest.files[filePath]) {
+        files.push({ path: filePath, action: 'orphaned', detail: 'no longer generated by the blueprint - left in place' });
+      }
+    }
+
+    if (!dryRun) {
+      this.manifestStore.save(targetPath, manifest);
+    }
+
+    return { files, errors, manifest };
+  }
+
+  /**
+   * Merge one newly rendered file into the target
+   */
+  private reapplyFile(
+    write: PlannedWrite,
+    rendered: Buffer,
+    previous: AppliedManifest,
+    version: number | string,
+    dryRun: boolean,
+    written: Map<string, Buffer>
+  ): ReapplyFileResult {
+    const base = previous.files[write.path];
+    const current = fs.existsSync(write.absolutePath) ? fs.readFileSync(write.absolutePath) : null;
+
+    if (current === null) {
+      if (base) {
+        return { path: write.path, action: 'deleted-locally', detail: 'deleted since the last apply - not recreated' };
+      }
+      this.writeFile(write, rendered, dryRun, written);
+      return { path: write.path, action: 'create' };
+    }
+
+    if (current.equals(rendered)) {
+      return { path: write.path, action: 'unchanged' };
+    }
+
+    const currentFile = this.manifestStore.describeContent(current);
+    const renderedFile = this.manifestStore.describeContent(rendered);
+    const anyBinary = Boolean(currentFile.binary || renderedFile.binary || base?.binary);
+
+    if (base && currentFile.hash === base.hash) {
+      this.writeFile(write, rendered, dryRun, written);
+      return {
+        path: write.path,
+        action: 'update',
+        diff: anyBinary ? undefined : this.diff(current, rendered, write.path)
+      };
+    }
+    if (base && renderedFile.hash === base.hash) {
+      return { path: write.path, action: 'kept', detail: 'edited locally; blueprint output unchanged' };
+    }
+    if (!base && write.onConflict === 'skip') {
+      return { path: write.path, action: 'kept', detail: 'existing file kept (onConflict: skip)' };
+    }
+
+    if (anyBinary || (base && base.content === undefined)) {
+      return {
+        path: write.path,
+        action: 'conflict',
+        conflicts: 1,
+        detail: 'binary file changed both locally and in the blueprint - left untouched'
+      };
+    }
+
+    const { merged, conflicts } = this.textDiff.merge3(
+      base?.content ?? '',
+      current.toString('utf-8'),
+      rendered.toString('utf-8'),
+      'local',
+      `blueprint (version ${version})`
+    );
+    const mergedContent = Buffer.from(merged, 'utf-8');
+    this.writeFile(write, mergedContent, dryRun, written);
+
+    return {
+      path: write.path,
+      action: conflicts > 0 ? 'conflict' : 'merge',
+      conflicts: conflicts > 0 ? conflicts : undefined,
+      diff: this.diff(current, mergedContent, write.path),
+      detail: base ? undefined : 'file existed before the blueprint generated it'
+    };
+  }
+
+  /**
+   * Run an in-place edit on some content
+   * @returns The edited content, or null when the edit failed during a dry run (reported in errors)
+   * @throws If the edit fails outside a dry run
+   */
+  private applyEdit(write: PlannedWrite, current: Buffer | null, origin: string, dryRun: boolean, errors: string[]): Buffer | null {
+    try {
+      return Buffer.from(write.edit!(current === null ? null : current.toString('utf-8')), 'utf-8');
+    } catch (error) {
+      const message = `${origin}: ${write.path}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      if (!dryRun) {
+        throw new Error(`Failed to re-apply edit ${message}`);
+      }
+      errors.push(message);
+      return null;
+    }
+  }
+
+  private diff(from: Buffer, to: Buffer, filePath: string): string {
+    return this.textDiff.unified(from.toString('utf-8'), to.toString('utf-8'), filePath);
+  }
+
+  private writeFile(write: PlannedWrite, content: Buffer, dryRun: boolean, written: Map<string, Buffer>): void {
+    written.set(write.path, content);
+    if (dryRun) {
+      return;
+    }
+    fs.mkdirSync(path.dirname(write.absolutePath), { recursive: true });
+    fs.writeFileSync(write.absolutePath, content);
+  }
+}
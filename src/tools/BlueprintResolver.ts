@@ -0,0 +1,197 @@
+import { BlueprintMetadata, BlueprintLayer, BlueprintTask } from '../types.js';
+
+/**
+ * Loads a blueprint by ID, returning its metadata and the folder it lives in
+ */
+export type BlueprintLoader = (blueprintId: string) => { blueprint: BlueprintMetadata; folder: string };
+
+export interface ResolvedBlueprint {
+  blueprint: BlueprintMetadata;          // Fully merged blueprint
+  chain: string[];                       // Blueprint IDs from root ancestor to the blueprint itself
+  taskOrigins: Record<string, string>;   // Task ID -> ID of the blueprint that defined it
+  taskFolders: Record<string, string>;   // Task ID -> folder holding that task's templates
+}
+
+interface OrderedLayer {
+  layer: BlueprintLayer;
+  depth: number;  // 0 for inherited layers, chain length for layers the child adds
+  index: number;  // Position within the blueprint that introduced it
+}
+
+/**
+ * Resolves `extends` chains into a single blueprint.
+ *
+ * Merge semantics (applied from the root ancestor down to the child):
+ * - Layers are merged by `id`. A child layer with a parent's id overrides its
+ *   name/classification/order, replaces parent tasks with the same task id,
+ *   appends new tasks, and drops tasks listed in `remove`.
+ * - Layers are sorted by (order, ancestor first, declaration order) and then
+ *   renumbered 1..n, so colliding orders resolve deterministically.
+ * - configSchema properties are merged (child wins) and `required` is unioned.
+ * - sourceReference is inherited when the child does not declare one;
+ *   disabledRules and helperPacks are unioned; strictTemplates is inherited
+ *   when the child does not set it.
+ * - version and migrations are the child's own: they describe the child's
+ *   config history, not its ancestors'.
+ */
+export class BlueprintInheritanceResolver {
+  resolve(blueprint: BlueprintMetadata, folder: string, load: BlueprintLoader): ResolvedBlueprint {
+    return this.resolveChain(blueprint, folder, load, []);
+  }
+
+  private resolveChain(
+    blueprint: BlueprintMetadata,
+    folder: string,
+    load: BlueprintLoader,
+    visiting: string[]
+  ): ResolvedBlueprint {
+    if (visiting.includes(blueprint.id)) {
+      const cycle = [...visiting.slice(visiting.indexOf(blueprint.id)), blueprint.id];
+      throw new Error(`Blueprint inheritance cycle detected: ${cycle.join(' → ')}`);
+    }
+
+    const ownTasks = this.tasksOf(blueprint.layers);
+    const taskOrigins: Record<string, string> = {};
+    const taskFolders: Record<string, string> = {};
+
+    if (!blueprint.extends) {
+      for (const task of ownTasks) {
+        taskOrigins[task.id] = blueprint.id;
+        taskFolders[task.id] = folder;
+      }
+      return {
+        blueprint: { ...blueprint, layers: blueprint.layers.map(layer => this.withoutRemove(layer)) },
+        chain: [blueprint.id],
+        taskOrigins,
+        taskFolders
+      };
+    }
+
+    const parentSource = load(blueprint.extends);
+    const parent = this.resolveChain(parentSource.blueprint, parentSource.folder, load, [...visiting, blueprint.id]);
+    const depth = parent.chain.length;
+
+    Object.assign(taskOrigins, parent.taskOrigins);
+    Object.assign(taskFolders, parent.taskFolders);
+
+    // Merge layers by id
+    const merged: OrderedLayer[] = parent.blueprint.layers.map((layer, index) => ({ layer, depth: 0, index }));
+    blueprint.layers.forEach((childLayer, index) => {
+      const existing = merged.find(entry => entry.layer.id === childLayer.id);
+
+      if (!existing) {
+        merged.push({ layer: this.withoutRemove(childLayer), depth, index });
+        return;
+      }
+
+      existing.layer = this.mergeLayer(existing.layer, childLayer);
+    });
+
+    for (const removedId of this.tasksRemovedBy(blueprint.layers)) {
+      delete taskOrigins[removedId];
+      delete taskFolders[removedId];
+    }
+    for (const task of ownTasks) {
+      taskOrigins[task.id] = blueprint.id;
+      taskFolders[task.id] = folder;
+    }
+
+    const resolved: BlueprintMetadata = {
+      ...blueprint,
+      layers: this.renumber(this.sortLayers(merged)),
+      sourceReference: blueprint.sourceReference || parent.blueprint.sourceReference,
+      configSchema: this.mergeConfigSchema(parent.blueprint.configSchema, blueprint.configSchema)
+    };
+
+    const disabledRules = Array.from(new Set([...(parent.blueprint.disabledRules || []), ...(blueprint.disabledRules || [])]));
+    if (disabledRules.length > 0) {
+      resolved.disabledRules = disabledRules;
+    }
+    const helperPacks = Array.from(new Set([...(parent.blueprint.helperPacks || []), ...(blueprint.helperPacks || [])]));
+    if (helperPacks.length > 0) {
+      resolved.helperPacks = helperPacks;
+    }
+    if (resolved.strictTemplates === undefined && parent.blueprint.strictTemplates !== undefined) {
+      resolved.strictTemplates = parent.blueprint.strictTemplates;
+    }
+    if (!resolved.configSchema) delete resolved.configSchema;
+    if (!resolved.sourceReference) delete resolved.sourceReference;
+
+    return {
+      blueprint: resolved,
+      chain: [...parent.chain, blueprint.id],
+      taskOrigins,
+      taskFolders
+    };
+  }
+
+  /**
+   * Merge a child layer into the parent layer with the same id
+   */
+  private mergeLayer(parent: BlueprintLayer, child: BlueprintLayer): BlueprintLayer {
+    const removed = new Set(child.remove || []);
+    const tasks: BlueprintTask[] = parent.tasks
+      .filter(task => !removed.has(task.id))
+      .map(task => child.tasks?.find(override => override.id === task.id) || task);
+
+    for (const task of child.tasks || []) {
+      if (!tasks.some(existing => existing.id === task.id) && !removed.has(task.id)) {
+        tasks.push(task);
+      }
+    }
+
+    const layer: BlueprintLayer = {
+      ...parent,
+      name: child.name || parent.name,
+      order: typeof child.order === 'number' ? child.order : parent.order,
+      tasks
+    };
+    if (child.classification) {
+      layer.classification = child.classification;
+    }
+    if (child.when !== undefined) {
+      layer.when = child.when;
+    }
+    return layer;
+  }
+
+  private mergeConfigSchema(
+    parent: BlueprintMetadata['configSchema'],
+    child: BlueprintMetadata['configSchema']
+  ): BlueprintMetadata['configSchema'] {
+    if (!parent) return child;
+    if (!child) return parent;
+
+    const required = Array.from(new Set([...(parent.required || []), ...(child.required || [])]));
+    return {
+      ...parent,
+      ...child,
+      type: 'object',
+      properties: { ...parent.properties, ...child.properties },
+      ...(required.length > 0 ? { required } : {})
+    };
+  }
+
+  private sortLayers(layers: OrderedLayer[]): BlueprintLayer[] {
+    return [...layers]
+      .sort((a, b) => (a.layer.order - b.layer.order) || (a.depth - b.depth) || (a.index - b.index))
+      .map(entry => entry.layer);
+  }
+
+  private renumber(layers: BlueprintLayer[]): BlueprintLayer[] {
+    return layers.map((layer, index) => ({ ...layer, order: index + 1 }));
+  }
+
+  private withoutRemove(layer: BlueprintLayer): BlueprintLayer {
+    const { remove, ...rest } = layer;
+    return rest;
+  }
+
+  private tasksOf(layers: BlueprintLayer[]): BlueprintTask[] {
+    return layers.flatMap(layer => Array.isArray(layer.tasks) ? layer.tasks : []);
+  }
+
+  private tasksRemovedBy(layers: BlueprintLayer[]): string[] {
+    return layers.flatMap(layer => layer.remove || []);
+  }
+}
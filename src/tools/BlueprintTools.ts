@@ -1,81 +1,115 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
-import Ajv from 'ajv';
-import { ToolDefinition, ToolHandler } from '../types.js';
+import Ajv, { ValidateFunction, ErrorObject } from 'ajv';
+import { ToolDefinition, ToolHandler, BlueprintMetadata, ConflictPolicy, FileOperation } from '../types.js';
 import { BaseToolSet } from './BaseToolSet.js';
 import { SourceResolver } from './SourceResolver.js';
 import { TemplateEngine } from './TemplateEngine.js';
-import { FileOperationsExecutor } from './FileOperations.js';
-
-interface FileOperation {
-  type: 'copy' | 'template' | 'generate';
-  source?: string;      // Template or source path
-  destination: string;  // Output path
-  variables?: string[]; // Variables for templating
-}
-
-interface BlueprintTask {
-  id: string;
-  taskFile: string;
-  description: string;
-  operations?: FileOperation[]; // NEW: File operations
-}
-
-interface BlueprintLayer {
-  id: string;
-  order: number;
-  name: string;
-  classification?: 'foundation' | 'domain' | 'integration' | 'configuration';
-  tasks: BlueprintTask[];
-}
-
-interface SourceReference {
-  type: 'local' | 'global' | 'git';
-  path?: string;          // Local path or global registry ID
-  gitUrl?: string;        // Git repository
-  gitRef?: string;        // Branch/tag/commit
-  preservePaths?: string[]; // Files/dirs to copy verbatim
-}
-
-interface BlueprintMetadata {
-  id: string;
-  name: string;
-  version: number;
-  description: string;
-  createdAt: string;
-  layers: BlueprintLayer[];
-
-  // NEW: Composition
-  extends?: string;  // Parent blueprint ID
-
-  // NEW: Source references (for copying files)
-  sourceReference?: SourceReference;
-
-  // NEW: Configuration schema
-  configSchema?: {
-    type: 'object';
-    properties: Record<string, any>;
-    required?: string[];
-  };
-}
-
-interface BlueprintGenerateParams {
-  projectPath: string;
-  blueprint: BlueprintMetadata;
-  tasks: Record<string, string>; // taskFile -> content
-}
+import { FileOperationsExecutor, AppConfig, CONFLICT_POLICIES } from './FileOperations.js';
+import { BlueprintExecutor } from './BlueprintExecutor.js';
+import { ExecutionStateStore, ExecutionRun } from './ExecutionStateStore.js';
+import { ExecutionJournal } from './ExecutionJournal.js';
+import { TaskDependencyResolver, DependencyAnalysis } from './DependencyResolver.js';
+import { LayerRuleEngine } from './RuleEngine.js';
+import { BlueprintInheritanceResolver, BlueprintLoader, ResolvedBlueprint } from './BlueprintResolver.js';
+import { TextDiff } from './TextDiff.js';
+import { ConfigPath } from './ConfigPath.js';
+import { ConfigExpression } from './ConfigExpression.js';
+import { StructuredMerge } from './StructuredMerge.js';
+import { ChangePreview, FileChange } from './ChangePreview.js';
+import { AppliedManifestStore } from './AppliedManifestStore.js';
+import { BlueprintReapplier, ReapplyFileResult } from './BlueprintReapplier.js';
+import { TemplateLinter } from './TemplateLinter.js';
+import { PathSafety } from './PathSafety.js';
+import { CodeGenerator } from './CodeGenerator.js';
+import { TaskVerifier, VerificationResult } from './TaskVerifier.js';
+import { SemVer, VERSION_PATTERN } from './SemVer.js';
+import { BlueprintHistory, VERSIONS_DIR } from './BlueprintHistory.js';
+import { ConfigMigrator, MigrationResult } from './ConfigMigrator.js';
+import { BlueprintGarbageCollector, GcIssue } from './BlueprintGarbageCollector.js';
+import { TarArchive } from './TarArchive.js';
+import { BlueprintBundle } from './BlueprintBundle.js';
+import { BlueprintDiff, BlueprintDiffResult, DiffSide } from './BlueprintDiff.js';
+import {
+  BlueprintSchema, TaskFrontMatterSchema, BLUEPRINT_SCHEMA_URI, PLAIN_NAME_PATTERN
+} from '../schemas/BlueprintSchema.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 
 export class BlueprintTools extends BaseToolSet {
   private sourceResolver: SourceResolver;
   private templateEngine: TemplateEngine;
   private fileOpsExecutor: FileOperationsExecutor;
+  private stateStore: ExecutionStateStore;
+  private journal: ExecutionJournal;
+  private blueprintExecutor: BlueprintExecutor;
+  private dependencyResolver: TaskDependencyResolver;
+  private ruleEngine: LayerRuleEngine;
+  private inheritanceResolver: BlueprintInheritanceResolver;
+  private textDiff: TextDiff;
+  private configPath: ConfigPath;
+  private configExpression: ConfigExpression;
+  private structuredMerge: StructuredMerge;
+  private manifestStore: AppliedManifestStore;
+  private reapplier: BlueprintReapplier;
+  private templateLinter: TemplateLinter;
+  private pathSafety: PathSafety;
+  private codeGenerator: CodeGenerator;
+  private taskVerifier: TaskVerifier;
+  private semver: SemVer;
+  private history: BlueprintHistory;
+  private configMigrator: ConfigMigrator;
+  private garbageCollector: BlueprintGarbageCollector;
+  private bundle: BlueprintBundle;
+  private blueprintDiff: BlueprintDiff;
+  private ajv: Ajv;
+  private validateBlueprintSchema: ValidateFunction;
+  private validateTaskFrontMatter: ValidateFunction;
 
   constructor() {
     super();
-    this.sourceResolver = new SourceResolver();
+    this.pathSafety = new PathSafety();
+    this.sourceResolver = new SourceResolver(this.pathSafety);
     this.templateEngine = new TemplateEngine();
-    this.fileOpsExecutor = new FileOperationsExecutor(this.sourceResolver, this.templateEngine);
+    this.structuredMerge = new StructuredMerge();
+    this.textDiff = new TextDiff();
+    this.configPath = new ConfigPath();
+    this.configExpression = new ConfigExpression();
+    this.codeGenerator = new CodeGenerator();
+    this.fileOpsExecutor = new FileOperationsExecutor(
+      this.sourceResolver, this.templateEngine, this.structuredMerge, this.textDiff, this.configPath, this.configExpression,
+      this.pathSafety, this.codeGenerator
+    );
+    this.stateStore = new ExecutionStateStore();
+    this.journal = new ExecutionJournal(this.stateStore);
+    this.manifestStore = new AppliedManifestStore();
+    this.blueprintExecutor = new BlueprintExecutor(
+      this.fileOpsExecutor, this.stateStore, this.journal, this.textDiff, this.structuredMerge, this.manifestStore,
+      this.configExpression
+    );
+    this.reapplier = new BlueprintReapplier(this.blueprintExecutor, this.manifestStore, this.textDiff);
+    this.templateLinter = new TemplateLinter(this.templateEngine, this.fileOpsExecutor, this.configPath);
+    this.taskVerifier = new TaskVerifier(this.templateEngine, this.configPath, this.configExpression, this.pathSafety);
+    this.semver = new SemVer();
+    this.history = new BlueprintHistory(this.semver);
+    this.configMigrator = new ConfigMigrator(this.configPath, this.semver);
+    this.garbageCollector = new BlueprintGarbageCollector();
+    this.bundle = new BlueprintBundle(new TarArchive());
+    this.blueprintDiff = new BlueprintDiff(this.textDiff);
+    this.dependencyResolver = new TaskDependencyResolver();
+    this.ruleEngine = new LayerRuleEngine();
+    this.inheritanceResolver = new BlueprintInheritanceResolver();
+    this.ajv = new Ajv({ allErrors: true, allowUnionTypes: true });
+    this.validateBlueprintSchema = this.ajv.compile(BlueprintSchema);
+    this.validateTaskFrontMatter = this.ajv.compile(TaskFrontMatterSchema);
+  }
+
+  /**
+   * Attach the MCP server, so generate operations can ask its client's model
+   * to write files (MCP sampling)
+   */
+  setServer(server: Server): void {
+    this.codeGenerator.setServer(server);
   }
 
   protected createToolDefinitions(): ToolDefinition[] {
@@ -93,6 +127,10 @@ export class BlueprintTools extends BaseToolSet {
             blueprint: {
               type: 'object',
               description: 'Proposed blueprint structure with layers and tasks'
+            },
+            projectPath: {
+              type: 'string',
+              description: 'Path to the project (optional - enables project rule packs in .bluekit/rules/)'
             }
           },
           required: ['description', 'blueprint']
@@ -100,7 +138,7 @@ export class BlueprintTools extends BaseToolSet {
       },
       {
         name: 'bluekit_blueprint_generateBlueprint',
-        description: 'Generate a blueprint folder in .bluekit/blueprints/ containing blueprint.json and all task files. Tasks are blueprint-specific instructions (not reusable kits). Optionally save to global registry at ~/.bluekit/blueprintRegistry.json. IMPORTANT: Use bluekit_blueprint_planBlueprint first to validate structure. Read the blueprint definition from MCP resources (bluekit://prompts/get-blueprint-definition.md) for context.',
+        description: 'Generate a blueprint folder in .bluekit/blueprints/ containing blueprint.json and all task files. Tasks are blueprint-specific instructions (not reusable kits). Optionally save to global registry at ~/.bluekit/blueprintRegistry.json. An existing blueprint is only replaced by a newer version (the previous version is kept in versions/{version}/), or by the same version with overwrite. IMPORTANT: Use bluekit_blueprint_planBlueprint first to validate structure. Read the blueprint definition from MCP resources (bluekit://prompts/get-blueprint-definition.md) for context.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -119,6 +157,14 @@ export class BlueprintTools extends BaseToolSet {
             saveToGlobal: {
               type: 'boolean',
               description: 'If true, also save blueprint reference to global registry at ~/.bluekit/blueprintRegistry.json. Default: false'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'If true, write nothing and return the files that would be created or modified, with unified diffs for existing files. Default: false'
+            },
+            overwrite: {
+              type: 'boolean',
+              description: 'If true, replace an existing blueprint of the same version instead of failing. Default: false'
             }
           },
           required: ['projectPath', 'blueprint', 'tasks']
@@ -164,6 +210,113 @@ export class BlueprintTools extends BaseToolSet {
           required: ['id']
         }
       },
+      {
+        name: 'bluekit_blueprint_delete',
+        description: 'Delete a blueprint: its folder in .bluekit/blueprints/ (with its archived versions and execution runs) and/or its entry in the global registry at ~/.bluekit/blueprintRegistry.json. Refuses to delete a blueprint other blueprints extend unless force is set. Projects the blueprint was applied to are not touched.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            blueprintId: {
+              type: 'string',
+              description: 'ID of the blueprint to delete'
+            },
+            projectPath: {
+              type: 'string',
+              description: 'Path to the project containing the blueprint (optional - uses the global registry entry if not provided)'
+            },
+            target: {
+              type: 'string',
+              enum: ['folder', 'registry', 'both'],
+              description: 'What to delete: the blueprint folder, the registry entry, or both. The registry entry is only removed with "both" when it points to the deleted folder. Default: both'
+            },
+            force: {
+              type: 'boolean',
+              description: 'If true, delete even when other blueprints extend this one. Default: false'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'If true, report what would be deleted without deleting anything. Default: false'
+            }
+          },
+          required: ['blueprintId']
+        }
+      },
+      {
+        name: 'bluekit_blueprint_gc',
+        description: 'Check the global blueprint registry and project blueprint folders for problems: registry entries whose project or folder is gone, blueprint.json files that no longer parse, blueprint.json ids that do not match their folder, and the same blueprint ID in several projects. Reports only by default; with fix, unregisters the entries that point to missing or unparseable blueprints (folders are never deleted).',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            projectPaths: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Projects to scan in addition to those in the global registry (optional)'
+            },
+            fix: {
+              type: 'boolean',
+              description: 'If true, remove the registry entries of dangling and unparseable blueprints. Default: false (report only)'
+            }
+          },
+          required: []
+        }
+      },
+      {
+        name: 'bluekit_blueprint_export',
+        description: 'Export a blueprint to a single .tar.gz bundle that can be shared without a shared filesystem. The bundle holds the blueprint folder (blueprint.json, task files, templates, partials, preserved paths - not archived versions or execution runs) and a bundle.json manifest with the sha256 of every file. Import it with bluekit_blueprint_import.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            blueprintId: {
+              type: 'string',
+              description: 'ID of the blueprint to export'
+            },
+            projectPath: {
+              type: 'string',
+              description: 'Path to the project containing the blueprint (optional - searches global registry if not provided)'
+            },
+            outputPath: {
+              type: 'string',
+              description: 'Where to write the bundle, relative to the blueprint\'s project (optional - default: {blueprintId}-{version}.tar.gz in the project)'
+            }
+          },
+          required: ['blueprintId']
+        }
+      },
+      {
+        name: 'bluekit_blueprint_import',
+        description: 'Import a blueprint bundle created by bluekit_blueprint_export into a project\'s .bluekit/blueprints/. Every file is checked against the bundle manifest\'s sha256 and the blueprint is validated before anything is written. An existing blueprint with the same ID is a collision: fail (default), rename (import as {id}-2, {id}-3, ...) or overwrite (the existing version is archived first). Optionally registers the blueprint in the global registry.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            bundlePath: {
+              type: 'string',
+              description: 'Path to the .tar.gz bundle'
+            },
+            projectPath: {
+              type: 'string',
+              description: 'Path to the project to import the blueprint into'
+            },
+            id: {
+              type: 'string',
+              description: 'Import under this blueprint ID instead of the bundled one (optional)'
+            },
+            onCollision: {
+              type: 'string',
+              enum: ['fail', 'rename', 'overwrite'],
+              description: 'What to do when the project (or, with saveToGlobal, the global registry) already has a blueprint with this ID. Default: fail'
+            },
+            saveToGlobal: {
+              type: 'boolean',
+              description: 'If true, also register the blueprint in the global registry at ~/.bluekit/blueprintRegistry.json. Default: false'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'If true, verify the bundle and report what would be imported without writing anything. Default: false'
+            }
+          },
+          required: ['bundlePath', 'projectPath']
+        }
+      },
       {
         name: 'bluekit_blueprint_validateConfig',
         description: 'Validate an application configuration against a blueprint\'s config schema. Returns validation errors if the config doesn\'t match the schema.',
@@ -185,484 +338,2352 @@ export class BlueprintTools extends BaseToolSet {
           },
           required: ['blueprintId', 'config']
         }
-      }
-    ];
-  }
-
-  protected createToolHandlers(): Record<string, ToolHandler> {
-    return {
-      'bluekit_blueprint_planBlueprint': (params) => this.handlePlanBlueprint(params),
-      'bluekit_blueprint_generateBlueprint': (params) => this.handleGenerateBlueprint(params),
-      'bluekit_blueprint_listBlueprints': (params) => this.handleListBlueprints(params),
-      'bluekit_blueprint_getBlueprint': (params) => this.handleGetBlueprint(params),
-      'bluekit_blueprint_validateConfig': (params) => this.handleValidateConfig(params)
-    };
-  }
-
-  private handlePlanBlueprint(params: Record<string, unknown>): Array<{ type: 'text'; text: string }> {
-    const description = params.description as string;
-    const blueprint = params.blueprint as BlueprintMetadata;
-
-    if (!description || typeof description !== 'string') {
-      throw new Error('description is required and must be a string');
-    }
-    if (!blueprint || typeof blueprint !== 'object') {
-      throw new Error('blueprint is required and must be an object');
-    }
-
-    // Validate blueprint structure
-    if (!Array.isArray(blueprint.layers) || blueprint.layers.length === 0) {
-      throw new Error('blueprint.layers is required and must be a non-empty array');
-    }
-
-    // Analyze layers for parallelization issues
-    const analysis = this.analyzeBlueprintLayers(blueprint);
-
-    let response = `Blueprint Plan Analysis\n`;
-    response += `========================\n\n`;
-    response += `Description: ${description}\n`;
-    response += `Layers: ${blueprint.layers.length}\n`;
-    response += `Total Tasks: ${blueprint.layers.reduce((sum, layer) => sum + (layer.tasks?.length || 0), 0)}\n\n`;
-
-    if (analysis.errors.length > 0) {
-      response += `❌ ERRORS (Must Fix):\n`;
-      response += `${'='.repeat(50)}\n`;
-      for (const error of analysis.errors) {
-        response += `\n${error}\n`;
-      }
-      response += `\n`;
-    }
-
-    if (analysis.warnings.length > 0) {
-      response += `⚠️  WARNINGS (Review Recommended):\n`;
-      response += `${'='.repeat(50)}\n`;
-      for (const warning of analysis.warnings) {
-        response += `\n${warning}\n`;
-      }
-      response += `\n`;
-    }
-
-    if (analysis.suggestions.length > 0) {
-      response += `💡 SUGGESTIONS (Optimization):\n`;
-      response += `${'='.repeat(50)}\n`;
-      for (const suggestion of analysis.suggestions) {
-        response += `\n${suggestion}\n`;
-      }
-      response += `\n`;
-    }
-
-    if (analysis.errors.length === 0 && analysis.warnings.length === 0) {
-      response += `✅ Blueprint structure looks good!\n`;
-      response += `All layers pass parallelization validation.\n`;
-      response += `Ready to proceed with bluekit_blueprint_generateBlueprint.\n`;
-    } else if (analysis.errors.length === 0) {
-      response += `⚠️  Blueprint has warnings but no errors.\n`;
-      response += `You can proceed with generation, but consider reviewing warnings.\n`;
-    } else {
-      response += `❌ Blueprint has errors that must be fixed before generation.\n`;
-      response += `Please restructure layers to eliminate dependencies within each layer.\n`;
-    }
-
-    return [{ type: 'text', text: response }];
-  }
-
-  private analyzeBlueprintLayers(blueprint: BlueprintMetadata): {
-    errors: string[];
-    warnings: string[];
-    suggestions: string[];
-  } {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-    const suggestions: string[] = [];
-
-    // Common dependency keywords that suggest sequential execution
-    const dependencyKeywords = [
-      { pattern: /create.*project|init.*project|setup.*project/i, dependsOn: null, provides: 'project-structure' },
-      { pattern: /config|configure/i, dependsOn: 'project-structure', provides: 'configuration' },
-      { pattern: /install.*dep|dep.*install|npm install|yarn install/i, dependsOn: 'project-structure', provides: 'dependencies' },
-      { pattern: /module|struct/i, dependsOn: null, provides: 'modules' },
-      { pattern: /main\.rs|main\.ts|index\.|entry/i, dependsOn: 'modules', provides: 'entry-point' },
-      { pattern: /rust.*command|backend.*command|ipc.*handler/i, dependsOn: 'modules', provides: 'backend-api' },
-      { pattern: /typescript.*wrapper|frontend.*wrapper|client.*wrapper/i, dependsOn: 'backend-api', provides: 'frontend-client' },
-      { pattern: /integration|connect|wire/i, dependsOn: 'frontend-client', provides: 'integration' }
-    ];
-
-    for (const layer of blueprint.layers) {
-      if (!Array.isArray(layer.tasks)) {
-        errors.push(`Layer ${layer.order} (${layer.name}): tasks must be an array`);
-        continue;
-      }
-
-      if (layer.tasks.length === 0) {
-        warnings.push(`Layer ${layer.order} (${layer.name}): empty layer - consider removing`);
-        continue;
-      }
-
-      // Analyze tasks within the layer for potential dependencies
-      const layerProvides = new Set<string>();
-      const layerRequires = new Set<string>();
-
-      for (const task of layer.tasks) {
-        const taskDesc = `${task.taskFile} - ${task.description}`.toLowerCase();
-
-        for (const keyword of dependencyKeywords) {
-          if (keyword.pattern.test(taskDesc)) {
-            if (keyword.provides) layerProvides.add(keyword.provides);
-            if (keyword.dependsOn) layerRequires.add(keyword.dependsOn);
-          }
-        }
-      }
-
-      // Check if layer both requires and provides - sign of internal dependency
-      // Only flag as error if there are multiple tasks (single task can't have internal dependencies)
-      const intersection = Array.from(layerProvides).filter(x => layerRequires.has(x));
-      if (intersection.length > 0 && layer.tasks.length > 1) {
-        errors.push(
-          `Layer ${layer.order} (${layer.name}): Contains tasks with dependencies on each other.\n` +
-          `  Detected dependency chain: ${intersection.join(', ')}\n` +
-          `  Tasks in this layer:\n` +
-          layer.tasks.map(t => `    - ${t.taskFile}: ${t.description}`).join('\n') +
-          `\n  FIX: Split into separate layers OR consolidate into a single comprehensive task.`
-        );
-      }
-
-      // Check for specific anti-patterns
-      if (layer.tasks.length > 1) {
-        const taskDescriptions = layer.tasks.map(t => t.description.toLowerCase());
-
-        // Pattern: "create X" + "configure X" in same layer
-        const hasCreate = taskDescriptions.some(d => /create|init|setup/.test(d));
-        const hasConfigure = taskDescriptions.some(d => /config|configure|settings/.test(d));
-        if (hasCreate && hasConfigure) {
-          errors.push(
-            `Layer ${layer.order} (${layer.name}): Contains both creation AND configuration tasks.\n` +
-            `  This violates parallelization - configuration depends on creation.\n` +
-            `  FIX: Either split into 2 layers OR combine into 1 comprehensive "setup" task.`
-          );
+      },
+      {
+        name: 'bluekit_blueprint_resolve',
+        description: 'Resolve a blueprint\'s extends chain into the merged blueprint that will actually execute. Shows the inheritance chain, the merged layers with the blueprint each task came from, and the resolved blueprint.json.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'ID of the blueprint to resolve'
+            },
+            projectPath: {
+              type: 'string',
+              description: 'Path to the project (optional - searches global registry if not provided)'
+            }
+          },
+          required: ['id']
         }
-
-        // Pattern: "modules" + "main entry" in same layer
-        const hasModules = taskDescriptions.some(d => /module|struct/i.test(d));
-        const hasMain = taskDescriptions.some(d => /main\.|entry|index\./i.test(d));
-        if (hasModules && hasMain) {
-          errors.push(
-            `Layer ${layer.order} (${layer.name}): Contains both module creation AND main entry.\n` +
-            `  Main entry imports modules - they cannot be in the same layer.\n` +
-            `  FIX: Split into 2 layers OR combine into 1 comprehensive "backend foundation" task.`
-          );
+      },
+      {
+        name: 'bluekit_blueprint_diff',
+        description: 'Compare two blueprints - e.g. two forks of one blueprint, or two of its versions. Reports metadata changes, layers added/removed/reordered, tasks added/removed/moved between layers, operation changes (matched by type and destination), configSchema property changes and unified diffs of task markdown files. Returns a readable summary followed by the same comparison as JSON.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            left: {
+              type: 'object',
+              description: 'Blueprint to compare from: { blueprintId, version?, projectPath? } or { path } (a blueprint folder or its blueprint.json). version selects an archived version from versions/.'
+            },
+            right: {
+              type: 'object',
+              description: 'Blueprint to compare to, in the same form as left'
+            },
+            projectPath: {
+              type: 'string',
+              description: 'Project used to find blueprints by ID when left/right do not set projectPath (optional - searches global registry if not provided)'
+            }
+          },
+          required: ['left', 'right']
         }
-
-        // Pattern: "backend API" + "frontend wrapper" in same layer
-        const hasBackendAPI = taskDescriptions.some(d => /rust.*command|backend|ipc.*handler/i.test(d));
-        const hasFrontendWrapper = taskDescriptions.some(d => /typescript.*wrapper|frontend.*wrapper|client/i.test(d));
-        if (hasBackendAPI && hasFrontendWrapper) {
-          errors.push(
-            `Layer ${layer.order} (${layer.name}): Contains both backend API AND frontend wrappers.\n` +
-            `  Frontend wrappers depend on backend API signatures.\n` +
-            `  FIX: Split into 2 layers OR combine into 1 comprehensive "IPC system" task.`
-          );
+      },
+      {
+        name: 'bluekit_blueprint_execute',
+        description: 'Execute a blueprint\'s file operations (copy, template, generate, append, insert-at-marker, patch, json-merge, delete, mkdir) against a target project. Validates the config against the blueprint\'s config schema, then runs every task\'s operations layer by layer in order. Progress is persisted to .bluekit/blueprints/{id}/runs/{runId}.json in the target project so failed or paused runs can be resumed. Generate operations are written by the client\'s model through MCP sampling (a TODO placeholder when the client does not support it). Returns a per-task report, marking AI-generated files.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            blueprintId: {
+              type: 'string',
+              description: 'ID of the blueprint to execute'
+            },
+            targetPath: {
+              type: 'string',
+              description: 'Path to the project directory where files should be written'
+            },
+            config: {
+              type: 'object',
+              description: 'Application configuration used for templating (validated against the blueprint\'s configSchema)'
+            },
+            projectPath: {
+              type: 'string',
+              description: 'Path to the project containing the blueprint (optional - searches global registry if not provided)'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'If true, write nothing and create no run - return the files that would be created or modified, with unified diffs for existing files. Default: false'
+            },
+            onConflict: {
+              type: 'string',
+              enum: ['skip', 'overwrite', 'backup', 'fail', 'merge'],
+              description: 'What to do when a destination already exists with different content: skip, overwrite, backup (save existing as .orig), fail, or merge (deep-merge JSON/YAML; other files get the default for their operation). Operations can override it with their own onConflict. Default: skip for copy, overwrite for template/generate. Edit operations (append, patch, ...) are not subject to conflict policies'
+            }
+          },
+          required: ['blueprintId', 'targetPath', 'config']
         }
-      }
-
-      // Suggestions for optimization
-      if (layer.tasks.length === 1 && blueprint.layers.length > 1) {
-        const nextLayer = blueprint.layers.find(l => l.order === layer.order + 1);
-        if (nextLayer && nextLayer.tasks.length === 1) {
-          suggestions.push(
+      },
+      {
+        name: 'bluekit_blueprint_getRun',
+        description: 'Inspect a blueprint execution run: per-layer, per-task and per-operation status, timestamps and errors. If runId is omitted, lists all runs of the blueprint in the target project.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            targetPath: {
+              type: 'string',
+              description: 'Path to the project the blueprint was executed against'
+            },
+            blueprintId: {
+              type: 'string',
+              description: 'ID of the executed blueprint'
+            },
+            runId: {
+              type: 'string',
+              description: 'ID of the run to inspect (optional - lists runs if not provided)'
+            }
+          },
+          required: ['targetPath', 'blueprintId']
+        }
+      },
+      {
+        name: 'bluekit_blueprint_pause',
+        description: 'Pause a blueprint execution run. A running run stops before its next file operation - an operation already in progress (e.g. a generate waiting on the model) finishes first. Resume it later with bluekit_blueprint_resume.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            targetPath: {
+              type: 'string',
+              description: 'Path to the project the blueprint is executing against'
+            },
+            blueprintId: {
+              type: 'string',
+              description: 'ID of the executing blueprint'
+            },
+            runId: {
+              type: 'string',
+              description: 'ID of the run to pause'
+            }
+          },
+          required: ['targetPath', 'blueprintId', 'runId']
+        }
+      },
+      {
+        name: 'bluekit_blueprint_resume',
+        description: 'Resume a paused or failed blueprint execution run from its first incomplete operation. Completed tasks and operations are not re-run. A run that is still executing cannot be resumed; a run left running by a server that has since stopped can.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            targetPath: {
+              type: 'string',
+              description: 'Path to the project the blueprint was executed against'
+            },
+            blueprintId: {
+              type: 'string',
+              description: 'ID of the executed blueprint'
+            },
+            runId: {
+              type: 'string',
+              description: 'ID of the run to resume'
+            }
+          },
+          required: ['targetPath', 'blueprintId', 'runId']
+        }
+      },
+      {
+        name: 'bluekit_blueprint_rollback',
+        description: 'Undo the file changes of a blueprint execution run using its write journal. Restores overwritten files to their prior contents and removes files the run created. Rolls back the whole run, or a single layer if layerId is given. Rolling back the whole run also restores the applied manifest (.bluekit/applied/{blueprintId}.json) it recorded, or removes it if the run created it. Rolled-back tasks return to pending so the run can be resumed.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            targetPath: {
+              type: 'string',
+              description: 'Path to the project the blueprint was executed against'
+            },
+            blueprintId: {
+              type: 'string',
+              description: 'ID of the executed blueprint'
+            },
+            runId: {
+              type: 'string',
+              description: 'ID of the run to roll back'
+            },
+            layerId: {
+              type: 'string',
+              description: 'Only roll back the writes of this layer (optional - rolls back the whole run if not provided)'
+            }
+          },
+          required: ['targetPath', 'blueprintId', 'runId']
+        }
+      },
+      {
+        name: 'bluekit_blueprint_reapply',
+        description: 'Re-apply a blueprint to a project it was already applied to, with a new config and/or a newer blueprint version. Every generated file is 3-way merged against the rendering recorded in .bluekit/applied/{blueprintId}.json: untouched files are updated, local edits are kept or merged, and conflicting edits are marked inline (<<<<<<< local / >>>>>>> blueprint) and reported instead of overwritten.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            blueprintId: {
+              type: 'string',
+              description: 'ID of the applied blueprint'
+            },
+            targetPath: {
+              type: 'string',
+              description: 'Path to the project the blueprint was applied to'
+            },
+            config: {
+              type: 'object',
+              description: 'New application configuration (optional - reuses the config from the last apply if not provided)'
+            },
+            projectPath: {
+              type: 'string',
+              description: 'Path to the project containing the blueprint (optional - searches global registry if not provided)'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'If true, report what would be updated, merged or conflict without writing anything. Default: false'
+            }
+          },
+          required: ['blueprintId', 'targetPath']
+        }
+      },
+      {
+        name: 'bluekit_blueprint_upgrade',
+        description: 'Upgrade a project to the current version of the blueprint applied to it. The config recorded at the last apply is run through the blueprint\'s migrations between the applied and the current version (declarative set/default/remove/rename/move transforms), checked against the config schema, and the blueprint is re-applied with it like bluekit_blueprint_reapply (3-way merge, local edits kept).',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            blueprintId: {
+              type: 'string',
+              description: 'ID of the applied blueprint'
+            },
+            targetPath: {
+              type: 'string',
+              description: 'Path to the project the blueprint was applied to'
+            },
+            projectPath: {
+              type: 'string',
+              description: 'Path to the project containing the blueprint (optional - searches global registry if not provided)'
+            },
+            dryRun: {
+              type: 'boolean',
+              description: 'If true, report the migrated config and what would be updated, merged or conflict without writing anything. Default: false'
+            }
+          },
+          required: ['blueprintId', 'targetPath']
+        }
+      },
+      {
+        name: 'bluekit_blueprint_lintTemplates',
+        description: 'Statically check a blueprint\'s templates without rendering them. Lists every config variable each template (and destination path) references, through #each/#with blocks, each/as variables and partials, and reports references the blueprint\'s configSchema does not define (e.g. {{app.dispalyName}}) with file, line and column.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            blueprintId: {
+              type: 'string',
+              description: 'ID of the blueprint to lint'
+            },
+            projectPath: {
+              type: 'string',
+              description: 'Path to the project (optional - searches global registry if not provided)'
+            },
+            strict: {
+              type: 'boolean',
+              description: 'If true, fail when any reference is not defined by the config schema or a template cannot be parsed. Default: false'
+            }
+          },
+          required: ['blueprintId']
+        }
+      },
+      {
+        name: 'bluekit_template_render',
+        description: 'Render a blueprint template with a config and return the output and the resolved destination path, without writing anything. Renders exactly like a template operation: with the blueprint\'s partials and helper packs, and once per item when each (or variables: ["contentType"]) is given. Use it to debug a template without executing the blueprint.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            blueprintId: {
+              type: 'string',
+              description: 'ID of the blueprint the template belongs to'
+            },
+            source: {
+              type: 'string',
+              description: 'Template file, directory or glob relative to the blueprint folder (e.g. "templates/App.tsx.hbs"). Provide source or template.'
+            },
+            template: {
+              type: 'string',
+              description: 'Inline Handlebars template to render instead of a file'
+            },
+            destination: {
+              type: 'string',
+              description: 'Destination path template to resolve (e.g. "src/{{app.name}}/App.tsx"). Default: the source file name without .hbs, or "output" for an inline template'
+            },
+            config: {
+              type: 'object',
+              description: 'Application configuration to render with'
+            },
+            variables: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'As in a template operation: ["contentType"] renders once per config.contentTypes item'
+            },
+            each: {
+              type: 'string',
+              description: 'As in a template operation: config path to iterate, e.g. "contentTypes[*].fields"'
+            },
+            as: {
+              type: 'string',
+              description: 'Item variable name for each (default: item)'
+            },
+            indexAs: {
+              type: 'string',
+              description: 'Index variable name for each (default: index)'
+            },
+            parentAs: {
+              type: 'string',
+              description: 'Parent variable name for each (default: parent)'
+            },
+            strict: {
+              type: 'boolean',
+              description: 'Fail on undefined variables. Default: the blueprint\'s strictTemplates setting'
+            },
+            projectPath: {
+              type: 'string',
+              description: 'Path to the project (optional - searches global registry if not provided)'
+            }
+          },
+          required: ['blueprintId', 'config']
+        }
+      },
+      {
+        name: 'bluekit_blueprint_verify',
+        description: 'Run the acceptance checks declared by a blueprint\'s tasks (file exists, file contains a pattern, JSON/YAML path has a value, command exits 0) against a target project, and report pass/fail per task and layer. Use it to confirm a layer was actually completed - by blueprint execution or by an agent following the task files - before moving on to the next one.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            blueprintId: {
+              type: 'string',
+              description: 'ID of the blueprint whose checks to run'
+            },
+            targetPath: {
+              type: 'string',
+              description: 'Path to the project to verify'
+            },
+            runId: {
+              type: 'string',
+              description: 'Verify with the config of this execution run (optional)'
+            },
+            config: {
+              type: 'object',
+              description: 'Application configuration for `when` conditions and check paths (optional - defaults to the run\'s config, then the config of the last apply)'
+            },
+            layerId: {
+              type: 'string',
+              description: 'Only verify the tasks of this layer (optional)'
+            },
+            runCommands: {
+              type: 'boolean',
+              description: 'Run command checks in the target directory. They execute shell commands declared by the blueprint, so only enable this for blueprints you trust. Default: false'
+            },
+            projectPath: {
+              type: 'string',
+              description: 'Path to the project containing the blueprint (optional - defaults to the global registry, then targetPath)'
+            }
+          },
+          required: ['blueprintId', 'targetPath']
+        }
+      }
+    ];
+  }
+
+  protected createToolHandlers(): Record<string, ToolHandler> {
+    return {
+      'bluekit_blueprint_planBlueprint': (params) => this.handlePlanBlueprint(params),
+      'bluekit_blueprint_generateBlueprint': (params) => this.handleGenerateBlueprint(params),
+      'bluekit_blueprint_listBlueprints': (params) => this.handleListBlueprints(params),
+      'bluekit_blueprint_getBlueprint': (params) => this.handleGetBlueprint(params),
+      'bluekit_blueprint_delete': (params) => this.handleDeleteBlueprint(params),
+      'bluekit_blueprint_gc': (params) => this.handleGarbageCollect(params),
+      'bluekit_blueprint_export': (params) => this.handleExportBlueprint(params),
+      'bluekit_blueprint_import': (params) => this.handleImportBlueprint(params),
+      'bluekit_blueprint_validateConfig': (params) => this.handleValidateConfig(params),
+      'bluekit_blueprint_resolve': (params) => this.handleResolveBlueprint(params),
+      'bluekit_blueprint_diff': (params) => this.handleDiffBlueprints(params),
+      'bluekit_blueprint_execute': (params) => this.handleExecute(params),
+      'bluekit_blueprint_verify': (params) => this.handleVerify(params),
+      'bluekit_blueprint_getRun': (params) => this.handleGetRun(params),
+      'bluekit_blueprint_pause': (params) => this.handlePauseRun(params),
+      'bluekit_blueprint_resume': (params) => this.handleResumeRun(params),
+      'bluekit_blueprint_rollback': (params) => this.handleRollbackRun(params),
+      'bluekit_blueprint_reapply': (params) => this.handleReapply(params),
+      'bluekit_blueprint_upgrade': (params) => this.handleUpgrade(params),
+      'bluekit_blueprint_lintTemplates': (params) => this.handleLintTemplates(params),
+      'bluekit_template_render': (params) => this.handleRenderTemplate(params)
+    };
+  }
+
+  private handlePlanBlueprint(params: Record<string, unknown>): Array<{ type: 'text'; text: string }> {
+    const description = params.description as string;
+    const blueprint = params.blueprint as BlueprintMetadata;
+    const projectPath = params.projectPath as string | undefined;
+
+    if (!description || typeof description !== 'string') {
+      throw new Error('description is required and must be a string');
+    }
+    if (!blueprint || typeof blueprint !== 'object') {
+      throw new Error('blueprint is required and must be an object');
+    }
+
+    // Validate blueprint structure
+    if (!Array.isArray(blueprint.layers) || blueprint.layers.length === 0) {
+      throw new Error('blueprint.layers is required and must be a non-empty array');
+    }
+
+    // Analyze the blueprint as it will execute, including inherited layers
+    let resolved: ResolvedBlueprint | undefined;
+    let inheritanceError: string | undefined;
+    if (blueprint.extends) {
+      try {
+        resolved = this.inheritanceResolver.resolve(blueprint, '', this.createBlueprintLoader(projectPath));
+      } catch (error) {
+        inheritanceError =
+          `Could not resolve parent blueprint "${blueprint.extends}": ${error instanceof Error ? error.message : 'Unknown error'}\n` +
+          `  FIX: Generate the parent blueprint first, or change "extends" so the chain has no cycle.\n` +
+          `  Analysis below covers only this blueprint's own layers.`;
+      }
+    }
+    const planned = resolved ? resolved.blueprint : blueprint;
+
+    // Analyze layers for parallelization issues
+    const analysis = this.analyzeBlueprintLayers(planned, projectPath);
+    if (inheritanceError) {
+      analysis.errors.unshift(inheritanceError);
+    }
+
+    let response = `Blueprint Plan Analysis\n`;
+    response += `========================\n\n`;
+    response += `Description: ${description}\n`;
+    if (resolved) {
+      response += `Inherits: ${resolved.chain.slice(0, -1).join(' → ')}\n`;
+    }
+    response += `Layers: ${planned.layers.length}\n`;
+    response += `Total Tasks: ${planned.layers.reduce((sum, layer) => sum + (layer.tasks?.length || 0), 0)}\n\n`;
+
+    if (analysis.dependencies.hasExplicitDependencies) {
+      response += this.formatLayering(planned, analysis.dependencies);
+    }
+
+    if (analysis.errors.length > 0) {
+      response += `❌ ERRORS (Must Fix):\n`;
+      response += `${'='.repeat(50)}\n`;
+      for (const error of analysis.errors) {
+        response += `\n${error}\n`;
+      }
+      response += `\n`;
+    }
+
+    if (analysis.warnings.length > 0) {
+      response += `⚠️  WARNINGS (Review Recommended):\n`;
+      response += `${'='.repeat(50)}\n`;
+      for (const warning of analysis.warnings) {
+        response += `\n${warning}\n`;
+      }
+      response += `\n`;
+    }
+
+    if (analysis.suggestions.length > 0) {
+      response += `💡 SUGGESTIONS (Optimization):\n`;
+      response += `${'='.repeat(50)}\n`;
+      for (const suggestion of analysis.suggestions) {
+        response += `\n${suggestion}\n`;
+      }
+      response += `\n`;
+    }
+
+    if (analysis.errors.length === 0 && analysis.warnings.length === 0) {
+      response += `✅ Blueprint structure looks good!\n`;
+      response += `All layers pass parallelization validation.\n`;
+      response += `Ready to proceed with bluekit_blueprint_generateBlueprint.\n`;
+    } else if (analysis.errors.length === 0) {
+      response += `⚠️  Blueprint has warnings but no errors.\n`;
+      response += `You can proceed with generation, but consider reviewing warnings.\n`;
+    } else {
+      response += `❌ Blueprint has errors that must be fixed before generation.\n`;
+      response += `Please restructure layers to eliminate dependencies within each layer.\n`;
+    }
+
+    return [{ type: 'text', text: response }];
+  }
+
+  private analyzeBlueprintLayers(blueprint: BlueprintMetadata, projectPath?: string): {
+    errors: string[];
+    warnings: string[];
+    suggestions: string[];
+    dependencies: DependencyAnalysis;
+  } {
+    // Explicit task dependencies take precedence over keyword-based guessing
+    const dependencies = this.dependencyResolver.analyze(blueprint);
+    const errors: string[] = [...dependencies.errors];
+    const warnings: string[] = [...dependencies.warnings];
+    const suggestions: string[] = [...dependencies.suggestions];
+
+    // Data-driven rules (built-in pack + user/project packs). The keyword
+    // chain heuristic is redundant once tasks declare explicit dependencies.
+    const rules = this.ruleEngine.loadRules(projectPath)
+      .filter(rule => !(rule.scope === 'chain' && dependencies.hasExplicitDependencies));
+    const findings = this.ruleEngine.evaluate(blueprint, rules);
+    errors.push(...findings.errors);
+    warnings.push(...findings.warnings);
+    suggestions.push(...findings.suggestions);
+
+    for (const layer of blueprint.layers) {
+      if (!Array.isArray(layer.tasks)) {
+        errors.push(`Layer ${layer.order} (${layer.name}): tasks must be an array`);
+        continue;
+      }
+
+      if (layer.tasks.length === 0) {
+        warnings.push(`Layer ${layer.order} (${layer.name}): empty layer - consider removing`);
+        continue;
+      }
+
+      // Suggestions for optimization
+      if (layer.tasks.length === 1 && blueprint.layers.length > 1) {
+        const nextLayer = blueprint.layers.find(l => l.order === layer.order + 1);
+        if (nextLayer && nextLayer.tasks.length === 1) {
+          suggestions.push(
             `Layers ${layer.order} and ${layer.order + 1}: Both have single tasks.\n` +
             `  Consider: Could these be combined into one comprehensive task?`
           );
         }
       }
 
-      if (layer.tasks.length > 5) {
-        warnings.push(
-          `Layer ${layer.order} (${layer.name}): Contains ${layer.tasks.length} tasks.\n` +
-          `  Recommendation: If these tasks are truly independent, this is fine.\n` +
-          `  However, consider if some could be consolidated for easier execution.`
-        );
+      if (layer.tasks.length > 5) {
+        warnings.push(
+          `Layer ${layer.order} (${layer.name}): Contains ${layer.tasks.length} tasks.\n` +
+          `  Recommendation: If these tasks are truly independent, this is fine.\n` +
+          `  However, consider if some could be consolidated for easier execution.`
+        );
+      }
+    }
+
+    return { errors, warnings, suggestions, dependencies };
+  }
+
+  /**
+   * Format the authored layering next to the layering computed from explicit dependencies
+   */
+  private formatLayering(blueprint: BlueprintMetadata, dependencies: DependencyAnalysis): string {
+    let response = `📐 LAYERING:\n`;
+    response += `${'='.repeat(50)}\n`;
+
+    response += `\nAuthored:\n`;
+    for (const layer of [...blueprint.layers].sort((a, b) => a.order - b.order)) {
+      const taskIds = Array.isArray(layer.tasks) ? layer.tasks.map(t => t.id) : [];
+      response += `  Layer ${layer.order} (${layer.name}): ${taskIds.join(', ') || '(empty)'}\n`;
+    }
+
+    response += `\nComputed from dependencies:\n`;
+    if (dependencies.computedLayers) {
+      dependencies.computedLayers.forEach((taskIds, index) => {
+        response += `  Layer ${index + 1}: ${taskIds.join(', ')}\n`;
+      });
+    } else {
+      response += `  (unavailable - ${dependencies.cycle ? `cycle: ${dependencies.cycle.join(' → ')}` : 'see errors'})\n`;
+    }
+
+    return response + `\n`;
+  }
+
+  private async handleGenerateBlueprint(params: Record<string, unknown>): Promise<Array<{ type: 'text'; text: string }>> {
+    const projectPath = params.projectPath as string;
+    const blueprint = params.blueprint as BlueprintMetadata;
+    const tasks = params.tasks as Record<string, string>;
+    const saveToGlobal = (params.saveToGlobal as boolean) || false;
+    const dryRun = (params.dryRun as boolean) || false;
+    const overwrite = (params.overwrite as boolean) || false;
+
+    // Validate inputs
+    if (!projectPath || typeof projectPath !== 'string') {
+      throw new Error('projectPath is required and must be a string');
+    }
+    if (!blueprint || typeof blueprint !== 'object') {
+      throw new Error('blueprint is required and must be an object');
+    }
+    if (!tasks || typeof tasks !== 'object') {
+      throw new Error('tasks is required and must be an object');
+    }
+
+    // Validate against the blueprint JSON Schema, plus the rules it cannot express
+    const problems = this.validateBlueprintDefinition(blueprint, tasks);
+    if (problems.length > 0) {
+      throw new Error(
+        `Blueprint is invalid (${problems.length} problem${problems.length === 1 ? '' : 's'}, schema: ${BLUEPRINT_SCHEMA_URI}):\n` +
+        problems.map(problem => `  - ${problem}`).join('\n')
+      );
+    }
+
+    // Resolve absolute project path
+    const resolvedProjectPath = path.isAbsolute(projectPath)
+      ? path.normalize(projectPath)
+      : path.resolve(process.cwd(), projectPath);
+
+    const bluekitDir = path.join(resolvedProjectPath, '.bluekit');
+    const blueprintsDir = path.join(bluekitDir, 'blueprints');
+    const blueprintFolder = path.join(blueprintsDir, blueprint.id);
+    this.pathSafety.assertWithin(resolvedProjectPath, blueprintFolder, 'Blueprint folder');
+
+    // COMPOSITION: Resolve the extends chain. blueprint.json keeps the authored
+    // form; the merged blueprint is recomputed whenever it is loaded.
+    const resolved = this.inheritanceResolver.resolve(blueprint, blueprintFolder, this.createBlueprintLoader(projectPath));
+    if (blueprint.extends) {
+      console.error(`[BlueprintTools] Resolved inheritance chain: ${resolved.chain.join(' → ')}`);
+    }
+
+    // Run layer parallelization analysis
+    const analysis = this.analyzeBlueprintLayers(resolved.blueprint, projectPath);
+    if (analysis.errors.length > 0) {
+      let errorMsg = '❌ Blueprint has layer parallelization errors:\n\n';
+      for (const error of analysis.errors) {
+        errorMsg += `${error}\n\n`;
+      }
+      errorMsg += 'Please fix these errors before generating. Use bluekit_blueprint_planBlueprint to validate.';
+      throw new Error(errorMsg);
+    }
+
+    // VERSIONING: an existing blueprint is replaced by a newer version (after
+    // archiving it) or, with overwrite, by the same version - never silently
+    const existing = this.readExistingBlueprint(blueprintFolder);
+    const archivedVersion = existing ? this.checkVersionBump(existing, blueprint, blueprintFolder, overwrite) : null;
+    const staleTaskFiles = existing ? this.staleTaskFiles(existing, tasks) : [];
+
+    // Add createdAt timestamp if not provided
+    if (!blueprint.createdAt) {
+      blueprint.createdAt = new Date().toISOString();
+    }
+
+    const blueprintJson = this.ensureFinalNewline(JSON.stringify(blueprint, null, 2));
+    const taskContents = Object.entries(tasks).map(([taskFile, content]) => ({
+      taskFile,
+      content: this.ensureFinalNewline(this.addTaskFrontMatter(content, taskFile))
+    }));
+
+    if (dryRun) {
+      return this.previewGenerateBlueprint(
+        resolved, resolvedProjectPath, blueprintFolder, blueprintJson, taskContents, saveToGlobal,
+        archivedVersion, staleTaskFiles
+      );
+    }
+
+    try {
+      // Create directory structure
+      if (!fs.existsSync(blueprintFolder)) {
+        fs.mkdirSync(blueprintFolder, { recursive: true });
+      }
+
+      // Keep the previous version, then drop its task files the new version no longer has
+      const archiveFolder = archivedVersion !== null ? this.history.archive(blueprintFolder, archivedVersion) : null;
+      for (const taskFile of staleTaskFiles) {
+        fs.rmSync(path.join(blueprintFolder, taskFile), { force: true });
+      }
+
+      // Write blueprint.json
+      const blueprintJsonPath = path.join(blueprintFolder, 'blueprint.json');
+      fs.writeFileSync(blueprintJsonPath, blueprintJson, 'utf8');
+
+      // Write all task files with YAML front matter
+      const taskFiles: string[] = [];
+      for (const { taskFile, content } of taskContents) {
+        const taskPath = path.join(blueprintFolder, taskFile);
+        fs.writeFileSync(taskPath, content, 'utf8');
+        taskFiles.push(taskFile);
+      }
+
+      // SOURCE REFERENCE: Resolve and copy preserved paths
+      // (inherited from the parent chain when the blueprint does not declare one)
+      const sourceReference = resolved.blueprint.sourceReference;
+      let sourcePath: string | undefined;
+      if (sourceReference) {
+        sourcePath = await this.sourceResolver.resolve(sourceReference, resolvedProjectPath);
+        console.error(`[BlueprintTools] Resolved source reference to: ${sourcePath}`);
+
+        if (sourceReference.preservePaths && sourceReference.preservePaths.length > 0) {
+          await this.sourceResolver.copyPreservedPaths(
+            sourcePath,
+            blueprintFolder,
+            sourceReference.preservePaths
+          );
+          console.error(`[BlueprintTools] Copied ${sourceReference.preservePaths.length} preserved paths`);
+        }
+      }
+
+      // Save to global registry if requested
+      if (saveToGlobal) {
+        const registry = this.readGlobalRegistry();
+        registry[blueprint.id] = {
+          projectPath: resolvedProjectPath,
+          createdAt: blueprint.createdAt
+        };
+        this.writeGlobalRegistry(registry);
+      }
+
+      const globalMessage = saveToGlobal ? `\n✅ Saved to global registry` : '';
+      const versionMessage = archiveFolder
+        ? `\n📦 Previous version ${archivedVersion} archived to ${archiveFolder}`
+        : existing ? `\n♻️ Replaced version ${existing.version}` : '';
+
+      return [
+        {
+          type: 'text',
+          text: `✅ Blueprint generated successfully!\n\n` +
+                `Location: ${blueprintFolder}\n` +
+                `Blueprint ID: ${blueprint.id}\n` +
+                `Blueprint Name: ${blueprint.name}\n` +
+                `Version: ${blueprint.version}\n` +
+                `Layers: ${resolved.blueprint.layers.length}` +
+                (blueprint.extends ? ` (inherits from ${resolved.chain.slice(0, -1).join(' → ')})` : '') + `\n` +
+                `Task files generated: ${taskFiles.length}\n` +
+                `  - ${taskFiles.join('\n  - ')}` +
+                (staleTaskFiles.length > 0 ? `\nTask files removed: ${staleTaskFiles.join(', ')}` : '') +
+                versionMessage +
+                globalMessage
+        }
+      ];
+    } catch (error) {
+      throw new Error(`Failed to generate blueprint: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private handleListBlueprints(params: Record<string, unknown>): Array<{ type: 'text'; text: string }> {
+    const projectPath = params.projectPath as string | undefined;
+    const includeGlobal = (params.includeGlobal as boolean) || false;
+
+    try {
+      const blueprints: Array<{ id: string; name: string; version: number | string; description: string; layerCount: number; source: string }> = [];
+
+      // List local project blueprints if projectPath is provided
+      if (projectPath && typeof projectPath === 'string') {
+        const resolvedProjectPath = path.isAbsolute(projectPath)
+          ? path.normalize(projectPath)
+          : path.resolve(process.cwd(), projectPath);
+
+        const blueprintsDir = path.join(resolvedProjectPath, '.bluekit', 'blueprints');
+
+        if (fs.existsSync(blueprintsDir)) {
+          const blueprintFolders = fs.readdirSync(blueprintsDir, { withFileTypes: true })
+            .filter(dirent => dirent.isDirectory())
+            .map(dirent => dirent.name);
+
+          for (const folder of blueprintFolders) {
+            const blueprintJsonPath = path.join(blueprintsDir, folder, 'blueprint.json');
+            if (fs.existsSync(blueprintJsonPath)) {
+              try {
+                const content = fs.readFileSync(blueprintJsonPath, 'utf8');
+                const metadata = JSON.parse(content) as BlueprintMetadata;
+                blueprints.push({
+                  id: metadata.id,
+                  name: metadata.name,
+                  version: metadata.version,
+                  description: metadata.description,
+                  layerCount: metadata.layers.length,
+                  source: 'local'
+                });
+              } catch (error) {
+                // Skip invalid blueprint.json files
+                continue;
+              }
+            }
+          }
+        }
+      }
+
+      // List global blueprints if requested
+      if (includeGlobal || !projectPath) {
+        const registry = this.readGlobalRegistry();
+        for (const [id, entry] of Object.entries(registry)) {
+          const blueprintFolder = path.join(entry.projectPath, '.bluekit', 'blueprints', id);
+          const blueprintJsonPath = path.join(blueprintFolder, 'blueprint.json');
+
+          if (fs.existsSync(blueprintJsonPath)) {
+            try {
+              const content = fs.readFileSync(blueprintJsonPath, 'utf8');
+              const metadata = JSON.parse(content) as BlueprintMetadata;
+              blueprints.push({
+                id: metadata.id,
+                name: metadata.name,
+                version: metadata.version,
+                description: metadata.description,
+                layerCount: metadata.layers.length,
+                source: 'global'
+              });
+            } catch (error) {
+              // Skip invalid blueprints
+              continue;
+            }
+          }
+        }
+      }
+
+      if (blueprints.length === 0) {
+        return [
+          {
+            type: 'text',
+            text: 'No blueprints found.'
+          }
+        ];
+      }
+
+      const localBlueprints = blueprints.filter(b => b.source === 'local');
+      const globalBlueprints = blueprints.filter(b => b.source === 'global');
+
+      let response = '';
+
+      if (localBlueprints.length > 0) {
+        const localList = localBlueprints.map(b =>
+          `- ${b.name} (ID: ${b.id}, Version: ${b.version})\n  ${b.description}\n  Layers: ${b.layerCount}`
+        ).join('\n\n');
+        response += `Local Blueprints (${localBlueprints.length}):\n\n${localList}`;
+      }
+
+      if (globalBlueprints.length > 0) {
+        const globalList = globalBlueprints.map(b =>
+          `- ${b.name} (ID: ${b.id}, Version: ${b.version})\n  ${b.description}\n  Layers: ${b.layerCount}`
+        ).join('\n\n');
+        if (response) response += '\n\n';
+        response += `Global Blueprints (${globalBlueprints.length}):\n\n${globalList}`;
+      }
+
+      return [
+        {
+          type: 'text',
+          text: response
+        }
+      ];
+    } catch (error) {
+      throw new Error(`Failed to list blueprints: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private handleGetBlueprint(params: Record<string, unknown>): Array<{ type: 'text'; text: string }> {
+    const projectPath = params.projectPath as string | undefined;
+    const id = params.id as string;
+    const fromGlobal = (params.fromGlobal as boolean) || false;
+
+    if (!id || typeof id !== 'string') {
+      throw new Error('id is required and must be a string');
+    }
+
+    let blueprintFolder: string;
+    let blueprintJsonPath: string;
+
+    // Determine where to look for the blueprint
+    if (fromGlobal || !projectPath) {
+      // Look in global registry
+      const registry = this.readGlobalRegistry();
+      const entry = registry[id];
+
+      if (!entry) {
+        throw new Error(`Blueprint with ID "${id}" not found in global registry`);
+      }
+
+      blueprintFolder = path.join(entry.projectPath, '.bluekit', 'blueprints', id);
+      blueprintJsonPath = path.join(blueprintFolder, 'blueprint.json');
+    } else {
+      // Look in project folder
+      if (!projectPath || typeof projectPath !== 'string') {
+        throw new Error('projectPath is required when not using global registry');
+      }
+
+      const resolvedProjectPath = path.isAbsolute(projectPath)
+        ? path.normalize(projectPath)
+        : path.resolve(process.cwd(), projectPath);
+
+      blueprintFolder = path.join(resolvedProjectPath, '.bluekit', 'blueprints', id);
+      blueprintJsonPath = path.join(blueprintFolder, 'blueprint.json');
+    }
+
+    try {
+      if (!fs.existsSync(blueprintFolder)) {
+        throw new Error(`Blueprint with ID "${id}" not found`);
+      }
+
+      if (!fs.existsSync(blueprintJsonPath)) {
+        throw new Error(`Blueprint folder exists but blueprint.json not found`);
+      }
+
+      // Read blueprint.json
+      const blueprintContent = fs.readFileSync(blueprintJsonPath, 'utf8');
+      const metadata = JSON.parse(blueprintContent) as BlueprintMetadata;
+
+      // Read all task files
+      const taskContents: Record<string, string> = {};
+      const taskFiles = fs.readdirSync(blueprintFolder)
+        .filter(file => file.endsWith('.md'));
+
+      for (const taskFile of taskFiles) {
+        const taskPath = path.join(blueprintFolder, taskFile);
+        taskContents[taskFile] = fs.readFileSync(taskPath, 'utf8');
+      }
+
+      // Build detailed response
+      let response = `Blueprint: ${metadata.name} (${metadata.id})\n`;
+      response += `Version: ${metadata.version}\n`;
+      const previousVersions = this.history.list(blueprintFolder);
+      if (previousVersions.length > 0) {
+        response += `Previous versions: ${previousVersions.join(', ')} (in ${VERSIONS_DIR}/)\n`;
+      }
+      if (metadata.migrations && metadata.migrations.length > 0) {
+        response += `Migrations: ${metadata.migrations.map(migration => migration.version).join(', ')}\n`;
+      }
+      response += `Description: ${metadata.description}\n`;
+      response += `Created: ${metadata.createdAt}\n\n`;
+      response += `Layers: ${metadata.layers.length}\n`;
+
+      for (const layer of metadata.layers) {
+        response += `\nLayer ${layer.order}: ${layer.name} (${layer.id})\n`;
+        response += `  Tasks: ${layer.tasks.length}\n`;
+        for (const task of layer.tasks) {
+          response += `    - ${task.taskFile}: ${task.description}\n`;
+        }
+      }
+
+      response += `\nTask Files: ${taskFiles.length}\n`;
+      response += `  - ${taskFiles.join('\n  - ')}\n`;
+
+      response += `\n---\nblueprint.json:\n${blueprintContent}\n`;
+
+      return [
+        {
+          type: 'text',
+          text: response
+        }
+      ];
+    } catch (error) {
+      throw new Error(`Failed to get blueprint: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private handleDeleteBlueprint(params: Record<string, unknown>): Array<{ type: 'text'; text: string }> {
+    const blueprintId = params.blueprintId as string;
+    const projectPath = params.projectPath as string | undefined;
+    const target = (params.target as 'folder' | 'registry' | 'both' | undefined) || 'both';
+    const force = (params.force as boolean) || false;
+    const dryRun = (params.dryRun as boolean) || false;
+
+    if (!blueprintId || typeof blueprintId !== 'string') {
+      throw new Error('blueprintId is required and must be a string');
+    }
+    if (!['folder', 'registry', 'both'].includes(target)) {
+      throw new Error('target must be one of: folder, registry, both');
+    }
+    this.pathSafety.assertSafeName(blueprintId, 'blueprintId');
+
+    const registry = this.readGlobalRegistry();
+    const entry = registry[blueprintId];
+    const registeredFolder = entry ? path.join(entry.projectPath, '.bluekit', 'blueprints', blueprintId) : null;
+
+    let folder: string | null = registeredFolder;
+    if (projectPath) {
+      const resolvedProjectPath = path.isAbsolute(projectPath)
+        ? path.normalize(projectPath)
+        : path.resolve(process.cwd(), projectPath);
+      folder = path.join(resolvedProjectPath, '.bluekit', 'blueprints', blueprintId);
+      this.pathSafety.assertWithin(resolvedProjectPath, folder, 'Blueprint folder');
+    }
+
+    const deleteFolder = target !== 'registry' && folder !== null && fs.existsSync(folder);
+    const unregister = Boolean(entry) && (target === 'registry'
+      || (target === 'both' && folder !== null && path.resolve(folder) === path.resolve(registeredFolder!)));
+
+    if (target === 'registry' && !entry) {
+      throw new Error(`Blueprint with ID "${blueprintId}" is not in the global registry`);
+    }
+    if (target === 'folder' && !deleteFolder) {
+      throw new Error(folder
+        ? `Blueprint with ID "${blueprintId}" not found at ${folder}`
+        : `projectPath is required to delete the folder of a blueprint that is not in the global registry`);
+    }
+    if (!deleteFolder && !unregister) {
+      throw new Error(`Blueprint with ID "${blueprintId}" not found`);
+    }
+
+    // Blueprints that extend this one stop resolving once it is gone
+    if (deleteFolder) {
+      const dependents = this.findExtendingBlueprints(blueprintId, path.dirname(folder!));
+      if (dependents.length > 0 && !force) {
+        throw new Error(
+          `Blueprint "${blueprintId}" is extended by: ${dependents.join(', ')}. ` +
+          `Delete or update those first, or pass force: true.`
+        );
+      }
+    }
+
+    const versions = deleteFolder ? this.history.list(folder!).length : 0;
+    const runsDir = deleteFolder ? path.join(folder!, 'runs') : null;
+    const runs = runsDir && fs.existsSync(runsDir)
+      ? fs.readdirSync(runsDir).filter(file => file.endsWith('.json')).length
+      : 0;
+
+    let response = dryRun
+      ? `🔍 Dry run: delete blueprint ${blueprintId}\n\n`
+      : `✅ Deleted blueprint ${blueprintId}\n\n`;
+    if (deleteFolder) {
+      response += `🗑️  Folder: ${folder}`;
+      const contents = [
+        versions > 0 ? `${versions} archived version${versions === 1 ? '' : 's'}` : '',
+        runs > 0 ? `${runs} execution run${runs === 1 ? '' : 's'}` : ''
+      ].filter(Boolean);
+      response += contents.length > 0 ? ` (with ${contents.join(' and ')})\n` : `\n`;
+    }
+    if (unregister) {
+      response += `🗑️  Global registry entry -> ${entry!.projectPath}\n`;
+    } else if (entry && deleteFolder && target === 'both') {
+      response += `\nThe global registry entry points to another project (${entry.projectPath}) and was kept.\n`;
+    }
+    if (target === 'folder' && entry && path.resolve(folder!) === path.resolve(registeredFolder!)) {
+      response += `\n⚠️  The global registry entry still points to this folder. Remove it with target "registry" or bluekit_blueprint_gc.\n`;
+    }
+
+    if (dryRun) {
+      response += `\nNothing was deleted. Run again without dryRun to delete.\n`;
+      return [{ type: 'text', text: response }];
+    }
+
+    try {
+      if (deleteFolder) {
+        fs.rmSync(folder!, { recursive: true, force: true });
+      }
+      if (unregister) {
+        delete registry[blueprintId];
+        this.writeGlobalRegistry(registry);
+      }
+    } catch (error) {
+      throw new Error(`Failed to delete blueprint: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return [{ type: 'text', text: response }];
+  }
+
+  private handleGarbageCollect(params: Record<string, unknown>): Array<{ type: 'text'; text: string }> {
+    const projectPaths = (params.projectPaths as string[] | undefined) || [];
+    const fix = (params.fix as boolean) || false;
+
+    if (!Array.isArray(projectPaths) || projectPaths.some(projectPath => typeof projectPath !== 'string')) {
+      throw new Error('projectPaths must be an array of strings');
+    }
+
+    const registry = this.readGlobalRegistry();
+    const registryCount = Object.keys(registry).length;
+    const report = this.garbageCollector.scan(
+      registry,
+      projectPaths.map(projectPath => path.isAbsolute(projectPath) ? path.normalize(projectPath) : path.resolve(process.cwd(), projectPath))
+    );
+
+    let removed: string[] = [];
+    if (fix) {
+      removed = this.garbageCollector.fix(registry, report.issues);
+      if (removed.length > 0) {
+        try {
+          this.writeGlobalRegistry(registry);
+        } catch (error) {
+          throw new Error(`Failed to update global registry: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+    }
+
+    let response = report.issues.length === 0
+      ? `✅ No problems found\n`
+      : `⚠️  ${report.issues.length} problem${report.issues.length === 1 ? '' : 's'} found\n`;
+    response += `Scanned: ${registryCount} registry entr${registryCount === 1 ? 'y' : 'ies'}, ` +
+      `${report.blueprintCount} blueprint folder${report.blueprintCount === 1 ? '' : 's'} in ` +
+      `${report.scannedProjects.length} project${report.scannedProjects.length === 1 ? '' : 's'}\n`;
+
+    const icons: Record<GcIssue['kind'], string> = {
+      dangling: '👻',
+      unparseable: '💥',
+      'id-mismatch': '🏷️ ',
+      duplicate: '👯'
+    };
+    for (const kind of Object.keys(icons) as Array<GcIssue['kind']>) {
+      const issues = report.issues.filter(issue => issue.kind === kind);
+      if (issues.length === 0) {
+        continue;
+      }
+      response += `\n${icons[kind]} ${kind} (${issues.length}):\n`;
+      for (const issue of issues) {
+        const action = !issue.unregister ? ''
+          : removed.includes(issue.blueprintId) ? ' → unregistered'
+          : fix ? '' : ' (fixable: unregister)';
+        response += `  - ${issue.blueprintId}: ${issue.detail}${action}\n`;
+        if (issue.folder && kind !== 'dangling') {
+          response += `    ${issue.folder}\n`;
+        }
+      }
+    }
+
+    if (fix) {
+      response += `\n${removed.length > 0 ? `🧹 Removed ${removed.length} registry entr${removed.length === 1 ? 'y' : 'ies'}` : 'Nothing to unregister'}. ` +
+        `Blueprint folders are never deleted: fix them by hand or with bluekit_blueprint_delete.\n`;
+    } else if (report.issues.some(issue => issue.unregister)) {
+      response += `\nReport only. Run again with fix: true to unregister the fixable entries.\n`;
+    }
+
+    return [{ type: 'text', text: response }];
+  }
+
+  private handleExportBlueprint(params: Record<string, unknown>): Array<{ type: 'text'; text: string }> {
+    const blueprintId = params.blueprintId as string;
+    const projectPath = params.projectPath as string | undefined;
+    const outputPath = params.outputPath as string | undefined;
+
+    if (!blueprintId || typeof blueprintId !== 'string') {
+      throw new Error('blueprintId is required and must be a string');
+    }
+    if (outputPath !== undefined && (!outputPath || typeof outputPath !== 'string')) {
+      throw new Error('outputPath must be a non-empty string');
+    }
+
+    const blueprintFolder = this.resolveBlueprintFolder(blueprintId, projectPath);
+    const blueprint = this.loadBlueprint(blueprintId, projectPath);
+
+    // The bundle is written inside the blueprint's project: {project}/.bluekit/blueprints/{id}
+    const blueprintProject = path.resolve(blueprintFolder, '..', '..', '..');
+    const bundlePath = this.pathSafety.resolveWithin(
+      blueprintProject, outputPath || `${blueprintId}-${blueprint.version}.tar.gz`, 'outputPath'
+    );
+
+    try {
+      const { archive, manifest } = this.bundle.pack(blueprintFolder, blueprint);
+      fs.mkdirSync(path.dirname(bundlePath), { recursive: true });
+      fs.writeFileSync(bundlePath, archive);
+
+      const files = Object.keys(manifest.files);
+      let response = `✅ Exported ${blueprint.name} (${blueprint.id}, version ${blueprint.version})\n\n`;
+      response += `Bundle: ${bundlePath} (${(archive.length / 1024).toFixed(1)} KB)\n`;
+      response += `Files: ${files.length}\n`;
+      response += `  - ${files.join('\n  - ')}\n`;
+
+      const notes: string[] = [];
+      if (blueprint.extends) {
+        notes.push(`Extends "${blueprint.extends}", which is not included: export and import it too.`);
+      }
+      if (blueprint.sourceReference) {
+        const reference = blueprint.sourceReference;
+        notes.push(`sourceReference (${reference.type}: ${reference.gitUrl || reference.path}) is not included; ` +
+          `operations that read from it need it to be reachable where the bundle is imported.`);
+      }
+      if (notes.length > 0) {
+        response += `\n⚠️  Notes:\n${notes.map(note => `  - ${note}`).join('\n')}\n`;
+      }
+
+      return [{ type: 'text', text: response }];
+    } catch (error) {
+      throw new Error(`Failed to export blueprint: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private handleImportBlueprint(params: Record<string, unknown>): Array<{ type: 'text'; text: string }> {
+    const bundlePath = params.bundlePath as string;
+    const projectPath = params.projectPath as string;
+    const requestedId = params.id as string | undefined;
+    const onCollision = (params.onCollision as 'fail' | 'rename' | 'overwrite' | undefined) || 'fail';
+    const saveToGlobal = (params.saveToGlobal as boolean) || false;
+    const dryRun = (params.dryRun as boolean) || false;
+
+    if (!bundlePath || typeof bundlePath !== 'string') {
+      throw new Error('bundlePath is required and must be a string');
+    }
+    if (!projectPath || typeof projectPath !== 'string') {
+      throw new Error('projectPath is required and must be a string');
+    }
+    if (!['fail', 'rename', 'overwrite'].includes(onCollision)) {
+      throw new Error('onCollision must be one of: fail, rename, overwrite');
+    }
+    if (requestedId !== undefined) {
+      if (typeof requestedId !== 'string') {
+        throw new Error('id must be a string');
+      }
+      this.pathSafety.assertSafeName(requestedId, 'id');
+    }
+
+    const resolvedBundlePath = path.isAbsolute(bundlePath) ? path.normalize(bundlePath) : path.resolve(process.cwd(), bundlePath);
+    const resolvedProjectPath = path.isAbsolute(projectPath)
+      ? path.normalize(projectPath)
+      : path.resolve(process.cwd(), projectPath);
+    if (!fs.existsSync(resolvedBundlePath)) {
+      throw new Error(`Bundle not found: ${resolvedBundlePath}`);
+    }
+
+    // Verify hashes, then the blueprint itself, before anything is written
+    const { manifest, blueprint, files } = this.bundle.unpack(fs.readFileSync(resolvedBundlePath));
+    const tasks: Record<string, string> = {};
+    for (const layer of Array.isArray(blueprint.layers) ? blueprint.layers : []) {
+      for (const task of Array.isArray(layer?.tasks) ? layer.tasks : []) {
+        const content = typeof task?.taskFile === 'string' ? files.get(task.taskFile) : undefined;
+        if (content) {
+          tasks[task.taskFile] = content.toString('utf-8');
+        }
+      }
+    }
+    const problems = this.validateBlueprintDefinition(blueprint, tasks);
+    if (problems.length > 0) {
+      throw new Error(
+        `Bundled blueprint is invalid (${problems.length} problem${problems.length === 1 ? '' : 's'}, schema: ${BLUEPRINT_SCHEMA_URI}):\n` +
+        problems.map(problem => `  - ${problem}`).join('\n')
+      );
+    }
+
+    // COLLISIONS: a folder of that name in the project, or a registry entry for another project
+    const blueprintsDir = path.join(resolvedProjectPath, '.bluekit', 'blueprints');
+    const registry = this.readGlobalRegistry();
+    const collision = (id: string): string | null => {
+      if (fs.existsSync(path.join(blueprintsDir, id))) {
+        return `${path.join(blueprintsDir, id)} already exists`;
+      }
+      const entry = registry[id];
+      if (saveToGlobal && entry && path.resolve(entry.projectPath) !== resolvedProjectPath) {
+        return `the global registry already has "${id}" (-> ${entry.projectPath})`;
+      }
+      return null;
+    };
+
+    let blueprintId = requestedId || blueprint.id;
+    const collided = collision(blueprintId);
+    if (collided) {
+      if (onCollision === 'fail') {
+        throw new Error(
+          `Cannot import "${blueprintId}": ${collided}. ` +
+          `Pass id to import it under another ID, or onCollision: "rename" or "overwrite".`
+        );
+      }
+      if (onCollision === 'rename') {
+        let suffix = 2;
+        while (collision(`${blueprintId}-${suffix}`)) {
+          suffix++;
+        }
+        blueprintId = `${blueprintId}-${suffix}`;
+      }
+    }
+
+    const blueprintFolder = path.join(blueprintsDir, blueprintId);
+    this.pathSafety.assertWithin(resolvedProjectPath, blueprintFolder, 'Blueprint folder');
+    if (blueprintId !== blueprint.id) {
+      blueprint.id = blueprintId;
+      files.set('blueprint.json', Buffer.from(this.ensureFinalNewline(JSON.stringify(blueprint, null, 2)), 'utf-8'));
+    }
+    const folderExists = fs.existsSync(blueprintFolder);
+    let archiveVersion: number | string | null = null;
+    try {
+      const existing = folderExists ? this.readExistingBlueprint(blueprintFolder) : null;
+      archiveVersion = existing && this.semver.isValid(existing.version) ? existing.version : null;
+    } catch {
+      // An unreadable blueprint.json is replaced without being archived
+    }
+
+    let response = dryRun
+      ? `🔍 Dry run: import ${blueprint.name} (${manifest.blueprintId}, version ${blueprint.version})\n\n`
+      : `✅ Imported ${blueprint.name} (${manifest.blueprintId}, version ${blueprint.version})\n\n`;
+    response += `Bundle: ${resolvedBundlePath} (exported ${manifest.exportedAt})\n`;
+    response += `Verified: ${files.size} file${files.size === 1 ? '' : 's'} match the manifest\n`;
+    response += `Location: ${blueprintFolder}\n`;
+    if (blueprintId !== manifest.blueprintId) {
+      response += `Blueprint ID: ${blueprintId} (renamed from ${manifest.blueprintId})\n`;
+    }
+    if (collided) {
+      response += `Collision: ${collided} → ${onCollision === 'rename' ? `imported as "${blueprintId}"` : 'overwritten'}` +
+        (onCollision === 'overwrite' && archiveVersion !== null ? ` (version ${archiveVersion} archived to ${VERSIONS_DIR}/${archiveVersion}/)` : '') + `\n`;
+    }
+    if (saveToGlobal) {
+      response += `Global registry: ${registry[blueprintId] ? 'update' : 'add'} "${blueprintId}" -> ${resolvedProjectPath}\n`;
+    }
+    response += `\nFiles:\n  - ${[...files.keys()].join('\n  - ')}\n`;
+
+    // Things the bundle cannot carry
+    const notes: string[] = [];
+    if (blueprint.extends) {
+      try {
+        this.loadBlueprint(blueprint.extends, resolvedProjectPath);
+      } catch {
+        notes.push(`Extends "${blueprint.extends}", which is not available here: import its bundle too.`);
+      }
+    }
+    const reference = blueprint.sourceReference;
+    if (reference?.type === 'local' && reference.path && !fs.existsSync(path.resolve(resolvedProjectPath, reference.path))) {
+      notes.push(`sourceReference path ${reference.path} does not exist here; operations that read from it will fail.`);
+    }
+    if (notes.length > 0) {
+      response += `\n⚠️  Notes:\n${notes.map(note => `  - ${note}`).join('\n')}\n`;
+    }
+
+    if (dryRun) {
+      response += `\nNothing was written. Run again without dryRun to import.\n`;
+      return [{ type: 'text', text: response }];
+    }
+
+    try {
+      // Overwrite: keep the previous version, then replace the blueprint's files
+      if (folderExists) {
+        if (archiveVersion !== null) {
+          this.history.archive(blueprintFolder, archiveVersion);
+        }
+        for (const entry of fs.readdirSync(blueprintFolder)) {
+          if (entry !== VERSIONS_DIR && entry !== 'runs') {
+            fs.rmSync(path.join(blueprintFolder, entry), { recursive: true, force: true });
+          }
+        }
+      }
+
+      for (const [file, content] of files) {
+        const filePath = this.pathSafety.resolveWithin(blueprintFolder, file, `Bundle file "${file}"`);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+      }
+
+      if (saveToGlobal) {
+        registry[blueprintId] = {
+          projectPath: resolvedProjectPath,
+          createdAt: blueprint.createdAt || new Date().toISOString()
+        };
+        this.writeGlobalRegistry(registry);
+      }
+    } catch (error) {
+      throw new Error(`Failed to import blueprint: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return [{ type: 'text', text: response }];
+  }
+
+  /**
+   * IDs of the blueprints in a blueprints directory, or in the global
+   * registry, that extend a blueprint
+   */
+  private findExtendingBlueprints(blueprintId: string, blueprintsDir: string): string[] {
+    const folders = new Set<string>();
+    if (fs.existsSync(blueprintsDir)) {
+      for (const dirent of fs.readdirSync(blueprintsDir, { withFileTypes: true })) {
+        if (dirent.isDirectory() && dirent.name !== blueprintId) {
+          folders.add(path.join(blueprintsDir, dirent.name));
+        }
+      }
+    }
+    for (const [id, entry] of Object.entries(this.readGlobalRegistry())) {
+      if (id !== blueprintId && typeof entry?.projectPath === 'string') {
+        folders.add(path.join(entry.projectPath, '.bluekit', 'blueprints', id));
+      }
+    }
+
+    const dependents: string[] = [];
+    for (const folder of folders) {
+      try {
+        const metadata = JSON.parse(fs.readFileSync(path.join(folder, 'blueprint.json'), 'utf8')) as BlueprintMetadata;
+        if (metadata.extends === blueprintId) {
+          dependents.push(metadata.id);
+        }
+      } catch {
+        // Missing or unparseable: bluekit_blueprint_gc reports it
+      }
+    }
+    return [...new Set(dependents)].sort();
+  }
+
+  /**
+   * Preview what generateBlueprint would write, without writing anything
+   */
+  private async previewGenerateBlueprint(
+    resolved: ResolvedBlueprint,
+    projectPath: string,
+    blueprintFolder: string,
+    blueprintJson: string,
+    taskContents: Array<{ taskFile: string; content: string }>,
+    saveToGlobal: boolean,
+    archivedVersion: number | string | null,
+    staleTaskFiles: string[]
+  ): Promise<Array<{ type: 'text'; text: string }>> {
+    const blueprint = resolved.blueprint;
+    const preview = new ChangePreview(this.textDiff, this.structuredMerge);
+    const fileWrite = (fileName: string, content: string) => {
+      const absolutePath = path.join(blueprintFolder, fileName);
+      return {
+        path: path.relative(projectPath, absolutePath),
+        absolutePath,
+        content,
+        onConflict: 'overwrite' as const,
+        description: fileName
+      };
+    };
+
+    try {
+      preview.add(fileWrite('blueprint.json', blueprintJson));
+      for (const { taskFile, content } of taskContents) {
+        preview.add(fileWrite(taskFile, content));
+      }
+      for (const taskFile of staleTaskFiles) {
+        preview.add({ ...fileWrite(taskFile, ''), kind: 'delete' }, 'not in this version');
+      }
+
+      // Preserved paths are resolved for real (git sources are cloned into the
+      // shared cache) but nothing is copied into the project
+      const sourceReference = blueprint.sourceReference;
+      if (sourceReference?.preservePaths && sourceReference.preservePaths.length > 0) {
+        const sourcePath = await this.sourceResolver.resolve(sourceReference, projectPath);
+        const writes = this.sourceResolver.planPreservedPaths(
+          sourcePath, blueprintFolder, sourceReference.preservePaths, projectPath
+        );
+        writes.forEach(write => preview.add(write, 'preserved path'));
+      }
+    } catch (error) {
+      throw new Error(`Failed to preview blueprint generation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    let response = `🔍 Dry run: generate blueprint ${blueprint.name} (${blueprint.id})\n`;
+    response += `Location: ${blueprintFolder}\n`;
+    if (archivedVersion !== null) {
+      response += `Version: ${archivedVersion} → ${blueprint.version} (would archive ${archivedVersion} to ${VERSIONS_DIR}/${archivedVersion}/)\n`;
+    }
+    response += `\n`;
+    response += this.formatChanges(preview.getChanges());
+    if (saveToGlobal) {
+      const registered = this.readGlobalRegistry()[blueprint.id];
+      response += `\nGlobal registry: would ${registered ? 'update' : 'add'} "${blueprint.id}" -> ${projectPath}\n`;
+    }
+    response += `\nNothing was written. Run again without dryRun to generate the blueprint.\n`;
+
+    return [{ type: 'text', text: response }];
+  }
+
+  /**
+   * Format a dry-run change list, with unified diffs for modified files
+   */
+  private formatChanges(changes: FileChange[]): string {
+    const icons: Record<FileChange['action'], string> = {
+      create: '🆕',
+      modify: '✏️ ',
+      delete: '🗑️ ',
+      mkdir: '📁',
+      unchanged: '➖',
+      skip: '⏭️ ',
+      fail: '⛔'
+    };
+    const count = (action: FileChange['action']) => changes.filter(c => c.action === action).length;
+
+    let response = `📋 Files: ${count('create')} to create, ${count('modify')} to modify, ` +
+      (count('delete') > 0 ? `${count('delete')} to delete, ` : '') +
+      (count('mkdir') > 0 ? `${count('mkdir')} directories to create, ` : '') +
+      `${count('unchanged')} unchanged, ${count('skip')} skipped (kept existing)`;
+    response += count('fail') > 0 ? `, ${count('fail')} would fail\n` : `\n`;
+    if (changes.length === 0) {
+      return response + `  (no file changes)\n`;
+    }
+
+    for (const change of changes) {
+      const policy = change.policy ? ` (onConflict: ${change.policy})` : '';
+      const origin = change.origins ? `  [${change.origins.join(', ')}]` : '';
+      const error = change.error ? ` - ${change.error}` : '';
+      const generated = change.generated ? ' 🤖' : '';
+      response += `  ${icons[change.action]} ${change.action.padEnd(9)} ${change.path}${generated}${policy}${origin}${error}\n`;
+    }
+    if (changes.some(c => c.generated)) {
+      response += `\n🤖 Generated files are written by the MCP client's model (sampling) when the blueprint executes; ` +
+        `a TODO placeholder is previewed, and written instead when the client does not support sampling.\n`;
+    }
+
+    const modified = changes.filter(c => c.action === 'modify');
+    if (modified.length > 0) {
+      response += `\n📝 Diffs:\n`;
+      for (const change of modified) {
+        response += change.binary ? `\nBinary file ${change.path} differs\n` : `\n${this.truncateDiff(change.diff || '')}`;
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Keep very large diffs from flooding the response
+   */
+  private truncateDiff(diff: string, maxLines = 200): string {
+    const lines = diff.split('\n');
+    if (lines.length <= maxLines) {
+      return diff;
+    }
+    return lines.slice(0, maxLines).join('\n') + `\n... (${lines.length - maxLines} more diff lines)\n`;
+  }
+
+  private handleDiffBlueprints(params: Record<string, unknown>): Array<{ type: 'text'; text: string }> {
+    const projectPath = params.projectPath as string | undefined;
+
+    const left = this.loadDiffSide(params.left, 'left', projectPath);
+    const right = this.loadDiffSide(params.right, 'right', projectPath);
+
+    let result: BlueprintDiffResult;
+    try {
+      result = this.blueprintDiff.compare(left, right);
+    } catch (error) {
+      throw new Error(`Failed to diff blueprints: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return [
+      { type: 'text', text: this.formatBlueprintDiff(result) },
+      { type: 'text', text: JSON.stringify(result, null, 2) }
+    ];
+  }
+
+  /**
+   * Load one side of a diff: a blueprint by ID (optionally an archived
+   * version) or a blueprint folder by path
+   */
+  private loadDiffSide(reference: unknown, label: string, projectPath?: string): DiffSide {
+    if (!reference || typeof reference !== 'object' || Array.isArray(reference)) {
+      throw new Error(`${label} is required and must be an object`);
+    }
+    const { blueprintId, version, path: folderPath, projectPath: ownProjectPath } = reference as Record<string, unknown>;
+    if ((blueprintId === undefined) === (folderPath === undefined)) {
+      throw new Error(`${label} must have either blueprintId or path`);
+    }
+    if (version !== undefined && typeof version !== 'string' && typeof version !== 'number') {
+      throw new Error(`${label}.version must be a string or a number`);
+    }
+
+    let folder: string;
+    if (folderPath !== undefined) {
+      if (!folderPath || typeof folderPath !== 'string') {
+        throw new Error(`${label}.path must be a string`);
+      }
+      folder = path.resolve(process.cwd(), folderPath);
+      if (path.basename(folder) === 'blueprint.json') {
+        folder = path.dirname(folder);
+      }
+    } else {
+      if (!blueprintId || typeof blueprintId !== 'string') {
+        throw new Error(`${label}.blueprintId must be a string`);
+      }
+      folder = this.resolveBlueprintFolder(blueprintId, (ownProjectPath as string | undefined) || projectPath);
+    }
+
+    let blueprint = this.readExistingBlueprint(folder);
+    if (!blueprint) {
+      throw new Error(`${label}: no blueprint.json in ${folder}`);
+    }
+
+    // An archived version, unless it is the current one
+    if (version !== undefined && !(this.semver.isValid(blueprint.version) && this.semver.compare(blueprint.version, version) === 0)) {
+      const versions = this.history.list(folder);
+      const archived = versions.find(candidate => this.semver.compare(candidate, version) === 0);
+      if (!archived) {
+        throw new Error(
+          `${label}: version ${version} of "${blueprint.id}" not found ` +
+          `(current: ${blueprint.version}${versions.length > 0 ? `; archived: ${versions.join(', ')}` : ''})`
+        );
+      }
+      folder = path.join(folder, VERSIONS_DIR, archived);
+      blueprint = this.readExistingBlueprint(folder)!;
+    }
+
+    const taskFiles: Record<string, string> = {};
+    for (const layer of Array.isArray(blueprint.layers) ? blueprint.layers : []) {
+      for (const task of Array.isArray(layer?.tasks) ? layer.tasks : []) {
+        const taskFile = task?.taskFile;
+        if (typeof taskFile === 'string' && new RegExp(PLAIN_NAME_PATTERN, 'u').test(taskFile) && fs.existsSync(path.join(folder, taskFile))) {
+          taskFiles[taskFile] = fs.readFileSync(path.join(folder, taskFile), 'utf8');
+        }
+      }
+    }
+
+    return {
+      label: folderPath !== undefined ? `${blueprint.id}@${blueprint.version} (${folder})` : `${blueprint.id}@${blueprint.version}`,
+      blueprint,
+      taskFiles
+    };
+  }
+
+  /**
+   * Format a blueprint comparison as a readable summary
+   */
+  private formatBlueprintDiff(result: BlueprintDiffResult): string {
+    const value = (json: unknown) => {
+      const text = json === undefined ? '(unset)' : JSON.stringify(json);
+      return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+    };
+
+    let response = `🔀 Blueprint diff: ${result.left} → ${result.right}\n`;
+    if (result.identical) {
+      return response + `\n✅ The blueprints are identical\n`;
+    }
+
+    if (result.metadata.length > 0) {
+      response += `\n📄 Metadata:\n`;
+      for (const change of result.metadata) {
+        response += `  ~ ${change.field}: ${value(change.left)} → ${value(change.right)}\n`;
+      }
+    }
+
+    const { layers } = result;
+    if (layers.added.length + layers.removed.length + layers.reordered.length + layers.changed.length > 0) {
+      response += `\n🧱 Layers:\n`;
+      layers.added.forEach(layer => { response += `  + ${layer.id} (${layer.name}, order ${layer.order})\n`; });
+      layers.removed.forEach(layer => { response += `  - ${layer.id} (${layer.name}, order ${layer.order})\n`; });
+      layers.reordered.forEach(layer => { response += `  ↕ ${layer.id}: order ${layer.from} → ${layer.to}\n`; });
+      layers.changed.forEach(layer => {
+        response += `  ~ ${layer.id}: ${layer.changes.map(change => `${change.field} ${value(change.left)} → ${value(change.right)}`).join(', ')}\n`;
+      });
+    }
+
+    const { tasks } = result;
+    if (tasks.added.length + tasks.removed.length + tasks.moved.length + tasks.changed.length > 0) {
+      response += `\n📋 Tasks:\n`;
+      tasks.added.forEach(task => { response += `  + ${task.id} (in ${task.layerId})\n`; });
+      tasks.removed.forEach(task => { response += `  - ${task.id} (was in ${task.layerId})\n`; });
+      tasks.moved.forEach(task => { response += `  → ${task.id}: moved from ${task.from} to ${task.to}\n`; });
+      tasks.changed.forEach(task => { response += `  ~ ${task.id}: ${task.changes.map(change => change.field).join(', ')} changed\n`; });
+    }
+
+    if (result.operations.length > 0) {
+      response += `\n⚙️  Operations:\n`;
+      const symbols = { added: '+', removed: '-', modified: '~' };
+      for (const operation of result.operations) {
+        let detail = '';
+        if (operation.change === 'modified') {
+          const before = operation.left as unknown as Record<string, unknown>;
+          const after = operation.right as unknown as Record<string, unknown>;
+          const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+            .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+          detail = ` (${fields.join(', ')})`;
+        }
+        response += `  ${symbols[operation.change]} ${operation.taskId}: ${operation.key}${detail}\n`;
+      }
+    }
+
+    const { configSchema } = result;
+    if (configSchema.added.length + configSchema.removed.length + configSchema.changed.length +
+      configSchema.required.added.length + configSchema.required.removed.length > 0) {
+      response += `\n🔧 Config schema:\n`;
+      configSchema.added.forEach(property => { response += `  + ${property}\n`; });
+      configSchema.removed.forEach(property => { response += `  - ${property}\n`; });
+      configSchema.changed.forEach(change => { response += `  ~ ${change.field}: ${value(change.left)} → ${value(change.right)}\n`; });
+      configSchema.required.added.forEach(property => { response += `  + required: ${property}\n`; });
+      configSchema.required.removed.forEach(property => { response += `  - required: ${property}\n`; });
+    }
+
+    if (result.taskFiles.length > 0) {
+      response += `\n📝 Task files:\n`;
+      for (const file of result.taskFiles) {
+        if (file.status === 'added') {
+          response += `  + ${file.rightFile} (${file.taskId})\n`;
+        } else if (file.status === 'removed') {
+          response += `  - ${file.leftFile} (${file.taskId})\n`;
+        } else {
+          response += `  ~ ${file.leftFile === file.rightFile ? file.leftFile : `${file.leftFile} → ${file.rightFile}`} (${file.taskId})\n`;
+        }
+      }
+      for (const file of result.taskFiles.filter(f => f.diff)) {
+        response += `\n${this.truncateDiff(file.diff!)}`;
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Show the merged blueprint produced by resolving an extends chain
+   */
+  private handleResolveBlueprint(params: Record<string, unknown>): Array<{ type: 'text'; text: string }> {
+    const id = params.id as string;
+    const projectPath = params.projectPath as string | undefined;
+
+    if (!id || typeof id !== 'string') {
+      throw new Error('id is required and must be a string');
+    }
+
+    try {
+      const resolved = this.loadResolvedBlueprint(id, projectPath);
+      const blueprint = resolved.blueprint;
+
+      let response = `🧬 Resolved Blueprint: ${blueprint.name} (${blueprint.id})\n\n`;
+      response += `Inheritance chain: ${resolved.chain.join(' → ')}\n`;
+      response += `Layers: ${blueprint.layers.length}\n`;
+
+      for (const layer of blueprint.layers) {
+        response += `\nLayer ${layer.order}: ${layer.name} (${layer.id})\n`;
+        for (const task of layer.tasks) {
+          const origin = resolved.taskOrigins[task.id];
+          const inherited = origin && origin !== blueprint.id ? ` [from ${origin}]` : '';
+          response += `  - ${task.taskFile}: ${task.description}${inherited}\n`;
+        }
+      }
+
+      if (blueprint.configSchema) {
+        const required = blueprint.configSchema.required || [];
+        response += `\nConfig fields: ${Object.keys(blueprint.configSchema.properties).join(', ')}\n`;
+        if (required.length > 0) {
+          response += `Required: ${required.join(', ')}\n`;
+        }
+      }
+
+      response += `\n---\nresolved blueprint.json:\n${JSON.stringify(blueprint, null, 2)}\n`;
+
+      return [
+        {
+          type: 'text',
+          text: response
+        }
+      ];
+    } catch (error) {
+      throw new Error(`Failed to resolve blueprint: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Validate an application configuration against a blueprint's config schema
+   */
+  private handleValidateConfig(params: Record<string, unknown>): Array<{ type: 'text'; text: string }> {
+    const blueprintId = params.blueprintId as string;
+    const config = params.config as Record<string, any>;
+    const projectPath = params.projectPath as string | undefined;
+
+    if (!blueprintId || typeof blueprintId !== 'string') {
+      throw new Error('blueprintId is required and must be a string');
+    }
+    if (!config || typeof config !== 'object') {
+      throw new Error('config is required and must be an object');
+    }
+
+    try {
+      // Load the blueprint (config schemas are merged across the extends chain)
+      const blueprint = this.loadResolvedBlueprint(blueprintId, projectPath).blueprint;
+
+      // Check if blueprint has a config schema
+      if (!blueprint.configSchema) {
+        return [
+          {
+            type: 'text',
+            text: `Blueprint "${blueprintId}" does not have a configuration schema.\nNo validation required.`
+          }
+        ];
+      }
+
+      const errors = this.validateAgainstConfigSchema(blueprint, config);
+
+      if (errors.length === 0) {
+        return [
+          {
+            type: 'text',
+            text: `✅ Configuration is valid!\n\nBlueprint: ${blueprint.name}\nNo validation errors found.`
+          }
+        ];
+      } else {
+        // Format validation errors
+        let errorMsg = `❌ Configuration validation failed!\n\n`;
+        errorMsg += `Blueprint: ${blueprint.name}\n\n`;
+        errorMsg += `Errors:\n`;
+        errorMsg += errors.join('');
+
+        return [
+          {
+            type: 'text',
+            text: errorMsg
+          }
+        ];
+      }
+    } catch (error) {
+      throw new Error(`Failed to validate config: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Execute a blueprint's file operations against a target project
+   */
+  private async handleExecute(params: Record<string, unknown>): Promise<Array<{ type: 'text'; text: string }>> {
+    const blueprintId = params.blueprintId as string;
+    const targetPath = params.targetPath as string;
+    const config = params.config as AppConfig;
+    const projectPath = params.projectPath as string | undefined;
+    const dryRun = (params.dryRun as boolean) || false;
+    const onConflict = params.onConflict as ConflictPolicy | undefined;
+
+    if (!blueprintId || typeof blueprintId !== 'string') {
+      throw new Error('blueprintId is required and must be a string');
+    }
+    if (!targetPath || typeof targetPath !== 'string') {
+      throw new Error('targetPath is required and must be a string');
+    }
+    if (!config || typeof config !== 'object') {
+      throw new Error('config is required and must be an object');
+    }
+    if (onConflict !== undefined && !CONFLICT_POLICIES.includes(onConflict)) {
+      throw new Error(`onConflict must be one of: ${CONFLICT_POLICIES.join(', ')}`);
+    }
+
+    const resolved = this.loadResolvedBlueprint(blueprintId, projectPath);
+    const blueprint = resolved.blueprint;
+    const blueprintFolder = this.resolveBlueprintFolder(blueprintId, projectPath);
+
+    const configErrors = this.validateAgainstConfigSchema(blueprint, config);
+    if (configErrors.length > 0) {
+      throw new Error(
+        `Configuration does not match blueprint "${blueprintId}" config schema:\n${configErrors.join('')}` +
+        `Use bluekit_blueprint_validateConfig to check the config before executing.`
+      );
+    }
+
+    const resolvedTargetPath = path.isAbsolute(targetPath)
+      ? path.normalize(targetPath)
+      : path.resolve(process.cwd(), targetPath);
+
+    try {
+      if (dryRun) {
+        const result = await this.blueprintExecutor.preview(
+          blueprint, blueprintFolder, resolvedTargetPath, config, resolved.taskFolders, onConflict
+        );
+
+        let response = `🔍 Dry run: ${blueprint.name} (${blueprint.id}, version ${blueprint.version})\n`;
+        response += `Target: ${resolvedTargetPath}\n\n`;
+        response += this.formatChanges(result.changes);
+        if (result.skipped.length > 0) {
+          response += `\n⏭️  Skipped (when):\n`;
+          response += result.skipped.map(item => `  - ${item}`).join('\n') + '\n';
+        }
+        if (result.errors.length > 0) {
+          response += `\n❌ Operations that would fail:\n`;
+          response += result.errors.map(error => `  - ${error}`).join('\n') + '\n';
+        }
+        response += `\nNothing was written. Run again without dryRun to apply these changes.\n`;
+        return [{ type: 'text', text: response }];
+      }
+
+      if (!fs.existsSync(resolvedTargetPath)) {
+        fs.mkdirSync(resolvedTargetPath, { recursive: true });
+      }
+
+      const run = this.blueprintExecutor.createRun(
+        blueprint, blueprintFolder, resolvedTargetPath, config, resolved.taskFolders, onConflict
+      );
+      const finished = await this.blueprintExecutor.run(run);
+
+      return [{ type: 'text', text: this.formatRun(finished) }];
+    } catch (error) {
+      throw new Error(`Failed to execute blueprint: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get a persisted run, or list all runs for the blueprint when no runId is given
+   */
+  private handleGetRun(params: Record<string, unknown>): Array<{ type: 'text'; text: string }> {
+    const { targetPath, blueprintId, runId } = this.parseRunParams(params, false);
+
+    if (!runId) {
+      const runs = this.stateStore.list(targetPath, blueprintId);
+      if (runs.length === 0) {
+        return [{ type: 'text', text: `No runs found for blueprint "${blueprintId}" in ${targetPath}` }];
       }
+
+      const list = runs.map(r =>
+        `- ${r.runId} [${r.status}]\n  Created: ${r.createdAt}\n  Updated: ${r.updatedAt}`
+      ).join('\n\n');
+      return [{ type: 'text', text: `Runs for blueprint "${blueprintId}" (${runs.length}):\n\n${list}` }];
     }
 
-    return { errors, warnings, suggestions };
+    const run = this.stateStore.load(targetPath, blueprintId, runId);
+    return [{ type: 'text', text: this.formatRun(run) + `\n---\nrun.json:\n${JSON.stringify(run, null, 2)}\n` }];
   }
 
-  private async handleGenerateBlueprint(params: Record<string, unknown>): Promise<Array<{ type: 'text'; text: string }>> {
-    const projectPath = params.projectPath as string;
-    const blueprint = params.blueprint as BlueprintMetadata;
-    const tasks = params.tasks as Record<string, string>;
-    const saveToGlobal = (params.saveToGlobal as boolean) || false;
+  /**
+   * Pause a run. A running run stops before its next operation; any other
+   * incomplete run (including one whose process has exited) is marked paused immediately.
+   */
+  private handlePauseRun(params: Record<string, unknown>): Array<{ type: 'text'; text: string }> {
+    const { targetPath, blueprintId, runId } = this.parseRunParams(params, true);
+    const run = this.stateStore.load(targetPath, blueprintId, runId!);
 
-    // Validate inputs
-    if (!projectPath || typeof projectPath !== 'string') {
-      throw new Error('projectPath is required and must be a string');
+    if (run.status === 'done') {
+      throw new Error(`Run "${run.runId}" has already completed and cannot be paused`);
     }
-    if (!blueprint || typeof blueprint !== 'object') {
-      throw new Error('blueprint is required and must be an object');
+    if (run.status === 'paused') {
+      return [{ type: 'text', text: `Run "${run.runId}" is already paused.` }];
     }
-    if (!tasks || typeof tasks !== 'object') {
-      throw new Error('tasks is required and must be an object');
+
+    if (this.stateStore.isActive(run)) {
+      this.stateStore.requestPause(run);
+      return [
+        {
+          type: 'text',
+          text: `⏸️  Pause requested for run "${run.runId}".\n` +
+                `The run will stop before its next file operation. Use bluekit_blueprint_resume to continue.`
+        }
+      ];
     }
 
-    // Validate blueprint structure
-    if (!blueprint.id || typeof blueprint.id !== 'string') {
-      throw new Error('blueprint.id is required and must be a string');
+    run.status = 'paused';
+    this.stateStore.save(run);
+    return [
+      {
+        type: 'text',
+        text: `⏸️  Run "${run.runId}" paused.\nUse bluekit_blueprint_resume to continue.`
+      }
+    ];
+  }
+
+  /**
+   * Resume a paused or failed run from its first incomplete task
+   */
+  private async handleResumeRun(params: Record<string, unknown>): Promise<Array<{ type: 'text'; text: string }>> {
+    const { targetPath, blueprintId, runId } = this.parseRunParams(params, true);
+    const run = this.stateStore.load(targetPath, blueprintId, runId!);
+
+    if (run.status === 'done') {
+      throw new Error(`Run "${run.runId}" has already completed - nothing to resume`);
     }
-    if (!blueprint.name || typeof blueprint.name !== 'string') {
-      throw new Error('blueprint.name is required and must be a string');
+    if (this.stateStore.isActive(run)) {
+      throw new Error(
+        `Run "${run.runId}" is still running. Pause it with bluekit_blueprint_pause and resume it once it has stopped.`
+      );
     }
-    if (typeof blueprint.version !== 'number') {
-      throw new Error('blueprint.version is required and must be a number');
+
+    try {
+      const resumed = await this.blueprintExecutor.run(run);
+      return [{ type: 'text', text: this.formatRun(resumed) }];
+    } catch (error) {
+      throw new Error(`Failed to resume run: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-    if (!blueprint.description || typeof blueprint.description !== 'string') {
-      throw new Error('blueprint.description is required and must be a string');
+  }
+
+  /**
+   * Roll back a run (or one of its layers) by replaying its write journal in reverse
+   */
+  private handleRollbackRun(params: Record<string, unknown>): Array<{ type: 'text'; text: string }> {
+    const { targetPath, blueprintId, runId } = this.parseRunParams(params, true);
+    const layerId = params.layerId as string | undefined;
+    const run = this.stateStore.load(targetPath, blueprintId, runId!);
+
+    if (this.stateStore.isActive(run)) {
+      throw new Error(`Run "${run.runId}" is still running. Pause it with bluekit_blueprint_pause before rolling back.`);
     }
-    if (!Array.isArray(blueprint.layers)) {
-      throw new Error('blueprint.layers is required and must be an array');
+
+    const layers = layerId ? run.layers.filter(l => l.id === layerId) : run.layers;
+    if (layerId && layers.length === 0) {
+      throw new Error(`Layer "${layerId}" not found in run "${run.runId}"`);
     }
 
-    // Validate layers and collect all taskFiles
-    const allTaskFiles = new Set<string>();
-    for (const layer of blueprint.layers) {
-      if (!layer.id || typeof layer.id !== 'string') {
-        throw new Error('Each layer must have an id (string)');
-      }
-      if (typeof layer.order !== 'number') {
-        throw new Error('Each layer must have an order (number)');
+    try {
+      const result = this.journal.rollback(run, layerId);
+
+      // Rolled-back work must run again on resume (skipped steps stay skipped)
+      for (const layer of layers.filter(l => l.status !== 'skipped')) {
+        layer.status = 'pending';
+        layer.startedAt = undefined;
+        layer.finishedAt = undefined;
+        for (const task of layer.tasks.filter(t => t.status !== 'skipped')) {
+          task.status = 'pending';
+          task.startedAt = undefined;
+          task.finishedAt = undefined;
+          task.error = undefined;
+          for (const op of task.operations.filter(o => o.status !== 'skipped')) {
+            op.status = 'pending';
+            op.files = [];
+            op.conflicts = undefined;
+            op.aiGenerated = undefined;
+            op.placeholders = undefined;
+            op.startedAt = undefined;
+            op.finishedAt = undefined;
+            op.error = undefined;
+          }
+        }
       }
-      if (!layer.name || typeof layer.name !== 'string') {
-        throw new Error('Each layer must have a name (string)');
+      run.status = layerId ? 'paused' : 'rolled-back';
+      run.finishedAt = undefined;
+      run.rolledBackAt = new Date().toISOString();
+      this.stateStore.save(run);
+
+      const scope = layerId ? `layer "${layerId}" of run "${run.runId}"` : `run "${run.runId}"`;
+      let response = `↩️  Rolled back ${scope}\n\n`;
+      response += `Journal entries undone: ${result.entries}\n`;
+      response += `Files restored: ${result.restored.length}\n`;
+      for (const file of result.restored) {
+        response += `  - ${file}\n`;
       }
-      if (!Array.isArray(layer.tasks)) {
-        throw new Error('Each layer must have a tasks array');
+      response += `Files removed: ${result.removed.length}\n`;
+      for (const file of result.removed) {
+        response += `  - ${file}\n`;
       }
 
-      // Validate tasks
-      for (const task of layer.tasks) {
-        if (!task.id || typeof task.id !== 'string') {
-          throw new Error('Each task must have an id (string)');
-        }
-        if (!task.taskFile || typeof task.taskFile !== 'string') {
-          throw new Error('Each task must have a taskFile (string)');
-        }
-        if (!task.description || typeof task.description !== 'string') {
-          throw new Error('Each task must have a description (string)');
-        }
-        allTaskFiles.add(task.taskFile);
+      if (layerId && run.layers.some(l => l.order > layers[0].order && l.status === 'done')) {
+        response += `\n⚠️  Later layers already ran and may depend on the rolled-back files.\n`;
       }
+
+      response += `\nUse bluekit_blueprint_resume to re-run the rolled-back tasks.\n`;
+
+      return [{ type: 'text', text: response }];
+    } catch (error) {
+      throw new Error(`Failed to roll back run: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+  }
 
-    // Validate all referenced task files are provided
-    for (const taskFile of allTaskFiles) {
-      if (!tasks[taskFile]) {
-        throw new Error(`Task file "${taskFile}" is referenced in blueprint but not provided in tasks object`);
-      }
+  /**
+   * Re-apply a blueprint with a 3-way merge against local edits
+   * @param migration - Set by bluekit_blueprint_upgrade: the migrations that produced params.config
+   */
+  private async handleReapply(
+    params: Record<string, unknown>,
+    migration?: MigrationResult
+  ): Promise<Array<{ type: 'text'; text: string }>> {
+    const blueprintId = params.blueprintId as string;
+    const targetPath = params.targetPath as string;
+    const projectPath = params.projectPath as string | undefined;
+    const dryRun = (params.dryRun as boolean) || false;
+
+    if (!blueprintId || typeof blueprintId !== 'string') {
+      throw new Error('blueprintId is required and must be a string');
+    }
+    if (!targetPath || typeof targetPath !== 'string') {
+      throw new Error('targetPath is required and must be a string');
+    }
+    if (params.config !== undefined && (!params.config || typeof params.config !== 'object')) {
+      throw new Error('config must be an object');
     }
 
-    // COMPOSITION: Load parent blueprint if extending
-    if (blueprint.extends) {
-      const parent = this.loadBlueprint(blueprint.extends, projectPath);
+    const resolvedTargetPath = path.isAbsolute(targetPath)
+      ? path.normalize(targetPath)
+      : path.resolve(process.cwd(), targetPath);
+
+    const previous = this.manifestStore.load(resolvedTargetPath, blueprintId);
+    if (!previous) {
+      throw new Error(
+        `Blueprint "${blueprintId}" has not been applied to ${resolvedTargetPath} ` +
+        `(no ${path.relative(resolvedTargetPath, this.manifestStore.getPath(resolvedTargetPath, blueprintId))}). ` +
+        `Use bluekit_blueprint_execute first.`
+      );
+    }
 
-      // Merge parent layers with child layers
-      // Parent layers come first, child layers are appended
-      blueprint.layers = [...parent.layers, ...blueprint.layers];
+    const resolved = this.loadResolvedBlueprint(blueprintId, projectPath);
+    const blueprint = resolved.blueprint;
+    const config = (params.config as AppConfig | undefined) || previous.config;
+
+    const configErrors = this.validateAgainstConfigSchema(blueprint, config);
+    if (configErrors.length > 0) {
+      throw new Error(migration
+        ? `Migrated configuration does not match blueprint "${blueprintId}" version ${blueprint.version} config schema:\n` +
+          `${configErrors.join('')}Add migrations to blueprint.json that bring the config in line with the schema.`
+        : `Configuration does not match blueprint "${blueprintId}" config schema:\n${configErrors.join('')}` +
+          `Use bluekit_blueprint_validateConfig to check the config before re-applying.`
+      );
+    }
 
-      // Inherit source reference if not specified
-      if (!blueprint.sourceReference && parent.sourceReference) {
-        blueprint.sourceReference = parent.sourceReference;
+    try {
+      const result = await this.reapplier.reapply(
+        blueprint,
+        this.resolveBlueprintFolder(blueprintId, projectPath),
+        resolvedTargetPath,
+        config,
+        resolved.taskFolders,
+        previous,
+        dryRun
+      );
+
+      const count = (action: ReapplyFileResult['action']) => result.files.filter(f => f.action === action).length;
+      const conflicted = result.files.filter(f => f.action === 'conflict');
+      const icons: Record<ReapplyFileResult['action'], string> = {
+        create: '🆕',
+        update: '🔄',
+        merge: '🔀',
+        conflict: '⚠️ ',
+        kept: '📌',
+        unchanged: '➖',
+        'deleted-locally': '🗑️ ',
+        orphaned: '👻'
+      };
+
+      let response = dryRun
+        ? `🔍 Dry run: re-apply ${blueprint.name} (${blueprint.id})\n`
+        : conflicted.length > 0
+          ? `⚠️  Re-applied ${blueprint.name} (${blueprint.id}) with conflicts\n`
+          : `✅ Re-applied ${blueprint.name} (${blueprint.id})\n`;
+      response += `Target: ${resolvedTargetPath}\n`;
+      response += `Version: ${previous.blueprintVersion} → ${blueprint.version}\n`;
+      response += migration
+        ? this.formatMigration(migration)
+        : `Config: ${params.config ? 'new config provided' : 'reused from last apply'}\n\n`;
+
+      response += `📋 Files: ${count('create')} created, ${count('update')} updated, ${count('merge')} merged, ` +
+        `${conflicted.length} conflicted, ${count('kept')} kept, ${count('unchanged')} unchanged\n`;
+      for (const file of result.files) {
+        const origin = file.origin ? `  [${file.origin}]` : '';
+        const detail = file.detail ? ` - ${file.detail}` : '';
+        const conflicts = file.conflicts ? ` (${file.conflicts} conflict${file.conflicts > 1 ? 's' : ''})` : '';
+        response += `  ${icons[file.action]} ${file.action.padEnd(15)} ${file.path}${conflicts}${origin}${detail}\n`;
       }
 
-      console.log(`[BlueprintTools] Extended blueprint "${blueprint.extends}" with ${parent.layers.length} parent layers`);
-    }
+      const diffs = result.files.filter(f => f.diff);
+      if (diffs.length > 0) {
+        response += `\n📝 Changes to existing files:\n`;
+        for (const file of diffs) {
+          response += `\n${this.truncateDiff(file.diff!)}`;
+        }
+      }
 
-    // Run layer parallelization analysis
-    const analysis = this.analyzeBlueprintLayers(blueprint);
-    if (analysis.errors.length > 0) {
-      let errorMsg = '❌ Blueprint has layer parallelization errors:\n\n';
-      for (const error of analysis.errors) {
-        errorMsg += `${error}\n\n`;
+      if (result.errors.length > 0) {
+        response += `\n❌ Operations that would fail:\n`;
+        response += result.errors.map(error => `  - ${error}`).join('\n') + '\n';
       }
-      errorMsg += 'Please fix these errors before generating. Use bluekit_blueprint_planBlueprint to validate.';
-      throw new Error(errorMsg);
+
+      if (dryRun) {
+        response += `\nNothing was written. Run again without dryRun to apply these changes.\n`;
+      } else if (conflicted.length > 0) {
+        response += `\nResolve the conflict markers (<<<<<<< local / >>>>>>> blueprint) in:\n`;
+        response += conflicted.map(f => `  - ${f.path}`).join('\n') + '\n';
+      }
+
+      return [{ type: 'text', text: response }];
+    } catch (error) {
+      throw new Error(`Failed to re-apply blueprint: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+  }
 
-    // Resolve absolute project path
-    const resolvedProjectPath = path.isAbsolute(projectPath)
-      ? path.normalize(projectPath)
-      : path.resolve(process.cwd(), projectPath);
+  private async handleUpgrade(params: Record<string, unknown>): Promise<Array<{ type: 'text'; text: string }>> {
+    const blueprintId = params.blueprintId as string;
+    const targetPath = params.targetPath as string;
+    const projectPath = params.projectPath as string | undefined;
 
-    const bluekitDir = path.join(resolvedProjectPath, '.bluekit');
-    const blueprintsDir = path.join(bluekitDir, 'blueprints');
-    const blueprintFolder = path.join(blueprintsDir, blueprint.id);
+    if (!blueprintId || typeof blueprintId !== 'string') {
+      throw new Error('blueprintId is required and must be a string');
+    }
+    if (!targetPath || typeof targetPath !== 'string') {
+      throw new Error('targetPath is required and must be a string');
+    }
 
-    try {
-      // Create directory structure
-      if (!fs.existsSync(blueprintFolder)) {
-        fs.mkdirSync(blueprintFolder, { recursive: true });
-      }
+    const resolvedTargetPath = path.isAbsolute(targetPath)
+      ? path.normalize(targetPath)
+      : path.resolve(process.cwd(), targetPath);
+
+    const previous = this.manifestStore.load(resolvedTargetPath, blueprintId);
+    if (!previous) {
+      throw new Error(
+        `Blueprint "${blueprintId}" has not been applied to ${resolvedTargetPath} ` +
+        `(no ${path.relative(resolvedTargetPath, this.manifestStore.getPath(resolvedTargetPath, blueprintId))}). ` +
+        `Use bluekit_blueprint_execute first.`
+      );
+    }
 
-      // Add createdAt timestamp if not provided
-      if (!blueprint.createdAt) {
-        blueprint.createdAt = new Date().toISOString();
-      }
+    const blueprint = this.loadResolvedBlueprint(blueprintId, projectPath).blueprint;
+    if (!this.semver.isValid(previous.blueprintVersion)) {
+      throw new Error(`Applied version ${JSON.stringify(previous.blueprintVersion)} of "${blueprintId}" is not a valid version`);
+    }
+    if (!this.semver.isValid(blueprint.version)) {
+      throw new Error(`Blueprint "${blueprintId}" has an invalid version ${JSON.stringify(blueprint.version)}`);
+    }
 
-      // Write blueprint.json
-      const blueprintJsonPath = path.join(blueprintFolder, 'blueprint.json');
-      const blueprintJson = this.ensureFinalNewline(JSON.stringify(blueprint, null, 2));
-      fs.writeFileSync(blueprintJsonPath, blueprintJson, 'utf8');
+    const comparison = this.semver.compare(blueprint.version, previous.blueprintVersion);
+    if (comparison === 0) {
+      return [{
+        type: 'text',
+        text: `✅ ${blueprint.name} (${blueprint.id}) is up to date in ${resolvedTargetPath} (version ${blueprint.version})\n\n` +
+              `Use bluekit_blueprint_reapply to re-apply it with a new config.`
+      }];
+    }
+    if (comparison < 0) {
+      throw new Error(
+        `${resolvedTargetPath} was upgraded to version ${previous.blueprintVersion} of "${blueprintId}", ` +
+        `newer than the blueprint's current version ${blueprint.version}. Downgrades are not supported.`
+      );
+    }
 
-      // Write all task files with YAML front matter
-      const taskFiles: string[] = [];
-      for (const [taskFile, content] of Object.entries(tasks)) {
-        const taskPath = path.join(blueprintFolder, taskFile);
-        const contentWithFrontMatter = this.ensureFinalNewline(this.addTaskFrontMatter(content, taskFile));
-        fs.writeFileSync(taskPath, contentWithFrontMatter, 'utf8');
-        taskFiles.push(taskFile);
-      }
+    let migration: MigrationResult;
+    try {
+      migration = this.configMigrator.migrate(
+        previous.config, previous.blueprintVersion, blueprint.version, blueprint.migrations || []
+      );
+    } catch (error) {
+      throw new Error(`Failed to upgrade blueprint: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
 
-      // SOURCE REFERENCE: Resolve and copy preserved paths
-      let sourcePath: string | undefined;
-      if (blueprint.sourceReference) {
-        sourcePath = await this.sourceResolver.resolve(blueprint.sourceReference, resolvedProjectPath);
-        console.log(`[BlueprintTools] Resolved source reference to: ${sourcePath}`);
+    return this.handleReapply({ ...params, config: migration.config }, migration);
+  }
 
-        if (blueprint.sourceReference.preservePaths && blueprint.sourceReference.preservePaths.length > 0) {
-          await this.sourceResolver.copyPreservedPaths(
-            sourcePath,
-            blueprintFolder,
-            blueprint.sourceReference.preservePaths
-          );
-          console.log(`[BlueprintTools] Copied ${blueprint.sourceReference.preservePaths.length} preserved paths`);
-        }
-      }
+  /**
+   * Format the migrations an upgrade ran on the config
+   */
+  private formatMigration(migration: MigrationResult): string {
+    if (migration.applied.length === 0) {
+      return `Config: reused from last apply (no migrations between these versions)\n\n`;
+    }
 
-      // Save to global registry if requested
-      if (saveToGlobal) {
-        const registry = this.readGlobalRegistry();
-        registry[blueprint.id] = {
-          projectPath: resolvedProjectPath,
-          createdAt: blueprint.createdAt
-        };
-        this.writeGlobalRegistry(registry);
+    let response = `Config migrations:\n`;
+    for (const applied of migration.applied) {
+      response += `  ⬆️  ${applied.version}${applied.description ? ` - ${applied.description}` : ''}\n`;
+      if (applied.changes.length === 0) {
+        response += `      (nothing to change)\n`;
       }
+      for (const change of applied.changes) {
+        response += `      ${change}\n`;
+      }
+    }
+    return response + `\n`;
+  }
 
-      const globalMessage = saveToGlobal ? `\n✅ Saved to global registry` : '';
+  /**
+   * Parse and validate the common targetPath/blueprintId/runId params of run tools
+   */
+  private parseRunParams(
+    params: Record<string, unknown>,
+    requireRunId: boolean
+  ): { targetPath: string; blueprintId: string; runId?: string } {
+    const targetPath = params.targetPath as string;
+    const blueprintId = params.blueprintId as string;
+    const runId = params.runId as string | undefined;
 
-      return [
-        {
-          type: 'text',
-          text: `✅ Blueprint generated successfully!\n\n` +
-                `Location: ${blueprintFolder}\n` +
-                `Blueprint ID: ${blueprint.id}\n` +
-                `Blueprint Name: ${blueprint.name}\n` +
-                `Layers: ${blueprint.layers.length}\n` +
-                `Task files generated: ${taskFiles.length}\n` +
-                `  - ${taskFiles.join('\n  - ')}` +
-                globalMessage
-        }
-      ];
-    } catch (error) {
-      throw new Error(`Failed to generate blueprint: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (!targetPath || typeof targetPath !== 'string') {
+      throw new Error('targetPath is required and must be a string');
+    }
+    if (!blueprintId || typeof blueprintId !== 'string') {
+      throw new Error('blueprintId is required and must be a string');
+    }
+    if (requireRunId && (!runId || typeof runId !== 'string')) {
+      throw new Error('runId is required and must be a string');
+    }
+    this.pathSafety.assertSafeName(blueprintId, 'blueprintId');
+    if (runId !== undefined) {
+      this.pathSafety.assertSafeName(runId, 'runId');
     }
+
+    const resolvedTargetPath = path.isAbsolute(targetPath)
+      ? path.normalize(targetPath)
+      : path.resolve(process.cwd(), targetPath);
+
+    return { targetPath: resolvedTargetPath, blueprintId, runId };
   }
 
-  private handleListBlueprints(params: Record<string, unknown>): Array<{ type: 'text'; text: string }> {
+  /**
+   * List the config variables a blueprint's templates reference and check them against its config schema
+   */
+  private handleLintTemplates(params: Record<string, unknown>): Array<{ type: 'text'; text: string }> {
+    const blueprintId = params.blueprintId as string;
     const projectPath = params.projectPath as string | undefined;
-    const includeGlobal = (params.includeGlobal as boolean) || false;
+    const strict = (params.strict as boolean) || false;
 
-    try {
-      const blueprints: Array<{ id: string; name: string; version: number; description: string; layerCount: number; source: string }> = [];
+    if (!blueprintId || typeof blueprintId !== 'string') {
+      throw new Error('blueprintId is required and must be a string');
+    }
 
-      // List local project blueprints if projectPath is provided
-      if (projectPath && typeof projectPath === 'string') {
-        const resolvedProjectPath = path.isAbsolute(projectPath)
-          ? path.normalize(projectPath)
-          : path.resolve(process.cwd(), projectPath);
+    let result;
+    let blueprint: BlueprintMetadata;
+    try {
+      const resolved = this.loadResolvedBlueprint(blueprintId, projectPath);
+      blueprint = resolved.blueprint;
+      result = this.templateLinter.lint(blueprint, this.resolveBlueprintFolder(blueprintId, projectPath), resolved.taskFolders);
+    } catch (error) {
+      throw new Error(`Failed to lint templates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
 
-        const blueprintsDir = path.join(resolvedProjectPath, '.bluekit', 'blueprints');
+    const problems = [
+      ...result.templates.flatMap(({ origin, file, unresolved }) => unresolved.map(ref =>
+        `${origin}: ${ref.partial ? `partial "${ref.partial}" (used by ${file})` : file}:${ref.line}:${ref.column}: ` +
+        `"${ref.path}" is not defined in the config schema`
+      )),
+      ...result.errors
+    ];
+    if (strict && problems.length > 0) {
+      throw new Error(
+        `Template lint failed for blueprint "${blueprintId}" (${problems.length} problem${problems.length === 1 ? '' : 's'}):\n` +
+        problems.map(problem => `  - ${problem}`).join('\n')
+      );
+    }
 
-        if (fs.existsSync(blueprintsDir)) {
-          const blueprintFolders = fs.readdirSync(blueprintsDir, { withFileTypes: true })
-            .filter(dirent => dirent.isDirectory())
-            .map(dirent => dirent.name);
+    const referenceCount = result.templates.reduce((count, template) => count + template.references.length, 0);
+    let response = `🔎 Template lint: ${blueprint.name} (${blueprint.id})\n`;
+    response += result.schemaChecked
+      ? `References are checked against the blueprint's configSchema.\n`
+      : `⚠️  The blueprint has no configSchema - references are listed but not checked.\n`;
 
-          for (const folder of blueprintFolders) {
-            const blueprintJsonPath = path.join(blueprintsDir, folder, 'blueprint.json');
-            if (fs.existsSync(blueprintJsonPath)) {
-              try {
-                const content = fs.readFileSync(blueprintJsonPath, 'utf8');
-                const metadata = JSON.parse(content) as BlueprintMetadata;
-                blueprints.push({
-                  id: metadata.id,
-                  name: metadata.name,
-                  version: metadata.version,
-                  description: metadata.description,
-                  layerCount: metadata.layers.length,
-                  source: 'local'
-                });
-              } catch (error) {
-                // Skip invalid blueprint.json files
-                continue;
-              }
-            }
-          }
-        }
+    for (const { origin, file, references, unresolved } of result.templates) {
+      if (references.length === 0) {
+        continue;
       }
+      response += `\n${unresolved.length > 0 ? '❌' : '✅'} ${origin}: ${file}\n`;
+      response += `   ${Array.from(new Set(references.map(ref => ref.path))).join(', ')}\n`;
+      for (const ref of unresolved) {
+        const where = ref.partial ? `partial "${ref.partial}" ` : '';
+        response += `   - ${where}line ${ref.line}, column ${ref.column}: "${ref.path}" is not defined in the config schema\n`;
+      }
+    }
 
-      // List global blueprints if requested
-      if (includeGlobal || !projectPath) {
-        const registry = this.readGlobalRegistry();
-        for (const [id, entry] of Object.entries(registry)) {
-          const blueprintFolder = path.join(entry.projectPath, '.bluekit', 'blueprints', id);
-          const blueprintJsonPath = path.join(blueprintFolder, 'blueprint.json');
+    if (result.errors.length > 0) {
+      response += `\n❌ Templates that could not be checked:\n`;
+      response += result.errors.map(error => `   - ${error}\n`).join('');
+    }
 
-          if (fs.existsSync(blueprintJsonPath)) {
-            try {
-              const content = fs.readFileSync(blueprintJsonPath, 'utf8');
-              const metadata = JSON.parse(content) as BlueprintMetadata;
-              blueprints.push({
-                id: metadata.id,
-                name: metadata.name,
-                version: metadata.version,
-                description: metadata.description,
-                layerCount: metadata.layers.length,
-                source: 'global'
-              });
-            } catch (error) {
-              // Skip invalid blueprints
-              continue;
-            }
-          }
-        }
-      }
+    response += `\nSummary: ${result.templates.length} template${result.templates.length === 1 ? '' : 's'}, ` +
+      `${referenceCount} reference${referenceCount === 1 ? '' : 's'}, ${problems.length} problem${problems.length === 1 ? '' : 's'}\n`;
+    if (problems.length > 0) {
+      response += `Set "strictTemplates": true in blueprint.json to fail on undefined variables when the blueprint executes.\n`;
+    }
 
-      if (blueprints.length === 0) {
-        return [
-          {
-            type: 'text',
-            text: 'No blueprints found.'
-          }
-        ];
+    return [
+      {
+        type: 'text',
+        text: response
       }
+    ];
+  }
 
-      const localBlueprints = blueprints.filter(b => b.source === 'local');
-      const globalBlueprints = blueprints.filter(b => b.source === 'global');
+  /**
+   * Render a template the way a template operation would, without writing anything
+   */
+  private async handleRenderTemplate(params: Record<string, unknown>): Promise<Array<{ type: 'text'; text: string }>> {
+    const blueprintId = params.blueprintId as string;
+    const source = params.source as string | undefined;
+    const template = params.template as string | undefined;
+    const config = params.config as Record<string, any>;
+    const projectPath = params.projectPath as string | undefined;
 
-      let response = '';
+    if (!blueprintId || typeof blueprintId !== 'string') {
+      throw new Error('blueprintId is required and must be a string');
+    }
+    if ((source === undefined) === (template === undefined)) {
+      throw new Error('Provide either source (a template file) or template (an inline template)');
+    }
+    if (!config || typeof config !== 'object') {
+      throw new Error('config is required and must be an object');
+    }
+    if (params.strict !== undefined && typeof params.strict !== 'boolean') {
+      throw new Error('strict must be a boolean');
+    }
 
-      if (localBlueprints.length > 0) {
-        const localList = localBlueprints.map(b =>
-          `- ${b.name} (ID: ${b.id}, Version: ${b.version})\n  ${b.description}\n  Layers: ${b.layerCount}`
-        ).join('\n\n');
-        response += `Local Blueprints (${localBlueprints.length}):\n\n${localList}`;
+    const operation: FileOperation = {
+      type: 'template',
+      source,
+      content: template,
+      destination: (params.destination as string | undefined) ??
+        (source ? path.basename(source).replace(/\.hbs$/, '') : 'output'),
+      variables: params.variables as string[] | undefined,
+      each: params.each as string | undefined,
+      as: params.as as string | undefined,
+      indexAs: params.indexAs as string | undefined,
+      parentAs: params.parentAs as string | undefined
+    };
+    const problem = this.fileOpsExecutor.validate(operation);
+    if (problem) {
+      throw new Error(`Invalid template operation: ${problem}`);
+    }
+
+    try {
+      const resolved = this.loadResolvedBlueprint(blueprintId, projectPath);
+      const blueprint = resolved.blueprint;
+      const blueprintFolder = this.resolveBlueprintFolder(blueprintId, projectPath);
+
+      // Templates of inherited tasks live in their ancestor's folder
+      const folders = Array.from(new Set([blueprintFolder, ...Object.values(resolved.taskFolders)]));
+      const sourcePath = (source && folders.find(folder => fs.existsSync(path.join(folder, source)))) || blueprintFolder;
+
+      const writes = await this.fileOpsExecutor.plan(operation, config, sourcePath, sourcePath, 'overwrite', {
+        helperPacks: blueprint.helperPacks,
+        strict: (params.strict as boolean | undefined) ?? blueprint.strictTemplates
+      });
+
+      let response = `🧪 Rendered ${source || 'inline template'} (${blueprint.name})\n`;
+      response += `Nothing was written.\n`;
+
+      const configErrors = this.validateAgainstConfigSchema(blueprint, config);
+      if (configErrors.length > 0) {
+        response += `\n⚠️  Config does not match the blueprint's config schema (rendered anyway):\n${configErrors.join('')}`;
+      }
+      if (writes.length === 0) {
+        response += `\n(no output - each selected no items)\n`;
       }
 
-      if (globalBlueprints.length > 0) {
-        const globalList = globalBlueprints.map(b =>
-          `- ${b.name} (ID: ${b.id}, Version: ${b.version})\n  ${b.description}\n  Layers: ${b.layerCount}`
-        ).join('\n\n');
-        if (response) response += '\n\n';
-        response += `Global Blueprints (${globalBlueprints.length}):\n\n${globalList}`;
+      for (const write of writes) {
+        response += `\n📄 ${write.path}\n`;
+        if (write.sourceFile) {
+          response += `   (copied verbatim from ${path.relative(sourcePath, write.sourceFile)})\n`;
+          continue;
+        }
+        response += `${'─'.repeat(40)}\n${write.content ?? ''}${'─'.repeat(40)}\n`;
       }
 
       return [
@@ -672,197 +2693,467 @@ export class BlueprintTools extends BaseToolSet {
         }
       ];
     } catch (error) {
-      throw new Error(`Failed to list blueprints: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to render template: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  private handleGetBlueprint(params: Record<string, unknown>): Array<{ type: 'text'; text: string }> {
-    const projectPath = params.projectPath as string | undefined;
-    const id = params.id as string;
-    const fromGlobal = (params.fromGlobal as boolean) || false;
+  /**
+   * Run the acceptance checks of a blueprint's tasks against a target project
+   */
+  private async handleVerify(params: Record<string, unknown>): Promise<Array<{ type: 'text'; text: string }>> {
+    const { targetPath, blueprintId, runId } = this.parseRunParams(params, false);
+    const layerId = params.layerId as string | undefined;
+    const projectPath = (params.projectPath as string | undefined) ?? targetPath;
 
-    if (!id || typeof id !== 'string') {
-      throw new Error('id is required and must be a string');
+    if (params.config !== undefined && (!params.config || typeof params.config !== 'object')) {
+      throw new Error('config must be an object');
+    }
+    if (layerId !== undefined && typeof layerId !== 'string') {
+      throw new Error('layerId must be a string');
+    }
+    if (params.runCommands !== undefined && typeof params.runCommands !== 'boolean') {
+      throw new Error('runCommands must be a boolean');
     }
 
-    let blueprintFolder: string;
-    let blueprintJsonPath: string;
-
-    // Determine where to look for the blueprint
-    if (fromGlobal || !projectPath) {
-      // Look in global registry
-      const registry = this.readGlobalRegistry();
-      const entry = registry[id];
+    // The config decides which tasks apply and fills in templated check paths
+    const run = runId ? this.stateStore.load(targetPath, blueprintId, runId) : undefined;
+    const applied = params.config || run ? null : this.manifestStore.load(targetPath, blueprintId);
+    const config = (params.config as AppConfig | undefined) ?? run?.config ?? applied?.config ?? {};
+    const configSource = params.config ? 'config argument'
+      : run ? `run ${run.runId}`
+      : applied ? `last apply (${applied.appliedAt})`
+      : 'none (empty config)';
+
+    let result: VerificationResult;
+    let blueprint: BlueprintMetadata;
+    try {
+      blueprint = this.loadResolvedBlueprint(blueprintId, projectPath).blueprint;
+      result = await this.taskVerifier.verify(
+        blueprint,
+        this.resolveBlueprintFolder(blueprintId, projectPath),
+        targetPath,
+        config,
+        { layerId, runCommands: params.runCommands as boolean | undefined }
+      );
+    } catch (error) {
+      throw new Error(`Failed to verify blueprint: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
 
-      if (!entry) {
-        throw new Error(`Blueprint with ID "${id}" not found in global registry`);
+    const icons = { passed: '✅', failed: '❌', unchecked: '➖', skipped: '⏭️ ' };
+    const tasks = result.layers.flatMap(layer => layer.tasks);
+    const count = (status: keyof typeof icons) => tasks.filter(task => task.status === status).length;
+
+    let response = result.passed
+      ? `✅ Verification passed: ${blueprint.name} (${blueprint.id})\n\n`
+      : `❌ Verification failed: ${blueprint.name} (${blueprint.id})\n\n`;
+    response += `Target: ${targetPath}\n`;
+    response += `Config: ${configSource}\n`;
+
+    for (const layer of result.layers) {
+      response += `\n${icons[layer.status]} Layer ${layer.order}: ${layer.name} (${layer.id})`;
+      response += layer.skipReason ? ` - skipped: ${layer.skipReason}\n`
+        : layer.error ? ` - ${layer.error}\n`
+        : '\n';
+      if (layer.skipReason || layer.error) {
+        continue;
       }
 
-      blueprintFolder = path.join(entry.projectPath, '.bluekit', 'blueprints', id);
-      blueprintJsonPath = path.join(blueprintFolder, 'blueprint.json');
-    } else {
-      // Look in project folder
-      if (!projectPath || typeof projectPath !== 'string') {
-        throw new Error('projectPath is required when not using global registry');
+      for (const task of layer.tasks) {
+        response += `  ${icons[task.status]} ${task.id} (${task.taskFile})`;
+        response += task.skipReason ? ` - skipped: ${task.skipReason}\n`
+          : task.error ? ` - ${task.error}\n`
+          : task.status === 'unchecked' && task.checks.length === 0 ? ` - no checks declared\n`
+          : '\n';
+        for (const check of task.checks) {
+          const icon = check.status === 'passed' ? '✅' : check.status === 'failed' ? '❌' : '⏭️ ';
+          response += `      ${icon} ${check.label}\n`;
+          if (check.message) {
+            response += check.message.split('\n').map(line => `          ${line}\n`).join('');
+          }
+        }
       }
+    }
 
-      const resolvedProjectPath = path.isAbsolute(projectPath)
-        ? path.normalize(projectPath)
-        : path.resolve(process.cwd(), projectPath);
+    response += `\nTasks: ${count('passed')} passed, ${count('failed')} failed, ` +
+      `${count('unchecked')} unchecked, ${count('skipped')} skipped\n`;
 
-      blueprintFolder = path.join(resolvedProjectPath, '.bluekit', 'blueprints', id);
-      blueprintJsonPath = path.join(blueprintFolder, 'blueprint.json');
+    const commandsSkipped = tasks.some(task => task.checks.some(check => check.status === 'skipped'));
+    if (commandsSkipped) {
+      response += `\n⚠️  Command checks were not run. Pass runCommands: true to run them if you trust this blueprint.\n`;
     }
 
-    try {
-      if (!fs.existsSync(blueprintFolder)) {
-        throw new Error(`Blueprint with ID "${id}" not found`);
+    return [
+      {
+        type: 'text',
+        text: response
       }
+    ];
+  }
 
-      if (!fs.existsSync(blueprintJsonPath)) {
-        throw new Error(`Blueprint folder exists but blueprint.json not found`);
+  /**
+   * Format a run as a readable per-layer, per-task summary
+   */
+  private formatRun(run: ExecutionRun): string {
+    const icons = { pending: '⏳', running: '🔄', done: '✅', failed: '❌', skipped: '⏭️ ', paused: '⏸️ ', 'rolled-back': '↩️ ' };
+    const skipped = (reason?: string) => (reason ? ` - skipped: ${reason}` : '');
+    const headlines = {
+      pending: '⏳ Blueprint run has not started.',
+      running: '🔄 Blueprint run in progress.',
+      done: '✅ Blueprint executed successfully!',
+      failed: '❌ Blueprint execution failed.',
+      paused: '⏸️  Blueprint run paused.',
+      'rolled-back': '↩️  Blueprint run rolled back.'
+    };
+
+    let response = `${headlines[run.status]}\n\n`;
+    response += `Run ID: ${run.runId}\n`;
+    response += `Blueprint: ${run.blueprintName} (${run.blueprintId}, version ${run.blueprintVersion})\n`;
+    response += `Target: ${run.targetPath}\n`;
+    response += `Status: ${run.status}\n`;
+    if (run.startedAt) response += `Started: ${run.startedAt}\n`;
+    if (run.finishedAt) response += `Finished: ${run.finishedAt}\n`;
+    if (run.rolledBackAt) response += `Rolled back: ${run.rolledBackAt}\n`;
+
+    for (const layer of run.layers) {
+      response += `\n${icons[layer.status]} Layer ${layer.order}: ${layer.name} (${layer.id})${skipped(layer.skipReason)}\n`;
+      if (layer.skipReason) {
+        continue;
       }
 
-      // Read blueprint.json
-      const blueprintContent = fs.readFileSync(blueprintJsonPath, 'utf8');
-      const metadata = JSON.parse(blueprintContent) as BlueprintMetadata;
+      for (const task of layer.tasks) {
+        response += `  ${icons[task.status]} ${task.id} (${task.taskFile})${skipped(task.skipReason)}\n`;
+        if (task.skipReason) {
+          continue;
+        }
+        if (task.operations.length === 0) {
+          response += `      (no operations)\n`;
+        }
+        for (const op of task.operations) {
+          response += `      ${icons[op.status]} ${op.operation.type} -> ${op.operation.destination}${skipped(op.skipReason)}\n`;
+          const conflicts = new Map((op.conflicts || []).map(c => [c.path, c]));
+          const models = new Map((op.aiGenerated || []).map(g => [g.path, g.model]));
+          for (const file of op.files) {
+            const conflict = conflicts.get(file);
+            const backup = conflict?.backupPath ? `, previous saved as ${conflict.backupPath}` : '';
+            const generated = models.has(file)
+              ? ` 🤖 AI-generated by ${models.get(file)}`
+              : op.placeholders?.includes(file) ? ' 📝 placeholder - implement manually' : '';
+            response += `          ${file}${generated}${conflict ? ` (onConflict: ${conflict.policy}${backup})` : ''}\n`;
+          }
+          for (const conflict of op.conflicts || []) {
+            if (conflict.policy === 'skip') {
+              response += `          ${conflict.path} (onConflict: skip - kept existing)\n`;
+            }
+          }
+          if (op.error) {
+            response += `          Error: ${op.error}\n`;
+          }
+        }
+      }
+    }
 
-      // Read all task files
-      const taskContents: Record<string, string> = {};
-      const taskFiles = fs.readdirSync(blueprintFolder)
-        .filter(file => file.endsWith('.md'));
+    const written = run.layers.reduce(
+      (sum, layer) => sum + layer.tasks.reduce(
+        (n, task) => n + task.operations.reduce((m, op) => m + op.files.length, 0),
+        0
+      ),
+      0
+    );
+    response += `\nFiles written: ${written}\n`;
+
+    const operations = run.layers.flatMap(layer => layer.tasks.flatMap(task => task.operations));
+    const aiGenerated = operations.reduce((sum, op) => sum + (op.aiGenerated?.length || 0), 0);
+    const placeholders = operations.reduce((sum, op) => sum + (op.placeholders?.length || 0), 0);
+    if (aiGenerated > 0) {
+      response += `AI-generated (MCP sampling): ${aiGenerated} - review them before committing\n`;
+    }
+    if (placeholders > 0) {
+      response += `Placeholders: ${placeholders} - the client does not support sampling, implement them manually\n`;
+    }
 
-      for (const taskFile of taskFiles) {
-        const taskPath = path.join(blueprintFolder, taskFile);
-        taskContents[taskFile] = fs.readFileSync(taskPath, 'utf8');
+    if (run.status === 'failed' || run.status === 'paused' || run.status === 'rolled-back') {
+      response += `\nResume from the first incomplete task with:\n`;
+      response += `  bluekit_blueprint_resume({ targetPath: "${run.targetPath}", blueprintId: "${run.blueprintId}", runId: "${run.runId}" })\n`;
+    }
+
+    return response;
+  }
+
+  /**
+   * Validate a config against a blueprint's config schema.
+   * Returns formatted error lines (empty when valid or when there is no schema).
+   */
+  private validateAgainstConfigSchema(blueprint: BlueprintMetadata, config: Record<string, any>): string[] {
+    if (!blueprint.configSchema) {
+      return [];
+    }
+
+    // Compiled schemas are cached by object; drop it so every loaded blueprint does not stay in memory
+    const validate = this.ajv.compile(blueprint.configSchema);
+    this.ajv.removeSchema(blueprint.configSchema);
+    if (validate(config)) {
+      return [];
+    }
+
+    const errors: string[] = [];
+    for (const error of validate.errors || []) {
+      const dataPath = error.instancePath || '(root)';
+      const message = error.message || 'Unknown error';
+      let line = `  - ${dataPath}: ${message}\n`;
+      if (error.params && Object.keys(error.params).length > 0) {
+        line += `    Params: ${JSON.stringify(error.params)}\n`;
       }
+      errors.push(line);
+    }
+    return errors;
+  }
 
-      // Build detailed response
-      let response = `Blueprint: ${metadata.name} (${metadata.id})\n`;
-      response += `Version: ${metadata.version}\n`;
-      response += `Description: ${metadata.description}\n`;
-      response += `Created: ${metadata.createdAt}\n\n`;
-      response += `Layers: ${metadata.layers.length}\n`;
+  /**
+   * Check a blueprint against the blueprint JSON Schema, then against the rules
+   * a schema cannot express (when expressions, operation and check details,
+   * task files). Every problem is collected rather than stopping at the first.
+   * @returns Problems, each starting with the JSON pointer it concerns
+   */
+  private validateBlueprintDefinition(blueprint: BlueprintMetadata, tasks: Record<string, unknown>): string[] {
+    const problems: Array<{ pointer: string; message: string }> = [];
+    if (!this.validateBlueprintSchema(blueprint)) {
+      problems.push(...this.describeSchemaErrors(this.validateBlueprintSchema.errors || []));
+    }
 
-      for (const layer of metadata.layers) {
-        response += `\nLayer ${layer.order}: ${layer.name} (${layer.id})\n`;
-        response += `  Tasks: ${layer.tasks.length}\n`;
-        for (const task of layer.tasks) {
-          response += `    - ${task.taskFile}: ${task.description}\n`;
-        }
+    // Semantic checks only run on parts the schema accepted, so a problem is not reported twice
+    const flagged = (pointer: string) =>
+      problems.some(problem => problem.pointer === pointer || problem.pointer.startsWith(`${pointer}/`));
+    const check = (pointer: string, message: string | null) => {
+      if (message && !flagged(pointer)) {
+        problems.push({ pointer, message });
       }
+    };
 
-      response += `\nTask Files: ${taskFiles.length}\n`;
-      response += `  - ${taskFiles.join('\n  - ')}\n`;
+    if (blueprint.configSchema && !flagged('/configSchema') && !this.ajv.validateSchema(blueprint.configSchema)) {
+      check('/configSchema', `is not a valid JSON Schema: ${this.ajv.errorsText(this.ajv.errors)}`);
+    }
 
-      response += `\n---\nblueprint.json:\n${blueprintContent}\n`;
+    const isObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+    const preservePaths = isObject(blueprint.sourceReference) ? blueprint.sourceReference?.preservePaths : undefined;
+    (Array.isArray(preservePaths) ? preservePaths : []).forEach((preservePath, p) => {
+      if (typeof preservePath === 'string' && (path.isAbsolute(preservePath) || preservePath.split(/[/\\]/).includes('..'))) {
+        check(`/sourceReference/preservePaths/${p}`, 'must be a path relative to the source, without ".."');
+      }
+    });
 
-      return [
-        {
-          type: 'text',
-          text: response
+    (Array.isArray(blueprint.migrations) ? blueprint.migrations : []).forEach((migration, m) => {
+      if (!isObject(migration)) {
+        return;
+      }
+      check(`/migrations/${m}`, this.configMigrator.validate(migration));
+      if (this.semver.isValid(migration.version) && this.semver.isValid(blueprint.version)
+        && this.semver.compare(migration.version, blueprint.version) > 0) {
+        check(`/migrations/${m}/version`, `is newer than the blueprint version ${blueprint.version}`);
+      }
+    });
+
+    (Array.isArray(blueprint.layers) ? blueprint.layers : []).forEach((layer, l) => {
+      if (!isObject(layer)) {
+        return;
+      }
+      if (layer.when !== undefined) {
+        check(`/layers/${l}/when`, this.fileOpsExecutor.validateExpression(layer.when));
+      }
+
+      (Array.isArray(layer.tasks) ? layer.tasks : []).forEach((task, t) => {
+        const pointer = `/layers/${l}/tasks/${t}`;
+        if (!isObject(task)) {
+          return;
         }
-      ];
-    } catch (error) {
-      throw new Error(`Failed to get blueprint: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        if (task.when !== undefined) {
+          check(`${pointer}/when`, this.fileOpsExecutor.validateExpression(task.when));
+        }
+        if (typeof task.taskFile === 'string' && !Object.prototype.hasOwnProperty.call(tasks, task.taskFile)) {
+          check(`${pointer}/taskFile`, `task file "${task.taskFile}" is not provided in the tasks object`);
+        }
+        (Array.isArray(task.operations) ? task.operations : []).forEach((operation, o) => {
+          check(`${pointer}/operations/${o}`, this.fileOpsExecutor.validate(operation));
+        });
+        (Array.isArray(task.checks) ? task.checks : []).forEach((taskCheck, c) => {
+          check(`${pointer}/checks/${c}`, this.taskVerifier.validate(taskCheck));
+        });
+      });
+    });
+
+    // Task files are reported by name (they are not part of blueprint.json)
+    for (const [taskFile, content] of Object.entries(tasks)) {
+      const label = `tasks[${JSON.stringify(taskFile)}]`;
+      if (!new RegExp(PLAIN_NAME_PATTERN, 'u').test(taskFile)) {
+        problems.push({ pointer: label, message: 'must be a plain file name without path separators or ".."' });
+      } else if (typeof content !== 'string') {
+        problems.push({ pointer: label, message: 'must be the markdown content of the task file (a string)' });
+      } else {
+        const frontMatter = content.trimStart().match(/^---\r?\n([\s\S]*?)\r?\n---/);
+        if (!frontMatter) {
+          continue;
+        }
+        try {
+          if (!this.validateTaskFrontMatter(yaml.load(frontMatter[1]) ?? {})) {
+            problems.push(...this.describeSchemaErrors(this.validateTaskFrontMatter.errors || [])
+              .map(({ pointer, message }) => ({ pointer: `${label} front matter${pointer}`, message })));
+          }
+        } catch (error) {
+          problems.push({ pointer: `${label} front matter`, message: `is not valid YAML: ${error instanceof Error ? error.message : 'Unknown error'}` });
+        }
+      }
     }
+
+    return problems.map(({ pointer, message }) => `${pointer || '/'}: ${message}`);
   }
 
   /**
-   * Validate an application configuration against a blueprint's config schema
+   * Turn Ajv errors into JSON pointers and readable messages
    */
-  private handleValidateConfig(params: Record<string, unknown>): Array<{ type: 'text'; text: string }> {
-    const blueprintId = params.blueprintId as string;
-    const config = params.config as Record<string, any>;
-    const projectPath = params.projectPath as string | undefined;
+  private describeSchemaErrors(errors: ErrorObject[]): Array<{ pointer: string; message: string }> {
+    return errors
+      // "must match then schema" repeats the errors of the failed branch, and the
+      // branches of a oneOf are summarized by the oneOf error itself
+      .filter(error => error.keyword !== 'if' && !error.schemaPath.includes('/oneOf/'))
+      .map(error => {
+        let message = error.message || 'Unknown error';
+        if (error.keyword === 'additionalProperties') {
+          message = `unknown property "${error.params.additionalProperty}"`;
+        } else if (error.keyword === 'const') {
+          message += `: ${JSON.stringify(error.params.allowedValue)}`;
+        } else if (error.keyword === 'enum') {
+          message += `: ${(error.params.allowedValues as unknown[]).map(value => JSON.stringify(value)).join(', ')}`;
+        } else if (error.keyword === 'pattern' && error.params.pattern === PLAIN_NAME_PATTERN) {
+          message = 'must be a plain name without path separators or ".."';
+        } else if (error.keyword === 'pattern' && error.params.pattern === VERSION_PATTERN) {
+          message = 'must be a semantic version like "1.2.0"';
+        } else if (error.keyword === 'oneOf') {
+          message = 'requires either source (a template file) or content (an inline template)';
+        }
+        return { pointer: error.instancePath, message };
+      });
+  }
 
-    if (!blueprintId || typeof blueprintId !== 'string') {
-      throw new Error('blueprintId is required and must be a string');
-    }
-    if (!config || typeof config !== 'object') {
-      throw new Error('config is required and must be an object');
+  /**
+   * Read the blueprint.json a blueprint folder already holds (null if there is none)
+   */
+  private readExistingBlueprint(blueprintFolder: string): BlueprintMetadata | null {
+    const blueprintJsonPath = path.join(blueprintFolder, 'blueprint.json');
+    if (!fs.existsSync(blueprintJsonPath)) {
+      return null;
     }
-
     try {
-      // Load the blueprint
-      const blueprint = this.loadBlueprint(blueprintId, projectPath);
+      return JSON.parse(fs.readFileSync(blueprintJsonPath, 'utf8')) as BlueprintMetadata;
+    } catch (error) {
+      throw new Error(`Failed to read existing blueprint.json: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      // Check if blueprint has a config schema
-      if (!blueprint.configSchema) {
-        return [
-          {
-            type: 'text',
-            text: `Blueprint "${blueprintId}" does not have a configuration schema.\nNo validation required.`
-          }
-        ];
+  /**
+   * Check that a blueprint may replace the existing one in its folder
+   * @returns The existing version to archive first, or null when it is replaced in place (overwrite)
+   * @throws If the new version is not newer and overwrite does not allow replacing it
+   */
+  private checkVersionBump(
+    existing: BlueprintMetadata,
+    blueprint: BlueprintMetadata,
+    blueprintFolder: string,
+    overwrite: boolean
+  ): number | string | null {
+    if (!this.semver.isValid(existing.version)) {
+      if (overwrite) {
+        return null;
       }
+      throw new Error(
+        `Existing blueprint "${existing.id}" has an invalid version ${JSON.stringify(existing.version)} and cannot be archived. ` +
+        `Pass overwrite: true to replace it.`
+      );
+    }
 
-      // Validate using Ajv
-      const ajv = new Ajv({ allErrors: true });
-      const validate = ajv.compile(blueprint.configSchema);
-      const valid = validate(config);
-
-      if (valid) {
-        return [
-          {
-            type: 'text',
-            text: `✅ Configuration is valid!\n\nBlueprint: ${blueprint.name}\nNo validation errors found.`
-          }
-        ];
-      } else {
-        // Format validation errors
-        let errorMsg = `❌ Configuration validation failed!\n\n`;
-        errorMsg += `Blueprint: ${blueprint.name}\n\n`;
-        errorMsg += `Errors:\n`;
+    const comparison = this.semver.compare(blueprint.version, existing.version);
+    if (comparison > 0) {
+      return existing.version;
+    }
+    if (comparison === 0) {
+      if (overwrite) {
+        return null;
+      }
+      throw new Error(
+        `Blueprint "${blueprint.id}" version ${existing.version} already exists at ${blueprintFolder}. ` +
+        `Bump blueprint.version to keep this version in ${VERSIONS_DIR}/, or pass overwrite: true to replace it.`
+      );
+    }
+    throw new Error(
+      `Blueprint "${blueprint.id}" is already at version ${existing.version}, which is newer than ${blueprint.version}. ` +
+      `Earlier versions are kept in ${path.join(blueprintFolder, VERSIONS_DIR)}.`
+    );
+  }
 
-        if (validate.errors) {
-          for (const error of validate.errors) {
-            const dataPath = error.instancePath || '(root)';
-            const message = error.message || 'Unknown error';
-            errorMsg += `  - ${dataPath}: ${message}\n`;
-            if (error.params && Object.keys(error.params).length > 0) {
-              errorMsg += `    Params: ${JSON.stringify(error.params)}\n`;
-            }
-          }
+  /**
+   * Task files of the existing blueprint that the new version does not provide
+   */
+  private staleTaskFiles(existing: BlueprintMetadata, tasks: Record<string, string>): string[] {
+    const taskFiles = new Set<string>();
+    for (const layer of Array.isArray(existing.layers) ? existing.layers : []) {
+      for (const task of Array.isArray(layer?.tasks) ? layer.tasks : []) {
+        if (typeof task?.taskFile === 'string' && new RegExp(PLAIN_NAME_PATTERN, 'u').test(task.taskFile)) {
+          taskFiles.add(task.taskFile);
         }
-
-        return [
-          {
-            type: 'text',
-            text: errorMsg
-          }
-        ];
       }
-    } catch (error) {
-      throw new Error(`Failed to validate config: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+    return [...taskFiles].filter(taskFile => !Object.prototype.hasOwnProperty.call(tasks, taskFile));
   }
 
   /**
-   * Load a blueprint by ID from project or global registry
+   * Resolve the folder of a blueprint by ID from global registry or project
    */
-  private loadBlueprint(blueprintId: string, projectPath?: string): BlueprintMetadata {
-    let blueprintFolder: string;
-    let blueprintJsonPath: string;
+  private resolveBlueprintFolder(blueprintId: string, projectPath?: string): string {
+    this.pathSafety.assertSafeName(blueprintId, 'blueprintId');
 
     // First try global registry
     const registry = this.readGlobalRegistry();
     const entry = registry[blueprintId];
 
     if (entry) {
-      blueprintFolder = path.join(entry.projectPath, '.bluekit', 'blueprints', blueprintId);
-      blueprintJsonPath = path.join(blueprintFolder, 'blueprint.json');
-    } else if (projectPath) {
+      return path.join(entry.projectPath, '.bluekit', 'blueprints', blueprintId);
+    }
+
+    if (projectPath) {
       // Try project folder
       const resolvedProjectPath = path.isAbsolute(projectPath)
         ? path.normalize(projectPath)
         : path.resolve(process.cwd(), projectPath);
-      blueprintFolder = path.join(resolvedProjectPath, '.bluekit', 'blueprints', blueprintId);
-      blueprintJsonPath = path.join(blueprintFolder, 'blueprint.json');
-    } else {
-      throw new Error(`Blueprint with ID "${blueprintId}" not found`);
+      return path.join(resolvedProjectPath, '.bluekit', 'blueprints', blueprintId);
     }
 
+    throw new Error(`Blueprint with ID "${blueprintId}" not found`);
+  }
+
+  /**
+   * Load a blueprint by ID and resolve its extends chain
+   */
+  private loadResolvedBlueprint(blueprintId: string, projectPath?: string): ResolvedBlueprint {
+    const loader = this.createBlueprintLoader(projectPath);
+    const { blueprint, folder } = loader(blueprintId);
+    return this.inheritanceResolver.resolve(blueprint, folder, loader);
+  }
+
+  /**
+   * Create a loader that finds blueprints in the global registry or the project
+   */
+  private createBlueprintLoader(projectPath?: string): BlueprintLoader {
+    return (blueprintId: string) => ({
+      blueprint: this.loadBlueprint(blueprintId, projectPath),
+      folder: this.resolveBlueprintFolder(blueprintId, projectPath)
+    });
+  }
+
+  /**
+   * Load a blueprint by ID from project or global registry
+   */
+  private loadBlueprint(blueprintId: string, projectPath?: string): BlueprintMetadata {
+    const blueprintFolder = this.resolveBlueprintFolder(blueprintId, projectPath);
+    const blueprintJsonPath = path.join(blueprintFolder, 'blueprint.json');
+
     if (!fs.existsSync(blueprintJsonPath)) {
       throw new Error(`Blueprint with ID "${blueprintId}" not found`);
     }
@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import { ConflictPolicy } from '../types.js';
+import { PlannedWrite } from './FileOperations.js';
+import { TextDiff } from './TextDiff.js';
+import { StructuredMerge } from './StructuredMerge.js';
+
+export type ChangeAction = 'create' | 'modify' | 'delete' | 'mkdir' | 'unchanged' | 'skip' | 'fail';
+
+export interface FileChange {
+  path: string;             // Destination relative to the target
+  action: ChangeAction;     // 'skip'/'fail': destination exists and its conflict policy keeps it / fails, or an edit fails
+  policy?: ConflictPolicy;  // Conflict policy that fired because the destination exists with different content
+  diff?: string;            // Unified diff for modified text files
+  binary?: boolean;
+  origins?: string[];       // Everything that writes the path, in order, e.g. ["Layer 1 / setup-config"]
+  error?: string;           // Why the policy could not be applied
+  generated?: boolean;      // generate: the client's model writes the content on execute (the placeholder is previewed)
+}
+
+/**
+ * Collects the changes a sequence of planned writes would make, without writing.
+ * Writes are previewed in order against the current disk contents plus every
+ * earlier planned write, so a file written twice shows its final change once,
+ * listing the origin of every write.
+ */
+export class ChangePreview {
+  private planned = new Map<string, Buffer | null>();  // Absolute path -> content after earlier planned writes (null: deleted)
+  private changes = new Map<string, FileChange>();
+  private originalContents = new Map<string, Buffer | null>();
+  private origins = new Map<string, string[]>();  // Absolute path -> origins of its writes
+
+  constructor(
+    private textDiff: TextDiff,
+    private structuredMerge: StructuredMerge
+  ) {}
+
+  /**
+   * Preview a planned write and return the resulting change
+   */
+  add(write: PlannedWrite, origin?: string): FileChange {
+    const origins = this.origins.get(write.absolutePath) || [];
+    if (origin && !origins.includes(origin)) {
+      this.origins.set(write.absolutePath, [...origins, origin]);
+    }
+    return this.withOrigins(write.absolutePath, this.preview(write));
+  }
+
+  /**
+   * All changes in the order files were first touched
+   */
+  getChanges(): FileChange[] {
+    return Array.from(this.changes.entries()).map(([absolutePath, change]) => this.withOrigins(absolutePath, change));
+  }
+
+  private preview(write: PlannedWrite): FileChange {
+    if (write.kind === 'mkdir' || (write.kind === 'delete' && this.isDirectory(write.absolutePath))) {
+      return this.addDirectory(write);
+    }
+
+    const current = this.currentContent(write.absolutePath);
+    if (!this.originalContents.has(write.absolutePath)) {
+      this.originalContents.set(write.absolutePath, current);
+    }
+
+    if (write.kind === 'delete' || write.edit) {
+      return this.addEdit(write, current);
+    }
+
+    let next = write.sourceFile
+      ? fs.readFileSync(write.sourceFile)
+      : Buffer.from(write.content ?? '', 'utf-8');
+    const conflict = current !== null && !current.equals(next);
+
+    if (conflict && (write.onConflict === 'skip' || write.onConflict === 'fail')) {
+      const kept: FileChange = {
+        path: write.path,
+        action: write.onConflict,
+        policy: write.onConflict
+      };
+      if (write.onConflict === 'fail' || !this.changes.has(write.absolutePath)) {
+        this.changes.set(write.absolutePath, kept);
+      }
+      return kept;
+    }
+
+    if (conflict && write.onConflict === 'merge') {
+      try {
+        next = Buffer.from(this.structuredMerge.merge(write.path, current!.toString('utf-8'), next.toString('utf-8')), 'utf-8');
+      } catch (error) {
+        const failed: FileChange = {
+          path: write.path,
+          action: 'fail',
+          policy: 'merge',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+        this.changes.set(write.absolutePath, failed);
+        return failed;
+      }
+    }
+    this.planned.set(write.absolutePath, next);
+
+    const change = this.describe(write.path, this.originalContents.get(write.absolutePath) ?? null, next);
+    if (conflict) {
+      change.policy = write.onConflict;
+    }
+    if (write.generation) {
+      change.generated = true;
+    }
+    this.changes.set(write.absolutePath, change);
+    return change;
+  }
+
+  /**
+   * Preview an in-place edit or a file deletion
+   */
+  private addEdit(write: PlannedWrite, current: Buffer | null): FileChange {
+    let next: Buffer | null = null;
+    if (write.edit) {
+      try {
+        next = Buffer.from(write.edit(current === null ? null : current.toString('utf-8')), 'utf-8');
+      } catch (error) {
+        const failed: FileChange = {
+          path: write.path,
+          action: 'fail',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+        this.changes.set(write.absolutePath, failed);
+        return failed;
+      }
+    }
+    this.planned.set(write.absolutePath, next);
+
+    const original = this.originalContents.get(write.absolutePath) ?? null;
+    const change: FileChange = next === null
+      ? { path: write.path, action: original === null ? 'unchanged' : 'delete' }
+      : this.describe(write.path, original, next);
+    this.changes.set(write.absolutePath, change);
+    return change;
+  }
+
+  /**
+   * Preview creating a directory, or removing one whose files were deleted before it
+   */
+  private addDirectory(write: PlannedWrite): FileChange {
+    const exists = this.isDirectory(write.absolutePath);
+    const action: ChangeAction = write.kind === 'mkdir'
+      ? (exists ? 'unchanged' : 'mkdir')
+      : (exists ? 'delete' : 'unchanged');
+    const change: FileChange = { path: `${write.path}/`, action };
+    if (!this.changes.has(write.absolutePath) || action !== 'unchanged') {
+      this.changes.set(write.absolutePath, change);
+    }
+    return change;
+  }
+
+  private withOrigins(absolutePath: string, change: FileChange): FileChange {
+    const origins = this.origins.get(absolutePath);
+    return origins ? { ...change, origins } : change;
+  }
+
+  private describe(filePath: string, original: Buffer | null, next: Buffer): FileChange {
+    if (original === null) {
+      return { path: filePath, action: 'create' };
+    }
+    if (original.equals(next)) {
+      return { path: filePath, action: 'unchanged' };
+    }
+    if (this.isBinary(original) || this.isBinary(next)) {
+      return { path: filePath, action: 'modify', binary: true };
+    }
+    return {
+      path: filePath,
+      action: 'modify',
+      diff: this.textDiff.unified(original.toString('utf-8'), next.toString('utf-8'), filePath)
+    };
+  }
+
+  private currentContent(absolutePath: string): Buffer | null {
+    if (this.planned.has(absolutePath)) {
+      return this.planned.get(absolutePath)!;
+    }
+    if (fs.existsSync(absolutePath) && fs.statSync(absolutePath).isFile()) {
+      return fs.readFileSync(absolutePath);
+    }
+    return null;
+  }
+
+  private isDirectory(absolutePath: string): boolean {
+    return fs.existsSync(absolutePath) && fs.statSync(absolutePath).isDirectory();
+  }
+
+  private isBinary(content: Buffer): boolean {
+    return content.subarray(0, 8000).includes(0);
+  }
+}
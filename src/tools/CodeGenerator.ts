@@ -0,0 +1,101 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+
+/**
+ * What a GENERATE operation asks the model for
+ */
+export interface GenerationRequest {
+  destination: string;                           // Resolved destination path, relative to the target
+  config: Record<string, any>;                   // Config (with each/as variables) the operation ran with
+  taskMarkdown?: string;                         // Task file the operation belongs to
+  kits: Array<{ name: string; content: string }>; // Kits the operation references
+}
+
+export interface GeneratedCode {
+  content: string;
+  model: string;   // Model the client used to generate the file
+}
+
+// Upper bound on the length of a generated file, in tokens
+const MAX_TOKENS = 8000;
+
+/**
+ * Fulfils GENERATE operations through MCP sampling: the server asks the
+ * connected client (and its model) to write the file, with the task, the
+ * config and the referenced kits as context.
+ *
+ * The server is attached once the MCP server is created; until then, or
+ * when the client does not declare the sampling capability, isAvailable()
+ * is false and callers fall back to a placeholder file.
+ */
+export class CodeGenerator {
+  private server: Server | null = null;
+
+  /**
+   * Attach the MCP server whose client sampling requests are sent to
+   */
+  setServer(server: Server): void {
+    this.server = server;
+  }
+
+  /**
+   * Whether the connected client supports sampling
+   */
+  isAvailable(): boolean {
+    return Boolean(this.server?.getClientCapabilities()?.sampling);
+  }
+
+  /**
+   * Ask the client's model to write one file
+   */
+  async generate(request: GenerationRequest): Promise<GeneratedCode> {
+    if (!this.server || !this.isAvailable()) {
+      throw new Error('The MCP client does not support sampling');
+    }
+
+    try {
+      const result = await this.server.createMessage({
+        systemPrompt: 'You write source files for a project being scaffolded from a blueprint. ' +
+          'Reply with the complete contents of the requested file only: no explanations and no Markdown code fences.',
+        messages: [{ role: 'user', content: { type: 'text', text: this.buildPrompt(request) } }],
+        includeContext: 'none',
+        maxTokens: MAX_TOKENS
+      });
+
+      const blocks = Array.isArray(result.content) ? result.content : [result.content];
+      const text = blocks
+        .map(block => (block.type === 'text' ? block.text : ''))
+        .join('');
+      if (text.trim() === '') {
+        throw new Error('the model returned no text');
+      }
+
+      return { content: this.stripCodeFence(text), model: result.model };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to generate ${request.destination}: ${errorMessage}`);
+    }
+  }
+
+  private buildPrompt(request: GenerationRequest): string {
+    const sections = [`Write the file \`${request.destination}\`.`];
+
+    if (request.taskMarkdown) {
+      sections.push(`## Task\n\n${request.taskMarkdown.trim()}`);
+    }
+    sections.push(`## Configuration\n\n\`\`\`json\n${JSON.stringify(request.config, null, 2)}\n\`\`\``);
+    for (const kit of request.kits) {
+      sections.push(`## Kit: ${kit.name}\n\n${kit.content.trim()}`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Remove a Markdown code fence wrapping the whole reply, which models add
+   * despite being asked not to
+   */
+  private stripCodeFence(text: string): string {
+    const fenced = text.trim().match(/^```[^\n]*\n([\s\S]*?)\n?```$/);
+    return fenced ? fenced[1] : text;
+  }
+}
@@ -0,0 +1,254 @@
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'identifier'; value: string }
+  | { kind: 'operator'; value: string };
+
+type ExpressionNode =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'variable'; name: string }
+  | { kind: 'member'; object: ExpressionNode; property: ExpressionNode }
+  | { kind: 'unary'; operator: string; operand: ExpressionNode }
+  | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode };
+
+// Binary operators by precedence, lowest first
+const BINARY_PRECEDENCE: string[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '!=', '===', '!=='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%']
+];
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', '[', ']', '.'];
+
+const KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null, undefined: undefined };
+
+/**
+ * A small, safe expression language for `when` conditions, evaluated against
+ * a config without `eval`, e.g. `ui.theme != null && contentTypes.length > 1`
+ *
+ * - Literals: numbers, 'strings' / "strings", true, false, null
+ * - Config lookups: dotted paths, [index] and ['key'] access (missing paths are undefined)
+ * - Operators: ! - * / % + < <= > >= == != && || and parentheses
+ *
+ * `==` and `!=` compare strictly, except that null and undefined are equal
+ * (so `ui.theme != null` is true only when the theme is set).
+ * `<`, `<=`, `>` and `>=` order two numbers or two strings, and are false
+ * for anything else (so `ui.columns > 1` is false when columns is not set).
+ */
+export class ConfigExpression {
+  /**
+   * Whether an expression is truthy for a config
+   */
+  test(expression: string, variables: Record<string, unknown>): boolean {
+    return Boolean(this.evaluate(expression, variables));
+  }
+
+  /**
+   * Evaluate an expression against a config
+   * @throws If the expression is malformed
+   */
+  evaluate(expression: string, variables: Record<string, unknown>): unknown {
+    return this.evaluateNode(this.parse(expression), variables);
+  }
+
+  /**
+   * Parse an expression, to check its syntax without evaluating it
+   * @throws If the expression is malformed
+   */
+  parse(expression: string): ExpressionNode {
+    const tokens = this.tokenize(expression);
+    let position = 0;
+
+    const peek = (): Token | undefined => tokens[position];
+    const isOperator = (value: string): boolean => {
+      const token = peek();
+      return token?.kind === 'operator' && token.value === value;
+    };
+    const expect = (value: string): void => {
+      if (!isOperator(value)) {
+        throw new Error(`Invalid expression "${expression}": expected "${value}"`);
+      }
+      position++;
+    };
+
+    const parseBinary = (level: number): ExpressionNode => {
+      if (level === BINARY_PRECEDENCE.length) {
+        return parseUnary();
+      }
+      let left = parseBinary(level + 1);
+      for (let token = peek(); token?.kind === 'operator' && BINARY_PRECEDENCE[level].includes(token.value); token = peek()) {
+        position++;
+        left = { kind: 'binary', operator: token.value, left, right: parseBinary(level + 1) };
+      }
+      return left;
+    };
+
+    const parseUnary = (): ExpressionNode => {
+      if (isOperator('!') || isOperator('-')) {
+        const operator = (tokens[position++] as { value: string }).value;
+        return { kind: 'unary', operator, operand: parseUnary() };
+      }
+      return parseMember();
+    };
+
+    const parseMember = (): ExpressionNode => {
+      let node = parsePrimary();
+      while (isOperator('.') || isOperator('[')) {
+        if (isOperator('.')) {
+          position++;
+          const property = peek();
+          if (property?.kind !== 'identifier') {
+            throw new Error(`Invalid expression "${expression}": expected a property name after "."`);
+          }
+          position++;
+          node = { kind: 'member', object: node, property: { kind: 'literal', value: property.value } };
+        } else {
+          position++;
+          const property = parseBinary(0);
+          expect(']');
+          node = { kind: 'member', object: node, property };
+        }
+      }
+      return node;
+    };
+
+    const parsePrimary = (): ExpressionNode => {
+      const token = peek();
+      if (!token) {
+        throw new Error(`Invalid expression "${expression}": unexpected end`);
+      }
+      position++;
+
+      if (token.kind === 'number' || token.kind === 'string') {
+        return { kind: 'literal', value: token.value };
+      }
+      if (token.kind === 'identifier') {
+        return Object.hasOwn(KEYWORDS, token.value)
+          ? { kind: 'literal', value: KEYWORDS[token.value] }
+          : { kind: 'variable', name: token.value };
+      }
+      if (token.value === '(') {
+        const inner = parseBinary(0);
+        expect(')');
+        return inner;
+      }
+      throw new Error(`Invalid expression "${expression}": unexpected "${token.value}"`);
+    };
+
+    const node = parseBinary(0);
+    if (position < tokens.length) {
+      const token = tokens[position];
+      throw new Error(`Invalid expression "${expression}": unexpected "${token.value}"`);
+    }
+    return node;
+  }
+
+  private tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let rest = expression;
+
+    while (rest.length > 0) {
+      let match: RegExpMatchArray | null;
+      if ((match = rest.match(/^\s+/))) {
+        // Whitespace
+      } else if ((match = rest.match(/^\d+(\.\d+)?/))) {
+        tokens.push({ kind: 'number', value: parseFloat(match[0]) });
+      } else if ((match = rest.match(/^'((?:[^'\\]|\\.)*)'|^"((?:[^"\\]|\\.)*)"/))) {
+        tokens.push({ kind: 'string', value: (match[1] ?? match[2]).replace(/\\(.)/g, '$1') });
+      } else if ((match = rest.match(/^[A-Za-z_$][\w$]*/))) {
+        tokens.push({ kind: 'identifier', value: match[0] });
+      } else {
+        const operator = OPERATORS.find(op => rest.startsWith(op));
+        if (!operator) {
+          throw new Error(`Invalid expression "${expression}": unexpected character "${rest[0]}"`);
+        }
+        match = [operator];
+        tokens.push({ kind: 'operator', value: operator });
+      }
+      rest = rest.slice(match[0].length);
+    }
+
+    if (tokens.length === 0) {
+      throw new Error('Invalid expression: it is empty');
+    }
+    return tokens;
+  }
+
+  private evaluateNode(node: ExpressionNode, variables: Record<string, unknown>): unknown {
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
+
+      case 'variable':
+        return Object.prototype.hasOwnProperty.call(variables, node.name) ? variables[node.name] : undefined;
+
+      case 'member': {
+        const object = this.evaluateNode(node.object, variables);
+        const property = String(this.evaluateNode(node.property, variables));
+        if (typeof object === 'string' || Array.isArray(object)) {
+          return property === 'length' ? object.length : object[Number(property)];
+        }
+        if (typeof object === 'object' && object !== null && Object.prototype.hasOwnProperty.call(object, property)) {
+          return (object as Record<string, unknown>)[property];
+        }
+        return undefined;
+      }
+
+      case 'unary': {
+        const operand = this.evaluateNode(node.operand, variables);
+        return node.operator === '!' ? !operand : -Number(operand);
+      }
+
+      case 'binary': {
+        // && and || short-circuit and return booleans
+        if (node.operator === '&&') {
+          return Boolean(this.evaluateNode(node.left, variables)) && Boolean(this.evaluateNode(node.right, variables));
+        }
+        if (node.operator === '||') {
+          return Boolean(this.evaluateNode(node.left, variables)) || Boolean(this.evaluateNode(node.right, variables));
+        }
+
+        const left = this.evaluateNode(node.left, variables);
+        const right = this.evaluateNode(node.right, variables);
+        switch (node.operator) {
+          case '==': case '===': return this.equals(left, right);
+          case '!=': case '!==': return !this.equals(left, right);
+          case '<': return this.compare(left, right) < 0;
+          case '<=': return this.compare(left, right) <= 0;
+          case '>': return this.compare(left, right) > 0;
+          case '>=': return this.compare(left, right) >= 0;
+          case '+':
+            return typeof left === 'string' || typeof right === 'string'
+              ? String(left) + String(right)
+              : Number(left) + Number(right);
+          case '-': return Number(left) - Number(right);
+          case '*': return Number(left) * Number(right);
+          case '/': return Number(left) / Number(right);
+          default: return Number(left) % Number(right);
+        }
+      }
+    }
+  }
+
+  private equals(a: unknown, b: unknown): boolean {
+    return (a === null || a === undefined) && (b === null || b === undefined) ? true : a === b;
+  }
+
+  /**
+   * Order two values: strings alphabetically, numbers numerically. NaN for
+   * anything else (null, undefined, booleans, a string and a number...), so
+   * every ordering comparison with them is false.
+   */
+  private compare(a: unknown, b: unknown): number {
+    if (typeof a === 'string' && typeof b === 'string') {
+      return a < b ? -1 : a > b ? 1 : 0;
+    }
+    if (typeof a === 'number' && typeof b === 'number') {
+      return a - b;
+    }
+    return NaN;
+  }
+}
@@ -0,0 +1,264 @@
+import { BlueprintMigration, ConfigTransform, ConfigTransformOp } from '../types.js';
+import { ConfigPath, PathSegment, UNSAFE_KEYS } from './ConfigPath.js';
+import { SemVer } from './SemVer.js';
+
+export const CONFIG_TRANSFORM_OPS: ConfigTransformOp[] = ['set', 'default', 'remove', 'rename', 'move'];
+
+export interface AppliedMigration {
+  version: number | string;
+  description?: string;
+  changes: string[];  // e.g. "renamed database.url → database.connectionString"
+}
+
+export interface MigrationResult {
+  config: Record<string, any>;
+  applied: AppliedMigration[];  // Migrations run, oldest first
+}
+
+// An object or array found while walking a path, and where it is
+interface Container {
+  value: any;
+  location: string;  // Concrete path, e.g. "contentTypes[0].fields"
+}
+
+/**
+ * Upgrades a config written for one version of a blueprint to a later
+ * version, by running the blueprint's migrations in between in version
+ * order. Migrations are declarative transforms on config paths, so they can
+ * be validated up front and never run code.
+ *
+ * Paths may use [*] wildcards to transform every item of an array (e.g.
+ * "contentTypes[*].fields"), except for move. Transforms whose path selects
+ * nothing change nothing.
+ */
+export class ConfigMigrator {
+  constructor(
+    private configPath: ConfigPath,
+    private semver: SemVer
+  ) {}
+
+  /**
+   * Check that a migration is well-formed
+   * @returns A description of the first problem found, or null if it is valid
+   */
+  validate(migration: BlueprintMigration): string | null {
+    if (!migration || typeof migration !== 'object') {
+      return 'must be an object';
+    }
+    if (!this.semver.isValid(migration.version)) {
+      return `version ${JSON.stringify(migration.version)} is not a valid version`;
+    }
+    if (!Array.isArray(migration.transforms) || migration.transforms.length === 0) {
+      return 'transforms must be a non-empty array';
+    }
+
+    for (const [index, transform] of migration.transforms.entries()) {
+      const problem = this.validateTransform(transform);
+      if (problem) {
+        return `transforms[${index}]: ${problem}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Run the migrations a config needs to go from one blueprint version to another
+   * @returns The migrated config (the input is not modified) and what each migration changed
+   * @throws If a transform cannot be applied to the config
+   */
+  migrate(
+    config: Record<string, any>,
+    fromVersion: number | string,
+    toVersion: number | string,
+    migrations: BlueprintMigration[]
+  ): MigrationResult {
+    const pending = migrations
+      .filter(migration => this.semver.compare(migration.version, fromVersion) > 0
+        && this.semver.compare(migration.version, toVersion) <= 0)
+      .sort((a, b) => this.semver.compare(a.version, b.version));
+
+    const result: MigrationResult = { config: structuredClone(config), applied: [] };
+    for (const migration of pending) {
+      const changes: string[] = [];
+      for (const transform of migration.transforms) {
+        try {
+          changes.push(...this.applyTransform(result.config, transform));
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          throw new Error(`Migration to ${migration.version} failed (${transform.op} ${transform.path}): ${errorMessage}`);
+        }
+      }
+      result.applied.push({ version: migration.version, description: migration.description, changes });
+    }
+    return result;
+  }
+
+  private validateTransform(transform: ConfigTransform): string | null {
+    if (!transform || typeof transform !== 'object') {
+      return 'must be an object';
+    }
+    if (!CONFIG_TRANSFORM_OPS.includes(transform.op)) {
+      return `unknown op "${transform.op}" (expected one of: ${CONFIG_TRANSFORM_OPS.join(', ')})`;
+    }
+    if (!transform.path || typeof transform.path !== 'string') {
+      return 'path is required and must be a string';
+    }
+
+    let segments: PathSegment[];
+    try {
+      segments = this.configPath.parse(transform.path);
+    } catch (error) {
+      return `path: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+    if (segments[segments.length - 1].kind !== 'key') {
+      return `path must end in a key: "${transform.path}"`;
+    }
+
+    if ((transform.op === 'set' || transform.op === 'default') && transform.value === undefined) {
+      return `${transform.op} requires value`;
+    }
+    if (transform.op === 'rename') {
+      if (!transform.to || typeof transform.to !== 'string' || !/^[\w$-]+$/.test(transform.to)) {
+        return 'rename requires to (the new key name)';
+      }
+      if (UNSAFE_KEYS.includes(transform.to)) {
+        return `rename cannot use "${transform.to}" as a key`;
+      }
+    }
+    if (transform.op === 'move') {
+      if (!transform.to || typeof transform.to !== 'string') {
+        return 'move requires to (the destination path)';
+      }
+      try {
+        const destination = this.configPath.parse(transform.to);
+        if ([...segments, ...destination].some(segment => segment.kind === 'wildcard')) {
+          return 'move paths cannot use wildcards';
+        }
+        if (destination[destination.length - 1].kind !== 'key') {
+          return `to must end in a key: "${transform.to}"`;
+        }
+      } catch (error) {
+        return `to: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Apply one transform to a config in place
+   * @returns A line per value changed
+   */
+  private applyTransform(config: Record<string, any>, transform: ConfigTransform): string[] {
+    const problem = this.validateTransform(transform);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    const segments = this.configPath.parse(transform.path);
+    const key = (segments[segments.length - 1] as { key: string }).key;
+    const create = transform.op === 'set' || transform.op === 'default';
+    const changes: string[] = [];
+
+    if (transform.op === 'move') {
+      const source = this.containers(config, segments.slice(0, -1), false)[0];
+      if (!source || !this.isObject(source.value) || !Object.hasOwn(source.value, key)) {
+        return changes;
+      }
+      const value = source.value[key];
+      const destinationSegments = this.configPath.parse(transform.to!);
+      const destinationKey = (destinationSegments[destinationSegments.length - 1] as { key: string }).key;
+      const destination = this.containers(config, destinationSegments.slice(0, -1), true)[0];
+      if (!this.isObject(destination?.value)) {
+        throw new Error(`${transform.to} cannot be written: its parent is not an object`);
+      }
+      delete source.value[key];
+      destination.value[destinationKey] = value;
+      changes.push(`moved ${this.join(source.location, key)} → ${this.join(destination.location, destinationKey)}`);
+      return changes;
+    }
+
+    for (const container of this.containers(config, segments.slice(0, -1), create)) {
+      if (!this.isObject(container.value)) {
+        if (create) {
+          throw new Error(`${this.join(container.location, key)} cannot be written: its parent is not an object`);
+        }
+        continue;
+      }
+      const location = this.join(container.location, key);
+      const exists = Object.hasOwn(container.value, key);
+
+      switch (transform.op) {
+        case 'set':
+          container.value[key] = structuredClone(transform.value);
+          changes.push(`set ${location} = ${JSON.stringify(transform.value)}`);
+          break;
+        case 'default':
+          if (!exists) {
+            container.value[key] = structuredClone(transform.value);
+            changes.push(`defaulted ${location} = ${JSON.stringify(transform.value)}`);
+          }
+          break;
+        case 'remove':
+          if (exists) {
+            delete container.value[key];
+            changes.push(`removed ${location}`);
+          }
+          break;
+        case 'rename':
+          if (exists) {
+            if (Object.hasOwn(container.value, transform.to!)) {
+              throw new Error(`cannot rename ${location}: ${this.join(container.location, transform.to!)} already exists`);
+            }
+            container.value[transform.to!] = container.value[key];
+            delete container.value[key];
+            changes.push(`renamed ${location} → ${this.join(container.location, transform.to!)}`);
+          }
+          break;
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Walk a path (without its last key) to the objects holding that key
+   * @param create - Add missing objects along key segments (not indexes or wildcards)
+   */
+  private containers(root: Record<string, any>, segments: PathSegment[], create: boolean): Container[] {
+    let nodes: Container[] = [{ value: root, location: '' }];
+
+    for (const segment of segments) {
+      const next: Container[] = [];
+      for (const node of nodes) {
+        const value = node.value;
+        if (segment.kind === 'key') {
+          if (this.isObject(value)) {
+            if (!Object.hasOwn(value, segment.key) && create) {
+              value[segment.key] = {};
+            }
+            if (Object.hasOwn(value, segment.key)) {
+              next.push({ value: value[segment.key], location: this.join(node.location, segment.key) });
+            }
+          }
+        } else if (segment.kind === 'index') {
+          if (Array.isArray(value) && segment.index < value.length) {
+            next.push({ value: value[segment.index], location: `${node.location}[${segment.index}]` });
+          }
+        } else if (Array.isArray(value)) {
+          value.forEach((item, index) => next.push({ value: item, location: `${node.location}[${index}]` }));
+        } else if (this.isObject(value)) {
+          Object.keys(value).forEach(key => next.push({ value: value[key], location: this.join(node.location, key) }));
+        }
+      }
+      nodes = next;
+    }
+    return nodes;
+  }
+
+  private join(location: string, key: string): string {
+    return location ? `${location}.${key}` : key;
+  }
+
+  private isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,121 @@
+export type PathSegment =
+  | { kind: 'key'; key: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' };
+
+// Keys that reach the prototype chain rather than a config value
+export const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+interface PathNode {
+  value: unknown;
+  parent: unknown;   // Object holding the value (arrays are skipped over)
+  index?: number;    // Position in the array the value came from
+}
+
+export interface IterationItem {
+  item: unknown;
+  index: number;     // Position of the item in its array
+  parent: unknown;   // Object holding the array (the config itself for top-level arrays)
+}
+
+/**
+ * Evaluates JSONPath-style expressions against a config, e.g. "contentTypes",
+ * "$.contentTypes[*].fields" or "app.features[0].options"
+ *
+ * Supported: dotted keys, ['quoted keys'], [n] indexes and [*] / .* wildcards.
+ * __proto__, constructor and prototype are not valid keys.
+ */
+export class ConfigPath {
+  /**
+   * Items to iterate for an `each` expression. An expression that selects
+   * arrays iterates their elements; one ending in a wildcard iterates what it
+   * matches. Missing keys select nothing.
+   */
+  iterate(root: unknown, expression: string): IterationItem[] {
+    const segments = this.parse(expression);
+    const endsInWildcard = segments.length > 0 && segments[segments.length - 1].kind === 'wildcard';
+    const items: IterationItem[] = [];
+
+    for (const node of this.select(root, segments)) {
+      if (endsInWildcard) {
+        items.push({ item: node.value, index: node.index ?? items.length, parent: node.parent });
+      } else if (Array.isArray(node.value)) {
+        node.value.forEach((item, index) => items.push({ item, index, parent: node.parent }));
+      } else {
+        throw new Error(`"${expression}" does not select an array`);
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Values an expression selects (several with wildcards, none for missing keys)
+   */
+  values(root: unknown, expression: string): unknown[] {
+    return this.select(root, this.parse(expression)).map(node => node.value);
+  }
+
+  /**
+   * Parse an expression into path segments
+   * @throws If the expression is malformed
+   */
+  parse(expression: string): PathSegment[] {
+    let rest = expression.trim().replace(/^\$\.?/, '');
+    const segments: PathSegment[] = [];
+
+    while (rest.length > 0) {
+      let match: RegExpMatchArray | null;
+      if ((match = rest.match(/^\.?\*/)) || (match = rest.match(/^\[\*\]/))) {
+        segments.push({ kind: 'wildcard' });
+      } else if ((match = rest.match(/^\[(\d+)\]/))) {
+        segments.push({ kind: 'index', index: parseInt(match[1], 10) });
+      } else if ((match = rest.match(/^\[(['"])(.*?)\1\]/))) {
+        segments.push({ kind: 'key', key: match[2] });
+      } else if ((match = rest.match(segments.length === 0 ? /^([\w$-]+)/ : /^\.([\w$-]+)/))) {
+        segments.push({ kind: 'key', key: match[1] });
+      } else {
+        throw new Error(`Invalid path "${expression}" near "${rest}"`);
+      }
+      const segment = segments[segments.length - 1];
+      if (segment.kind === 'key' && UNSAFE_KEYS.includes(segment.key)) {
+        throw new Error(`Invalid path "${expression}": "${segment.key}" is not allowed as a key`);
+      }
+      rest = rest.slice(match[0].length);
+    }
+
+    if (segments.length === 0) {
+      throw new Error(`Invalid path "${expression}": it selects nothing`);
+    }
+    return segments;
+  }
+
+  private select(root: unknown, segments: PathSegment[]): PathNode[] {
+    let nodes: PathNode[] = [{ value: root, parent: undefined }];
+
+    for (const segment of segments) {
+      const next: PathNode[] = [];
+      for (const node of nodes) {
+        const value = node.value;
+        if (segment.kind === 'key') {
+          if (this.isObject(value) && Object.hasOwn(value, segment.key)) {
+            next.push({ value: value[segment.key], parent: value });
+          }
+        } else if (segment.kind === 'index') {
+          if (Array.isArray(value) && segment.index < value.length) {
+            next.push({ value: value[segment.index], parent: node.parent, index: segment.index });
+          }
+        } else if (Array.isArray(value)) {
+          value.forEach((item, index) => next.push({ value: item, parent: node.parent, index }));
+        } else if (this.isObject(value)) {
+          Object.values(value).forEach((item, index) => next.push({ value: item, parent: value, index }));
+        }
+      }
+      nodes = next;
+    }
+    return nodes;
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,196 @@
+import { BlueprintMetadata, BlueprintTask } from '../types.js';
+
+interface TaskNode {
+  task: BlueprintTask;
+  layerId: string;
+  layerOrder: number;
+  layerName: string;
+}
+
+export interface DependencyAnalysis {
+  hasExplicitDependencies: boolean;
+  computedLayers: string[][] | null;  // Task IDs per computed layer (null when a cycle exists)
+  cycle?: string[];                   // Task IDs forming a cycle, first ID repeated at the end
+  errors: string[];
+  warnings: string[];
+  suggestions: string[];
+}
+
+/**
+ * Resolves explicit task dependencies (dependsOn, provides/requires) into
+ * layers via topological sort and checks them against the authored layering.
+ */
+export class TaskDependencyResolver {
+  /**
+   * Analyze the explicit dependencies declared by a blueprint's tasks
+   */
+  analyze(blueprint: BlueprintMetadata): DependencyAnalysis {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const suggestions: string[] = [];
+
+    const nodes = new Map<string, TaskNode>();
+    for (const layer of blueprint.layers) {
+      for (const task of Array.isArray(layer.tasks) ? layer.tasks : []) {
+        if (nodes.has(task.id)) {
+          errors.push(`Task "${task.id}" is declared more than once - task IDs must be unique across layers.`);
+          continue;
+        }
+        nodes.set(task.id, { task, layerId: layer.id, layerOrder: layer.order, layerName: layer.name });
+      }
+    }
+
+    const hasExplicitDependencies = Array.from(nodes.values()).some(({ task }) =>
+      (task.dependsOn?.length ?? 0) > 0 || (task.provides?.length ?? 0) > 0 || (task.requires?.length ?? 0) > 0
+    );
+
+    if (!hasExplicitDependencies) {
+      return { hasExplicitDependencies, computedLayers: null, errors, warnings, suggestions };
+    }
+
+    // Capability key -> providing task IDs
+    const providers = new Map<string, string[]>();
+    for (const { task } of nodes.values()) {
+      for (const key of task.provides || []) {
+        providers.set(key, [...(providers.get(key) || []), task.id]);
+      }
+    }
+
+    // Task ID -> (dependency task ID -> reason)
+    const dependencies = new Map<string, Map<string, string>>();
+    for (const { task } of nodes.values()) {
+      const deps = new Map<string, string>();
+
+      for (const depId of task.dependsOn || []) {
+        if (depId === task.id) {
+          errors.push(`Task "${task.id}" depends on itself.`);
+        } else if (!nodes.has(depId)) {
+          errors.push(`Task "${task.id}" depends on unknown task "${depId}".`);
+        } else {
+          deps.set(depId, 'dependsOn');
+        }
+      }
+
+      for (const key of task.requires || []) {
+        const providerIds = (providers.get(key) || []).filter(id => id !== task.id);
+        if (providerIds.length === 0) {
+          warnings.push(`Task "${task.id}" requires "${key}" but no task in this blueprint provides it.`);
+        }
+        for (const providerId of providerIds) {
+          if (!deps.has(providerId)) {
+            deps.set(providerId, `requires "${key}"`);
+          }
+        }
+      }
+
+      dependencies.set(task.id, deps);
+    }
+
+    // Tasks must sit in a strictly later layer than everything they depend on
+    for (const [taskId, deps] of dependencies) {
+      const node = nodes.get(taskId)!;
+      for (const [depId, reason] of deps) {
+        const dep = nodes.get(depId)!;
+        if (dep.layerOrder >= node.layerOrder) {
+          const placement = dep.layerOrder === node.layerOrder ? 'the same layer as' : 'an earlier layer than';
+          errors.push(
+            `Task "${taskId}" (Layer ${node.layerOrder}: ${node.layerName}) is placed in ${placement} its dependency ` +
+            `"${depId}" (Layer ${dep.layerOrder}: ${dep.layerName}) [${reason}].\n` +
+            `  FIX: Move "${taskId}" to a layer after ${dep.layerOrder}, or remove the dependency.`
+          );
+        }
+      }
+    }
+
+    const { layers, remaining } = this.topologicalLayers(Array.from(nodes.keys()), dependencies);
+
+    if (remaining.length > 0) {
+      const cycle = this.findCycle(remaining, dependencies);
+      errors.push(
+        `Dependency cycle detected: ${cycle.join(' → ')}\n` +
+        `  FIX: Remove one of these dependencies so the tasks can be ordered.`
+      );
+      return { hasExplicitDependencies, computedLayers: null, cycle, errors, warnings, suggestions };
+    }
+
+    // Point out tasks that could start earlier than authored
+    const computedIndex = new Map<string, number>();
+    layers.forEach((ids, index) => ids.forEach(id => computedIndex.set(id, index)));
+    const authoredOrders = Array.from(new Set(blueprint.layers.map(l => l.order))).sort((a, b) => a - b);
+    for (const [taskId, node] of nodes) {
+      const authoredIndex = authoredOrders.indexOf(node.layerOrder);
+      if (computedIndex.get(taskId)! < authoredIndex) {
+        suggestions.push(
+          `Task "${taskId}" is authored in Layer ${node.layerOrder} but its dependencies allow it ` +
+          `to run in computed layer ${computedIndex.get(taskId)! + 1}.`
+        );
+      }
+    }
+
+    return { hasExplicitDependencies, computedLayers: layers, errors, warnings, suggestions };
+  }
+
+  /**
+   * Kahn's algorithm, grouping tasks whose dependencies are all satisfied into the same layer.
+   * Tasks left over belong to (or depend on) a cycle.
+   */
+  private topologicalLayers(
+    taskIds: string[],
+    dependencies: Map<string, Map<string, string>>
+  ): { layers: string[][]; remaining: string[] } {
+    const placed = new Set<string>();
+    const layers: string[][] = [];
+    let pending = [...taskIds];
+
+    while (pending.length > 0) {
+      const ready = pending.filter(id =>
+        Array.from(dependencies.get(id)?.keys() || []).every(depId => placed.has(depId))
+      );
+      if (ready.length === 0) {
+        break;
+      }
+      layers.push(ready);
+      ready.forEach(id => placed.add(id));
+      pending = pending.filter(id => !placed.has(id));
+    }
+
+    return { layers, remaining: pending };
+  }
+
+  /**
+   * Find one cycle among unplaceable tasks, returned in dependency order
+   * (e.g., ["a", "b", "a"] means a depends on b which depends on a)
+   */
+  private findCycle(taskIds: string[], dependencies: Map<string, Map<string, string>>): string[] {
+    const candidates = new Set(taskIds);
+    const visiting: string[] = [];
+    const visited = new Set<string>();
+
+    const visit = (id: string): string[] | null => {
+      const index = visiting.indexOf(id);
+      if (index >= 0) {
+        return [...visiting.slice(index), id];
+      }
+      if (visited.has(id)) {
+        return null;
+      }
+
+      visiting.push(id);
+      for (const depId of dependencies.get(id)?.keys() || []) {
+        if (candidates.has(depId)) {
+          const cycle = visit(depId);
+          if (cycle) return cycle;
+        }
+      }
+      visiting.pop();
+      visited.add(id);
+      return null;
+    };
+
+    for (const id of taskIds) {
+      const cycle = visit(id);
+      if (cycle) return cycle;
+    }
+    return taskIds;
+  }
+}
@@ -3,6 +3,7 @@ import * as path from 'path';
 import * as yaml from 'js-yaml';
 import { ToolDefinition, ToolHandler } from '../types.js';
 import { BaseToolSet } from './BaseToolSet.js';
+import { PathSafety } from './PathSafety.js';
 import { MermaidValidatorClient } from '../services/MermaidValidatorClient.js';
 
 interface Diagram {
@@ -13,9 +14,11 @@ interface Diagram {
 
 export class DiagramTools extends BaseToolSet {
   private validatorClient: MermaidValidatorClient;
+  private pathSafety: PathSafety;
 
   constructor() {
     super();
+    this.pathSafety = new PathSafety();
     this.validatorClient = new MermaidValidatorClient();
     // Initialize validator in background - don't block construction
     this.validatorClient.initialize().catch(err =>
@@ -240,6 +243,7 @@ Project path: ${projectPath}
     if (!projectPath || typeof projectPath !== 'string') {
       throw new Error('projectPath is required and must be a string');
     }
+    this.pathSafety.assertSafeName(name, 'name');
 
     // Ensure we have an absolute path
     let resolvedProjectPath: string;
@@ -251,6 +255,8 @@ Project path: ${projectPath}
 
     const bluekitDir = path.join(resolvedProjectPath, '.bluekit');
     const diagramsDir = path.join(bluekitDir, 'diagrams');
+    const diagramPath = path.join(diagramsDir, `${name}.mmd`);
+    this.pathSafety.assertWithin(resolvedProjectPath, diagramPath, 'Diagram file');
 
     try {
       if (!fs.existsSync(diagramsDir)) {
@@ -301,7 +307,6 @@ Project path: ${projectPath}
         }
       }
 
-      const diagramPath = path.join(diagramsDir, `${name}.mmd`);
       const finalContent = this.ensureFinalNewline(contentWithFrontMatter);
       fs.writeFileSync(diagramPath, finalContent, 'utf8');
 
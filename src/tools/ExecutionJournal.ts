@@ -0,0 +1,162 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExecutionStateStore, ExecutionRun } from './ExecutionStateStore.js';
+import { WriteListener } from './FileOperations.js';
+
+export interface JournalEntry {
+  seq: number;
+  path: string;           // Destination path relative to the run's target
+  layerId?: string;       // Absent for writes of the run itself (e.g. the applied manifest)
+  taskId?: string;
+  operationIndex?: number;
+  existed: boolean;       // Whether the destination existed before the write
+  directory?: boolean;    // The destination was a directory (deleted by the write)
+  backup?: string;        // Backup file name (in the journal dir) holding prior contents
+  recordedAt: string;
+}
+
+export interface RollbackResult {
+  restored: string[];  // Files put back to their prior contents, and deleted directories recreated
+  removed: string[];   // Files and directories deleted because they did not exist before
+  entries: number;
+}
+
+/**
+ * Write-ahead journal of every file a blueprint run writes. Before each write
+ * the destination's prior contents (or absence) are recorded so the run, or a
+ * single layer of it, can be rolled back. Directories the run creates or
+ * deletes are journaled too, so a rollback only removes directories the run
+ * created.
+ *
+ * Stored next to the run state at .bluekit/blueprints/{id}/runs/{runId}.journal/
+ */
+export class ExecutionJournal {
+  constructor(private stateStore: ExecutionStateStore) {}
+
+  /**
+   * Create a write listener that journals writes made by one operation
+   */
+  recorderFor(run: ExecutionRun, layerId: string, taskId: string, operationIndex: number): WriteListener {
+    return (absolutePath: string) => {
+      this.record(run, {
+        path: path.relative(run.targetPath, absolutePath),
+        layerId,
+        taskId,
+        operationIndex
+      }, absolutePath);
+    };
+  }
+
+  /**
+   * Journal a write the run makes itself rather than one of its operations.
+   * Only a rollback of the whole run undoes it.
+   */
+  recordRunWrite(run: ExecutionRun, absolutePath: string): void {
+    this.record(run, { path: path.relative(run.targetPath, absolutePath) }, absolutePath);
+  }
+
+  /**
+   * Read all journal entries for a run, in write order
+   */
+  readEntries(run: ExecutionRun): JournalEntry[] {
+    const journalPath = this.getJournalPath(run);
+
+    if (!fs.existsSync(journalPath)) {
+      return [];
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(journalPath, 'utf8')) as JournalEntry[];
+    } catch (error) {
+      throw new Error(`Failed to read journal for run "${run.runId}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Undo journaled writes in reverse order, restoring prior contents and
+   * removing files that did not exist before the run.
+   * @param layerId - Only undo writes made by this layer (whole run if omitted)
+   */
+  rollback(run: ExecutionRun, layerId?: string): RollbackResult {
+    const entries = this.readEntries(run);
+    const toUndo = entries.filter(e => !layerId || e.layerId === layerId);
+    const result: RollbackResult = { restored: [], removed: [], entries: toUndo.length };
+    const journalDir = this.getJournalDir(run);
+
+    for (const entry of [...toUndo].reverse()) {
+      const fullPath = path.join(run.targetPath, entry.path);
+
+      if (entry.existed && entry.directory) {
+        fs.mkdirSync(fullPath, { recursive: true });
+        result.restored.push(entry.path);
+      } else if (entry.existed && entry.backup) {
+        fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+        fs.copyFileSync(path.join(journalDir, entry.backup), fullPath);
+        result.restored.push(entry.path);
+      } else if (fs.existsSync(fullPath) && fs.statSync(fullPath).isDirectory()) {
+        // Directory the run created - removed only if nothing else was put in it since
+        if (fs.readdirSync(fullPath).length === 0) {
+          fs.rmdirSync(fullPath);
+          result.removed.push(entry.path);
+        }
+      } else {
+        if (fs.existsSync(fullPath)) {
+          fs.unlinkSync(fullPath);
+        }
+        result.removed.push(entry.path);
+      }
+    }
+
+    // Drop undone entries so a second rollback cannot re-apply them
+    for (const entry of toUndo) {
+      if (entry.backup) {
+        const backupPath = path.join(journalDir, entry.backup);
+        if (fs.existsSync(backupPath)) {
+          fs.unlinkSync(backupPath);
+        }
+      }
+    }
+    this.writeEntries(run, entries.filter(e => !toUndo.includes(e)));
+
+    return result;
+  }
+
+  /**
+   * Record the prior state of a destination before it is written
+   */
+  private record(
+    run: ExecutionRun,
+    entry: Omit<JournalEntry, 'seq' | 'existed' | 'backup' | 'recordedAt'>,
+    absolutePath: string
+  ): void {
+    const entries = this.readEntries(run);
+    const seq = entries.length > 0 ? entries[entries.length - 1].seq + 1 : 1;
+    const stats = fs.existsSync(absolutePath) ? fs.statSync(absolutePath) : null;
+    const existed = Boolean(stats && (stats.isFile() || stats.isDirectory()));
+    const directory = stats?.isDirectory() || undefined;
+
+    let backup: string | undefined;
+    if (existed && !directory) {
+      const journalDir = this.getJournalDir(run);
+      fs.mkdirSync(journalDir, { recursive: true });
+      backup = `${seq}.bak`;
+      fs.copyFileSync(absolutePath, path.join(journalDir, backup));
+    }
+
+    entries.push({ ...entry, seq, existed, directory, backup, recordedAt: new Date().toISOString() });
+    this.writeEntries(run, entries);
+  }
+
+  private writeEntries(run: ExecutionRun, entries: JournalEntry[]): void {
+    fs.mkdirSync(this.getJournalDir(run), { recursive: true });
+    fs.writeFileSync(this.getJournalPath(run), JSON.stringify(entries, null, 2) + '\n', 'utf8');
+  }
+
+  private getJournalDir(run: ExecutionRun): string {
+    return path.join(this.stateStore.getRunsDir(run.targetPath, run.blueprintId), `${run.runId}.journal`);
+  }
+
+  private getJournalPath(run: ExecutionRun): string {
+    return path.join(this.getJournalDir(run), 'journal.json');
+  }
+}
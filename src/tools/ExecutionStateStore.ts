@@ -0,0 +1,190 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { FileOperation, ConflictPolicy } from '../types.js';
+import { AppConfig, ConflictResolution, GeneratedFile } from './FileOperations.js';
+
+export type StepStatus = 'pending' | 'running' | 'done' | 'failed' | 'skipped';
+export type RunStatus = Exclude<StepStatus, 'skipped'> | 'paused' | 'rolled-back';
+
+export interface OperationState {
+  index: number;
+  operation: FileOperation;
+  status: StepStatus;
+  files: string[];       // Destination paths written (relative to target)
+  conflicts?: ConflictResolution[];  // Destinations that already existed, with the policy applied
+  aiGenerated?: GeneratedFile[];     // generate: files written by the client's model (via MCP sampling)
+  placeholders?: string[];           // generate: files left as a TODO placeholder
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+  skipReason?: string;   // Why the step is skipped (its `when` was false)
+}
+
+export interface TaskState {
+  id: string;
+  taskFile: string;
+  description: string;
+  blueprintFolder: string;  // Folder holding this task's templates (differs for inherited tasks)
+  status: StepStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+  skipReason?: string;
+  operations: OperationState[];
+}
+
+export interface LayerState {
+  id: string;
+  order: number;
+  name: string;
+  status: StepStatus;
+  startedAt?: string;
+  finishedAt?: string;
+  skipReason?: string;
+  tasks: TaskState[];
+}
+
+export interface ExecutionRun {
+  runId: string;
+  blueprintId: string;
+  blueprintName: string;
+  blueprintVersion: number | string;
+  blueprintFolder: string;  // Folder holding the blueprint's templates and preserved paths
+  targetPath: string;
+  config: AppConfig;
+  onConflict?: ConflictPolicy;  // Run-wide conflict policy (operations may override it)
+  helperPacks?: string[];       // Template helper packs enabled by the blueprint
+  strictTemplates?: boolean;    // Fail on undefined template variables
+  status: RunStatus;
+  pid?: number;                 // Process executing the run, while it is running
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  rolledBackAt?: string;
+  layers: LayerState[];
+}
+
+/**
+ * Persists blueprint execution runs to
+ * {targetPath}/.bluekit/blueprints/{blueprintId}/runs/{runId}.json
+ */
+export class ExecutionStateStore {
+  /**
+   * Generate a sortable, unique run ID (e.g., "run-20260101T120000-a1b2c3")
+   */
+  createRunId(): string {
+    const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, '');
+    return `run-${timestamp}-${crypto.randomBytes(3).toString('hex')}`;
+  }
+
+  /**
+   * Get the runs directory for a blueprint in a target project
+   */
+  getRunsDir(targetPath: string, blueprintId: string): string {
+    return path.join(targetPath, '.bluekit', 'blueprints', blueprintId, 'runs');
+  }
+
+  /**
+   * Write a run to disk, updating its updatedAt timestamp
+   */
+  save(run: ExecutionRun): void {
+    const runsDir = this.getRunsDir(run.targetPath, run.blueprintId);
+    if (!fs.existsSync(runsDir)) {
+      fs.mkdirSync(runsDir, { recursive: true });
+    }
+
+    run.updatedAt = new Date().toISOString();
+    const runPath = path.join(runsDir, `${run.runId}.json`);
+    fs.writeFileSync(runPath, JSON.stringify(run, null, 2) + '\n', 'utf8');
+  }
+
+  /**
+   * Load a run by ID
+   */
+  load(targetPath: string, blueprintId: string, runId: string): ExecutionRun {
+    const runPath = path.join(this.getRunsDir(targetPath, blueprintId), `${runId}.json`);
+
+    if (!fs.existsSync(runPath)) {
+      throw new Error(`Run "${runId}" not found for blueprint "${blueprintId}" in ${targetPath}`);
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(runPath, 'utf8')) as ExecutionRun;
+    } catch (error) {
+      throw new Error(`Failed to read run "${runId}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Whether a run is being executed right now. A run left "running" by a
+   * process that has since exited (e.g. the server was restarted) is not.
+   */
+  isActive(run: ExecutionRun): boolean {
+    if (run.status !== 'running' || run.pid === undefined) {
+      return false;
+    }
+    try {
+      process.kill(run.pid, 0);
+      return true;
+    } catch (error) {
+      // EPERM: the process exists but belongs to another user
+      return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+  }
+
+  /**
+   * Ask an in-progress run to pause before its next operation.
+   * A marker file is used so the executor's own state writes cannot clobber it.
+   */
+  requestPause(run: ExecutionRun): void {
+    const runsDir = this.getRunsDir(run.targetPath, run.blueprintId);
+    if (!fs.existsSync(runsDir)) {
+      fs.mkdirSync(runsDir, { recursive: true });
+    }
+    fs.writeFileSync(this.getPauseMarkerPath(run), new Date().toISOString() + '\n', 'utf8');
+  }
+
+  /**
+   * Check whether a pause has been requested for a run
+   */
+  isPauseRequested(run: ExecutionRun): boolean {
+    return fs.existsSync(this.getPauseMarkerPath(run));
+  }
+
+  /**
+   * Remove a pending pause request
+   */
+  clearPauseRequest(run: ExecutionRun): void {
+    const markerPath = this.getPauseMarkerPath(run);
+    if (fs.existsSync(markerPath)) {
+      fs.unlinkSync(markerPath);
+    }
+  }
+
+  /**
+   * List all runs for a blueprint, oldest first
+   */
+  list(targetPath: string, blueprintId: string): ExecutionRun[] {
+    const runsDir = this.getRunsDir(targetPath, blueprintId);
+
+    if (!fs.existsSync(runsDir)) {
+      return [];
+    }
+
+    const runs: ExecutionRun[] = [];
+    for (const file of fs.readdirSync(runsDir).filter(f => f.endsWith('.json')).sort()) {
+      try {
+        runs.push(JSON.parse(fs.readFileSync(path.join(runsDir, file), 'utf8')) as ExecutionRun);
+      } catch (error) {
+        console.error(`[ExecutionStateStore] Skipping unreadable run file ${file}:`, error);
+      }
+    }
+    return runs;
+  }
+
+  private getPauseMarkerPath(run: ExecutionRun): string {
+    return path.join(this.getRunsDir(run.targetPath, run.blueprintId), `${run.runId}.pause`);
+  }
+}
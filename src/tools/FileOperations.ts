@@ -1,17 +1,17 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import * as fse from 'fs-extra';
+import { globSync, hasMagic } from 'glob';
 import { SourceResolver } from './SourceResolver.js';
-import { TemplateEngine } from './TemplateEngine.js';
+import { TemplateEngine, TemplateOptions } from './TemplateEngine.js';
+import { StructuredMerge } from './StructuredMerge.js';
+import { TextDiff } from './TextDiff.js';
+import { ConfigPath } from './ConfigPath.js';
+import { ConfigExpression } from './ConfigExpression.js';
+import { PathSafety } from './PathSafety.js';
+import { CodeGenerator, GenerationRequest } from './CodeGenerator.js';
+import { FileOperation, FileOperationType, ConflictPolicy } from '../types.js';
 
-interface FileOperation {
-  type: 'copy' | 'template' | 'generate';
-  source?: string;
-  destination: string;
-  variables?: string[];
-}
-
-interface AppConfig {
+export interface AppConfig {
   app?: {
     name?: string;
     displayName?: string;
@@ -39,12 +39,120 @@ interface AppConfig {
 }
 
 /**
- * Executor for file operations (copy, template, generate)
+ * Called with an absolute path before a file or directory there is written,
+ * created or deleted, so callers can record its prior state (e.g., for rollback)
+ */
+export type WriteListener = (absolutePath: string) => void;
+
+/**
+ * A single change an operation will make to the target: a file write, an
+ * in-place edit of a file, a deletion, or a new directory
+ */
+export interface PlannedWrite {
+  path: string;          // Destination relative to targetPath
+  absolutePath: string;
+  kind?: 'write' | 'delete' | 'mkdir';  // Default: write
+  content?: string;      // Rendered content (template/generate)
+  sourceFile?: string;   // Absolute file to copy verbatim (copy)
+  edit?: FileEdit;       // Computes new content from the current content (append, insert-at-marker, patch, json-merge)
+  generation?: GenerationRequest;  // generate: what to ask the model for (content holds the placeholder until then)
+  onConflict: ConflictPolicy;  // Applied when the destination exists with different content
+  description: string;   // e.g. "templates/readme.hbs -> README.md", for logs
+}
+
+/**
+ * Computes a file's new content from its current content (null if the file
+ * does not exist). Edits are evaluated when applied, so they see earlier
+ * writes of the same run; throwing fails the operation.
+ */
+export type FileEdit = (existing: string | null) => string;
+
+/**
+ * A destination that already existed with different content, and the policy applied to it
+ */
+export interface ConflictResolution {
+  path: string;
+  policy: ConflictPolicy;
+  backupPath?: string;  // Where the previous contents were saved (backup policy)
+}
+
+/**
+ * A template an operation renders, with where it comes from
+ */
+export interface TemplateSource {
+  file: string;      // Path relative to the blueprint folder, "inline content" or "destination"
+  template: string;
+}
+
+export interface OperationResult {
+  files: string[];                   // Destination paths (relative to targetPath) that were written
+  conflicts: ConflictResolution[];
+  aiGenerated: GeneratedFile[];      // generate: files written by the client's model
+  placeholders: string[];            // generate: files left as a TODO placeholder (client without sampling)
+}
+
+/**
+ * A file a GENERATE operation had the client's model write
+ */
+export interface GeneratedFile {
+  path: string;
+  model: string;
+}
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['skip', 'overwrite', 'backup', 'fail', 'merge'];
+
+export const FILE_OPERATION_TYPES: FileOperationType[] = [
+  'copy', 'template', 'generate', 'append', 'insert-at-marker', 'patch', 'json-merge', 'delete', 'mkdir'
+];
+
+// Operations that create whole files, and so are subject to conflict policies
+const FILE_CREATING_TYPES: FileOperationType[] = ['copy', 'template', 'generate'];
+
+// Operations whose snippet comes from a source template or inline content
+const SNIPPET_TYPES: FileOperationType[] = ['append', 'insert-at-marker', 'json-merge'];
+
+// Policy used when neither the operation nor the run sets one
+const DEFAULT_CONFLICT_POLICY: Record<FileOperationType, ConflictPolicy> = {
+  copy: 'skip',
+  template: 'overwrite',
+  generate: 'overwrite',
+  append: 'overwrite',
+  'insert-at-marker': 'overwrite',
+  patch: 'overwrite',
+  'json-merge': 'overwrite',
+  delete: 'overwrite',
+  mkdir: 'overwrite'
+};
+
+type UnresolvedWrite = Omit<PlannedWrite, 'onConflict'>;
+
+/**
+ * Files selected by an operation's source: a single file, or the files under
+ * a directory (or matched by a glob), filtered by include/exclude
+ */
+interface SourceSelection {
+  baseDir: string;   // Directory the files are relative to (the file itself for a single file)
+  files: string[];   // Paths relative to baseDir ('' for a single file)
+  single: boolean;
+}
+
+/**
+ * Executor for file operations (copy, template, generate, append,
+ * insert-at-marker, patch, json-merge, delete, mkdir)
+ *
+ * Operations are first planned into the writes they would make, then applied.
+ * Planning never touches the target, which is what dry runs use.
  */
 export class FileOperationsExecutor {
   constructor(
     private sourceResolver: SourceResolver,
-    private templateEngine: TemplateEngine
+    private templateEngine: TemplateEngine,
+    private structuredMerge: StructuredMerge,
+    private textDiff: TextDiff,
+    private configPath: ConfigPath,
+    private configExpression: ConfigExpression,
+    private pathSafety: PathSafety,
+    private codeGenerator: CodeGenerator
   ) {}
 
   /**
@@ -61,173 +169,977 @@ export class FileOperationsExecutor {
 
   /**
    * Execute a file operation
+   * @param onBeforeWrite - Optional listener notified before each file is written
+   * @param runPolicy - Conflict policy of the run (the operation's own onConflict wins;
+   *   a run-wide merge falls back to the operation's default for files that are not JSON or YAML)
+   * @param templateOptions - Template settings of the blueprint (helper packs, strict mode)
+   * @param taskFile - Task markdown the operation belongs to (relative to sourcePath), given to generate as context
    */
   async execute(
     operation: FileOperation,
     config: AppConfig,
     sourcePath: string,
-    targetPath: string
-  ): Promise<void> {
+    targetPath: string,
+    onBeforeWrite?: WriteListener,
+    runPolicy?: ConflictPolicy,
+    templateOptions?: TemplateOptions,
+    taskFile?: string
+  ): Promise<OperationResult> {
+    const writes = await this.plan(operation, config, sourcePath, targetPath, runPolicy, templateOptions, taskFile);
+    const result: OperationResult = { files: [], conflicts: [], aiGenerated: [], placeholders: [] };
+
+    // Check every destination before writing so a "fail" policy leaves the target untouched
+    const conflicting = writes.filter(write => this.hasConflict(write));
+    const failed = conflicting.filter(write => write.onConflict === 'fail');
+    if (failed.length > 0) {
+      throw new Error(`Destination already exists (onConflict: fail): ${failed.map(w => w.path).join(', ')}`);
+    }
+
+    for (const write of writes) {
+      if (write.kind === 'delete') {
+        if (this.deletePath(write, onBeforeWrite)) {
+          result.files.push(write.path);
+          console.error(`[FileOperations] Deleted: ${write.path}`);
+        }
+      } else if (write.kind === 'mkdir') {
+        if (this.makeDirectory(write, onBeforeWrite)) {
+          result.files.push(write.path);
+          console.error(`[FileOperations] Created directory: ${write.path}`);
+        }
+      } else if (write.edit) {
+        if (this.editFile(write, onBeforeWrite)) {
+          result.files.push(write.path);
+          console.error(`[FileOperations] Edited (${operation.type}): ${write.description}`);
+        }
+      } else if (!conflicting.includes(write)) {
+        await this.generateContent(write, result);
+        this.writeFile(write, onBeforeWrite);
+        result.files.push(write.path);
+      } else {
+        if (write.onConflict !== 'skip') {
+          await this.generateContent(write, result);
+        }
+        const resolution = this.resolveConflict(write, targetPath, onBeforeWrite);
+        result.conflicts.push(resolution);
+        if (resolution.policy !== 'skip') {
+          result.files.push(write.path);
+        }
+      }
+
+      if (operation.type === 'template' && result.files.includes(write.path)) {
+        console.error(`[FileOperations] Generated from template: ${write.description}`);
+      }
+    }
+
+    if (operation.type === 'copy') {
+      console.error(`[FileOperations] Copied: ${operation.source} -> ${operation.destination}`);
+    }
+    return result;
+  }
+
+  /**
+   * Work out the writes a file operation would make, without writing anything
+   * @param runPolicy - Conflict policy of the run (the operation's own onConflict wins;
+   *   a run-wide merge falls back to the operation's default for files that are not JSON or YAML)
+   * @param templateOptions - Template settings of the blueprint (helper packs, strict mode)
+   * @param taskFile - Task markdown the operation belongs to (relative to sourcePath), given to generate as context
+   */
+  async plan(
+    operation: FileOperation,
+    config: AppConfig,
+    sourcePath: string,
+    targetPath: string,
+    runPolicy?: ConflictPolicy,
+    templateOptions?: TemplateOptions,
+    taskFile?: string
+  ): Promise<PlannedWrite[]> {
+    const onConflict = operation.onConflict || runPolicy || DEFAULT_CONFLICT_POLICY[operation.type];
+    if (!CONFLICT_POLICIES.includes(onConflict)) {
+      throw new Error(`Unknown conflict policy "${onConflict}" (expected one of: ${CONFLICT_POLICIES.join(', ')})`);
+    }
+
+    // `each` plans the operation once per item, with the item in scope;
+    // `when` is checked for every item (or once, against the config)
+    const iterations = (operation.each
+      ? this.configPath.iterate(config, operation.each).map(({ item, index, parent }): AppConfig => ({
+          ...config,
+          [operation.as || 'item']: item,
+          [operation.indexAs || 'index']: index,
+          [operation.parentAs || 'parent']: parent
+        }))
+      : [config]
+    ).filter(variables => !operation.when || this.configExpression.test(operation.when, variables));
+
+    // Templates render with the partials, helper packs and strictness of their blueprint
+    const engine = this.templateEngine.forBlueprint(sourcePath, templateOptions);
+    const writes: UnresolvedWrite[] = [];
+    for (const variables of iterations) {
+      writes.push(...await this.planOnce(operation, variables, sourcePath, targetPath, engine, taskFile));
+    }
+
+    // Destinations are rendered from templates, so they could point anywhere
+    for (const write of writes) {
+      this.pathSafety.assertWithin(targetPath, write.absolutePath, `Destination "${write.path}"`);
+    }
+
+    // An operation asking for merge must only write mergeable files; a run-wide
+    // merge applies to the files that can be merged, the rest keep their default
+    const canMerge = (write: UnresolvedWrite) => this.isEdit(write) || this.structuredMerge.canMerge(write.path);
+    if (operation.onConflict === 'merge') {
+      const unmergeable = writes.find(write => !canMerge(write));
+      if (unmergeable) {
+        throw new Error(`onConflict "merge" only supports JSON and YAML files, not ${unmergeable.path}`);
+      }
+    }
+
+    return writes.map(write => ({
+      ...write,
+      onConflict: onConflict === 'merge' && !canMerge(write) ? DEFAULT_CONFLICT_POLICY[operation.type] : onConflict
+    }));
+  }
+
+  /**
+   * Plan an operation for one set of variables
+   */
+  private async planOnce(
+    operation: FileOperation,
+    config: AppConfig,
+    sourcePath: string,
+    targetPath: string,
+    engine: TemplateEngine,
+    taskFile?: string
+  ): Promise<UnresolvedWrite[]> {
+    let writes: UnresolvedWrite[];
     switch (operation.type) {
       case 'copy':
-        await this.executeCopy(operation, config, sourcePath, targetPath);
+        writes = await this.planCopy(operation, config, sourcePath, targetPath, engine);
         break;
       case 'template':
-        await this.executeTemplate(operation, config, sourcePath, targetPath);
+        writes = await this.planTemplate(operation, config, sourcePath, targetPath, engine);
         break;
       case 'generate':
-        await this.executeGenerate(operation, config, targetPath);
+        writes = await this.planGenerate(operation, config, sourcePath, targetPath, engine, taskFile);
+        break;
+      case 'append':
+      case 'insert-at-marker':
+      case 'json-merge':
+        writes = [this.planSnippetEdit(operation, config, sourcePath, targetPath, engine)];
+        break;
+      case 'patch':
+        writes = [this.planPatch(operation, config, sourcePath, targetPath, engine)];
         break;
+      case 'delete':
+        writes = this.planDelete(operation, config, targetPath, engine);
+        break;
+      case 'mkdir': {
+        const resolvedDest = this.resolvePath(operation.destination, config, engine);
+        writes = [{
+          path: resolvedDest,
+          absolutePath: path.join(targetPath, resolvedDest),
+          kind: 'mkdir',
+          description: `mkdir ${resolvedDest}`
+        }];
+        break;
+      }
       default:
         throw new Error(`Unknown operation type: ${(operation as any).type}`);
     }
+    return writes;
   }
 
   /**
-   * Execute COPY operation - preserve exact files from source
+   * Check that a blueprint operation is well-formed, without resolving any files
+   * @returns A description of the first problem found, or null if it is valid
    */
-  private async executeCopy(
-    operation: FileOperation,
-    config: AppConfig,
-    sourcePath: string,
-    targetPath: string
-  ): Promise<void> {
-    if (!operation.source) {
-      throw new Error('COPY operation requires source');
+  validate(operation: FileOperation): string | null {
+    if (!operation || typeof operation !== 'object') {
+      return 'must be an object';
+    }
+    if (!FILE_OPERATION_TYPES.includes(operation.type)) {
+      return `unknown type "${operation.type}" (expected one of: ${FILE_OPERATION_TYPES.join(', ')})`;
+    }
+    if (!operation.destination || typeof operation.destination !== 'string') {
+      return 'destination is required and must be a string';
     }
 
-    // Resolve source path (may contain {{sourceReference}} variable)
-    const resolvedSource = this.resolvePath(operation.source, { ...config, sourceReference: sourcePath });
-    const resolvedDest = this.resolvePath(operation.destination, config);
+    const hasSource = typeof operation.source === 'string' && operation.source !== '';
+    const hasContent = typeof operation.content === 'string';
+    if (SNIPPET_TYPES.includes(operation.type) || operation.type === 'template') {
+      if (hasSource === hasContent) {
+        return `${operation.type} requires either source (a template file) or content (an inline template)`;
+      }
+    } else if (hasContent) {
+      return `content is only supported by template, ${SNIPPET_TYPES.join(', ')} operations`;
+    } else if (['copy', 'patch'].includes(operation.type) && !hasSource) {
+      return `${operation.type} requires source`;
+    }
+    if (operation.kits !== undefined) {
+      if (!Array.isArray(operation.kits) || operation.kits.some(kit => typeof kit !== 'string')) {
+        return 'kits must be an array of kit names';
+      }
+      if (operation.type !== 'generate') {
+        return 'kits only applies to generate operations';
+      }
+    }
 
-    // Full paths
-    const fullSource = path.isAbsolute(resolvedSource) ? resolvedSource : path.join(sourcePath, resolvedSource);
-    const fullDest = path.join(targetPath, resolvedDest);
+    if (operation.type === 'insert-at-marker') {
+      if (!operation.marker || typeof operation.marker !== 'string') {
+        return 'insert-at-marker requires marker (a string)';
+      }
+      if (operation.position !== undefined && operation.position !== 'before' && operation.position !== 'after') {
+        return 'position must be "before" or "after"';
+      }
+    }
+    for (const key of ['include', 'exclude'] as const) {
+      const patterns = operation[key];
+      if (patterns !== undefined && (!Array.isArray(patterns) || patterns.some(p => typeof p !== 'string'))) {
+        return `${key} must be an array of glob patterns`;
+      }
+      if (patterns !== undefined && operation.type !== 'copy' && operation.type !== 'template') {
+        return `${key} only applies to copy and template operations`;
+      }
+    }
+    if (operation.templatePattern !== undefined &&
+        (operation.type !== 'template' || typeof operation.templatePattern !== 'string')) {
+      return 'templatePattern must be a string and only applies to template operations';
+    }
+    if (operation.each !== undefined) {
+      if (typeof operation.each !== 'string') {
+        return 'each must be a string path, e.g. "contentTypes[*].fields"';
+      }
+      try {
+        this.configPath.parse(operation.each);
+      } catch (error) {
+        return `each: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+    }
+    if (operation.when !== undefined) {
+      const problem = this.validateExpression(operation.when);
+      if (problem) {
+        return `when: ${problem}`;
+      }
+    }
+    for (const key of ['as', 'indexAs', 'parentAs'] as const) {
+      const name = operation[key];
+      if (name !== undefined && (typeof name !== 'string' || !/^[A-Za-z_$][\w$]*$/.test(name))) {
+        return `${key} must be a variable name (letters, digits, _ or $)`;
+      }
+    }
+    if (operation.type === 'json-merge' && !this.structuredMerge.canMerge(operation.destination)) {
+      return 'json-merge destination must be a .json, .yaml or .yml file';
+    }
+
+    if (operation.onConflict !== undefined) {
+      if (!FILE_CREATING_TYPES.includes(operation.type)) {
+        return `onConflict only applies to ${FILE_CREATING_TYPES.join(', ')} operations`;
+      }
+      if (!CONFLICT_POLICIES.includes(operation.onConflict)) {
+        return `onConflict must be one of: ${CONFLICT_POLICIES.join(', ')}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check the syntax of a `when` expression
+   * @returns A description of the problem, or null if it is valid
+   */
+  validateExpression(expression: unknown): string | null {
+    if (typeof expression !== 'string') {
+      return 'must be a string expression, e.g. "ui.theme != null"';
+    }
+    try {
+      this.configExpression.parse(expression);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  /**
+   * Whether a planned write changes an existing file in place (or removes/creates a path)
+   * rather than producing whole-file content
+   */
+  isEdit(write: Pick<PlannedWrite, 'kind' | 'edit'>): boolean {
+    return Boolean(write.edit) || (write.kind !== undefined && write.kind !== 'write');
+  }
+
+  /**
+   * Templates an operation renders, for static checks: its destination path,
+   * and its source template(s) or inline content
+   * @throws If a source template does not exist
+   */
+  templateSources(operation: FileOperation, sourcePath: string): TemplateSource[] {
+    const sources: TemplateSource[] = [];
+    if (typeof operation.destination === 'string') {
+      sources.push({ file: 'destination', template: operation.destination });
+    }
+
+    if (operation.content !== undefined) {
+      sources.push({ file: 'inline content', template: operation.content });
+    } else if (SNIPPET_TYPES.includes(operation.type)) {
+      if (operation.source) {
+        const templatePath = this.resolveSource(sourcePath, operation.source);
+        if (!fs.existsSync(templatePath)) {
+          throw new Error(`Template file does not exist: ${templatePath}`);
+        }
+        sources.push({ file: operation.source, template: fs.readFileSync(templatePath, 'utf-8') });
+      }
+    } else if (operation.type === 'template' && operation.source) {
+      const selection = this.selectSourceFiles(operation, this.resolveSource(sourcePath, operation.source), 'Template file');
+      const templates = selection.single
+        ? [selection.baseDir]
+        : this.matchFiles(selection.baseDir, [operation.templatePattern || '*.hbs'])
+            .filter(file => selection.files.includes(file))
+            .map(file => path.join(selection.baseDir, file));
+      for (const templatePath of templates) {
+        sources.push({ file: path.relative(sourcePath, templatePath), template: fs.readFileSync(templatePath, 'utf-8') });
+      }
+    }
+    return sources;
+  }
+
+  /**
+   * Content a planned write produces
+   */
+  contentOf(write: PlannedWrite): Buffer {
+    return write.sourceFile ? fs.readFileSync(write.sourceFile) : Buffer.from(write.content ?? '', 'utf-8');
+  }
+
+  /**
+   * Whether a destination exists with content different from what the write produces
+   */
+  private hasConflict(write: PlannedWrite): boolean {
+    if (this.isEdit(write) || !fs.existsSync(write.absolutePath) || !fs.statSync(write.absolutePath).isFile()) {
+      return false;
+    }
+    return !fs.readFileSync(write.absolutePath).equals(this.contentOf(write));
+  }
+
+  /**
+   * Apply a write's conflict policy to an existing destination
+   */
+  private resolveConflict(write: PlannedWrite, targetPath: string, onBeforeWrite?: WriteListener): ConflictResolution {
+    switch (write.onConflict) {
+      case 'skip':
+        return { path: write.path, policy: 'skip' };
+
+      case 'overwrite':
+        this.writeFile(write, onBeforeWrite);
+        return { path: write.path, policy: 'overwrite' };
+
+      case 'backup': {
+        const backupPath = this.nextBackupPath(write.absolutePath);
+        onBeforeWrite?.(backupPath);
+        fs.copyFileSync(write.absolutePath, backupPath);
+        this.writeFile(write, onBeforeWrite);
+        return { path: write.path, policy: 'backup', backupPath: path.relative(targetPath, backupPath) };
+      }
+
+      case 'merge': {
+        const merged = this.mergedContent(write);
+        this.writeFile(write, onBeforeWrite, merged);
+        return { path: write.path, policy: 'merge' };
+      }
+
+      default:
+        throw new Error(`Destination already exists (onConflict: ${write.onConflict}): ${write.path}`);
+    }
+  }
+
+  /**
+   * Deep-merge a write's content into its existing JSON/YAML destination
+   */
+  mergedContent(write: PlannedWrite, existing?: string): string {
+    return this.structuredMerge.merge(
+      write.path,
+      existing ?? fs.readFileSync(write.absolutePath, 'utf-8'),
+      this.contentOf(write).toString('utf-8')
+    );
+  }
+
+  /**
+   * First free backup path: file.orig, file.orig.1, file.orig.2, ...
+   */
+  private nextBackupPath(absolutePath: string): string {
+    let candidate = `${absolutePath}.orig`;
+    for (let n = 1; fs.existsSync(candidate); n++) {
+      candidate = `${absolutePath}.orig.${n}`;
+    }
+    return candidate;
+  }
+
+  /**
+   * Write a planned file (or replacement content for it, e.g. a merge result)
+   */
+  private writeFile(write: PlannedWrite, onBeforeWrite?: WriteListener, content?: string): void {
+    this.createDirectory(path.dirname(write.absolutePath), onBeforeWrite);
 
-    // Check source exists
-    if (!fs.existsSync(fullSource)) {
-      throw new Error(`COPY source does not exist: ${fullSource}`);
+    onBeforeWrite?.(write.absolutePath);
+    try {
+      if (content === undefined && write.sourceFile) {
+        fs.copyFileSync(write.sourceFile, write.absolutePath);
+      } else {
+        fs.writeFileSync(write.absolutePath, content ?? write.content ?? '', 'utf-8');
+      }
+    } catch (error) {
+      throw new Error(`Failed to write ${write.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+  }
 
-    // Ensure destination parent directory exists
-    const destDir = path.dirname(fullDest);
-    if (!fs.existsSync(destDir)) {
-      fs.mkdirSync(destDir, { recursive: true });
+  /**
+   * Apply an edit to a file's current content
+   * @returns Whether the file changed
+   */
+  private editFile(write: PlannedWrite, onBeforeWrite?: WriteListener): boolean {
+    const existing = fs.existsSync(write.absolutePath) ? fs.readFileSync(write.absolutePath, 'utf-8') : null;
+
+    let next: string;
+    try {
+      next = write.edit!(existing);
+    } catch (error) {
+      throw new Error(`Failed to edit ${write.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (next === existing) {
+      return false;
+    }
+    this.writeFile(write, onBeforeWrite, next);
+    return true;
+  }
+
+  /**
+   * Delete a planned file, or a directory whose files were deleted before it
+   * @returns Whether anything was deleted
+   */
+  private deletePath(write: PlannedWrite, onBeforeWrite?: WriteListener): boolean {
+    if (!fs.existsSync(write.absolutePath)) {
+      return false;
     }
 
-    // Copy the file/directory
     try {
-      await fse.copy(fullSource, fullDest, { overwrite: false, errorOnExist: false });
-      console.log(`[FileOperations] Copied: ${operation.source} -> ${operation.destination}`);
+      if (fs.statSync(write.absolutePath).isDirectory()) {
+        this.removeDirectory(write.absolutePath, onBeforeWrite);
+      } else {
+        onBeforeWrite?.(write.absolutePath);
+        fs.unlinkSync(write.absolutePath);
+      }
     } catch (error) {
-      throw new Error(`Failed to copy ${operation.source}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to delete ${write.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+    return true;
   }
 
   /**
-   * Execute TEMPLATE operation - generate with variable substitution
+   * Create a planned directory (and any missing parents)
+   * @returns Whether the directory was created
    */
-  private async executeTemplate(
+  private makeDirectory(write: PlannedWrite, onBeforeWrite?: WriteListener): boolean {
+    if (fs.existsSync(write.absolutePath)) {
+      if (!fs.statSync(write.absolutePath).isDirectory()) {
+        throw new Error(`Cannot create directory ${write.path}: a file exists at that path`);
+      }
+      return false;
+    }
+
+    this.createDirectory(write.absolutePath, onBeforeWrite);
+    return true;
+  }
+
+  /**
+   * Create a directory and its missing parents one at a time, outermost
+   * first, so the listener sees every directory created
+   */
+  private createDirectory(dir: string, onBeforeWrite?: WriteListener): void {
+    const missing: string[] = [];
+    for (let current = dir; !fs.existsSync(current); current = path.dirname(current)) {
+      missing.unshift(current);
+    }
+    for (const current of missing) {
+      onBeforeWrite?.(current);
+      fs.mkdirSync(current);
+    }
+  }
+
+  /**
+   * Remove a directory bottom-up, so the listener sees every file and
+   * directory removed (files planned for deletion are usually gone already)
+   */
+  private removeDirectory(dir: string, onBeforeWrite?: WriteListener): void {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        this.removeDirectory(entryPath, onBeforeWrite);
+      } else {
+        onBeforeWrite?.(entryPath);
+        fs.unlinkSync(entryPath);
+      }
+    }
+    onBeforeWrite?.(dir);
+    fs.rmdirSync(dir);
+  }
+
+  /**
+   * Plan COPY operation - preserve exact files from source
+   */
+  private async planCopy(
     operation: FileOperation,
     config: AppConfig,
     sourcePath: string,
-    targetPath: string
-  ): Promise<void> {
+    targetPath: string,
+    engine: TemplateEngine
+  ): Promise<UnresolvedWrite[]> {
     if (!operation.source) {
-      throw new Error('TEMPLATE operation requires source');
+      throw new Error('COPY operation requires source');
+    }
+
+    // Resolve source path (may contain {{sourceReference}} variable)
+    const resolvedSource = this.resolvePath(operation.source, { ...config, sourceReference: sourcePath }, engine);
+    const resolvedDest = this.resolvePath(operation.destination, config, engine);
+
+    // Full paths
+    const fullSource = this.resolveSource(sourcePath, resolvedSource);
+    const fullDest = path.join(targetPath, resolvedDest);
+
+    const selection = this.selectSourceFiles(operation, fullSource, 'COPY source');
+    return selection.files.map(relativeFile => {
+      const absolutePath = path.join(fullDest, this.resolvePath(relativeFile, config, engine));
+      return {
+        path: path.relative(targetPath, absolutePath),
+        absolutePath,
+        sourceFile: selection.single ? selection.baseDir : path.join(selection.baseDir, relativeFile),
+        description: `${operation.source} -> ${operation.destination}`
+      };
+    });
+  }
+
+  /**
+   * Plan TEMPLATE operation - generate with variable substitution
+   */
+  private async planTemplate(
+    operation: FileOperation,
+    config: AppConfig,
+    sourcePath: string,
+    targetPath: string,
+    engine: TemplateEngine
+  ): Promise<UnresolvedWrite[]> {
+    if (!operation.source && operation.content === undefined) {
+      throw new Error('TEMPLATE operation requires source or content');
     }
 
     // Check if this template should iterate over content types
     const shouldIterate = operation.variables?.includes('contentType') && config.contentTypes;
 
     if (shouldIterate && config.contentTypes) {
-      // Generate one file per content type
-      for (const contentType of config.contentTypes) {
-        await this.generateTemplateFile(
-          operation,
-          { ...config, contentType, ContentType: this.capitalize(contentType.name) },
-          sourcePath,
-          targetPath
-        );
-      }
+      // Generate one file (or directory of files) per content type
+      return config.contentTypes.flatMap(contentType => this.planTemplateSource(
+        operation,
+        { ...config, contentType, ContentType: this.capitalize(contentType.name) },
+        sourcePath,
+        targetPath,
+        engine
+      ));
     } else {
-      // Generate single file
-      await this.generateTemplateFile(operation, config, sourcePath, targetPath);
+      return this.planTemplateSource(operation, config, sourcePath, targetPath, engine);
     }
   }
 
   /**
-   * Generate a single template file
+   * Plan a template source: a single template (or inline content) renders to
+   * the destination file; a directory or glob renders its files into the
+   * destination directory
    */
-  private async generateTemplateFile(
+  private planTemplateSource(
     operation: FileOperation,
     config: AppConfig,
     sourcePath: string,
-    targetPath: string
-  ): Promise<void> {
-    if (!operation.source) {
-      throw new Error('TEMPLATE operation requires source');
+    targetPath: string,
+    engine: TemplateEngine
+  ): UnresolvedWrite[] {
+    if (operation.content !== undefined) {
+      return [this.planTemplateFile(operation, config, sourcePath, targetPath, engine)];
     }
-
-    // Read template file
-    const templatePath = path.join(sourcePath, operation.source);
-    if (!fs.existsSync(templatePath)) {
-      throw new Error(`Template file does not exist: ${templatePath}`);
+    const selection = this.selectSourceFiles(operation, this.resolveSource(sourcePath, operation.source!), 'Template file');
+    if (selection.single) {
+      return [this.planTemplateFile(operation, config, sourcePath, targetPath, engine)];
     }
 
-    const template = fs.readFileSync(templatePath, 'utf-8');
+    // Files matching the template pattern are rendered (losing the pattern's
+    // extension, e.g. Button.tsx.hbs -> Button.tsx); the rest are copied verbatim
+    const pattern = operation.templatePattern || '*.hbs';
+    const templates = new Set(this.matchFiles(selection.baseDir, [pattern]));
+    const templateExt = path.extname(pattern);
+    const stripExt = templateExt !== '' && !hasMagic(templateExt) ? templateExt : '';
+    const destDir = this.resolvePath(operation.destination, config, engine);
+
+    return selection.files.map(relativeFile => {
+      const sourceFile = path.join(selection.baseDir, relativeFile);
+      const isTemplate = templates.has(relativeFile);
+      let outputFile = this.resolvePath(relativeFile, config, engine);
+      if (isTemplate && stripExt && outputFile.endsWith(stripExt)) {
+        outputFile = outputFile.slice(0, -stripExt.length);
+      }
+
+      const resolvedDest = path.join(destDir, outputFile);
+      const write: UnresolvedWrite = {
+        path: resolvedDest,
+        absolutePath: path.join(targetPath, resolvedDest),
+        description: `${path.join(path.relative(sourcePath, selection.baseDir), relativeFile)} -> ${resolvedDest}`
+      };
+      if (isTemplate) {
+        write.content = this.ensureFinalNewline(engine.compile(fs.readFileSync(sourceFile, 'utf-8'), config, path.relative(sourcePath, sourceFile)));
+      } else {
+        write.sourceFile = sourceFile;
+      }
+      return write;
+    });
+  }
 
-    // Compile template with config variables
-    const compiled = this.templateEngine.compile(template, config);
+  /**
+   * Render a single template file, or inline content
+   */
+  private planTemplateFile(
+    operation: FileOperation,
+    config: AppConfig,
+    sourcePath: string,
+    targetPath: string,
+    engine: TemplateEngine
+  ): UnresolvedWrite {
+    // Compile the template file or inline content with config variables
+    const compiled = this.renderSnippet(operation, config, sourcePath, engine);
 
     // Resolve destination path (may contain variables)
-    const resolvedDest = this.resolvePath(operation.destination, config);
-    const fullDest = path.join(targetPath, resolvedDest);
+    const resolvedDest = this.resolvePath(operation.destination, config, engine);
+
+    return {
+      path: resolvedDest,
+      absolutePath: path.join(targetPath, resolvedDest),
+      content: compiled,
+      description: `${operation.source || 'inline content'} -> ${resolvedDest}`
+    };
+  }
+
+  /**
+   * Plan GENERATE operation - AI-powered generation
+   *
+   * The planned content is a placeholder; when executed with a client that
+   * supports sampling, the client's model writes the file instead (see
+   * generateContent). Planning never calls the model, so dry runs stay free.
+   */
+  private async planGenerate(
+    operation: FileOperation,
+    config: AppConfig,
+    sourcePath: string,
+    targetPath: string,
+    engine: TemplateEngine,
+    taskFile?: string
+  ): Promise<UnresolvedWrite[]> {
+    const resolvedDest = this.resolvePath(operation.destination, config, engine);
+    const placeholder = `// TODO: AI-generated code for ${resolvedDest}\n// This file needs to be implemented\n`;
+
+    const taskPath = taskFile ? path.join(sourcePath, taskFile) : null;
+    const kits = (operation.kits || []).map(kit => {
+      this.pathSafety.assertSafeName(kit, 'kits entry');
+      const kitPath = path.join(targetPath, '.bluekit', 'kits', kit.endsWith('.md') ? kit : `${kit}.md`);
+      if (!fs.existsSync(kitPath)) {
+        throw new Error(`Kit does not exist: ${kitPath}`);
+      }
+      return { name: kit.replace(/\.md$/, ''), content: fs.readFileSync(kitPath, 'utf-8') };
+    });
+
+    return [{
+      path: resolvedDest,
+      absolutePath: path.join(targetPath, resolvedDest),
+      content: this.ensureFinalNewline(placeholder),
+      generation: {
+        destination: resolvedDest,
+        config,
+        taskMarkdown: taskPath && fs.existsSync(taskPath) ? fs.readFileSync(taskPath, 'utf-8') : undefined,
+        kits
+      },
+      description: `generate -> ${resolvedDest}`
+    }];
+  }
 
-    // Ensure destination parent directory exists
-    const destDir = path.dirname(fullDest);
-    if (!fs.existsSync(destDir)) {
-      fs.mkdirSync(destDir, { recursive: true });
+  /**
+   * Have the client's model write a generated file, keeping the placeholder
+   * when the client does not support sampling
+   */
+  private async generateContent(write: PlannedWrite, result: OperationResult): Promise<void> {
+    if (!write.generation) {
+      return;
     }
 
-    // Write compiled template
-    const finalCompiled = this.ensureFinalNewline(compiled);
-    fs.writeFileSync(fullDest, finalCompiled, 'utf-8');
-    console.log(`[FileOperations] Generated from template: ${operation.source} -> ${resolvedDest}`);
+    if (!this.codeGenerator.isAvailable()) {
+      result.placeholders.push(write.path);
+      console.error(`[FileOperations] Client does not support sampling - wrote a placeholder for ${write.path}`);
+      return;
+    }
+
+    const generated = await this.codeGenerator.generate(write.generation);
+    write.content = this.ensureFinalNewline(generated.content);
+    result.aiGenerated.push({ path: write.path, model: generated.model });
+    console.error(`[FileOperations] AI-generated (${generated.model}): ${write.path}`);
+  }
+
+  /**
+   * Plan APPEND, INSERT-AT-MARKER and JSON-MERGE operations - render a snippet
+   * and edit it into the destination
+   */
+  private planSnippetEdit(
+    operation: FileOperation,
+    config: AppConfig,
+    sourcePath: string,
+    targetPath: string,
+    engine: TemplateEngine
+  ): UnresolvedWrite {
+    const snippet = this.renderSnippet(operation, config, sourcePath, engine);
+    const resolvedDest = this.resolvePath(operation.destination, config, engine);
+    const label = operation.source || 'inline content';
+
+    let edit: FileEdit;
+    switch (operation.type) {
+      case 'append':
+        edit = existing => this.appendSnippet(existing, snippet);
+        break;
+      case 'insert-at-marker':
+        if (!operation.marker) {
+          throw new Error('INSERT-AT-MARKER operation requires marker');
+        }
+        edit = existing => this.insertSnippet(existing, snippet, operation.marker!, operation.position || 'after', resolvedDest);
+        break;
+      default:
+        if (!this.structuredMerge.canMerge(resolvedDest)) {
+          throw new Error(`JSON-MERGE destination must be a .json, .yaml or .yml file: ${resolvedDest}`);
+        }
+        edit = existing => this.structuredMerge.merge(resolvedDest, existing ?? '', snippet);
+    }
+
+    return {
+      path: resolvedDest,
+      absolutePath: path.join(targetPath, resolvedDest),
+      edit,
+      description: `${label} -> ${resolvedDest}`
+    };
   }
 
   /**
-   * Execute GENERATE operation - AI-powered generation
+   * Plan PATCH operation - apply a unified diff to the destination.
+   * The patch file is applied as-is (it is not rendered as a template).
    */
-  private async executeGenerate(
+  private planPatch(
     operation: FileOperation,
     config: AppConfig,
-    targetPath: string
-  ): Promise<void> {
-    // For MVP, log that AI generation is needed
-    // In the future, this could call an AI service to generate code based on patterns
-    console.log(`[FileOperations] GENERATE operation requested for: ${operation.destination}`);
-    console.log(`[FileOperations] AI generation not yet implemented - manual implementation required`);
-
-    // Create a placeholder file
-    const resolvedDest = this.resolvePath(operation.destination, config);
+    sourcePath: string,
+    targetPath: string,
+    engine: TemplateEngine
+  ): UnresolvedWrite {
+    if (!operation.source) {
+      throw new Error('PATCH operation requires source');
+    }
+
+    const patchPath = this.resolveSource(sourcePath, operation.source);
+    if (!fs.existsSync(patchPath)) {
+      throw new Error(`Patch file does not exist: ${patchPath}`);
+    }
+    const patch = fs.readFileSync(patchPath, 'utf-8');
+    const resolvedDest = this.resolvePath(operation.destination, config, engine);
+
+    return {
+      path: resolvedDest,
+      absolutePath: path.join(targetPath, resolvedDest),
+      edit: existing => {
+        if (existing === null) {
+          throw new Error('file to patch does not exist');
+        }
+        return this.textDiff.applyPatch(existing, patch, resolvedDest);
+      },
+      description: `${operation.source} -> ${resolvedDest}`
+    };
+  }
+
+  /**
+   * Plan DELETE operation - a file, or every file under a directory followed
+   * by the directory itself. Missing destinations plan nothing. The target
+   * root and the .bluekit folder (run state, applied manifests) cannot be deleted.
+   */
+  private planDelete(operation: FileOperation, config: AppConfig, targetPath: string, engine: TemplateEngine): UnresolvedWrite[] {
+    const resolvedDest = this.resolvePath(operation.destination, config, engine);
     const fullDest = path.join(targetPath, resolvedDest);
+    const relativeDest = path.relative(targetPath, fullDest);
+    if (relativeDest === '') {
+      throw new Error(`DELETE destination cannot be the target root: ${JSON.stringify(resolvedDest)}`);
+    }
+    if (relativeDest.split(path.sep)[0].toLowerCase() === '.bluekit') {
+      throw new Error(`DELETE destination cannot be inside .bluekit: ${resolvedDest}`);
+    }
+    if (!fs.existsSync(fullDest)) {
+      return [];
+    }
+
+    const writes: UnresolvedWrite[] = this.listFiles(fullDest)
+      .filter(relativeFile => relativeFile !== '')
+      .map(relativeFile => {
+        const absolutePath = path.join(fullDest, relativeFile);
+        return {
+          path: path.relative(targetPath, absolutePath),
+          absolutePath,
+          kind: 'delete' as const,
+          description: `delete ${path.relative(targetPath, absolutePath)}`
+        };
+      });
+    writes.push({ path: resolvedDest, absolutePath: fullDest, kind: 'delete', description: `delete ${resolvedDest}` });
+    return writes;
+  }
+
+  /**
+   * Resolve an operation's source inside the blueprint folder, so a source
+   * cannot read files from elsewhere on disk (absolute or "../" paths)
+   */
+  private resolveSource(sourcePath: string, source: string): string {
+    return this.pathSafety.resolveWithin(sourcePath, source, `Source "${source}"`);
+  }
+
+  /**
+   * Render an operation's source template or inline content
+   */
+  private renderSnippet(operation: FileOperation, config: AppConfig, sourcePath: string, engine: TemplateEngine): string {
+    let template: string;
+    if (operation.content !== undefined) {
+      template = operation.content;
+    } else if (operation.source) {
+      const templatePath = this.resolveSource(sourcePath, operation.source);
+      if (!fs.existsSync(templatePath)) {
+        throw new Error(`Template file does not exist: ${templatePath}`);
+      }
+      template = fs.readFileSync(templatePath, 'utf-8');
+    } else {
+      throw new Error(`${operation.type.toUpperCase()} operation requires source or content`);
+    }
+
+    return this.ensureFinalNewline(engine.compile(template, config, operation.content !== undefined ? 'inline content' : operation.source));
+  }
+
+  /**
+   * Append a snippet unless the file already contains it (creating the file if missing)
+   */
+  private appendSnippet(existing: string | null, snippet: string): string {
+    if (existing === null || existing === '') {
+      return snippet;
+    }
+    if (existing.includes(snippet)) {
+      return existing;
+    }
+    return this.ensureFinalNewline(existing) + snippet;
+  }
+
+  /**
+   * Insert a snippet before or after the first line containing a marker,
+   * unless the file already contains it
+   */
+  private insertSnippet(
+    existing: string | null,
+    snippet: string,
+    marker: string,
+    position: 'before' | 'after',
+    filePath: string
+  ): string {
+    if (existing === null) {
+      throw new Error('file to insert into does not exist');
+    }
+    if (existing.includes(snippet)) {
+      return existing;
+    }
 
-    const destDir = path.dirname(fullDest);
-    if (!fs.existsSync(destDir)) {
-      fs.mkdirSync(destDir, { recursive: true });
+    const lines = existing.match(/[^\n]*\n|[^\n]+$/g) || [];
+    const index = lines.findIndex(line => line.includes(marker));
+    if (index < 0) {
+      throw new Error(`marker "${marker}" not found in ${filePath}`);
     }
 
-    const placeholder = `// TODO: AI-generated code for ${operation.destination}\n// This file needs to be implemented\n`;
-    const finalPlaceholder = this.ensureFinalNewline(placeholder);
-    fs.writeFileSync(fullDest, finalPlaceholder, 'utf-8');
+    if (position === 'before') {
+      lines.splice(index, 0, snippet);
+    } else {
+      lines[index] = this.ensureFinalNewline(lines[index]);
+      lines.splice(index + 1, 0, snippet);
+    }
+    return lines.join('');
   }
 
   /**
    * Resolve a path with variable substitution
    */
-  private resolvePath(pathTemplate: string, variables: Record<string, any>): string {
-    return this.templateEngine.compilePath(pathTemplate, variables);
+  private resolvePath(pathTemplate: string, variables: Record<string, any>, engine: TemplateEngine): string {
+    return engine.compilePath(pathTemplate, variables);
+  }
+
+  /**
+   * Select the files an operation's source refers to. A source containing glob
+   * characters is split into its static base directory and a pattern, unless
+   * it exists literally (e.g. "pages/[id].tsx").
+   * @param label - Names the source in errors, e.g. "COPY source"
+   */
+  private selectSourceFiles(operation: FileOperation, fullSource: string, label: string): SourceSelection {
+    const segments = fullSource.split(path.sep);
+    const firstMagic = fs.existsSync(fullSource) ? -1 : segments.findIndex(segment => hasMagic(segment));
+
+    if (firstMagic < 0) {
+      if (!fs.existsSync(fullSource)) {
+        throw new Error(`${label} does not exist: ${fullSource}`);
+      }
+      if (!fs.statSync(fullSource).isDirectory()) {
+        return { baseDir: fullSource, files: [''], single: true };
+      }
+      return {
+        baseDir: fullSource,
+        files: this.matchFiles(fullSource, operation.include || ['**'], operation.exclude),
+        single: false
+      };
+    }
+
+    const baseDir = segments.slice(0, firstMagic).join(path.sep) || path.sep;
+    let files = this.matchFiles(baseDir, [segments.slice(firstMagic).join('/')], operation.exclude);
+    if (operation.include) {
+      const included = new Set(this.matchFiles(baseDir, operation.include));
+      files = files.filter(file => included.has(file));
+    }
+    if (files.length === 0) {
+      throw new Error(`${label} matched no files: ${fullSource}`);
+    }
+    return { baseDir, files, single: false };
+  }
+
+  /**
+   * Files under a directory matching glob patterns, as sorted relative paths.
+   * Patterns without a slash match file names at any depth (e.g. "*.hbs").
+   */
+  private matchFiles(cwd: string, patterns: string[], exclude?: string[]): string[] {
+    if (!fs.existsSync(cwd)) {
+      return [];
+    }
+    // matchBase does not apply to ignore patterns, so give them the same meaning explicitly
+    const ignore = exclude?.map(pattern => pattern.includes('/') ? pattern : `**/${pattern}`);
+    return globSync(patterns, { cwd, nodir: true, dot: true, matchBase: true, ignore, posix: true }).sort();
+  }
+
+  /**
+   * List files under a path, relative to it ('' when the path is itself a file)
+   */
+  private listFiles(fullPath: string): string[] {
+    if (!fs.statSync(fullPath).isDirectory()) {
+      return [''];
+    }
+
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(fullPath, { withFileTypes: true })) {
+      const entryPath = path.join(fullPath, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...this.listFiles(entryPath).map(file => path.join(entry.name, file)));
+      } else {
+        files.push(entry.name);
+      }
+    }
+    return files;
   }
 
   /**
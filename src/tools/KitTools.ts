@@ -3,10 +3,14 @@ import * as path from 'path';
 import * as yaml from 'js-yaml';
 import { ToolDefinition, ToolHandler } from '../types.js';
 import { BaseToolSet } from './BaseToolSet.js';
+import { PathSafety } from './PathSafety.js';
 
 export class KitTools extends BaseToolSet {
+  private pathSafety: PathSafety;
+
   constructor() {
     super();
+    this.pathSafety = new PathSafety();
   }
 
   protected createToolDefinitions(): ToolDefinition[] {
@@ -143,6 +147,7 @@ Project path: ${projectPath}
     if (!projectPath || typeof projectPath !== 'string') {
       throw new Error('projectPath is required and must be a string');
     }
+    this.pathSafety.assertSafeName(name, 'name');
 
     // Ensure we have an absolute path
     // Always normalize the path to handle any edge cases with path resolution
@@ -159,6 +164,8 @@ Project path: ${projectPath}
     
     const bluekitDir = path.join(resolvedProjectPath, '.bluekit');
     const kitsDir = path.join(bluekitDir, 'kits');
+    const kitPath = path.join(kitsDir, `${name}.md`);
+    this.pathSafety.assertWithin(resolvedProjectPath, kitPath, 'Kit file');
 
     try {
       if (!fs.existsSync(kitsDir)) {
@@ -168,7 +175,6 @@ Project path: ${projectPath}
       // Ensure content has YAML front matter
       const contentWithFrontMatter = this.ensureFinalNewline(this.ensureYamlFrontMatter(content, name));
 
-      const kitPath = path.join(kitsDir, `${name}.md`);
       fs.writeFileSync(kitPath, contentWithFrontMatter, 'utf8');
 
       // Check for empty tags or description and provide warnings
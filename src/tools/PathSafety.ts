@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Symlinks followed before a path is considered a loop
+const MAX_SYMLINK_HOPS = 40;
+
+/**
+ * Central checks for paths built from tool arguments and blueprint content:
+ *
+ * - Names (kit, agent, blueprint IDs, task files...) must be a single path
+ *   segment, so `name: "../../x"` cannot pick where a file is written.
+ * - Writes must stay inside a root: the project or target directory, or one
+ *   of the extra roots listed in BLUEKIT_ALLOWED_ROOTS (separated by ":" on
+ *   POSIX, ";" on Windows).
+ * - Symlinks are resolved, so a link inside the root cannot redirect a
+ *   write outside it.
+ */
+export class PathSafety {
+  private allowedRoots: string[];
+
+  /**
+   * @param allowedRoots - Extra roots writes may go to (default: BLUEKIT_ALLOWED_ROOTS)
+   */
+  constructor(allowedRoots?: string[]) {
+    this.allowedRoots = (allowedRoots ?? (process.env.BLUEKIT_ALLOWED_ROOTS || '').split(path.delimiter))
+      .filter(root => root.trim() !== '')
+      .map(root => path.resolve(root));
+  }
+
+  /**
+   * Check that a name can be used as a single file or folder name
+   * @param label - What the name is, for the error message (e.g. "name", "blueprint.id")
+   */
+  assertSafeName(name: string, label: string): void {
+    if (name === '' || name === '.' || name === '..' || /[/\\]/.test(name) || name.includes('\0')) {
+      throw new Error(`${label} must be a plain name without path separators or "..": ${JSON.stringify(name)}`);
+    }
+  }
+
+  /**
+   * Resolve a path relative to a root, checking that it stays inside
+   * @returns The absolute path
+   */
+  resolveWithin(root: string, relativePath: string, label: string): string {
+    const absolutePath = path.resolve(root, relativePath);
+    this.assertWithin(root, absolutePath, label);
+    return absolutePath;
+  }
+
+  /**
+   * Check that an absolute path is inside a root (or an allowed root), both
+   * as written and once symlinks are resolved
+   * @param label - What the path is, for the error message (e.g. 'Destination "src/x.ts"')
+   */
+  assertWithin(root: string, absolutePath: string, label: string): void {
+    const roots = [path.resolve(root), ...this.allowedRoots];
+    const target = path.resolve(absolutePath);
+
+    if (!roots.some(allowed => this.isInside(allowed, target))) {
+      throw new Error(`${label} is outside ${root}: ${absolutePath}`);
+    }
+
+    const realTarget = this.realPath(target);
+    if (!roots.some(allowed => this.isInside(this.realPath(allowed), realTarget))) {
+      throw new Error(`${label} follows a symlink outside ${root}: ${absolutePath} -> ${realTarget}`);
+    }
+  }
+
+  private isInside(root: string, target: string): boolean {
+    const relative = path.relative(root, target);
+    return relative === '' || (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+  }
+
+  /**
+   * Resolve every symlink in a path that may not exist yet: the deepest
+   * existing ancestor is resolved and the missing rest appended to it.
+   * Dangling symlinks are followed to where they point.
+   */
+  private realPath(target: string): string {
+    const missing: string[] = [];
+    let current = target;
+
+    for (let hops = 0; hops <= MAX_SYMLINK_HOPS;) {
+      try {
+        return path.join(fs.realpathSync(current), ...missing);
+      } catch {
+        const parent = path.dirname(current);
+        if (parent === current) {
+          return target;
+        }
+
+        let link: string | null = null;
+        try {
+          if (fs.lstatSync(current).isSymbolicLink()) {
+            link = fs.readlinkSync(current);
+          }
+        } catch {
+          // Does not exist
+        }
+
+        if (link !== null) {
+          current = path.resolve(parent, link);
+          hops++;
+        } else {
+          missing.unshift(path.basename(current));
+          current = parent;
+        }
+      }
+    }
+    throw new Error(`Too many levels of symbolic links: ${target}`);
+  }
+}
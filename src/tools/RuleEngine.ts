@@ -0,0 +1,254 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { fileURLToPath } from 'url';
+import { BlueprintMetadata, BlueprintLayer, BlueprintTask } from '../types.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export type RuleSeverity = 'error' | 'warning' | 'suggestion';
+
+export interface CapabilityHint {
+  pattern: string;
+  provides?: string;
+  dependsOn?: string;
+}
+
+export interface LayerRule {
+  id: string;
+  severity: RuleSeverity;
+  scope: 'layer' | 'task' | 'chain';
+  field?: 'description' | 'taskFile' | 'both';
+  patterns?: string[];
+  capabilities?: CapabilityHint[];
+  message: string;
+  fix?: string;
+  enabled?: boolean;
+  source?: string;  // Rule pack file the rule was loaded from
+}
+
+export interface RuleFindings {
+  errors: string[];
+  warnings: string[];
+  suggestions: string[];
+}
+
+/**
+ * Data-driven layer analysis rules.
+ *
+ * Rule packs are YAML files loaded in order (later packs override rules with the same id):
+ * 1. Built-in pack: bluekit-rules/default.yaml
+ * 2. User packs: ~/.bluekit/rules/*.yaml
+ * 3. Project packs: {projectPath}/.bluekit/rules/*.yaml
+ */
+export class LayerRuleEngine {
+  private readonly builtinRulesDir: string;
+
+  constructor() {
+    this.builtinRulesDir = path.join(__dirname, '..', '..', 'bluekit-rules');
+  }
+
+  /**
+   * Load all enabled rules visible to a project
+   */
+  loadRules(projectPath?: string): LayerRule[] {
+    const homeDir = process.env.HOME || process.env.USERPROFILE || '~';
+    const ruleDirs = [this.builtinRulesDir, path.join(homeDir, '.bluekit', 'rules')];
+    if (projectPath) {
+      ruleDirs.push(path.join(projectPath, '.bluekit', 'rules'));
+    }
+
+    const rules = new Map<string, LayerRule>();
+    for (const dir of ruleDirs) {
+      for (const rule of this.loadRuleDir(dir)) {
+        rules.set(rule.id, rule);
+      }
+    }
+
+    return Array.from(rules.values()).filter(rule => rule.enabled !== false);
+  }
+
+  /**
+   * Evaluate rules against every layer of a blueprint, skipping rules the blueprint disables
+   */
+  evaluate(blueprint: BlueprintMetadata, rules: LayerRule[]): RuleFindings {
+    const findings: RuleFindings = { errors: [], warnings: [], suggestions: [] };
+    const disabled = new Set(blueprint.disabledRules || []);
+    const activeRules = rules.filter(rule => !disabled.has(rule.id));
+
+    for (const layer of blueprint.layers) {
+      if (!Array.isArray(layer.tasks) || layer.tasks.length === 0) {
+        continue;
+      }
+
+      for (const rule of activeRules) {
+        const details = this.matchRule(rule, layer);
+        if (details === null) {
+          continue;
+        }
+
+        const message = this.formatFinding(rule, layer, details);
+        if (rule.severity === 'error') findings.errors.push(message);
+        else if (rule.severity === 'warning') findings.warnings.push(message);
+        else findings.suggestions.push(message);
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Check one rule against a layer.
+   * Returns extra detail lines when the rule fires, or null when it does not.
+   */
+  private matchRule(rule: LayerRule, layer: BlueprintLayer): string[] | null {
+    const texts = layer.tasks.map(task => this.taskText(task, rule.field));
+
+    switch (rule.scope) {
+      case 'layer': {
+        // Co-occurrence only matters when tasks run in parallel
+        if (layer.tasks.length < 2) return null;
+        const patterns = this.compilePatterns(rule);
+        return patterns.length > 0 && patterns.every(p => texts.some(t => p.test(t))) ? [] : null;
+      }
+      case 'task': {
+        const patterns = this.compilePatterns(rule);
+        const matched = layer.tasks.filter((_, i) => patterns.length > 0 && patterns.every(p => p.test(texts[i])));
+        return matched.length > 0 ? [`Matching tasks: ${matched.map(t => t.taskFile).join(', ')}`] : null;
+      }
+      case 'chain': {
+        if (layer.tasks.length < 2) return null;
+        const provides = new Set<string>();
+        const requires = new Set<string>();
+        for (const text of texts) {
+          for (const hint of rule.capabilities || []) {
+            const pattern = this.compilePattern(rule, hint.pattern);
+            if (pattern && pattern.test(text)) {
+              if (hint.provides) provides.add(hint.provides);
+              if (hint.dependsOn) requires.add(hint.dependsOn);
+            }
+          }
+        }
+        const chain = Array.from(provides).filter(key => requires.has(key));
+        if (chain.length === 0) return null;
+        return [
+          `Detected dependency chain: ${chain.join(', ')}`,
+          `Tasks in this layer:\n` + layer.tasks.map(t => `    - ${t.taskFile}: ${t.description}`).join('\n')
+        ];
+      }
+      default:
+        console.error(`[RuleEngine] Rule "${rule.id}" has unknown scope "${(rule as any).scope}"`);
+        return null;
+    }
+  }
+
+  private formatFinding(rule: LayerRule, layer: BlueprintLayer, details: string[]): string {
+    const [headline, ...rest] = rule.message.trim().split('\n');
+    let message = `Layer ${layer.order} (${layer.name}): ${headline}`;
+    for (const line of [...rest, ...details]) {
+      message += `\n  ${line}`;
+    }
+    if (rule.fix) {
+      message += `\n  FIX: ${rule.fix}`;
+    }
+    return `${message}\n  [rule: ${rule.id}]`;
+  }
+
+  private taskText(task: BlueprintTask, field: LayerRule['field'] = 'description'): string {
+    switch (field) {
+      case 'taskFile':
+        return task.taskFile || '';
+      case 'both':
+        return `${task.taskFile} - ${task.description}`;
+      default:
+        return task.description || '';
+    }
+  }
+
+  private compilePatterns(rule: LayerRule): RegExp[] {
+    return (rule.patterns || [])
+      .map(source => this.compilePattern(rule, source))
+      .filter((p): p is RegExp => p !== null);
+  }
+
+  private compilePattern(rule: LayerRule, source: string): RegExp | null {
+    try {
+      return new RegExp(source, 'i');
+    } catch (error) {
+      console.error(`[RuleEngine] Rule "${rule.id}" has invalid pattern /${source}/:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Load every rule from the YAML files in a directory
+   */
+  private loadRuleDir(dir: string): LayerRule[] {
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+
+    const rules: LayerRule[] = [];
+    const files = fs.readdirSync(dir)
+      .filter(file => file.endsWith('.yaml') || file.endsWith('.yml'))
+      .sort();
+
+    for (const file of files) {
+      const filePath = path.join(dir, file);
+      try {
+        const data = yaml.load(fs.readFileSync(filePath, 'utf8')) as { rules?: unknown } | unknown[] | null;
+        const entries = Array.isArray(data) ? data : (data as { rules?: unknown })?.rules;
+
+        if (!Array.isArray(entries)) {
+          console.error(`[RuleEngine] Skipping ${filePath}: expected a "rules" list`);
+          continue;
+        }
+
+        for (const entry of entries) {
+          const problem = this.validateRule(entry);
+          if (problem) {
+            console.error(`[RuleEngine] Skipping rule in ${filePath}: ${problem}`);
+            continue;
+          }
+          rules.push({ ...(entry as LayerRule), source: filePath });
+        }
+      } catch (error) {
+        console.error(`[RuleEngine] Failed to load rule pack ${filePath}:`, error);
+      }
+    }
+
+    return rules;
+  }
+
+  /**
+   * Return a description of what is wrong with a rule definition, or null if it is valid
+   */
+  private validateRule(entry: unknown): string | null {
+    if (!entry || typeof entry !== 'object') {
+      return 'rule must be an object';
+    }
+
+    const rule = entry as Partial<LayerRule>;
+    if (!rule.id || typeof rule.id !== 'string') {
+      return 'id is required and must be a string';
+    }
+    // A bare { id, enabled: false } entry disables a rule from an earlier pack
+    if (rule.enabled === false) {
+      return null;
+    }
+    if (!['error', 'warning', 'suggestion'].includes(rule.severity as string)) {
+      return `rule "${rule.id}": severity must be error, warning or suggestion`;
+    }
+    if (!['layer', 'task', 'chain'].includes(rule.scope as string)) {
+      return `rule "${rule.id}": scope must be layer, task or chain`;
+    }
+    if (!rule.message || typeof rule.message !== 'string') {
+      return `rule "${rule.id}": message is required and must be a string`;
+    }
+    if (rule.scope === 'chain' ? !Array.isArray(rule.capabilities) : !Array.isArray(rule.patterns)) {
+      return `rule "${rule.id}": ${rule.scope === 'chain' ? 'capabilities' : 'patterns'} must be an array`;
+    }
+    return null;
+  }
+}
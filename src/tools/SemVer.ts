@@ -0,0 +1,94 @@
+export interface ParsedVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];  // e.g. ["beta", "2"] for 1.0.0-beta.2
+}
+
+/**
+ * Version strings: missing minor/patch parts default to 0, so "2" and "2.1"
+ * are valid; build metadata ("+build.5") is ignored
+ */
+export const VERSION_PATTERN = "^v?(\\d+)(?:\\.(\\d+))?(?:\\.(\\d+))?(?:-([0-9A-Za-z-]+(?:\\.[0-9A-Za-z-]+)*))?(?:\\+[0-9A-Za-z.-]+)?$";
+
+const VERSION_REGEX = new RegExp(VERSION_PATTERN);
+
+/**
+ * Parses and orders blueprint versions. Versions are semantic versions
+ * ("1.4.0", "2.0.0-beta.1"); plain numbers, the original version format,
+ * are read as major versions (2 is 2.0.0).
+ */
+export class SemVer {
+  /**
+   * Parse a version
+   * @throws If the version is not a non-negative integer or a semantic version
+   */
+  parse(version: number | string): ParsedVersion {
+    if (typeof version === 'number') {
+      if (!Number.isInteger(version) || version < 0) {
+        throw new Error(`Invalid version ${version}: numeric versions must be non-negative integers`);
+      }
+      return { major: version, minor: 0, patch: 0, prerelease: [] };
+    }
+
+    const match = typeof version === 'string' ? version.match(VERSION_REGEX) : null;
+    if (!match) {
+      throw new Error(`Invalid version ${JSON.stringify(version)}: expected a semantic version like "1.2.0"`);
+    }
+    return {
+      major: parseInt(match[1], 10),
+      minor: parseInt(match[2] || '0', 10),
+      patch: parseInt(match[3] || '0', 10),
+      prerelease: match[4] ? match[4].split('.') : []
+    };
+  }
+
+  isValid(version: unknown): boolean {
+    try {
+      this.parse(version as number | string);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Order two versions following semver precedence
+   * @returns Negative if a < b, 0 if equal, positive if a > b
+   */
+  compare(a: number | string, b: number | string): number {
+    const left = this.parse(a);
+    const right = this.parse(b);
+
+    const core = left.major - right.major || left.minor - right.minor || left.patch - right.patch;
+    if (core !== 0) {
+      return Math.sign(core);
+    }
+
+    // A pre-release sorts before its release: 1.0.0-beta < 1.0.0
+    if (left.prerelease.length === 0 || right.prerelease.length === 0) {
+      return Math.sign(right.prerelease.length - left.prerelease.length);
+    }
+    for (let i = 0; i < Math.max(left.prerelease.length, right.prerelease.length); i++) {
+      const x = left.prerelease[i];
+      const y = right.prerelease[i];
+      if (x === undefined || y === undefined) {
+        return x === undefined ? -1 : 1;
+      }
+      if (x === y) {
+        continue;
+      }
+      const numericX = /^\d+$/.test(x);
+      const numericY = /^\d+$/.test(y);
+      if (numericX && numericY) {
+        return Math.sign(parseInt(x, 10) - parseInt(y, 10));
+      }
+      // Numeric identifiers sort before alphanumeric ones
+      if (numericX !== numericY) {
+        return numericX ? -1 : 1;
+      }
+      return x < y ? -1 : 1;
+    }
+    return 0;
+  }
+}
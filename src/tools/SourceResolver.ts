@@ -1,14 +1,14 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as fse from 'fs-extra';
+import * as crypto from 'crypto';
+import { execFileSync } from 'child_process';
+import { SourceReference } from '../types.js';
+import { PlannedWrite } from './FileOperations.js';
+import { PathSafety } from './PathSafety.js';
 
-interface SourceReference {
-  type: 'local' | 'global' | 'git';
-  path?: string;
-  gitUrl?: string;
-  gitRef?: string;
-  preservePaths?: string[];
-}
+// How long a single git command (clone, fetch, checkout...) may run
+const GIT_TIMEOUT_MS = 5 * 60 * 1000;
 
 interface GlobalRegistryEntry {
   projectPath: string;
@@ -16,6 +16,11 @@ interface GlobalRegistryEntry {
 }
 
 export class SourceResolver {
+  /**
+   * @param gitTimeoutMs - How long a single git command may run before it is stopped
+   */
+  constructor(private pathSafety: PathSafety, private gitTimeoutMs: number = GIT_TIMEOUT_MS) {}
+
   /**
    * Resolve a source reference to an absolute path
    */
@@ -26,10 +31,7 @@ export class SourceResolver {
       case 'global':
         return this.resolveGlobal(ref.path);
       case 'git':
-        if (!targetPath) {
-          throw new Error('targetPath is required for git source references');
-        }
-        return this.resolveGit(ref.gitUrl!, ref.gitRef, targetPath);
+        return this.resolveGit(ref.gitUrl!, ref.gitRef);
       default:
         throw new Error(`Unknown source reference type: ${(ref as any).type}`);
     }
@@ -71,32 +73,100 @@ export class SourceResolver {
   }
 
   /**
-   * Resolve a git repository to a local path (clone if needed)
+   * Resolve a git repository to a local checkout (clone if needed)
+   *
+   * Checkouts are cached under ~/.bluekit/cache/git/ and reused across calls;
+   * a cached checkout is fetched and moved to `gitRef` (or the remote's default
+   * branch) each time it is resolved. Works with any URL git accepts, including
+   * `file://` URLs and local bare repository paths.
    */
-  private async resolveGit(gitUrl: string, gitRef: string | undefined, targetPath: string): Promise<string> {
+  private async resolveGit(gitUrl: string, gitRef?: string): Promise<string> {
     if (!gitUrl) {
       throw new Error('gitUrl is required for git source references');
     }
 
-    // Create a temporary clone directory
-    const cloneDir = path.join(targetPath, '.bluekit', 'tmp', 'git-sources', this.gitUrlToFolderName(gitUrl));
+    const cloneDir = path.join(this.getGitCacheDir(), this.gitUrlToFolderName(gitUrl));
+
+    if (fs.existsSync(path.join(cloneDir, '.git'))) {
+      try {
+        this.git(['fetch', '--tags', '--force', '--prune', 'origin'], cloneDir);
+      } catch (error) {
+        // Offline or unreachable remote - fall back to what is already cached
+        console.error(`[SourceResolver] Failed to fetch ${gitUrl}, using cached checkout:`, error instanceof Error ? error.message : error);
+      }
+    } else {
+      // Clone next to the cache entry first so an interrupted clone never looks like a valid cache
+      const tempDir = `${cloneDir}.tmp-${process.pid}`;
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      fs.mkdirSync(path.dirname(cloneDir), { recursive: true });
+
+      try {
+        this.git(['clone', '--no-checkout', '--', gitUrl, tempDir]);
+      } catch (error) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+        throw new Error(`Failed to clone ${gitUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      fs.rmSync(cloneDir, { recursive: true, force: true });
+      fs.renameSync(tempDir, cloneDir);
+      console.error(`[SourceResolver] Cloned ${gitUrl} into ${cloneDir}`);
+    }
+
+    const commit = this.resolveGitRef(cloneDir, gitRef);
+    this.git(['checkout', '--force', '--detach', commit], cloneDir);
+    this.git(['clean', '-fdx'], cloneDir);
 
-    // If already cloned, just checkout the ref
-    if (fs.existsSync(cloneDir)) {
-      if (gitRef) {
-        // TODO: Implement git checkout for specific ref
-        // For now, just use what's already there
+    return cloneDir;
+  }
+
+  /**
+   * Resolve a branch, tag or commit to a commit hash in a cached clone.
+   * Remote branches win over stale local ones; no ref means the remote's default branch.
+   */
+  private resolveGitRef(cloneDir: string, gitRef?: string): string {
+    const candidates = gitRef
+      ? [`refs/remotes/origin/${gitRef}`, `refs/tags/${gitRef}`, gitRef]
+      : ['refs/remotes/origin/HEAD', 'HEAD'];
+
+    for (const candidate of candidates) {
+      try {
+        return this.git(['rev-parse', '--verify', '--quiet', `${candidate}^{commit}`], cloneDir);
+      } catch {
+        // Try the next candidate
       }
-      return cloneDir;
     }
 
-    // TODO: Implement git clone
-    // For MVP, throw error that git sources are not yet supported
-    throw new Error('Git source references are not yet implemented. Please use local or global sources.');
+    throw new Error(gitRef
+      ? `Git ref "${gitRef}" not found in ${cloneDir}`
+      : `Could not determine the default branch of ${cloneDir}`);
   }
 
   /**
-   * Copy preserved paths from source to target
+   * Run a git command and return its trimmed stdout. Git never prompts for
+   * credentials (there is no terminal to answer it), so a private repository
+   * fails instead of hanging, and a stuck command is stopped after the timeout.
+   */
+  private git(args: string[], cwd?: string): string {
+    try {
+      return execFileSync('git', args, {
+        cwd,
+        stdio: 'pipe',
+        encoding: 'utf-8',
+        timeout: this.gitTimeoutMs,
+        env: { ...process.env, GIT_TERMINAL_PROMPT: '0' }
+      }).trim();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ETIMEDOUT') {
+        throw new Error(`git ${args[0]} timed out after ${this.gitTimeoutMs / 1000}s`);
+      }
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw new Error(stderr || (error instanceof Error ? error.message : `git ${args[0]} failed`));
+    }
+  }
+
+  /**
+   * Copy preserved paths from source to target. Each preserved path must
+   * stay inside both the source and the target.
    */
   async copyPreservedPaths(
     sourcePath: string,
@@ -115,8 +185,8 @@ export class SourceResolver {
 
     // Copy each preserved path
     for (const preservePath of preservePaths) {
-      const source = path.join(sourcePath, preservePath);
-      const dest = path.join(targetPath, preservePath);
+      const source = this.pathSafety.resolveWithin(sourcePath, preservePath, `Preserved path "${preservePath}"`);
+      const dest = this.pathSafety.resolveWithin(targetPath, preservePath, `Preserved path "${preservePath}"`);
 
       // Check if source exists
       if (!fs.existsSync(source)) {
@@ -133,13 +203,70 @@ export class SourceResolver {
       // Copy the file/directory
       try {
         await fse.copy(source, dest, { overwrite: false, errorOnExist: false });
-        console.log(`[SourceResolver] Copied: ${preservePath}`);
+        console.error(`[SourceResolver] Copied: ${preservePath}`);
       } catch (error) {
         throw new Error(`Failed to copy ${preservePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     }
   }
 
+  /**
+   * List the files copyPreservedPaths would copy, without copying them.
+   * Paths are relative to `relativeTo` (defaults to targetPath).
+   */
+  planPreservedPaths(
+    sourcePath: string,
+    targetPath: string,
+    preservePaths: string[],
+    relativeTo: string = targetPath
+  ): PlannedWrite[] {
+    if (!fs.existsSync(sourcePath)) {
+      throw new Error(`Source path does not exist: ${sourcePath}`);
+    }
+
+    const writes: PlannedWrite[] = [];
+    for (const preservePath of preservePaths) {
+      const source = this.pathSafety.resolveWithin(sourcePath, preservePath, `Preserved path "${preservePath}"`);
+      const dest = this.pathSafety.resolveWithin(targetPath, preservePath, `Preserved path "${preservePath}"`);
+      if (!fs.existsSync(source)) {
+        console.warn(`[SourceResolver] Warning: Preserved path does not exist: ${source}`);
+        continue;
+      }
+
+      for (const file of this.listFiles(source)) {
+        const absolutePath = path.join(dest, file);
+        writes.push({
+          path: path.relative(relativeTo, absolutePath),
+          absolutePath,
+          sourceFile: path.join(source, file),
+          onConflict: 'skip',
+          description: `preserve ${preservePath}`
+        });
+      }
+    }
+    return writes;
+  }
+
+  /**
+   * List files under a path, relative to it ('' when the path is itself a file)
+   */
+  private listFiles(fullPath: string): string[] {
+    if (!fs.statSync(fullPath).isDirectory()) {
+      return [''];
+    }
+
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(fullPath, { withFileTypes: true })) {
+      const entryPath = path.join(fullPath, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...this.listFiles(entryPath).map(file => path.join(entry.name, file)));
+      } else {
+        files.push(entry.name);
+      }
+    }
+    return files;
+  }
+
   /**
    * Read the global blueprint registry
    */
@@ -168,12 +295,26 @@ export class SourceResolver {
   }
 
   /**
-   * Convert git URL to a safe folder name
+   * Get the shared cache directory for git source checkouts
+   */
+  private getGitCacheDir(): string {
+    const homeDir = process.env.HOME || process.env.USERPROFILE || '~';
+    return path.join(homeDir, '.bluekit', 'cache', 'git');
+  }
+
+  /**
+   * Convert git URL to a safe folder name: a readable slug of the URL plus a
+   * hash of all of it, so URLs that slug the same get their own checkouts
    */
   private gitUrlToFolderName(gitUrl: string): string {
-    return gitUrl
-      .replace(/^https?:\/\//, '')
+    const slug = gitUrl
+      .replace(/^[a-z][a-z0-9+.-]*:\/\//i, '')
+      .replace(/\/+$/, '')
       .replace(/\.git$/, '')
-      .replace(/[^a-zA-Z0-9]/g, '-');
+      .replace(/[^a-zA-Z0-9]/g, '-')
+      .replace(/^-+/, '')
+      .slice(-64);
+    const hash = crypto.createHash('sha256').update(gitUrl).digest('hex').slice(0, 16);
+    return `${slug}-${hash}`;
   }
 }
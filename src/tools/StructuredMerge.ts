@@ -0,0 +1,100 @@
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+
+/**
+ * Deep-merges JSON and YAML documents (e.g., adding dependencies to an
+ * existing package.json without touching the rest of the file)
+ *
+ * - Objects are merged key by key, recursively
+ * - Arrays are unioned: incoming items not already present are appended
+ * - Any other incoming value replaces the existing one
+ */
+export class StructuredMerge {
+  /**
+   * Whether a file can be merged, judged by its extension
+   */
+  canMerge(filePath: string): boolean {
+    return this.formatOf(filePath) !== null;
+  }
+
+  /**
+   * Merge incoming file content into existing file content
+   */
+  merge(filePath: string, existing: string, incoming: string): string {
+    const format = this.formatOf(filePath);
+    if (!format) {
+      throw new Error(`Cannot merge ${filePath}: only .json, .yaml and .yml files can be merged`);
+    }
+
+    const existingValue = this.parse(filePath, format, existing, 'existing file');
+    const incomingValue = this.parse(filePath, format, incoming, 'new content');
+    const merged = this.deepMerge(existingValue, incomingValue);
+
+    if (format === 'json') {
+      return JSON.stringify(merged, null, this.detectIndent(existing)) + '\n';
+    }
+    return yaml.dump(merged, { lineWidth: -1, noRefs: true });
+  }
+
+  /**
+   * Deep-merge two parsed values, with `incoming` taking precedence
+   */
+  deepMerge(existing: unknown, incoming: unknown): unknown {
+    if (Array.isArray(existing) && Array.isArray(incoming)) {
+      const merged = [...existing];
+      for (const item of incoming) {
+        if (!merged.some(candidate => this.isEqual(candidate, item))) {
+          merged.push(item);
+        }
+      }
+      return merged;
+    }
+
+    if (this.isPlainObject(existing) && this.isPlainObject(incoming)) {
+      const merged: Record<string, unknown> = { ...existing };
+      for (const [key, value] of Object.entries(incoming)) {
+        merged[key] = key in existing ? this.deepMerge(existing[key], value) : value;
+      }
+      return merged;
+    }
+
+    return incoming === undefined ? existing : incoming;
+  }
+
+  private parse(filePath: string, format: 'json' | 'yaml', content: string, label: string): unknown {
+    try {
+      if (format === 'json') {
+        return content.trim() === '' ? {} : JSON.parse(content);
+      }
+      return yaml.load(content) ?? {};
+    } catch (error) {
+      throw new Error(
+        `Cannot merge ${filePath}: ${label} is not valid ${format.toUpperCase()} ` +
+        `(${error instanceof Error ? error.message : 'Unknown error'})`
+      );
+    }
+  }
+
+  private formatOf(filePath: string): 'json' | 'yaml' | null {
+    const ext = path.extname(filePath).toLowerCase();
+    if (ext === '.json') return 'json';
+    if (ext === '.yaml' || ext === '.yml') return 'yaml';
+    return null;
+  }
+
+  /**
+   * Reuse the existing file's indentation so merges don't reformat it
+   */
+  private detectIndent(json: string): string | number {
+    const match = json.match(/^[{[]\s*\n([ \t]+)\S/);
+    return match ? match[1] : 2;
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+}
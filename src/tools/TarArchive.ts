@@ -0,0 +1,179 @@
+import * as zlib from 'zlib';
+
+export interface TarEntry {
+  path: string;     // POSIX path inside the archive
+  content: Buffer;
+}
+
+const BLOCK_SIZE = 512;
+
+// Largest file a ustar header can describe (11 octal digits)
+const MAX_FILE_SIZE = 0o77777777777;
+
+/**
+ * Reads and writes gzip-compressed tar archives (POSIX ustar) holding
+ * regular files only - enough for blueprint bundles without an archive
+ * dependency.
+ *
+ * Paths longer than the 100-byte ustar name field are split into the
+ * prefix field, or written with a PAX extended header. Reading also
+ * understands GNU long names; directories, links and other entry types are
+ * skipped.
+ */
+export class TarArchive {
+  /**
+   * Create a .tar.gz archive
+   */
+  pack(entries: TarEntry[]): Buffer {
+    const blocks: Buffer[] = [];
+    const mtime = Math.floor(Date.now() / 1000);
+
+    for (const entry of entries) {
+      if (entry.content.length > MAX_FILE_SIZE) {
+        throw new Error(`${entry.path} is too large for a tar archive`);
+      }
+
+      const split = this.splitPath(entry.path);
+      if (!split) {
+        // PAX record: "<length> path=<value>\n", where length counts the whole record
+        const body = ` path=${entry.path}\n`;
+        let length = Buffer.byteLength(body) + 1;
+        while (String(length).length + Buffer.byteLength(body) !== length) {
+          length++;
+        }
+        const record = Buffer.from(`${length}${body}`, 'utf-8');
+        blocks.push(this.header({ name: 'PaxHeader', size: record.length, type: 'x', mtime }), this.pad(record));
+      }
+
+      const { name, prefix } = split || { name: entry.path.slice(-100).replace(/^[^/]*\//, ''), prefix: '' };
+      blocks.push(this.header({ name, prefix, size: entry.content.length, type: '0', mtime }), this.pad(entry.content));
+    }
+
+    // End of archive: two zero blocks
+    blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+    return zlib.gzipSync(Buffer.concat(blocks));
+  }
+
+  /**
+   * Read the files of a .tar.gz (or uncompressed .tar) archive
+   * @throws If the archive is truncated or a header checksum does not match
+   */
+  unpack(archive: Buffer): TarEntry[] {
+    const tar = archive[0] === 0x1f && archive[1] === 0x8b ? zlib.gunzipSync(archive) : archive;
+    const entries: TarEntry[] = [];
+    let longPath: string | null = null;
+
+    for (let offset = 0; offset + BLOCK_SIZE <= tar.length;) {
+      const header = tar.subarray(offset, offset + BLOCK_SIZE);
+      if (header.every(byte => byte === 0)) {
+        break;
+      }
+      this.verifyChecksum(header, offset);
+
+      const size = this.readOctal(header, 124, 12);
+      const type = String.fromCharCode(header[156] || 0x30);
+      const dataStart = offset + BLOCK_SIZE;
+      if (dataStart + size > tar.length) {
+        throw new Error('Archive is truncated');
+      }
+      const data = tar.subarray(dataStart, dataStart + size);
+      offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+      if (type === 'x') {
+        longPath = this.readPaxPath(data) ?? longPath;
+        continue;
+      }
+      if (type === 'L') {
+        longPath = data.toString('utf-8').replace(/\0+$/, '');
+        continue;
+      }
+      if (type !== '0' && type !== '7') {
+        longPath = null;
+        continue;
+      }
+
+      const name = this.readString(header, 0, 100);
+      const prefix = header.subarray(257, 263).toString('latin1').startsWith('ustar') ? this.readString(header, 345, 155) : '';
+      entries.push({ path: longPath ?? (prefix ? `${prefix}/${name}` : name), content: Buffer.from(data) });
+      longPath = null;
+    }
+
+    return entries;
+  }
+
+  private header(fields: { name: string; prefix?: string; size: number; type: string; mtime: number }): Buffer {
+    const header = Buffer.alloc(BLOCK_SIZE);
+    header.write(fields.name, 0, 100, 'utf-8');
+    header.write('0000644\0', 100, 8, 'latin1');                  // mode
+    header.write('0000000\0', 108, 8, 'latin1');                  // uid
+    header.write('0000000\0', 116, 8, 'latin1');                  // gid
+    header.write(`${fields.size.toString(8).padStart(11, '0')}\0`, 124, 12, 'latin1');
+    header.write(`${fields.mtime.toString(8).padStart(11, '0')}\0`, 136, 12, 'latin1');
+    header.write(fields.type, 156, 1, 'latin1');
+    header.write('ustar\0', 257, 6, 'latin1');
+    header.write('00', 263, 2, 'latin1');
+    header.write(fields.prefix || '', 345, 155, 'utf-8');
+
+    // The checksum is computed with its own field set to spaces
+    header.fill(0x20, 148, 156);
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8, 'latin1');
+    return header;
+  }
+
+  /**
+   * Split a path into ustar name (100 bytes) and prefix (155 bytes) fields
+   * @returns null when the path does not fit
+   */
+  private splitPath(filePath: string): { name: string; prefix: string } | null {
+    if (Buffer.byteLength(filePath) <= 100) {
+      return { name: filePath, prefix: '' };
+    }
+    for (let index = filePath.indexOf('/'); index !== -1; index = filePath.indexOf('/', index + 1)) {
+      const prefix = filePath.slice(0, index);
+      const name = filePath.slice(index + 1);
+      if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100 && name !== '') {
+        return { name, prefix };
+      }
+    }
+    return null;
+  }
+
+  private pad(data: Buffer): Buffer {
+    const remainder = data.length % BLOCK_SIZE;
+    return remainder === 0 ? data : Buffer.concat([data, Buffer.alloc(BLOCK_SIZE - remainder)]);
+  }
+
+  private verifyChecksum(header: Buffer, offset: number): void {
+    const expected = this.readOctal(header, 148, 8);
+    let actual = 0;
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+      actual += i >= 148 && i < 156 ? 0x20 : header[i];
+    }
+    if (actual !== expected) {
+      throw new Error(`Invalid tar header at byte ${offset} (checksum mismatch)`);
+    }
+  }
+
+  private readPaxPath(data: Buffer): string | undefined {
+    let path: string | undefined;
+    for (const record of data.toString('utf-8').split('\n')) {
+      const match = record.match(/^\d+ path=(.*)$/);
+      if (match) {
+        path = match[1];
+      }
+    }
+    return path;
+  }
+
+  private readString(header: Buffer, start: number, length: number): string {
+    const field = header.subarray(start, start + length);
+    const end = field.indexOf(0);
+    return field.subarray(0, end === -1 ? length : end).toString('utf-8');
+  }
+
+  private readOctal(header: Buffer, start: number, length: number): number {
+    const value = this.readString(header, start, length).trim();
+    return value === '' ? 0 : parseInt(value, 8);
+  }
+}
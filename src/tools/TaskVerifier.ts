@@ -0,0 +1,340 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn, ChildProcess } from 'child_process';
+import * as yaml from 'js-yaml';
+import { BlueprintMetadata, TaskCheck, TaskCheckType } from '../types.js';
+import { TemplateEngine } from './TemplateEngine.js';
+import { ConfigPath } from './ConfigPath.js';
+import { ConfigExpression } from './ConfigExpression.js';
+import { PathSafety } from './PathSafety.js';
+
+export const TASK_CHECK_TYPES: TaskCheckType[] = ['file-exists', 'file-contains', 'json-path', 'command'];
+
+// Milliseconds a command check may run before it is stopped
+const DEFAULT_COMMAND_TIMEOUT = 60000;
+
+// Lines of command output kept in a failed check's message
+const MAX_OUTPUT_LINES = 20;
+
+// Characters of command output kept while it runs (the tail is what gets reported)
+const MAX_OUTPUT_LENGTH = 64 * 1024;
+
+export interface CheckResult {
+  label: string;   // The check's description, or e.g. "file-contains src/App.tsx /Router/"
+  status: 'passed' | 'failed' | 'skipped';
+  message?: string;  // Why the check failed or was skipped
+}
+
+export interface TaskVerification {
+  id: string;
+  taskFile: string;
+  status: 'passed' | 'failed' | 'unchecked' | 'skipped';  // unchecked: the task declares no checks, or none of them ran
+  skipReason?: string;
+  error?: string;  // Why the task failed before its checks ran (its `when` could not be evaluated)
+  checks: CheckResult[];
+}
+
+export interface LayerVerification {
+  id: string;
+  order: number;
+  name: string;
+  status: 'passed' | 'failed' | 'unchecked' | 'skipped';
+  skipReason?: string;
+  error?: string;  // Why the layer failed before its tasks were verified
+  tasks: TaskVerification[];
+}
+
+export interface VerificationResult {
+  layers: LayerVerification[];
+  passed: boolean;  // No check failed
+}
+
+export interface VerifyOptions {
+  layerId?: string;        // Only verify this layer
+  runCommands?: boolean;   // Run command checks (default: false - they run shell commands the blueprint declares)
+}
+
+/**
+ * Runs the acceptance checks tasks declare against a target project, to tell
+ * whether a task (or a whole layer) was actually completed - by its file
+ * operations or by an agent following the task file.
+ *
+ * Tasks and layers whose `when` is false for the config are skipped, like
+ * they are when the blueprint executes; a `when` that cannot be evaluated
+ * fails them. Command checks only run when the
+ * caller opts in, since blueprints can be imported from anywhere.
+ */
+export class TaskVerifier {
+  constructor(
+    private templateEngine: TemplateEngine,
+    private configPath: ConfigPath,
+    private configExpression: ConfigExpression,
+    private pathSafety: PathSafety
+  ) {}
+
+  /**
+   * Check that a task check is well-formed
+   * @returns A description of the first problem found, or null if it is valid
+   */
+  validate(check: TaskCheck): string | null {
+    if (!check || typeof check !== 'object') {
+      return 'must be an object';
+    }
+    if (!TASK_CHECK_TYPES.includes(check.type)) {
+      return `unknown type "${check.type}" (expected one of: ${TASK_CHECK_TYPES.join(', ')})`;
+    }
+    if (check.description !== undefined && typeof check.description !== 'string') {
+      return 'description must be a string';
+    }
+
+    if (check.type === 'command') {
+      if (!check.command || typeof check.command !== 'string') {
+        return 'command requires command (a string)';
+      }
+      if (check.timeout !== undefined && (typeof check.timeout !== 'number' || check.timeout <= 0)) {
+        return 'timeout must be a positive number of milliseconds';
+      }
+      return null;
+    }
+
+    if (!check.path || typeof check.path !== 'string') {
+      return `${check.type} requires path (a string)`;
+    }
+    if (check.type === 'file-contains') {
+      if (!check.pattern || typeof check.pattern !== 'string') {
+        return 'file-contains requires pattern (a regular expression)';
+      }
+      try {
+        new RegExp(check.pattern, 'm');
+      } catch (error) {
+        return `pattern: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+    }
+    if (check.type === 'json-path') {
+      if (!check.jsonPath || typeof check.jsonPath !== 'string') {
+        return 'json-path requires jsonPath (a string)';
+      }
+      try {
+        this.configPath.parse(check.jsonPath);
+      } catch (error) {
+        return `jsonPath: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Run the checks of every task (or one layer's tasks) against a target
+   * @param config - Config the blueprint was (or will be) applied with, for `when` and check paths
+   */
+  async verify(
+    blueprint: BlueprintMetadata,
+    blueprintFolder: string,
+    targetPath: string,
+    config: Record<string, any>,
+    options: VerifyOptions = {}
+  ): Promise<VerificationResult> {
+    const layers = [...blueprint.layers]
+      .sort((a, b) => a.order - b.order)
+      .filter(layer => !options.layerId || layer.id === options.layerId);
+    if (options.layerId && layers.length === 0) {
+      throw new Error(`Layer "${options.layerId}" not found in blueprint "${blueprint.id}"`);
+    }
+
+    const engine = this.templateEngine.forBlueprint(blueprintFolder, { helperPacks: blueprint.helperPacks });
+    const result: VerificationResult = { layers: [], passed: true };
+
+    for (const layer of layers) {
+      const layerWhen = this.evaluateWhen(layer.when, config);
+      const verified: LayerVerification = {
+        id: layer.id,
+        order: layer.order,
+        name: layer.name,
+        status: layerWhen.error ? 'failed' : 'skipped',
+        skipReason: layerWhen.skipReason,
+        error: layerWhen.error,
+        tasks: []
+      };
+
+      for (const task of layerWhen.error ? [] : layer.tasks) {
+        const { skipReason, error } = layerWhen.skipReason ? layerWhen : this.evaluateWhen(task.when, config);
+        const checks = task.checks || [];
+        const taskResult: TaskVerification = {
+          id: task.id,
+          taskFile: task.taskFile,
+          status: error ? 'failed' : skipReason ? 'skipped' : checks.length === 0 ? 'unchecked' : 'passed',
+          skipReason,
+          error,
+          checks: []
+        };
+
+        if (!skipReason && !error) {
+          for (const check of checks) {
+            const checked = await this.runCheck(check, engine, targetPath, config, options.runCommands ?? false);
+            taskResult.checks.push(checked);
+            if (checked.status === 'failed') {
+              taskResult.status = 'failed';
+            }
+          }
+          if (checks.length > 0 && taskResult.checks.every(check => check.status === 'skipped')) {
+            taskResult.status = 'unchecked';
+          }
+        }
+        verified.tasks.push(taskResult);
+      }
+
+      if (!layerWhen.skipReason && !layerWhen.error) {
+        const statuses = verified.tasks.map(task => task.status);
+        verified.status = statuses.includes('failed') ? 'failed'
+          : statuses.includes('passed') ? 'passed'
+          : 'unchecked';
+      }
+      if (verified.status === 'failed') {
+        result.passed = false;
+      }
+      result.layers.push(verified);
+    }
+
+    return result;
+  }
+
+  private async runCheck(
+    check: TaskCheck,
+    engine: TemplateEngine,
+    targetPath: string,
+    config: Record<string, any>,
+    runCommands: boolean
+  ): Promise<CheckResult> {
+    let label = check.description || `${check.type} ${check.type === 'command' ? check.command : check.path}`;
+
+    try {
+      if (check.type === 'command') {
+        if (!runCommands) {
+          return { label, status: 'skipped', message: 'command checks are disabled (pass runCommands: true to run them)' };
+        }
+        return { label, ...await this.runCommand(check.command!, targetPath, check.timeout ?? DEFAULT_COMMAND_TIMEOUT) };
+      }
+
+      const relativePath = engine.compile(check.path!, config, 'check path');
+      if (!check.description) {
+        label = `${check.type} ${relativePath}`;
+      }
+      const filePath = this.pathSafety.resolveWithin(targetPath, relativePath, `Check path "${relativePath}"`);
+      if (!fs.existsSync(filePath)) {
+        return { label, status: 'failed', message: `${relativePath} does not exist` };
+      }
+
+      if (check.type === 'file-contains') {
+        if (!check.description) {
+          label += ` /${check.pattern}/`;
+        }
+        const content = fs.readFileSync(filePath, 'utf-8');
+        return new RegExp(check.pattern!, 'm').test(content)
+          ? { label, status: 'passed' }
+          : { label, status: 'failed', message: `${relativePath} does not match /${check.pattern}/` };
+      }
+
+      if (check.type === 'json-path') {
+        if (!check.description) {
+          label += ` ${check.jsonPath}${check.equals !== undefined ? ` = ${JSON.stringify(check.equals)}` : ''}`;
+        }
+        return { label, ...this.checkJsonPath(check, filePath, relativePath) };
+      }
+
+      return { label, status: 'passed' };
+    } catch (error) {
+      return { label, status: 'failed', message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  private checkJsonPath(check: TaskCheck, filePath: string, relativePath: string): Omit<CheckResult, 'label'> {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    let document: unknown;
+    try {
+      document = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : yaml.load(content);
+    } catch (error) {
+      return { status: 'failed', message: `${relativePath} is not valid JSON/YAML (${error instanceof Error ? error.message : 'Unknown error'})` };
+    }
+
+    const values = this.configPath.values(document, check.jsonPath!).filter(value => value !== null && value !== undefined);
+    if (values.length === 0) {
+      return { status: 'failed', message: `${check.jsonPath} is not set in ${relativePath}` };
+    }
+    if (check.equals !== undefined && !values.every(value => JSON.stringify(value) === JSON.stringify(check.equals))) {
+      const actual = values.length === 1 ? JSON.stringify(values[0]) : JSON.stringify(values);
+      return { status: 'failed', message: `${check.jsonPath} is ${actual} in ${relativePath}, expected ${JSON.stringify(check.equals)}` };
+    }
+    return { status: 'passed' };
+  }
+
+  /**
+   * Run a shell command in the target directory; it passes when it exits 0.
+   * The command gets its own process group, so neither a timeout nor a
+   * background process it started leaves anything running.
+   */
+  private runCommand(command: string, cwd: string, timeout: number): Promise<Omit<CheckResult, 'label'>> {
+    return new Promise(resolve => {
+      let output = '';
+      let timedOut = false;
+      const child = spawn(command, { cwd, shell: true, detached: true, stdio: ['ignore', 'pipe', 'pipe'] });
+      const collect = (chunk: Buffer) => {
+        output = (output + chunk.toString('utf-8')).slice(-MAX_OUTPUT_LENGTH);
+      };
+      child.stdout?.on('data', collect);
+      child.stderr?.on('data', collect);
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        this.killProcessGroup(child);
+      }, timeout);
+
+      child.on('error', error => {
+        clearTimeout(timer);
+        resolve({ status: 'failed', message: error instanceof Error ? error.message : 'Unknown error' });
+      });
+      child.on('exit', () => this.killProcessGroup(child));
+      child.on('close', (code, signal) => {
+        clearTimeout(timer);
+        if (code === 0 && !timedOut) {
+          resolve({ status: 'passed' });
+          return;
+        }
+        const reason = timedOut ? `timed out after ${timeout}ms`
+          : code !== null ? `exited with code ${code}`
+          : `stopped by ${signal}`;
+        const lines = output.trim().split('\n').slice(-MAX_OUTPUT_LINES).join('\n');
+        resolve({ status: 'failed', message: lines ? `${reason}:\n${lines}` : reason });
+      });
+    });
+  }
+
+  /**
+   * Stop a command and every process it started
+   */
+  private killProcessGroup(child: ChildProcess): void {
+    if (child.pid === undefined) {
+      return;
+    }
+    try {
+      process.kill(-child.pid, 'SIGKILL');
+    } catch {
+      // The group is already gone (or process groups are not supported) - stop the shell itself
+      child.kill('SIGKILL');
+    }
+  }
+
+  /**
+   * Evaluate a layer's or task's `when` for a config
+   * @returns Why it is skipped, or why it fails when the expression cannot be evaluated (neither if it runs)
+   */
+  private evaluateWhen(when: string | undefined, config: Record<string, any>): { skipReason?: string; error?: string } {
+    if (!when) {
+      return {};
+    }
+    try {
+      return this.configExpression.test(when, config) ? {} : { skipReason: `when "${when}" is false` };
+    } catch (error) {
+      return { error: `when "${when}" could not be evaluated: ${error instanceof Error ? error.message : 'Unknown error'}` };
+    }
+  }
+}
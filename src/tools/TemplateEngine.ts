@@ -1,14 +1,156 @@
 import Handlebars from 'handlebars';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { globSync } from 'glob';
+
+// Handlebars passes an options object as the last helper argument; optional
+// arguments that were not given show up as that object
+const given = (value: unknown): boolean => value !== undefined && !(typeof value === 'object' && value !== null && 'hash' in value);
+
+/**
+ * Helper packs a blueprint can enable with `helperPacks`, by name
+ */
+const HELPER_PACKS: Record<string, Record<string, Handlebars.HelperDelegate>> = {
+  // {{formatDate createdAt "YYYY-MM-DD"}} (UTC; "now" for the current time), {{now}}, {{year}}
+  date: {
+    formatDate: (date: unknown, format: unknown) => {
+      const value = date === 'now' || !given(date) ? new Date() : new Date(date as string | number);
+      if (isNaN(value.getTime())) return '';
+      const pad = (n: number) => String(n).padStart(2, '0');
+      const tokens: Record<string, string> = {
+        YYYY: String(value.getUTCFullYear()),
+        MM: pad(value.getUTCMonth() + 1),
+        DD: pad(value.getUTCDate()),
+        HH: pad(value.getUTCHours()),
+        mm: pad(value.getUTCMinutes()),
+        ss: pad(value.getUTCSeconds())
+      };
+      return (given(format) ? String(format) : 'YYYY-MM-DD').replace(/YYYY|MM|DD|HH|mm|ss/g, token => tokens[token]);
+    },
+    now: () => new Date().toISOString(),
+    year: () => new Date().getUTCFullYear()
+  },
+
+  // {{uuid}}
+  uuid: {
+    uuid: () => crypto.randomUUID()
+  },
+
+  // {{slug title}}, {{indent 4 text}} or {{#indent 4}}...{{/indent}}, {{join items ", "}},
+  // {{default value "fallback"}}, {{padStart n 3 "0"}}, {{padEnd name 10}}
+  string: {
+    slug: (str: unknown) => String(str ?? '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, ''),
+    indent: function (this: unknown, count: unknown, text: unknown, options?: Handlebars.HelperOptions) {
+      const block = given(text) ? String(text) : (text as Handlebars.HelperOptions).fn(this);
+      const prefix = ' '.repeat(Number(count) || 0);
+      return block.replace(/^(?=.)/gm, prefix);
+    },
+    join: (items: unknown, separator: unknown) =>
+      Array.isArray(items) ? items.join(given(separator) ? String(separator) : ', ') : '',
+    default: (value: unknown, fallback: unknown) =>
+      value === undefined || value === null || value === '' ? fallback : value,
+    padStart: (str: unknown, length: unknown, fill: unknown) =>
+      String(str ?? '').padStart(Number(length) || 0, given(fill) ? String(fill) : ' '),
+    padEnd: (str: unknown, length: unknown, fill: unknown) =>
+      String(str ?? '').padEnd(Number(length) || 0, given(fill) ? String(fill) : ' ')
+  },
+
+  // {{add a b}}, {{subtract a b}}, {{multiply a b}}, {{divide a b}}, {{mod a b}},
+  // {{round n 2}}, {{floor n}}, {{ceil n}}, {{min a b}}, {{max a b}}
+  math: {
+    add: (a: unknown, b: unknown) => Number(a) + Number(b),
+    subtract: (a: unknown, b: unknown) => Number(a) - Number(b),
+    multiply: (a: unknown, b: unknown) => Number(a) * Number(b),
+    divide: (a: unknown, b: unknown) => Number(a) / Number(b),
+    mod: (a: unknown, b: unknown) => Number(a) % Number(b),
+    round: (n: unknown, decimals: unknown) => {
+      const factor = 10 ** (given(decimals) ? Number(decimals) : 0);
+      return Math.round(Number(n) * factor) / factor;
+    },
+    floor: (n: unknown) => Math.floor(Number(n)),
+    ceil: (n: unknown) => Math.ceil(Number(n)),
+    min: (a: unknown, b: unknown) => Math.min(Number(a), Number(b)),
+    max: (a: unknown, b: unknown) => Math.max(Number(a), Number(b))
+  }
+};
+
+export const HELPER_PACK_NAMES = Object.keys(HELPER_PACKS);
+
+export interface TemplateOptions {
+  helperPacks?: string[];  // Helper packs to register on top of the built-in helpers
+  strict?: boolean;        // Fail on references to undefined variables instead of rendering ""
+}
+
+/**
+ * A config variable referenced by a template
+ */
+export interface TemplateReference {
+  path: string;      // Config path, with [] for array items (e.g. "contentTypes[].name")
+  line: number;
+  column: number;    // 1-based
+  partial?: string;  // Partial the reference is in, when it is not in the template itself
+}
+
+// Variables in scope while walking a template: the context stack (null when
+// unknown, e.g. inside a custom block helper's block params) and block params
+interface ReferenceScope {
+  contexts: Array<string | null>;
+  locals: Record<string, string | null>;
+}
 
 /**
  * Template engine for generating files with variable substitution
  */
 export class TemplateEngine {
   private handlebars: typeof Handlebars;
+  private strict: boolean;
+  private partialSources = new Map<string, string>();
+  private layouts = new Map<string, HandlebarsTemplateDelegate>();
+  private blueprintEngines = new Map<string, { signature: string; engine: TemplateEngine }>();
 
-  constructor() {
+  constructor(options: TemplateOptions = {}) {
     this.handlebars = Handlebars.create();
+    this.strict = Boolean(options.strict);
     this.registerHelpers();
+    this.registerLayoutHelpers();
+    for (const pack of options.helperPacks || []) {
+      this.registerHelperPack(pack);
+    }
+  }
+
+  /**
+   * Get the engine for a blueprint's templates: every file in its partials/
+   * folder is a partial named by its path without extension (partials/react/imports.hbs
+   * -> {{> react/imports}}), and the selected helper packs are registered.
+   * Engines are cached, and rebuilt when partial files change.
+   */
+  forBlueprint(blueprintFolder: string, options: TemplateOptions = {}): TemplateEngine {
+    const helperPacks = options.helperPacks || [];
+    const strict = Boolean(options.strict);
+    const partialsDir = path.join(blueprintFolder, 'partials');
+    const partialFiles = fs.existsSync(partialsDir)
+      ? globSync('**/*.{hbs,handlebars}', { cwd: partialsDir, nodir: true, posix: true }).sort()
+      : [];
+    if (partialFiles.length === 0 && helperPacks.length === 0 && strict === this.strict) {
+      return this;
+    }
+
+    const key = `${blueprintFolder}\n${helperPacks.join(',')}\n${strict}`;
+    const signature = partialFiles
+      .map(file => `${file}:${fs.statSync(path.join(partialsDir, file)).mtimeMs}`)
+      .join('|');
+    const cached = this.blueprintEngines.get(key);
+    if (cached && cached.signature === signature) {
+      return cached.engine;
+    }
+
+    const engine = new TemplateEngine({ helperPacks, strict });
+    for (const file of partialFiles) {
+      engine.registerPartial(file.replace(/\.(hbs|handlebars)$/, ''), fs.readFileSync(path.join(partialsDir, file), 'utf-8'));
+    }
+    this.blueprintEngines.set(key, { signature, engine });
+    return engine;
   }
 
   /**
@@ -114,21 +256,297 @@ export class TemplateEngine {
     });
   }
 
+  /**
+   * Layouts: a template wraps itself in a layout partial and fills its named blocks
+   *
+   *   {{#extend "page"}}{{#content "body"}}...{{/content}}{{/extend}}
+   *   partials/page.hbs: <main>{{#block "body"}}default{{/block}}</main>
+   *
+   * `content` takes mode="append" or mode="prepend" to keep the block's default.
+   */
+  private registerLayoutHelpers(): void {
+    const engine = this;
+    const handlebars = this.handlebars;
+
+    handlebars.registerHelper('extend', function (this: unknown, name: string, options: Handlebars.HelperOptions) {
+      let layout = engine.layouts.get(name);
+      if (!layout) {
+        const source = engine.partialSources.get(name);
+        if (source === undefined) {
+          throw new Error(`Layout partial "${name}" not found`);
+        }
+        layout = handlebars.compile(source, { strict: engine.strict });
+        engine.layouts.set(name, layout);
+      }
+
+      // Blocks filled by the template body are handed to the layout through @data
+      const data = handlebars.createFrame(options.data || {});
+      data.layoutBlocks = {};
+      options.fn(this, { data });
+      return layout(this, { data });
+    });
+
+    handlebars.registerHelper('content', function (this: unknown, name: string, options: Handlebars.HelperOptions) {
+      const blocks = options.data?.layoutBlocks;
+      if (!blocks) {
+        throw new Error(`{{#content "${name}"}} must be used inside {{#extend}}`);
+      }
+      blocks[name] = { mode: options.hash.mode || 'replace', content: options.fn(this) };
+      return '';
+    });
+
+    handlebars.registerHelper('block', function (this: unknown, name: string, options: Handlebars.HelperOptions) {
+      const fallback = options.fn ? options.fn(this) : '';
+      const filled = options.data?.layoutBlocks?.[name];
+      if (!filled) {
+        return new handlebars.SafeString(fallback);
+      }
+      if (filled.mode === 'append') return new handlebars.SafeString(fallback + filled.content);
+      if (filled.mode === 'prepend') return new handlebars.SafeString(filled.content + fallback);
+      return new handlebars.SafeString(filled.content);
+    });
+  }
+
+  /**
+   * Register one of the named helper packs
+   */
+  private registerHelperPack(name: string): void {
+    const pack = HELPER_PACKS[name];
+    if (!pack) {
+      throw new Error(`Unknown helper pack "${name}" (available: ${HELPER_PACK_NAMES.join(', ')})`);
+    }
+    for (const [helperName, helper] of Object.entries(pack)) {
+      this.handlebars.registerHelper(helperName, helper);
+    }
+  }
+
   /**
    * Compile a template with variables
    * @param template - Handlebars template string
    * @param variables - Variables to substitute
+   * @param source - Where the template comes from, for error messages
    * @returns Compiled template string
    */
-  compile(template: string, variables: Record<string, any>): string {
+  compile(template: string, variables: Record<string, any>, source?: string): string {
     try {
-      const compiled = this.handlebars.compile(template);
+      const compiled = this.handlebars.compile(template, { strict: this.strict });
       return compiled(variables);
     } catch (error) {
-      throw new Error(`Template compilation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      const message = error instanceof Error ? this.describeError(template, error.message) : 'Unknown error';
+      throw new Error(`Template compilation failed${source ? ` in ${source}` : ''}: ${message}`);
     }
   }
 
+  /**
+   * Reword Handlebars' strict mode errors ("app" not defined in [object Object] - 2:4)
+   * to name the full path of the undefined variable
+   */
+  private describeError(template: string, message: string): string {
+    // Strict mode also assumes the objects along a path exist
+    const missingObject = message.match(/^Cannot read properties of (?:undefined|null) \(reading '(.+)'\)$/);
+    if (missingObject) {
+      return `undefined variable: "${missingObject[1]}" was read from an object that is not defined`;
+    }
+
+    const match = message.match(/^"(.+)" not defined in .* - (\d+):(\d+)$/);
+    if (!match) {
+      return message;
+    }
+    const line = Number(match[2]);
+    const column = Number(match[3]) + 1;
+    // The location may be in a partial, which the error does not name
+    const candidates = this.analyze(template).filter(ref => ref.line === line && ref.column === column);
+    const reference = candidates.find(ref => !ref.partial) || candidates[0];
+    if (!reference) {
+      return `"${match[1]}" is not defined (line ${line}, column ${column})`;
+    }
+    const where = reference.partial ? ` in partial "${reference.partial}"` : '';
+    return `undefined variable "${reference.path}"${where} at line ${line}, column ${column}`;
+  }
+
+  /**
+   * List the config variables a template references, without rendering it.
+   * Paths are resolved through #each/#with blocks, block params, ../ and
+   * @root, and into the partials and layouts the template uses. Helper calls
+   * and @data variables (@index, @key...) are not references.
+   * @param locals - Variables the template is rendered with besides the
+   *   config, mapped to the config path they hold (null: not a config path)
+   * @throws If the template does not parse
+   */
+  analyze(template: string, locals: Record<string, string | null> = {}): TemplateReference[] {
+    const references: TemplateReference[] = [];
+    this.collectReferences(Handlebars.parse(template), { contexts: [''], locals }, references, []);
+    return references;
+  }
+
+  private collectReferences(
+    node: hbs.AST.Node,
+    scope: ReferenceScope,
+    references: TemplateReference[],
+    partials: string[]
+  ): void {
+    const visitValues = (values: hbs.AST.Expression[]) => {
+      for (const value of values) {
+        if (value.type === 'PathExpression') {
+          this.addReference(value as hbs.AST.PathExpression, scope, references, partials);
+        } else if (value.type === 'SubExpression') {
+          this.collectReferences(value, scope, references, partials);
+        }
+      }
+    };
+    const visitPartial = (name: string, partialScope: ReferenceScope) => {
+      const source = this.partialSources.get(name);
+      if (source !== undefined && !partials.includes(name)) {
+        this.collectReferences(Handlebars.parse(source), partialScope, references, [...partials, name]);
+      }
+    };
+
+    switch (node.type) {
+      case 'Program':
+        for (const statement of (node as hbs.AST.Program).body) {
+          this.collectReferences(statement, scope, references, partials);
+        }
+        break;
+
+      case 'MustacheStatement':
+      case 'SubExpression': {
+        const call = node as hbs.AST.MustacheStatement;
+        const params = call.params || [];
+        const hashValues = (call.hash?.pairs || []).map(pair => pair.value);
+        if (call.path.type === 'PathExpression' && params.length === 0 && hashValues.length === 0 &&
+            !this.isHelper(call.path as hbs.AST.PathExpression)) {
+          this.addReference(call.path as hbs.AST.PathExpression, scope, references, partials);
+        }
+        visitValues([...params, ...hashValues]);
+        break;
+      }
+
+      case 'BlockStatement': {
+        const block = node as hbs.AST.BlockStatement;
+        const helper = block.path as hbs.AST.PathExpression;
+        const params = block.params || [];
+        visitValues([...params, ...(block.hash?.pairs || []).map(pair => pair.value)]);
+
+        const subject = params[0]?.type === 'PathExpression'
+          ? this.resolveReference(params[0] as hbs.AST.PathExpression, scope)
+          : null;
+        const blockParams = block.program.blockParams || [];
+        let inner: ReferenceScope = {
+          contexts: scope.contexts,
+          locals: { ...scope.locals, ...Object.fromEntries(blockParams.map(name => [name, null])) }
+        };
+
+        if (params.length === 0 && !this.isHelper(helper)) {
+          // {{#section}}...{{/section}} renders with `section` as the context
+          this.addReference(helper, scope, references, partials);
+          inner.contexts = [...scope.contexts, this.resolveReference(helper, scope)];
+        } else if (helper.original === 'each') {
+          const item = subject === null ? null : `${subject}[]`;
+          inner = {
+            contexts: [...scope.contexts, item],
+            locals: { ...inner.locals, ...(blockParams[0] ? { [blockParams[0]]: item } : {}) }
+          };
+        } else if (helper.original === 'with') {
+          inner = {
+            contexts: [...scope.contexts, subject],
+            locals: { ...inner.locals, ...(blockParams[0] ? { [blockParams[0]]: subject } : {}) }
+          };
+        } else if (helper.original === 'extend' && params[0]?.type === 'StringLiteral') {
+          visitPartial((params[0] as hbs.AST.StringLiteral).value, scope);
+        }
+
+        this.collectReferences(block.program, inner, references, partials);
+        if (block.inverse) {
+          this.collectReferences(block.inverse, scope, references, partials);
+        }
+        break;
+      }
+
+      case 'PartialStatement':
+      case 'PartialBlockStatement': {
+        const partial = node as hbs.AST.PartialStatement;
+        const params = partial.params || [];
+        const hashPairs = partial.hash?.pairs || [];
+        visitValues([...params, ...hashPairs.map(pair => pair.value)]);
+
+        // {{> name context key=value}} renders the partial with `context` and the hash values in scope
+        const context = params[0]?.type === 'PathExpression'
+          ? this.resolveReference(params[0] as hbs.AST.PathExpression, scope)
+          : undefined;
+        const partialScope: ReferenceScope = {
+          contexts: context === undefined ? scope.contexts : [...scope.contexts, context],
+          locals: {
+            ...scope.locals,
+            ...Object.fromEntries(hashPairs.map(pair => [
+              pair.key,
+              pair.value.type === 'PathExpression' ? this.resolveReference(pair.value as hbs.AST.PathExpression, scope) : null
+            ]))
+          }
+        };
+        // Dynamic partials ({{> (lookup ...)}}) cannot be followed
+        const name: hbs.AST.Expression = partial.name;
+        if (name.type === 'PathExpression' || name.type === 'StringLiteral') {
+          visitPartial((name as hbs.AST.PathExpression | hbs.AST.StringLiteral).original, partialScope);
+        }
+
+        if (node.type === 'PartialBlockStatement') {
+          this.collectReferences((node as hbs.AST.PartialBlockStatement).program, scope, references, partials);
+        }
+        break;
+      }
+    }
+  }
+
+  private addReference(
+    expression: hbs.AST.PathExpression,
+    scope: ReferenceScope,
+    references: TemplateReference[],
+    partials: string[]
+  ): void {
+    const resolved = this.resolveReference(expression, scope);
+    if (resolved) {
+      references.push({
+        path: resolved,
+        line: expression.loc.start.line,
+        column: expression.loc.start.column + 1,
+        partial: partials[partials.length - 1]
+      });
+    }
+  }
+
+  /**
+   * Config path a path expression refers to, or null when it is not a
+   * config variable (data variables, locals that are not config paths)
+   */
+  private resolveReference(expression: hbs.AST.PathExpression, scope: ReferenceScope): string | null {
+    const parts = expression.parts;
+    if (expression.data) {
+      return parts[0] === 'root' ? this.joinPath('', parts.slice(1)) : null;
+    }
+
+    const explicitContext = /^(this|\.)(\/|\.|$)/.test(expression.original);
+    if (expression.depth === 0 && !explicitContext && parts.length > 0 && parts[0] in scope.locals) {
+      const local = scope.locals[parts[0]];
+      return local === null ? null : this.joinPath(local, parts.slice(1));
+    }
+
+    const context = scope.contexts[scope.contexts.length - 1 - expression.depth];
+    return context === undefined || context === null ? null : this.joinPath(context, parts);
+  }
+
+  private joinPath(base: string, parts: string[]): string | null {
+    const joined = parts.reduce(
+      (result, part) => /^\d+$/.test(part) ? `${result}[${part}]` : (result ? `${result}.${part}` : part),
+      base
+    );
+    return joined === '' ? null : joined;
+  }
+
+  private isHelper(expression: hbs.AST.PathExpression): boolean {
+    return !expression.data && expression.depth === 0 && expression.parts.length === 1 &&
+      expression.parts[0] in this.handlebars.helpers;
+  }
+
   /**
    * Compile a template file path with variables
    * Useful for generating dynamic file names like "{{contentType}}Tab.tsx"
@@ -137,6 +555,15 @@ export class TemplateEngine {
     return this.compile(pathTemplate, variables);
   }
 
+  /**
+   * Register a partial, usable as {{> name}} or as a layout
+   */
+  registerPartial(name: string, template: string): void {
+    this.partialSources.set(name, template);
+    this.layouts.delete(name);
+    this.handlebars.registerPartial(name, template);
+  }
+
   /**
    * Register a custom helper
    */
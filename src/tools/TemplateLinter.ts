@@ -0,0 +1,160 @@
+import { BlueprintMetadata, FileOperation } from '../types.js';
+import { FileOperationsExecutor } from './FileOperations.js';
+import { TemplateEngine, TemplateReference } from './TemplateEngine.js';
+import { ConfigPath } from './ConfigPath.js';
+
+export interface LintedTemplate {
+  origin: string;                     // e.g. "Layer 1 / setup-config: operation 2"
+  file: string;                       // Template file, "inline content" or "destination"
+  references: TemplateReference[];    // Every config variable the template references
+  unresolved: TemplateReference[];    // References the config schema does not define
+}
+
+export interface TemplateLintResult {
+  templates: LintedTemplate[];
+  errors: string[];        // Templates that could not be read or parsed
+  schemaChecked: boolean;  // False when the blueprint has no configSchema to check against
+}
+
+/**
+ * Statically checks the templates of a blueprint: lists every config variable
+ * each template references and compares it against the blueprint's
+ * configSchema, so a typo like {{app.dispalyName}} is caught before it
+ * renders as an empty string.
+ *
+ * Schemas are checked conservatively: a path is only unresolved when the
+ * schema declares the properties of an object and the name is not among them
+ * (and additionalProperties does not allow it).
+ */
+export class TemplateLinter {
+  constructor(
+    private templateEngine: TemplateEngine,
+    private fileOpsExecutor: FileOperationsExecutor,
+    private configPath: ConfigPath
+  ) {}
+
+  /**
+   * Lint every template rendered by a blueprint's operations
+   * @param taskFolders - Template folders of inherited tasks, by task ID
+   */
+  lint(blueprint: BlueprintMetadata, blueprintFolder: string, taskFolders: Record<string, string> = {}): TemplateLintResult {
+    const result: TemplateLintResult = { templates: [], errors: [], schemaChecked: Boolean(blueprint.configSchema) };
+
+    for (const layer of [...blueprint.layers].sort((a, b) => a.order - b.order)) {
+      for (const task of layer.tasks) {
+        const sourcePath = taskFolders[task.id] || blueprintFolder;
+        const engine = this.templateEngine.forBlueprint(sourcePath, { helperPacks: blueprint.helperPacks });
+
+        for (const [index, operation] of (task.operations || []).entries()) {
+          const origin = `Layer ${layer.order} / ${task.id}: operation ${index + 1}`;
+          try {
+            const locals = this.operationLocals(operation);
+            for (const { file, template } of this.fileOpsExecutor.templateSources(operation, sourcePath)) {
+              const references = engine.analyze(template, locals);
+              result.templates.push({
+                origin,
+                file,
+                references,
+                unresolved: blueprint.configSchema
+                  ? references.filter(ref => !this.isDefined(blueprint.configSchema, ref.path))
+                  : []
+              });
+            }
+          } catch (error) {
+            result.errors.push(`${origin}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          }
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Variables an operation adds to the config while rendering, mapped to
+   * the config path they hold (null: not a config path)
+   */
+  private operationLocals(operation: FileOperation): Record<string, string | null> {
+    const locals: Record<string, string | null> = { sourceReference: null };
+
+    if (operation.variables?.includes('contentType')) {
+      locals.contentType = 'contentTypes[]';
+      locals.ContentType = null;
+    }
+
+    if (operation.each) {
+      const segments = this.configPath.parse(operation.each);
+      let item = segments.reduce((result, segment) => {
+        if (segment.kind === 'key') return result ? `${result}.${segment.key}` : segment.key;
+        return segment.kind === 'index' ? `${result}[${segment.index}]` : `${result}[]`;
+      }, '');
+      if (segments[segments.length - 1].kind !== 'wildcard') {
+        item += '[]';
+      }
+      // The parent is the object holding the iterated array ('' for the config itself)
+      const parent = item.replace(/(\[\d*\])+$/, '').replace(/(^|\.)[^.[\]]+$/, '');
+
+      locals[operation.as || 'item'] = item;
+      locals[operation.indexAs || 'index'] = null;
+      locals[operation.parentAs || 'parent'] = parent;
+    }
+
+    return locals;
+  }
+
+  /**
+   * Whether a config schema defines a path like "contentTypes[].fields[0].name"
+   */
+  private isDefined(schema: unknown, configPath: string): boolean {
+    let node = schema as Record<string, any> | undefined;
+
+    for (const [, index, name] of configPath.matchAll(/\[(\d*)\]|\.?([^.[\]]+)/g)) {
+      if (!node || typeof node !== 'object') {
+        return true;
+      }
+
+      if (index !== undefined) {
+        if (node.items) {
+          node = node.items;
+        } else if (node.additionalProperties && typeof node.additionalProperties === 'object') {
+          node = node.additionalProperties;
+        } else {
+          return !this.isPrimitive(node);
+        }
+        continue;
+      }
+
+      if (name === 'length' && (node.type === 'array' || node.type === 'string' || node.items)) {
+        return true;
+      }
+      if (node.items && !node.properties) {
+        // A {{#list}}...{{/list}} section renders its block with each item as the context
+        node = node.items;
+        if (!node || typeof node !== 'object') {
+          return true;
+        }
+      }
+
+      const properties = node.properties as Record<string, unknown> | undefined;
+      if (properties) {
+        if (Object.prototype.hasOwnProperty.call(properties, name)) {
+          node = properties[name] as Record<string, any>;
+        } else if (node.additionalProperties) {
+          node = node.additionalProperties === true ? undefined : node.additionalProperties;
+        } else {
+          return false;
+        }
+      } else if (this.isPrimitive(node)) {
+        return false;
+      } else {
+        // An object without declared properties can hold anything
+        return true;
+      }
+    }
+    return true;
+  }
+
+  private isPrimitive(schema: Record<string, any>): boolean {
+    return ['string', 'number', 'integer', 'boolean', 'null'].includes(schema.type);
+  }
+}
@@ -0,0 +1,360 @@
+type DiffOp = { type: 'equal' | 'delete' | 'insert'; line: string };
+
+interface PatchHunk {
+  header: string;      // e.g. "@@ -12,4 +12,6 @@"
+  oldStart: number;    // 1-based line number in the original file
+  oldLines: string[];  // Context and removed lines
+  newLines: string[];  // Context and added lines
+}
+
+export interface MergeResult {
+  merged: string;
+  conflicts: number;  // Number of conflicting regions (marked inline)
+}
+
+/**
+ * Line-based text diffing used to preview file changes and merge re-rendered files
+ */
+export class TextDiff {
+  // Above this many LCS cells the diff falls back to replacing the whole changed region
+  private static readonly MAX_LCS_CELLS = 4_000_000;
+
+  /**
+   * Create a unified diff (as produced by `diff -u`) between two texts.
+   * Returns an empty string when the texts are identical.
+   */
+  unified(oldText: string, newText: string, filePath: string, contextLines = 3): string {
+    if (oldText === newText) {
+      return '';
+    }
+
+    const ops = this.diffLines(this.splitLines(oldText), this.splitLines(newText));
+    const hunks = this.buildHunks(ops, contextLines);
+
+    let output = `--- a/${filePath}\n+++ b/${filePath}\n`;
+    for (const hunk of hunks) {
+      output += hunk;
+    }
+    return output;
+  }
+
+  /**
+   * 3-way merge (diff3 style) of two edits of a common base.
+   * Regions changed on only one side take that side; regions changed
+   * identically on both sides merge cleanly; anything else becomes a conflict
+   * marked inline with git-style <<<<<<< / ======= / >>>>>>> markers.
+   */
+  merge3(base: string, ours: string, theirs: string, oursLabel = 'ours', theirsLabel = 'theirs'): MergeResult {
+    const baseLines = this.splitKeepEnds(base);
+    const oursLines = this.splitKeepEnds(ours);
+    const theirsLines = this.splitKeepEnds(theirs);
+
+    const oursMatch = this.matchLines(baseLines, oursLines);
+    const theirsMatch = this.matchLines(baseLines, theirsLines);
+
+    const output: string[] = [];
+    let conflicts = 0;
+    let i = 0;
+    let j = 0;
+    let k = 0;
+
+    const emitChunk = (baseEnd: number, oursEnd: number, theirsEnd: number) => {
+      const baseChunk = baseLines.slice(i, baseEnd);
+      const oursChunk = oursLines.slice(j, oursEnd);
+      const theirsChunk = theirsLines.slice(k, theirsEnd);
+
+      if (this.sameLines(oursChunk, baseChunk)) {
+        output.push(...theirsChunk);
+      } else if (this.sameLines(theirsChunk, baseChunk) || this.sameLines(oursChunk, theirsChunk)) {
+        output.push(...oursChunk);
+      } else {
+        conflicts++;
+        output.push(`<<<<<<< ${oursLabel}\n`, ...this.terminated(oursChunk), '=======\n',
+          ...this.terminated(theirsChunk), `>>>>>>> ${theirsLabel}\n`);
+      }
+    };
+
+    // Base lines kept by both sides are stable; everything between them is merged chunk by chunk
+    for (let b = 0; b < baseLines.length; b++) {
+      const o = oursMatch[b];
+      const t = theirsMatch[b];
+      if (o < 0 || t < 0) {
+        continue;
+      }
+      emitChunk(b, o, t);
+      output.push(baseLines[b]);
+      i = b + 1;
+      j = o + 1;
+      k = t + 1;
+    }
+    emitChunk(baseLines.length, oursLines.length, theirsLines.length);
+
+    return { merged: output.join(''), conflicts };
+  }
+
+  /**
+   * Apply a unified diff (single file) to a text.
+   * Hunks are located by their content, searching outward from the line
+   * numbers in the header, so they still apply when the file has shifted.
+   * Hunks whose changes are already present are skipped, so applying the
+   * same patch twice is a no-op.
+   */
+  applyPatch(text: string, patch: string, filePath: string): string {
+    const hunks = this.parseHunks(patch);
+    if (hunks.length === 0) {
+      throw new Error(`Patch for ${filePath} contains no hunks`);
+    }
+
+    const finalNewline = text === '' || text.endsWith('\n');
+    const lines = text.split('\n');
+    if (finalNewline) {
+      lines.pop();
+    }
+
+    let offset = 0;
+    for (const hunk of hunks) {
+      // A hunk that only adds lines names the line it inserts after
+      const expected = Math.max(0, hunk.oldStart - (hunk.oldLines.length > 0 ? 1 : 0) + offset);
+
+      const at = hunk.oldLines.length > 0
+        ? this.findLines(lines, hunk.oldLines, expected)
+        : Math.min(expected, lines.length);
+      const appliedAt = hunk.newLines.length > 0 ? this.findLines(lines, hunk.newLines, expected) : -1;
+
+      // When the new side contains the old side (lines were only added), finding
+      // the new side means the hunk was applied before
+      if (appliedAt >= 0 && (at < 0 || this.findLines(hunk.newLines, hunk.oldLines, 0) >= 0)) {
+        continue;
+      }
+      if (at < 0) {
+        throw new Error(`Patch hunk ${hunk.header} does not apply to ${filePath}`);
+      }
+
+      lines.splice(at, hunk.oldLines.length, ...hunk.newLines);
+      offset += hunk.newLines.length - hunk.oldLines.length;
+    }
+
+    return lines.join('\n') + (finalNewline && lines.length > 0 ? '\n' : '');
+  }
+
+  /**
+   * Parse the hunks of a unified diff, ignoring file headers
+   */
+  private parseHunks(patch: string): PatchHunk[] {
+    const hunks: PatchHunk[] = [];
+    let current: PatchHunk | null = null;
+    let oldRemaining = 0;
+    let newRemaining = 0;
+
+    for (const rawLine of patch.split('\n')) {
+      const line = rawLine.replace(/\r$/, '');
+      const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+      if (header) {
+        current = { header: header[0], oldStart: parseInt(header[1], 10), oldLines: [], newLines: [] };
+        oldRemaining = header[2] === undefined ? 1 : parseInt(header[2], 10);
+        newRemaining = header[4] === undefined ? 1 : parseInt(header[4], 10);
+        hunks.push(current);
+        continue;
+      }
+      if (!current || (oldRemaining === 0 && newRemaining === 0) || line.startsWith('\\')) {
+        continue;
+      }
+
+      // Some editors strip the leading space from blank context lines
+      const prefix = line === '' ? ' ' : line[0];
+      const content = line.slice(1);
+      if (prefix === ' ') {
+        current.oldLines.push(content);
+        current.newLines.push(content);
+        oldRemaining--;
+        newRemaining--;
+      } else if (prefix === '-') {
+        current.oldLines.push(content);
+        oldRemaining--;
+      } else if (prefix === '+') {
+        current.newLines.push(content);
+        newRemaining--;
+      } else {
+        throw new Error(`Malformed patch line in hunk ${current.header}: ${line}`);
+      }
+    }
+
+    return hunks;
+  }
+
+  /**
+   * Find a run of lines, trying positions nearest to `expected` first
+   */
+  private findLines(lines: string[], needle: string[], expected: number): number {
+    const matchesAt = (start: number) =>
+      start >= 0 && start + needle.length <= lines.length && needle.every((line, i) => lines[start + i] === line);
+
+    for (let distance = 0; distance <= lines.length; distance++) {
+      if (matchesAt(expected - distance)) return expected - distance;
+      if (matchesAt(expected + distance)) return expected + distance;
+    }
+    return -1;
+  }
+
+  /**
+   * For each base line, the index of the matching line in `other` (-1 if deleted)
+   */
+  private matchLines(base: string[], other: string[]): number[] {
+    const matches = new Array<number>(base.length).fill(-1);
+    let b = 0;
+    let o = 0;
+    for (const op of this.diffLines(base, other)) {
+      if (op.type === 'equal') {
+        matches[b++] = o++;
+      } else if (op.type === 'delete') {
+        b++;
+      } else {
+        o++;
+      }
+    }
+    return matches;
+  }
+
+  private sameLines(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((line, index) => line === b[index]);
+  }
+
+  /**
+   * Make sure a chunk ends with a newline so conflict markers start on their own line
+   */
+  private terminated(lines: string[]): string[] {
+    if (lines.length === 0 || lines[lines.length - 1].endsWith('\n')) {
+      return lines;
+    }
+    return [...lines.slice(0, -1), lines[lines.length - 1] + '\n'];
+  }
+
+  /**
+   * Split text into lines that keep their trailing newline, so joining them restores the text
+   */
+  private splitKeepEnds(text: string): string[] {
+    return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+  }
+
+  /**
+   * Split text into lines, keeping track of a missing final newline
+   */
+  private splitLines(text: string): string[] {
+    if (text === '') {
+      return [];
+    }
+    const lines = text.split('\n');
+    if (lines[lines.length - 1] === '') {
+      lines.pop();
+    } else {
+      lines[lines.length - 1] += '\n\\ No newline at end of file';
+    }
+    return lines;
+  }
+
+  /**
+   * Diff two line arrays via longest common subsequence, after trimming
+   * the common prefix and suffix
+   */
+  private diffLines(a: string[], b: string[]): DiffOp[] {
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+      start++;
+    }
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+      endA--;
+      endB--;
+    }
+
+    const ops: DiffOp[] = a.slice(0, start).map(line => ({ type: 'equal' as const, line }));
+    ops.push(...this.diffMiddle(a.slice(start, endA), b.slice(start, endB)));
+    ops.push(...a.slice(endA).map(line => ({ type: 'equal' as const, line })));
+    return ops;
+  }
+
+  private diffMiddle(a: string[], b: string[]): DiffOp[] {
+    const deleteAll = (): DiffOp[] => a.map(line => ({ type: 'delete' as const, line }));
+    const insertAll = (): DiffOp[] => b.map(line => ({ type: 'insert' as const, line }));
+
+    if (a.length === 0 || b.length === 0 || a.length * b.length > TextDiff.MAX_LCS_CELLS) {
+      return [...deleteAll(), ...insertAll()];
+    }
+
+    // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+    const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    const ops: DiffOp[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        ops.push({ type: 'equal', line: a[i] });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        ops.push({ type: 'delete', line: a[i++] });
+      } else {
+        ops.push({ type: 'insert', line: b[j++] });
+      }
+    }
+    while (i < a.length) ops.push({ type: 'delete', line: a[i++] });
+    while (j < b.length) ops.push({ type: 'insert', line: b[j++] });
+    return ops;
+  }
+
+  /**
+   * Group diff operations into unified diff hunks with surrounding context
+   */
+  private buildHunks(ops: DiffOp[], contextLines: number): string[] {
+    const changeIndexes = ops
+      .map((op, index) => (op.type === 'equal' ? -1 : index))
+      .filter(index => index >= 0);
+
+    // Merge changes whose context windows overlap into one hunk
+    const ranges: Array<[number, number]> = [];
+    for (const index of changeIndexes) {
+      const from = Math.max(0, index - contextLines);
+      const to = Math.min(ops.length - 1, index + contextLines);
+      const last = ranges[ranges.length - 1];
+      if (last && from <= last[1] + 1) {
+        last[1] = to;
+      } else {
+        ranges.push([from, to]);
+      }
+    }
+
+    // Line numbers (1-based) in the old and new text at the start of each op
+    const oldLineAt: number[] = [];
+    const newLineAt: number[] = [];
+    let oldLine = 1;
+    let newLine = 1;
+    for (const op of ops) {
+      oldLineAt.push(oldLine);
+      newLineAt.push(newLine);
+      if (op.type !== 'insert') oldLine++;
+      if (op.type !== 'delete') newLine++;
+    }
+
+    return ranges.map(([from, to]) => {
+      const slice = ops.slice(from, to + 1);
+      const oldCount = slice.filter(op => op.type !== 'insert').length;
+      const newCount = slice.filter(op => op.type !== 'delete').length;
+      const oldStart = oldCount === 0 ? oldLineAt[from] - 1 : oldLineAt[from];
+      const newStart = newCount === 0 ? newLineAt[from] - 1 : newLineAt[from];
+
+      let hunk = `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n`;
+      for (const op of slice) {
+        const prefix = op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+';
+        hunk += `${prefix}${op.line}\n`;
+      }
+      return hunk;
+    });
+  }
+}
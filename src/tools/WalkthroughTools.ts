@@ -3,10 +3,14 @@ import * as path from 'path';
 import * as yaml from 'js-yaml';
 import { ToolDefinition, ToolHandler } from '../types.js';
 import { BaseToolSet } from './BaseToolSet.js';
+import { PathSafety } from './PathSafety.js';
 
 export class WalkthroughTools extends BaseToolSet {
+  private pathSafety: PathSafety;
+
   constructor() {
     super();
+    this.pathSafety = new PathSafety();
   }
 
   protected createToolDefinitions(): ToolDefinition[] {
@@ -191,6 +195,7 @@ Format: ${format}
     if (!projectPath || typeof projectPath !== 'string') {
       throw new Error('projectPath is required and must be a string');
     }
+    this.pathSafety.assertSafeName(name, 'name');
 
     // Ensure we have an absolute path
     // Always normalize the path to handle any edge cases with path resolution
@@ -207,6 +212,8 @@ Format: ${format}
     
     const bluekitDir = path.join(resolvedProjectPath, '.bluekit');
     const walkthroughsDir = path.join(bluekitDir, 'walkthroughs');
+    const walkthroughPath = path.join(walkthroughsDir, `${name}.md`);
+    this.pathSafety.assertWithin(resolvedProjectPath, walkthroughPath, 'Walkthrough file');
 
     try {
       if (!fs.existsSync(walkthroughsDir)) {
@@ -216,7 +223,6 @@ Format: ${format}
       // Ensure content has YAML front matter
       const contentWithFrontMatter = this.ensureFinalNewline(this.ensureYamlFrontMatter(content, name, complexity, format));
 
-      const walkthroughPath = path.join(walkthroughsDir, `${name}.md`);
       fs.writeFileSync(walkthroughPath, contentWithFrontMatter, 'utf8');
 
       // Check for empty tags or description and provide warnings
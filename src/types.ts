@@ -32,26 +32,156 @@ export interface ToolDefinition {
 export type ToolHandler = (params: Record<string, unknown>) => Array<{ type: 'text'; text: string }> | Promise<Array<{ type: 'text'; text: string }>>;
 
 // Blueprint types
+
+/**
+ * What to do when an operation's destination already exists with different content:
+ * skip (keep existing), overwrite, backup (move existing to .orig, then write),
+ * fail, or merge (deep-merge JSON/YAML keys)
+ */
+export type ConflictPolicy = 'skip' | 'overwrite' | 'backup' | 'fail' | 'merge';
+
+/**
+ * copy/template/generate create whole files. The others change an existing
+ * project: append, insert-at-marker, patch (unified diff) and json-merge edit
+ * a file in place; delete and mkdir remove or create paths.
+ */
+export type FileOperationType =
+  | 'copy'
+  | 'template'
+  | 'generate'
+  | 'append'
+  | 'insert-at-marker'
+  | 'patch'
+  | 'json-merge'
+  | 'delete'
+  | 'mkdir';
+
+export interface FileOperation {
+  type: FileOperationType;
+  source?: string;      // Template, source path (file, directory or glob), or patch file
+  destination: string;  // Output path (the file to edit, or the path to delete/create)
+  content?: string;     // Inline template instead of source (append, insert-at-marker, json-merge)
+  marker?: string;      // insert-at-marker: text identifying the line to insert next to
+  position?: 'before' | 'after';  // insert-at-marker: where the snippet goes (default: after)
+  variables?: string[]; // Variables for templating
+  each?: string;        // Run once per item of a config array, e.g. "contentTypes" or "contentTypes[*].fields"
+  as?: string;          // each: variable holding the item (default: "item")
+  indexAs?: string;     // each: variable holding the item's index (default: "index")
+  parentAs?: string;    // each: variable holding the object that contains the array (default: "parent")
+  when?: string;        // Config expression; the operation is skipped when false (per item with each)
+  include?: string[];   // Directory/glob sources: only files matching these globs (relative to the source directory)
+  exclude?: string[];   // Directory/glob sources: skip files matching these globs
+  templatePattern?: string;  // template with a directory/glob source: files to render (default "*.hbs"); others are copied verbatim
+  kits?: string[];      // generate: kits (in the target's .bluekit/kits) given to the model as reference
+  onConflict?: ConflictPolicy;  // Overrides the run's policy (default: skip for copy, overwrite otherwise)
+}
+
+export type TaskCheckType = 'file-exists' | 'file-contains' | 'json-path' | 'command';
+
+/**
+ * A condition that holds once a task is done correctly
+ */
+export interface TaskCheck {
+  type: TaskCheckType;
+  path?: string;        // file-exists, file-contains, json-path: file relative to the target (may use {{config}} variables)
+  pattern?: string;     // file-contains: regular expression the file content must match
+  jsonPath?: string;    // json-path: path in the JSON/YAML file, e.g. "scripts.build" or "compilerOptions.paths['@/*']"
+  equals?: unknown;     // json-path: expected value (default: any value other than null)
+  command?: string;     // command: shell command run in the target directory; passes when it exits 0
+  timeout?: number;     // command: milliseconds before the command is stopped (default: 60000)
+  description?: string; // Shown in reports instead of the generated label
+}
+
 export interface BlueprintTask {
   id: string;
-  alias: string;
-  agent: string;
-  kit: string;
+  taskFile: string;
+  description: string;
+  operations?: FileOperation[];
+  checks?: TaskCheck[];  // Acceptance checks run by bluekit_blueprint_verify
+  when?: string;  // Config expression, e.g. "ui.theme != null"; the task is skipped when false
+
+  // Explicit dependencies (used to compute layering)
+  dependsOn?: string[];  // IDs of tasks that must complete first
+  provides?: string[];   // Capability keys this task makes available
+  requires?: string[];   // Capability keys that must be provided by earlier tasks
 }
 
 export interface BlueprintLayer {
   id: string;
   order: number;
   name: string;
+  classification?: 'foundation' | 'domain' | 'integration' | 'configuration';
   tasks: BlueprintTask[];
+  remove?: string[];  // Parent task IDs to drop when overriding an inherited layer
+  when?: string;      // Config expression; the whole layer is skipped when false
 }
 
-export interface Blueprint {
+export interface SourceReference {
+  type: 'local' | 'global' | 'git';
+  path?: string;          // Local path or global registry ID
+  gitUrl?: string;        // Git repository
+  gitRef?: string;        // Branch/tag/commit
+  preservePaths?: string[]; // Files/dirs to copy verbatim
+}
+
+/**
+ * set: write a value; default: write it only where the key is missing;
+ * remove: delete a key; rename: give a key a new name in the same object;
+ * move: relocate a value to another path
+ */
+export type ConfigTransformOp = 'set' | 'default' | 'remove' | 'rename' | 'move';
+
+export interface ConfigTransform {
+  op: ConfigTransformOp;
+  path: string;      // Config path, e.g. "database.url" or "contentTypes[*].fields" (no wildcards for move)
+  to?: string;       // rename: the new key name; move: the destination path
+  value?: unknown;   // set/default: the value to write
+}
+
+/**
+ * Declarative config changes that upgrade a config written for an earlier
+ * version of the blueprint to this version
+ */
+export interface BlueprintMigration {
+  version: number | string;  // Blueprint version the migration upgrades to
+  description?: string;
+  transforms: ConfigTransform[];
+}
+
+export interface BlueprintMetadata {
   id: string;
   name: string;
-  version: number;
+  version: number | string;  // Semantic version ("1.2.0"); plain numbers are major versions
   description: string;
+  createdAt: string;
   layers: BlueprintLayer[];
+
+  // Composition
+  extends?: string;  // Parent blueprint ID
+
+  // Source references (for copying files)
+  sourceReference?: SourceReference;
+
+  // Layer analysis rule IDs to skip for this blueprint
+  disabledRules?: string[];
+
+  // Template helper packs to enable (date, uuid, string, math); templates
+  // also get the partials in the blueprint's partials/ folder
+  helperPacks?: string[];
+
+  // Fail when a template references a variable the config does not define,
+  // instead of rendering an empty string
+  strictTemplates?: boolean;
+
+  // Config migrations, run by bluekit_blueprint_upgrade
+  migrations?: BlueprintMigration[];
+
+  // Configuration schema
+  configSchema?: {
+    type: 'object';
+    properties: Record<string, any>;
+    required?: string[];
+  };
 }
 
 // Agent types
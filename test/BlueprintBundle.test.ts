@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import { BlueprintMetadata } from '../src/types.js';
+import { BlueprintBundle, BUNDLE_FORMAT, BundleManifest } from '../src/tools/BlueprintBundle.js';
+import { TarArchive } from '../src/tools/TarArchive.js';
+import { tempDir, writeFiles } from './helpers.js';
+
+const tar = new TarArchive();
+const bundle = new BlueprintBundle(tar);
+
+const blueprint: BlueprintMetadata = {
+  id: 'app',
+  name: 'App',
+  version: '1.0.0',
+  description: 'App',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  layers: []
+};
+
+const sha256 = (content: string) => crypto.createHash('sha256').update(content).digest('hex');
+
+/**
+ * A bundle archive written by hand, so it can be broken on purpose
+ */
+function archive(files: Record<string, string>, manifest: Partial<BundleManifest> = {}): Buffer {
+  const listed = Object.fromEntries(Object.entries(files).map(([file, content]) => [file.replace(/^blueprint\//, ''), sha256(content)]));
+  const bundleJson: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    blueprintId: 'app',
+    blueprintName: 'App',
+    blueprintVersion: '1.0.0',
+    exportedAt: '2026-01-01T00:00:00.000Z',
+    files: listed,
+    ...manifest
+  };
+  return tar.pack([
+    { path: 'bundle.json', content: Buffer.from(JSON.stringify(bundleJson)) },
+    ...Object.entries(files).map(([file, content]) => ({ path: file, content: Buffer.from(content) }))
+  ]);
+}
+
+describe('BlueprintBundle', () => {
+  it('packs the blueprint folder without archived versions or runs, and unpacks it', () => {
+    const folder = tempDir();
+    writeFiles(folder, {
+      'blueprint.json': JSON.stringify(blueprint),
+      'setup.md': '# Setup\n',
+      'partials/header.hbs': '// header',
+      'versions/0.9.0/blueprint.json': '{}',
+      'runs/run-1.json': '{}'
+    });
+
+    const { archive: packed, manifest } = bundle.pack(folder, blueprint);
+    const unpacked = bundle.unpack(packed);
+
+    assert.deepEqual(Object.keys(manifest.files), ['blueprint.json', 'partials/header.hbs', 'setup.md']);
+    assert.equal(manifest.files['setup.md'], sha256('# Setup\n'));
+    assert.deepEqual(unpacked.manifest, manifest);
+    assert.deepEqual(unpacked.blueprint, blueprint);
+    assert.equal(unpacked.files.get('partials/header.hbs')?.toString(), '// header');
+  });
+
+  it('reports every file that fails verification', () => {
+    const json = JSON.stringify(blueprint);
+    const tampered = archive(
+      { 'blueprint/blueprint.json': json, 'blueprint/setup.md': '# Setup\n', 'blueprint/../escape.md': 'x', 'blueprint/runs/run.json': '{}', 'other.md': 'x' },
+      { files: { 'blueprint.json': sha256(json), 'setup.md': sha256('# Changed\n'), 'missing.md': sha256('') } }
+    );
+
+    assert.throws(() => bundle.unpack(tampered), (error: Error) => {
+      assert.equal(error.message, [
+        'Bundle verification failed:',
+        '  - setup.md: content does not match its sha256',
+        '  - blueprint/../escape.md: unsafe or unexpected path',
+        '  - blueprint/runs/run.json: unsafe or unexpected path',
+        '  - other.md: unsafe or unexpected path',
+        '  - missing.md: listed in bundle.json but missing from the archive'
+      ].join('\n'));
+      return true;
+    });
+    assert.throws(
+      () => bundle.unpack(archive({ 'blueprint/blueprint.json': json }, { files: {} })),
+      /blueprint\.json: not listed in bundle\.json/
+    );
+  });
+
+  it('rejects what is not a bundle of a supported format', () => {
+    assert.throws(() => bundle.unpack(Buffer.from('not an archive at all')), /^Error: Not a blueprint bundle: bundle\.json is missing/);
+    assert.throws(() => bundle.unpack(Buffer.from([0x1f, 0x8b, 0, 0])), /^Error: Not a valid \.tar\.gz archive: /);
+    assert.throws(
+      () => bundle.unpack(archive({ 'blueprint/blueprint.json': '{}' }, { format: 2 })),
+      /Unsupported bundle format 2 \(expected 1\)/
+    );
+    assert.throws(
+      () => bundle.unpack(archive({ 'blueprint/setup.md': '# Setup\n' })),
+      /Bundle has no blueprint\.json/
+    );
+    assert.throws(
+      () => bundle.unpack(archive({ 'blueprint/blueprint.json': JSON.stringify({ ...blueprint, id: 'other' }) })),
+      /blueprint\.json has id "other" but bundle\.json says "app"/
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BlueprintLayer, BlueprintMetadata, BlueprintTask } from '../src/types.js';
+import { BlueprintDiff, DiffSide } from '../src/tools/BlueprintDiff.js';
+import { TextDiff } from '../src/tools/TextDiff.js';
+
+const differ = new BlueprintDiff(new TextDiff());
+
+function task(id: string, fields: Partial<BlueprintTask> = {}): BlueprintTask {
+  return { id, taskFile: `${id}.md`, description: id, ...fields };
+}
+
+function layer(id: string, order: number, tasks: BlueprintTask[], fields: Partial<BlueprintLayer> = {}): BlueprintLayer {
+  return { id, order, name: id, tasks, ...fields };
+}
+
+function side(label: string, layers: BlueprintLayer[], fields: Partial<BlueprintMetadata> = {}, taskFiles: Record<string, string> = {}): DiffSide {
+  return {
+    label,
+    blueprint: { id: 'app', name: 'App', version: '1.0.0', description: 'App', createdAt: '2026-01-01T00:00:00.000Z', layers, ...fields },
+    taskFiles
+  };
+}
+
+describe('BlueprintDiff', () => {
+  it('reports identical blueprints as identical', () => {
+    const left = side('a', [layer('foundation', 1, [task('setup')])], {}, { 'setup.md': '# Setup\n' });
+    const right = side('b', [layer('foundation', 1, [task('setup')])], { createdAt: '2026-02-01T00:00:00.000Z' }, { 'setup.md': '# Setup\n' });
+
+    const result = differ.compare(left, right);
+
+    assert.equal(result.identical, true);
+    assert.deepEqual([result.left, result.right], ['a', 'b']);
+  });
+
+  it('reports added, removed, renamed and reordered layers', () => {
+    const left = side('a', [layer('foundation', 1, []), layer('api', 2, []), layer('ui', 3, []), layer('legacy', 4, [])]);
+    const right = side('b', [layer('docs', 1, []), layer('foundation', 2, []), layer('ui', 3, [], { name: 'Frontend' }), layer('api', 4, [])]);
+
+    const { layers, identical } = differ.compare(left, right);
+
+    assert.equal(identical, false);
+    assert.deepEqual(layers.added, [{ id: 'docs', name: 'docs', order: 1 }]);
+    assert.deepEqual(layers.removed, [{ id: 'legacy', name: 'legacy', order: 4 }]);
+    assert.deepEqual(layers.reordered, [{ id: 'api', from: 2, to: 4 }, { id: 'ui', from: 3, to: 3 }]);
+    assert.deepEqual(layers.changed, [{ id: 'ui', changes: [{ field: 'name', left: 'ui', right: 'Frontend' }] }]);
+  });
+
+  it('reports tasks moved between layers, changed fields and operations', () => {
+    const left = side('a', [
+      layer('foundation', 1, [
+        task('setup', { operations: [{ type: 'mkdir', destination: 'src' }, { type: 'template', content: 'a', destination: 'README.md' }] }),
+        task('lint')
+      ]),
+      layer('api', 2, [task('routes')])
+    ]);
+    const right = side('b', [
+      layer('foundation', 1, [
+        task('setup', {
+          description: 'Set up the project',
+          operations: [{ destination: 'README.md', content: 'b', type: 'template' }, { type: 'copy', source: 'src', destination: 'lib' }]
+        }),
+        task('routes')
+      ]),
+      layer('api', 2, [task('auth')])
+    ]);
+
+    const { tasks, operations } = differ.compare(left, right);
+
+    assert.deepEqual(tasks.added, [{ id: 'auth', layerId: 'api' }]);
+    assert.deepEqual(tasks.removed, [{ id: 'lint', layerId: 'foundation' }]);
+    assert.deepEqual(tasks.moved, [{ id: 'routes', from: 'api', to: 'foundation' }]);
+    assert.deepEqual(tasks.changed, [{ id: 'setup', changes: [{ field: 'description', left: 'setup', right: 'Set up the project' }] }]);
+    assert.deepEqual(operations.map(operation => [operation.change, operation.key]), [
+      ['removed', 'mkdir src'],
+      ['modified', 'template README.md'],
+      ['added', 'copy lib']
+    ]);
+  });
+
+  it('compares config schema properties at every depth, and required properties', () => {
+    const left = side('a', [], {
+      configSchema: {
+        type: 'object',
+        properties: { app: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] }, legacy: { type: 'boolean' } }
+      }
+    });
+    const right = side('b', [], {
+      configSchema: {
+        type: 'object',
+        properties: {
+          app: { type: 'object', properties: { name: { type: 'string', minLength: 1 }, slug: { type: 'string' } }, required: ['slug'] },
+          database: { type: 'object', properties: { url: { type: 'string' } } }
+        },
+        required: ['database']
+      }
+    });
+
+    const { configSchema } = differ.compare(left, right);
+
+    assert.deepEqual(configSchema.added, ['app.slug', 'database', 'database.url']);
+    assert.deepEqual(configSchema.removed, ['legacy']);
+    assert.deepEqual(configSchema.changed, [{ field: 'app.name', left: { type: 'string' }, right: { type: 'string', minLength: 1 } }]);
+    assert.deepEqual(configSchema.required, { added: ['database', 'app.slug'], removed: ['app.name'] });
+  });
+
+  it('diffs task markdown, following renamed task files', () => {
+    const left = side('a', [layer('foundation', 1, [task('setup'), task('lint')])], {}, { 'setup.md': '# Setup\nnpm install\n', 'lint.md': '# Lint\n' });
+    const right = side('b', [layer('foundation', 1, [task('setup', { taskFile: 'install.md' }), task('lint')])], {}, { 'install.md': '# Setup\npnpm install\n' });
+
+    const { taskFiles } = differ.compare(left, right);
+
+    assert.deepEqual(taskFiles.map(file => [file.taskId, file.status, file.leftFile, file.rightFile]), [
+      ['setup', 'modified', 'setup.md', 'install.md'],
+      ['lint', 'removed', 'lint.md', undefined]
+    ]);
+    assert.match(taskFiles[0].diff!, /^--- a\/setup\.md\n\+\+\+ b\/install\.md\n/);
+    assert.match(taskFiles[0].diff!, /\n-npm install\n\+pnpm install\n/);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { BlueprintMetadata } from '../src/types.js';
+import { ExecutionRun, ExecutionStateStore } from '../src/tools/ExecutionStateStore.js';
+import { createServices, readFile, tempDir, writeFiles } from './helpers.js';
+
+const { executor, stateStore } = createServices();
+
+const blueprint: BlueprintMetadata = {
+  id: 'app',
+  name: 'App',
+  version: '1.0.0',
+  description: 'Scaffolds an app',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  layers: [
+    {
+      id: 'api',
+      order: 2,
+      name: 'API',
+      tasks: [{
+        id: 'server',
+        taskFile: 'server.md',
+        description: 'Server',
+        operations: [{ type: 'template', source: 'server.ts.hbs', destination: 'src/server.ts' }]
+      }]
+    },
+    {
+      id: 'foundation',
+      order: 1,
+      name: 'Foundation',
+      tasks: [{
+        id: 'setup',
+        taskFile: 'setup.md',
+        description: 'Setup',
+        operations: [
+          { type: 'template', source: 'README.md.hbs', destination: 'README.md' },
+          { type: 'append', content: 'node_modules/\n', destination: '.gitignore' },
+          { type: 'mkdir', destination: 'src' }
+        ]
+      }]
+    }
+  ]
+};
+
+function setup() {
+  const blueprintFolder = tempDir();
+  const targetPath = tempDir();
+  writeFiles(blueprintFolder, {
+    'README.md.hbs': '# {{app.name}}\n',
+    'server.ts.hbs': 'export const name = \'{{app.name}}\';\n'
+  });
+  return { blueprintFolder, targetPath };
+}
+
+describe('BlueprintExecutor', () => {
+  it('runs layers in order and records what every operation wrote', async () => {
+    const { blueprintFolder, targetPath } = setup();
+    const log = mock.method(console, 'log');
+
+    const run = await executor.run(executor.createRun(blueprint, blueprintFolder, targetPath, { app: { name: 'demo' } }));
+
+    assert.equal(run.status, 'done');
+    assert.deepEqual(run.layers.map(layer => [layer.id, layer.status]), [['foundation', 'done'], ['api', 'done']]);
+    assert.deepEqual(run.layers[0].tasks[0].operations.map(op => op.files), [['README.md'], ['.gitignore'], ['src']]);
+    assert.equal(readFile(targetPath, 'README.md'), '# demo\n');
+    assert.equal(readFile(targetPath, 'src/server.ts'), 'export const name = \'demo\';\n');
+    assert.equal(run.pid, undefined);
+    assert.equal(log.mock.callCount(), 0, 'nothing is written to stdout, the JSON-RPC channel');
+    log.mock.restore();
+
+    assert.deepEqual(stateStore.load(targetPath, blueprint.id, run.runId).status, 'done');
+  });
+
+  it('stops at the first failed layer', async () => {
+    const { blueprintFolder, targetPath } = setup();
+    fs.rmSync(path.join(blueprintFolder, 'README.md.hbs'));
+
+    const run = await executor.run(executor.createRun(blueprint, blueprintFolder, targetPath, { app: { name: 'demo' } }));
+
+    assert.equal(run.status, 'failed');
+    assert.equal(run.layers[0].status, 'failed');
+    assert.match(run.layers[0].tasks[0].error ?? '', /^Operation 1 \(template -> README.md\) failed/);
+    assert.equal(run.layers[1].status, 'pending');
+    assert.equal(fs.existsSync(path.join(targetPath, 'src/server.ts')), false);
+  });
+
+  it('pauses between operations and resumes from the first incomplete one', async () => {
+    const { blueprintFolder, targetPath } = setup();
+    // Ask for a pause as soon as the first operation is done, as a concurrent tool call would
+    const pausingStore = new ExecutionStateStore();
+    const save = pausingStore.save.bind(pausingStore);
+    let requested = false;
+    pausingStore.save = (run: ExecutionRun) => {
+      save(run);
+      if (!requested && run.layers[0].tasks[0].operations[0].status === 'done') {
+        requested = true;
+        pausingStore.requestPause(run);
+      }
+    };
+    const pausing = createServices({ stateStore: pausingStore }).executor;
+
+    const paused = await pausing.run(pausing.createRun(blueprint, blueprintFolder, targetPath, { app: { name: 'demo' } }));
+
+    assert.equal(paused.status, 'paused');
+    assert.equal(paused.pid, undefined);
+    assert.deepEqual(paused.layers[0].tasks[0].operations.map(op => op.status), ['done', 'pending', 'pending']);
+    assert.equal(paused.layers[0].tasks[0].status, 'pending');
+    assert.equal(fs.existsSync(path.join(targetPath, '.gitignore')), false);
+
+    fs.writeFileSync(path.join(targetPath, 'README.md'), '# edited\n');
+    const resumed = await executor.run(stateStore.load(targetPath, blueprint.id, paused.runId));
+
+    assert.equal(resumed.status, 'done');
+    assert.equal(readFile(targetPath, 'README.md'), '# edited\n', 'completed operations are not re-run');
+    assert.equal(readFile(targetPath, '.gitignore'), 'node_modules/\n');
+  });
+
+  it('skips layers, tasks and operations whose when is false', async () => {
+    const { blueprintFolder, targetPath } = setup();
+    const conditional: BlueprintMetadata = {
+      ...blueprint,
+      layers: blueprint.layers.map(layer => layer.id === 'api' ? { ...layer, when: 'features.api' } : layer)
+    };
+
+    const run = await executor.run(executor.createRun(conditional, blueprintFolder, targetPath, { app: { name: 'demo' }, features: { api: false } }));
+
+    assert.equal(run.status, 'done');
+    assert.equal(run.layers[1].status, 'skipped');
+    assert.equal(run.layers[1].skipReason, 'when "features.api" is false');
+    assert.equal(fs.existsSync(path.join(targetPath, 'src/server.ts')), false);
+  });
+
+  it('lists skipped tasks and operations in plans, and reports when expressions that do not evaluate', async () => {
+    const { blueprintFolder, targetPath } = setup();
+    const conditional: BlueprintMetadata = {
+      ...blueprint,
+      layers: blueprint.layers.map(layer => ({
+        ...layer,
+        tasks: layer.tasks.map(task => task.id === 'server'
+          ? { ...task, when: 'features.api' }
+          : { ...task, operations: task.operations!.map((operation, index) => index === 1 ? { ...operation, when: "app.name == 'demo' &&" } : operation) })
+      }))
+    };
+
+    const plan = await executor.plan(conditional, blueprintFolder, targetPath, { app: { name: 'demo' }, features: { api: false } });
+
+    assert.deepEqual(plan.writes.map(({ write }) => write.path), ['README.md', 'src']);
+    assert.deepEqual(plan.skipped, ['Layer 2 / server: when "features.api" is false']);
+    assert.equal(plan.errors.length, 1);
+    assert.match(plan.errors[0], /^Layer 1 \/ setup: operation 2 \(append -> \.gitignore\): /);
+  });
+});
+
+describe('ExecutionStateStore', () => {
+  it('tells runs being executed from runs whose process is gone', () => {
+    const run = { status: 'running', pid: process.pid } as ExecutionRun;
+    assert.equal(stateStore.isActive(run), true);
+
+    const exited = spawnSync(process.execPath, ['-e', '']).pid;
+    assert.equal(stateStore.isActive({ ...run, pid: exited }), false);
+    assert.equal(stateStore.isActive({ ...run, status: 'paused' }), false);
+    assert.equal(stateStore.isActive({ ...run, pid: undefined }), false);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { BlueprintGarbageCollector, BlueprintRegistry } from '../src/tools/BlueprintGarbageCollector.js';
+import { tempDir, writeFiles } from './helpers.js';
+
+const collector = new BlueprintGarbageCollector();
+
+function blueprintJson(id: string): string {
+  return JSON.stringify({ id, name: id, version: '1.0.0', description: id, layers: [] });
+}
+
+function entry(projectPath: string): BlueprintRegistry[string] {
+  return { projectPath, createdAt: '2026-01-01T00:00:00.000Z' };
+}
+
+describe('BlueprintGarbageCollector', () => {
+  it('finds dangling registry entries', () => {
+    const projectPath = tempDir();
+    writeFiles(projectPath, { '.bluekit/blueprints/app/blueprint.json': blueprintJson('app') });
+    const registry: BlueprintRegistry = {
+      app: entry(projectPath),
+      moved: entry(path.join(projectPath, 'gone')),
+      deleted: entry(projectPath),
+      broken: {} as BlueprintRegistry[string]
+    };
+
+    const report = collector.scan(registry, []);
+
+    assert.deepEqual(report.scannedProjects, [projectPath]);
+    assert.equal(report.blueprintCount, 1);
+    assert.deepEqual(report.issues.map(issue => [issue.kind, issue.blueprintId, issue.detail, issue.unregister]), [
+      ['dangling', 'moved', `project ${path.join(projectPath, 'gone')} no longer exists`, true],
+      ['dangling', 'deleted', `no blueprint.json in ${path.join(projectPath, '.bluekit/blueprints/deleted')}`, true],
+      ['dangling', 'broken', 'registry entry has no projectPath', true]
+    ]);
+  });
+
+  it('finds unusable blueprint.json files and ids that do not match their folder', () => {
+    const projectPath = tempDir();
+    writeFiles(projectPath, {
+      '.bluekit/blueprints/syntax/blueprint.json': '{ "id": ',
+      '.bluekit/blueprints/array/blueprint.json': '[]',
+      '.bluekit/blueprints/partial/blueprint.json': '{"id":"partial"}',
+      '.bluekit/blueprints/empty/notes.md': '',
+      '.bluekit/blueprints/renamed/blueprint.json': blueprintJson('original')
+    });
+
+    const report = collector.scan({ syntax: entry(projectPath) }, []);
+
+    assert.deepEqual(report.issues.map(issue => [issue.kind, issue.blueprintId, issue.unregister]).sort(), [
+      ['id-mismatch', 'renamed', false],
+      ['unparseable', 'array', false],
+      ['unparseable', 'empty', false],
+      ['unparseable', 'partial', false],
+      ['unparseable', 'syntax', true]
+    ]);
+    const detail = (id: string) => report.issues.find(issue => issue.blueprintId === id)?.detail;
+    assert.match(detail('syntax')!, /^blueprint\.json does not parse: /);
+    assert.equal(detail('array'), 'blueprint.json is not an object');
+    assert.equal(detail('partial'), 'blueprint.json is not a blueprint (it needs an id and layers)');
+    assert.equal(detail('empty'), 'no blueprint.json');
+  });
+
+  it('reports the same blueprint ID in several projects', () => {
+    const first = tempDir();
+    const second = tempDir();
+    writeFiles(first, { '.bluekit/blueprints/app/blueprint.json': blueprintJson('app') });
+    writeFiles(second, { '.bluekit/blueprints/app/blueprint.json': blueprintJson('app') });
+
+    const [issue] = collector.scan({ app: entry(second) }, [first]).issues;
+
+    assert.equal(issue.kind, 'duplicate');
+    assert.equal(issue.folder, path.join(second, '.bluekit/blueprints/app'));
+    assert.match(issue.detail, /^found in 2 projects: .* \(the registry points to .*\)$/);
+    assert.match(collector.scan({}, [first, second]).issues[0].detail, /\(none is registered\)$/);
+  });
+
+  it('fixes only what unregistering fixes', () => {
+    const projectPath = tempDir();
+    writeFiles(projectPath, {
+      '.bluekit/blueprints/app/blueprint.json': blueprintJson('app'),
+      '.bluekit/blueprints/renamed/blueprint.json': blueprintJson('original')
+    });
+    const registry: BlueprintRegistry = {
+      app: entry(projectPath),
+      renamed: entry(projectPath),
+      moved: entry(path.join(projectPath, 'gone'))
+    };
+
+    const removed = collector.fix(registry, collector.scan(registry, []).issues);
+
+    assert.deepEqual(removed, ['moved']);
+    assert.deepEqual(Object.keys(registry), ['app', 'renamed']);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BlueprintHistory } from '../src/tools/BlueprintHistory.js';
+import { SemVer } from '../src/tools/SemVer.js';
+import { readFile, tempDir, writeFiles } from './helpers.js';
+
+const history = new BlueprintHistory(new SemVer());
+
+describe('BlueprintHistory', () => {
+  it('archives the blueprint folder without earlier versions or runs', () => {
+    const folder = tempDir();
+    writeFiles(folder, {
+      'blueprint.json': '{"version":"1.0.0"}',
+      'setup.md': '# Setup\n',
+      'templates/App.tsx.hbs': 'app',
+      'versions/0.9.0/blueprint.json': '{"version":"0.9.0"}',
+      'runs/run-1.json': '{}'
+    });
+
+    const archive = history.archive(folder, '1.0.0');
+
+    assert.equal(archive, path.join(folder, 'versions', '1.0.0'));
+    assert.deepEqual(fs.readdirSync(archive).sort(), ['blueprint.json', 'setup.md', 'templates']);
+    assert.equal(readFile(archive, 'templates/App.tsx.hbs'), 'app');
+  });
+
+  it('replaces an earlier archive of the same version', () => {
+    const folder = tempDir();
+    writeFiles(folder, { 'blueprint.json': '{}', 'versions/1.0.0/stale.md': 'stale' });
+
+    history.archive(folder, '1.0.0');
+
+    assert.deepEqual(fs.readdirSync(path.join(folder, 'versions', '1.0.0')), ['blueprint.json']);
+  });
+
+  it('lists archived versions oldest first, ignoring other folders', () => {
+    const folder = tempDir();
+    writeFiles(folder, {
+      'versions/1.10.0/blueprint.json': '{}',
+      'versions/1.2.0/blueprint.json': '{}',
+      'versions/1.2.0-beta.1/blueprint.json': '{}',
+      'versions/notes/readme.md': '',
+      'versions/2.0.0': 'not a folder'
+    });
+
+    assert.deepEqual(history.list(folder), ['1.2.0-beta.1', '1.2.0', '1.10.0']);
+    assert.deepEqual(history.list(tempDir()), []);
+  });
+});
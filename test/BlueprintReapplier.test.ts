@@ -0,0 +1,126 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BlueprintMetadata } from '../src/types.js';
+import { createServices, readFile, tempDir, writeFiles } from './helpers.js';
+
+const { executor, reapplier, manifestStore } = createServices();
+
+function readmeBlueprint(operations: NonNullable<BlueprintMetadata['layers'][number]['tasks'][number]['operations']>): BlueprintMetadata {
+  return {
+    id: 'readme',
+    name: 'Readme',
+    version: '1.0.0',
+    description: 'Writes a README',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    layers: [{
+      id: 'layer-1',
+      order: 1,
+      name: 'Docs',
+      tasks: [{ id: 'readme', taskFile: 'readme.md', description: 'README', operations }]
+    }]
+  };
+}
+
+/**
+ * Apply a blueprint to a fresh project
+ */
+async function apply(blueprint: BlueprintMetadata, templates: Record<string, string>, config: Record<string, unknown>) {
+  const blueprintFolder = tempDir();
+  const targetPath = tempDir();
+  writeFiles(blueprintFolder, templates);
+  const run = await executor.run(executor.createRun(blueprint, blueprintFolder, targetPath, config));
+  assert.equal(run.status, 'done');
+  return { blueprintFolder, targetPath };
+}
+
+async function reapply(blueprint: BlueprintMetadata, blueprintFolder: string, targetPath: string, config: Record<string, unknown>) {
+  const previous = manifestStore.load(targetPath, blueprint.id);
+  assert.ok(previous, 'the run recorded an applied manifest');
+  return reapplier.reapply(blueprint, blueprintFolder, targetPath, config, {}, previous, false);
+}
+
+describe('BlueprintReapplier', () => {
+  it('updates files that were not edited locally', async () => {
+    const blueprint = readmeBlueprint([{ type: 'template', source: 'README.md.hbs', destination: 'README.md' }]);
+    const templates = { 'README.md.hbs': '# {{app.name}}\n' };
+    const { blueprintFolder, targetPath } = await apply(blueprint, templates, { app: { name: 'one' } });
+
+    const result = await reapply(blueprint, blueprintFolder, targetPath, { app: { name: 'two' } });
+
+    assert.deepEqual(result.files.map(file => [file.path, file.action]), [['README.md', 'update']]);
+    assert.equal(readFile(targetPath, 'README.md'), '# two\n');
+  });
+
+  it('merges local edits with blueprint changes', async () => {
+    const blueprint = readmeBlueprint([{ type: 'template', source: 'README.md.hbs', destination: 'README.md' }]);
+    const templates = { 'README.md.hbs': '# {{app.name}}\n\nIntro\n\nUsage\n' };
+    const { blueprintFolder, targetPath } = await apply(blueprint, templates, { app: { name: 'one' } });
+    fs.appendFileSync(path.join(targetPath, 'README.md'), '\nLocal notes\n');
+
+    const result = await reapply(blueprint, blueprintFolder, targetPath, { app: { name: 'two' } });
+
+    assert.equal(result.files[0].action, 'merge');
+    assert.equal(readFile(targetPath, 'README.md'), '# two\n\nIntro\n\nUsage\n\nLocal notes\n');
+  });
+
+  it('merges against the rendering with in-place edits applied', async () => {
+    const blueprint = readmeBlueprint([
+      { type: 'template', source: 'README.md.hbs', destination: 'README.md' },
+      { type: 'append', content: '## License\n\nMIT\n', destination: 'README.md' }
+    ]);
+    const templates = { 'README.md.hbs': '# {{app.name}}\n\nIntro\n\n' };
+    const { blueprintFolder, targetPath } = await apply(blueprint, templates, { app: { name: 'one' } });
+    assert.equal(readFile(targetPath, 'README.md'), '# one\n\nIntro\n\n## License\n\nMIT\n');
+    fs.appendFileSync(path.join(targetPath, 'README.md'), '\nLocal notes\n');
+
+    const result = await reapply(blueprint, blueprintFolder, targetPath, { app: { name: 'two' } });
+
+    assert.deepEqual(result.files.map(file => [file.path, file.action]), [['README.md', 'merge']]);
+    assert.equal(readFile(targetPath, 'README.md'), '# two\n\nIntro\n\n## License\n\nMIT\n\nLocal notes\n');
+    assert.equal(
+      result.manifest.files['README.md'].content,
+      '# two\n\nIntro\n\n## License\n\nMIT\n',
+      'the new base is the edited rendering'
+    );
+  });
+
+  it('keeps a local edit when the blueprint output did not change', async () => {
+    const blueprint = readmeBlueprint([
+      { type: 'template', source: 'README.md.hbs', destination: 'README.md' },
+      { type: 'append', content: 'Footer\n', destination: 'README.md' }
+    ]);
+    const templates = { 'README.md.hbs': '# {{app.name}}\n' };
+    const { blueprintFolder, targetPath } = await apply(blueprint, templates, { app: { name: 'one' } });
+    fs.writeFileSync(path.join(targetPath, 'README.md'), '# mine\nFooter\n');
+
+    const result = await reapply(blueprint, blueprintFolder, targetPath, { app: { name: 'one' } });
+
+    assert.equal(result.files[0].action, 'kept');
+    assert.equal(readFile(targetPath, 'README.md'), '# mine\nFooter\n');
+  });
+
+  it('marks conflicting changes inline', async () => {
+    const blueprint = readmeBlueprint([{ type: 'template', source: 'README.md.hbs', destination: 'README.md' }]);
+    const templates = { 'README.md.hbs': '# {{app.name}}\n' };
+    const { blueprintFolder, targetPath } = await apply(blueprint, templates, { app: { name: 'one' } });
+    fs.writeFileSync(path.join(targetPath, 'README.md'), '# local\n');
+
+    const result = await reapply(blueprint, blueprintFolder, targetPath, { app: { name: 'two' } });
+
+    assert.equal(result.files[0].action, 'conflict');
+    assert.match(readFile(targetPath, 'README.md'), /<<<<<<< local\n# local\n=======\n# two\n>>>>>>> blueprint/);
+  });
+
+  it('does not recreate files deleted locally', async () => {
+    const blueprint = readmeBlueprint([{ type: 'template', source: 'README.md.hbs', destination: 'README.md' }]);
+    const { blueprintFolder, targetPath } = await apply(blueprint, { 'README.md.hbs': '# {{app.name}}\n' }, { app: { name: 'one' } });
+    fs.rmSync(path.join(targetPath, 'README.md'));
+
+    const result = await reapply(blueprint, blueprintFolder, targetPath, { app: { name: 'two' } });
+
+    assert.equal(result.files[0].action, 'deleted-locally');
+    assert.equal(fs.existsSync(path.join(targetPath, 'README.md')), false);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BlueprintLayer, BlueprintMetadata, BlueprintTask } from '../src/types.js';
+import { BlueprintInheritanceResolver, BlueprintLoader } from '../src/tools/BlueprintResolver.js';
+
+const resolver = new BlueprintInheritanceResolver();
+
+function task(id: string, description = id): BlueprintTask {
+  return { id, taskFile: `${id}.md`, description };
+}
+
+function blueprint(id: string, layers: BlueprintLayer[], fields: Partial<BlueprintMetadata> = {}): BlueprintMetadata {
+  return { id, name: id, version: '1.0.0', description: id, createdAt: '2026-01-01T00:00:00.000Z', layers, ...fields };
+}
+
+function loader(...blueprints: BlueprintMetadata[]): BlueprintLoader {
+  return (blueprintId: string) => {
+    const found = blueprints.find(candidate => candidate.id === blueprintId);
+    if (!found) {
+      throw new Error(`Blueprint "${blueprintId}" not found`);
+    }
+    return { blueprint: found, folder: `/blueprints/${blueprintId}` };
+  };
+}
+
+const base = blueprint('base', [
+  { id: 'foundation', order: 1, name: 'Foundation', tasks: [task('setup'), task('lint'), task('ci')] },
+  { id: 'api', order: 2, name: 'API', tasks: [task('server')] }
+], {
+  sourceReference: { type: 'local', path: '/src/base' },
+  disabledRules: ['rule-a'],
+  helperPacks: ['string'],
+  strictTemplates: true,
+  configSchema: {
+    type: 'object',
+    properties: { app: { type: 'object' }, port: { type: 'number' } },
+    required: ['app']
+  }
+});
+
+describe('BlueprintInheritanceResolver', () => {
+  it('merges layers by id, overriding, removing and adding tasks', () => {
+    const child = blueprint('web', [
+      {
+        id: 'foundation',
+        order: 1,
+        name: 'Project Foundation',
+        tasks: [task('setup', 'Setup with pnpm'), task('docker')],
+        remove: ['ci']
+      },
+      { id: 'ui', order: 2, name: 'UI', tasks: [task('pages')] }
+    ], { extends: 'base' });
+
+    const resolved = resolver.resolve(child, '/blueprints/web', loader(base));
+
+    assert.deepEqual(resolved.chain, ['base', 'web']);
+    assert.deepEqual(resolved.blueprint.layers.map(layer => [layer.order, layer.id, layer.name]), [
+      [1, 'foundation', 'Project Foundation'],
+      [2, 'api', 'API'],
+      [3, 'ui', 'UI']
+    ]);
+    const foundation = resolved.blueprint.layers[0];
+    assert.deepEqual(foundation.tasks.map(t => [t.id, t.description]), [
+      ['setup', 'Setup with pnpm'],
+      ['lint', 'lint'],
+      ['docker', 'docker']
+    ]);
+    assert.equal('remove' in foundation, false);
+    assert.deepEqual(resolved.taskOrigins, { setup: 'web', lint: 'base', server: 'base', docker: 'web', pages: 'web' });
+    assert.equal(resolved.taskFolders.lint, '/blueprints/base');
+    assert.equal(resolved.taskFolders.setup, '/blueprints/web');
+  });
+
+  it('merges config schemas and inherits blueprint settings', () => {
+    const child = blueprint('web', [], {
+      extends: 'base',
+      version: '3.0.0',
+      disabledRules: ['rule-b'],
+      helperPacks: ['string', 'date'],
+      configSchema: { type: 'object', properties: { port: { type: 'string' }, theme: { type: 'string' } }, required: ['theme'] }
+    });
+
+    const { blueprint: resolved } = resolver.resolve(child, '/blueprints/web', loader(base));
+
+    assert.equal(resolved.version, '3.0.0');
+    assert.deepEqual(resolved.sourceReference, { type: 'local', path: '/src/base' });
+    assert.deepEqual(resolved.disabledRules, ['rule-a', 'rule-b']);
+    assert.deepEqual(resolved.helperPacks, ['string', 'date']);
+    assert.equal(resolved.strictTemplates, true);
+    assert.deepEqual(resolved.configSchema, {
+      type: 'object',
+      properties: { app: { type: 'object' }, port: { type: 'string' }, theme: { type: 'string' } },
+      required: ['app', 'theme']
+    });
+  });
+
+  it('keeps the when of a layer that overrides an inherited one', () => {
+    const child = blueprint('web', [{ id: 'api', order: 2, name: 'API', tasks: [], when: 'features.api' }], { extends: 'base' });
+
+    const { blueprint: resolved } = resolver.resolve(child, '/blueprints/web', loader(base));
+
+    assert.equal(resolved.layers[1].when, 'features.api');
+    assert.deepEqual(resolved.layers[1].tasks.map(t => t.id), ['server']);
+  });
+
+  it('resolves multi-level chains and orders colliding layers ancestor first', () => {
+    // The middle blueprint's layers are renumbered before the leaf merges into them,
+    // so "jobs" (order 2) collides with "api" and lands before "data" (now 3)
+    const middle = blueprint('middle', [{ id: 'data', order: 2, name: 'Data', tasks: [task('models')] }], { extends: 'base' });
+    const child = blueprint('leaf', [{ id: 'jobs', order: 2, name: 'Jobs', tasks: [task('worker')] }], { extends: 'middle' });
+
+    const resolved = resolver.resolve(child, '/blueprints/leaf', loader(base, middle));
+
+    assert.deepEqual(resolved.chain, ['base', 'middle', 'leaf']);
+    assert.deepEqual(resolved.blueprint.layers.map(layer => [layer.order, layer.id]), [
+      [1, 'foundation'],
+      [2, 'api'],
+      [3, 'jobs'],
+      [4, 'data']
+    ]);
+    assert.equal(resolved.taskOrigins.models, 'middle');
+  });
+
+  it('rejects inheritance cycles', () => {
+    const a = blueprint('a', [], { extends: 'b' });
+    const b = blueprint('b', [], { extends: 'a' });
+
+    assert.throws(() => resolver.resolve(a, '/blueprints/a', loader(a, b)), /inheritance cycle detected: a → b → a/);
+  });
+});
@@ -0,0 +1,463 @@
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { BlueprintTools } from '../src/tools/BlueprintTools.js';
+import { BlueprintMetadata } from '../src/types.js';
+import { readFile, tempDir, writeFiles } from './helpers.js';
+
+const tools = new BlueprintTools();
+
+async function call(tool: string, params: Record<string, unknown>): Promise<string> {
+  const handler = tools.getToolHandler(tool);
+  assert.ok(handler, `${tool} is registered`);
+  const [content] = await handler(params);
+  return content.text;
+}
+
+/**
+ * A project holding one blueprint in .bluekit/blueprints
+ */
+function project(blueprint: Partial<BlueprintMetadata>, files: Record<string, string> = {}): string {
+  const projectPath = tempDir();
+  const folder = path.join('.bluekit', 'blueprints', 'app');
+  writeFiles(projectPath, {
+    [path.join(folder, 'blueprint.json')]: JSON.stringify({
+      id: 'app',
+      name: 'App',
+      version: '1.0.0',
+      description: 'App',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      layers: [],
+      ...blueprint
+    }),
+    ...Object.fromEntries(Object.entries(files).map(([file, content]) => [path.join(folder, file), content]))
+  });
+  return projectPath;
+}
+
+describe('BlueprintTools', () => {
+  const originalHome = process.env.HOME;
+  before(() => {
+    process.env.HOME = tempDir();
+  });
+  after(() => {
+    process.env.HOME = originalHome;
+  });
+  beforeEach(() => {
+    fs.rmSync(path.join(process.env.HOME!, '.bluekit', 'blueprintRegistry.json'), { force: true });
+  });
+
+  describe('bluekit_template_render', () => {
+    it('renders a template file with the blueprint partials and helper packs, writing nothing', async () => {
+      const projectPath = project({ helperPacks: ['string'] }, {
+        'templates/README.md.hbs': '{{> title}} ({{slug app.name}})\n',
+        'partials/title.hbs': '# {{app.name}}'
+      });
+      const files = fs.readdirSync(projectPath, { recursive: true });
+
+      const text = await call('bluekit_template_render', {
+        blueprintId: 'app',
+        projectPath,
+        source: 'templates/README.md.hbs',
+        config: { app: { name: 'My Shop' } }
+      });
+
+      assert.match(text, /Nothing was written/);
+      assert.match(text, /📄 README\.md\n─+\n# My Shop \(my-shop\)\n─+\n/);
+      assert.deepEqual(fs.readdirSync(projectPath, { recursive: true }), files);
+    });
+
+    it('renders inline templates once per each item', async () => {
+      const projectPath = project({});
+
+      const text = await call('bluekit_template_render', {
+        blueprintId: 'app',
+        projectPath,
+        template: '{{item.name}}',
+        destination: 'src/{{item.name}}.ts',
+        each: 'modules',
+        config: { modules: [{ name: 'users' }, { name: 'orders' }] }
+      });
+
+      assert.match(text, /📄 src\/users\.ts\n─+\nusers\n/);
+      assert.match(text, /📄 src\/orders\.ts\n─+\norders\n/);
+    });
+
+    it('fails on undefined variables in strict mode and validates its parameters', async () => {
+      const projectPath = project({ strictTemplates: true });
+
+      await assert.rejects(
+        call('bluekit_template_render', { blueprintId: 'app', projectPath, template: '{{app.nmae}}', config: { app: {} } }),
+        /Failed to render template: Template compilation failed in inline content: undefined variable "app\.nmae"/
+      );
+      assert.match(
+        await call('bluekit_template_render', { blueprintId: 'app', projectPath, template: '[{{app.nmae}}]', config: { app: {} }, strict: false }),
+        /\n\[\]\n/
+      );
+      await assert.rejects(
+        call('bluekit_template_render', { blueprintId: 'app', projectPath, template: 'x', source: 'y.hbs', config: {} }),
+        /Provide either source \(a template file\) or template \(an inline template\)/
+      );
+    });
+  });
+
+  describe('bluekit_blueprint_execute', () => {
+    before(() => {
+      mock.method(console, 'error', () => {});
+    });
+    after(() => {
+      mock.restoreAll();
+    });
+
+    const executable = () => project({
+      configSchema: { type: 'object', properties: { app: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] } }, required: ['app'] },
+      layers: [
+        { id: 'foundation', order: 1, name: 'Foundation', tasks: [{ id: 'setup', taskFile: 'setup.md', description: 'Setup', operations: [{ type: 'copy', source: 'gitignore', destination: '.gitignore' }] }] },
+        { id: 'docs', order: 2, name: 'Docs', tasks: [{ id: 'readme', taskFile: 'readme.md', description: 'Readme', operations: [{ type: 'template', source: 'README.md.hbs', destination: 'README.md' }] }] }
+      ]
+    }, { 'setup.md': '# Setup\n', 'readme.md': '# Readme\n', 'gitignore': 'node_modules/\n', 'README.md.hbs': '# {{app.name}}\n' });
+
+    it('runs every layer against the target and reports what each operation wrote', async () => {
+      const projectPath = executable();
+      const targetPath = path.join(tempDir(), 'shop');
+
+      const text = await call('bluekit_blueprint_execute', { blueprintId: 'app', projectPath, targetPath, config: { app: { name: 'Shop' } } });
+
+      assert.match(text, /^✅ Blueprint executed successfully!\n/);
+      assert.match(text, /✅ Layer 1: Foundation \(foundation\)\n {2}✅ setup \(setup\.md\)\n {6}✅ copy -> \.gitignore\n {10}\.gitignore\n/);
+      assert.match(text, /✅ Layer 2: Docs \(docs\)\n {2}✅ readme \(readme\.md\)\n {6}✅ template -> README\.md\n {10}README\.md\n/);
+      assert.equal(readFile(targetPath, 'README.md'), '# Shop\n');
+      assert.equal(readFile(targetPath, '.gitignore'), 'node_modules/\n');
+
+      const runId = text.match(/Run ID: (\S+)/)![1];
+      assert.match(await call('bluekit_blueprint_getRun', { blueprintId: 'app', targetPath }), new RegExp(`- ${runId} \\[done\\]`));
+    });
+
+    it('validates the config against the blueprint config schema before writing anything', async () => {
+      const projectPath = executable();
+      const targetPath = path.join(tempDir(), 'shop');
+
+      await assert.rejects(
+        call('bluekit_blueprint_execute', { blueprintId: 'app', projectPath, targetPath, config: { app: {} } }),
+        /Configuration does not match blueprint "app" config schema:\n {2}- \/app: must have required property 'name'/
+      );
+      assert.equal(fs.existsSync(targetPath), false);
+    });
+
+    it('previews the changes with diffs in a dry run, writing nothing', async () => {
+      const projectPath = executable();
+      const targetPath = tempDir();
+      writeFiles(targetPath, { 'README.md': '# Old\n' });
+
+      const text = await call('bluekit_blueprint_execute', { blueprintId: 'app', projectPath, targetPath, config: { app: { name: 'Shop' } }, dryRun: true });
+
+      assert.match(text, /📋 Files: 1 to create, 1 to modify, 0 unchanged, 0 skipped/);
+      assert.match(text, /🆕 create {4}\.gitignore {2}\[Layer 1 \/ setup\]\n/);
+      assert.match(text, /-# Old\n\+# Shop\n/);
+      assert.equal(readFile(targetPath, 'README.md'), '# Old\n');
+      assert.equal(fs.existsSync(path.join(targetPath, '.gitignore')), false);
+    });
+
+    it('rolls back a layer, which runs again on resume', async () => {
+      const projectPath = executable();
+      const targetPath = path.join(tempDir(), 'shop');
+      const executed = await call('bluekit_blueprint_execute', { blueprintId: 'app', projectPath, targetPath, config: { app: { name: 'Shop' } } });
+      const runId = executed.match(/Run ID: (\S+)/)![1];
+
+      const text = await call('bluekit_blueprint_rollback', { blueprintId: 'app', targetPath, runId, layerId: 'docs' });
+
+      assert.match(text, /Rolled back layer "docs" of run/);
+      assert.match(text, /Files removed: 1\n {2}- README\.md\n/);
+      assert.equal(fs.existsSync(path.join(targetPath, 'README.md')), false);
+      assert.equal(readFile(targetPath, '.gitignore'), 'node_modules/\n');
+
+      await call('bluekit_blueprint_resume', { blueprintId: 'app', targetPath, runId });
+      assert.equal(readFile(targetPath, 'README.md'), '# Shop\n');
+    });
+
+    it('rolls back a run left running by a process that has exited, but not one still executing', async () => {
+      const projectPath = executable();
+      const targetPath = path.join(tempDir(), 'shop');
+      const executed = await call('bluekit_blueprint_execute', { blueprintId: 'app', projectPath, targetPath, config: { app: { name: 'Shop' } } });
+      const runId = executed.match(/Run ID: (\S+)/)![1];
+      const runFile = path.join(targetPath, '.bluekit', 'blueprints', 'app', 'runs', `${runId}.json`);
+      const markRunning = (pid: number) =>
+        fs.writeFileSync(runFile, JSON.stringify({ ...JSON.parse(fs.readFileSync(runFile, 'utf-8')), status: 'running', pid }));
+
+      markRunning(process.pid);
+      await assert.rejects(
+        call('bluekit_blueprint_rollback', { blueprintId: 'app', targetPath, runId }),
+        /is still running\. Pause it with bluekit_blueprint_pause before rolling back/
+      );
+
+      markRunning(spawnSync(process.execPath, ['-e', '']).pid);
+      assert.match(await call('bluekit_blueprint_rollback', { blueprintId: 'app', targetPath, runId }), /Rolled back run/);
+      assert.equal(fs.existsSync(path.join(targetPath, 'README.md')), false);
+    });
+  });
+
+  describe('blueprint validation', () => {
+    const valid = {
+      id: 'app',
+      name: 'App',
+      version: '1.0.0',
+      description: 'App',
+      layers: [{
+        id: 'foundation',
+        order: 1,
+        name: 'Foundation',
+        tasks: [{ id: 'setup', taskFile: 'setup.md', description: 'Setup', operations: [{ type: 'mkdir', destination: 'src' }] }]
+      }]
+    };
+    const generate = (blueprint: unknown, tasks: Record<string, unknown> = { 'setup.md': '# Setup\n' }) =>
+      call('bluekit_blueprint_generateBlueprint', { projectPath: tempDir(), blueprint, tasks, dryRun: true });
+
+    it('accepts a valid blueprint', async () => {
+      assert.doesNotMatch(await generate(valid), /invalid/);
+    });
+
+    it('reports every schema problem at once, by JSON pointer', async () => {
+      const blueprint = structuredClone(valid) as any;
+      blueprint.version = 'one';
+      blueprint.layers[0].tasks[0].operations[0].sourcee = 'x';
+
+      await assert.rejects(generate(blueprint), (error: Error) => {
+        assert.match(error.message, /^Blueprint is invalid \(2 problems, schema: /);
+        assert.match(error.message, /\n {2}- \/version: must be a semantic version like "1\.2\.0"/);
+        assert.match(error.message, /\n {2}- \/layers\/0\/tasks\/0\/operations\/0: unknown property "sourcee"/);
+        return true;
+      });
+    });
+
+    it('checks what the schema cannot express', async () => {
+      const blueprint = structuredClone(valid) as any;
+      blueprint.configSchema = { type: 'object', properties: { name: { type: 'nope' } } };
+      blueprint.layers[0].when = 'ui.theme ==';
+      blueprint.layers[0].tasks[0].taskFile = 'other.md';
+      blueprint.sourceReference = { type: 'local', path: '.', preservePaths: ['assets', '../secrets', '/etc/passwd'] };
+
+      await assert.rejects(generate(blueprint), (error: Error) => {
+        assert.match(error.message, /- \/configSchema: is not a valid JSON Schema/);
+        assert.doesNotMatch(error.message, /preservePaths\/0/);
+        assert.match(error.message, /- \/sourceReference\/preservePaths\/1: must be a path relative to the source, without "\.\."/);
+        assert.match(error.message, /- \/sourceReference\/preservePaths\/2: must be a path relative to the source/);
+        assert.match(error.message, /- \/layers\/0\/when: Invalid expression "ui\.theme =="/);
+        assert.match(error.message, /- \/layers\/0\/tasks\/0\/taskFile: task file "other\.md" is not provided in the tasks object/);
+        return true;
+      });
+    });
+
+    it('checks task file names and front matter', async () => {
+      await assert.rejects(
+        generate(valid, { 'setup.md': '---\ntype: kit\n---\n# Setup\n', '../escape.md': '# x\n', 'broken.md': '---\ntype: [\n---\n' }),
+        (error: Error) => {
+          assert.match(error.message, /- tasks\["setup\.md"\] front matter\/type: must be equal to constant: "task"/);
+          assert.match(error.message, /- tasks\["\.\.\/escape\.md"\]: must be a plain file name/);
+          assert.match(error.message, /- tasks\["broken\.md"\] front matter: is not valid YAML/);
+          return true;
+        }
+      );
+    });
+  });
+
+  describe('bluekit_blueprint_delete', () => {
+    const registryPath = () => path.join(process.env.HOME!, '.bluekit', 'blueprintRegistry.json');
+    const register = (registry: Record<string, string>) => writeFiles(process.env.HOME!, {
+      '.bluekit/blueprintRegistry.json': JSON.stringify(Object.fromEntries(
+        Object.entries(registry).map(([id, projectPath]) => [id, { projectPath, createdAt: '2026-01-01T00:00:00.000Z' }])
+      ))
+    });
+    const folder = (projectPath: string) => path.join(projectPath, '.bluekit', 'blueprints', 'app');
+
+    it('deletes the folder with its versions and runs, and the registry entry pointing to it', async () => {
+      const projectPath = project({}, { 'versions/0.9.0/blueprint.json': '{}', 'runs/run-1.json': '{}' });
+      register({ app: projectPath });
+
+      const preview = await call('bluekit_blueprint_delete', { blueprintId: 'app', dryRun: true });
+      assert.match(preview, /Folder: .* \(with 1 archived version and 1 execution run\)/);
+      assert.equal(fs.existsSync(folder(projectPath)), true);
+
+      const text = await call('bluekit_blueprint_delete', { blueprintId: 'app' });
+
+      assert.match(text, /Global registry entry -> /);
+      assert.equal(fs.existsSync(folder(projectPath)), false);
+      assert.deepEqual(JSON.parse(fs.readFileSync(registryPath(), 'utf8')), {});
+    });
+
+    it('keeps a registry entry that points to another project', async () => {
+      const projectPath = project({});
+      const registered = project({});
+      register({ app: registered });
+
+      const text = await call('bluekit_blueprint_delete', { blueprintId: 'app', projectPath });
+
+      assert.match(text, /points to another project .* and was kept/);
+      assert.equal(fs.existsSync(folder(projectPath)), false);
+      assert.equal(fs.existsSync(folder(registered)), true);
+      assert.deepEqual(Object.keys(JSON.parse(fs.readFileSync(registryPath(), 'utf8'))), ['app']);
+    });
+
+    it('refuses to delete a blueprint others extend unless forced', async () => {
+      const projectPath = project({});
+      writeFiles(projectPath, {
+        '.bluekit/blueprints/child/blueprint.json': JSON.stringify({ id: 'child', extends: 'app', layers: [] })
+      });
+
+      await assert.rejects(
+        call('bluekit_blueprint_delete', { blueprintId: 'app', projectPath }),
+        /Blueprint "app" is extended by: child\. Delete or update those first, or pass force: true\./
+      );
+      await call('bluekit_blueprint_delete', { blueprintId: 'app', projectPath, force: true });
+      assert.equal(fs.existsSync(folder(projectPath)), false);
+    });
+
+    it('validates what to delete', async () => {
+      await assert.rejects(call('bluekit_blueprint_delete', { blueprintId: '../app' }), /blueprintId must be a plain name/);
+      await assert.rejects(call('bluekit_blueprint_delete', { blueprintId: 'app', target: 'registry' }), /is not in the global registry/);
+      await assert.rejects(call('bluekit_blueprint_delete', { blueprintId: 'app', target: 'folder' }), /projectPath is required/);
+      await assert.rejects(call('bluekit_blueprint_delete', { blueprintId: 'app', projectPath: tempDir() }), /Blueprint with ID "app" not found/);
+    });
+  });
+
+  describe('bluekit_blueprint_gc', () => {
+    it('reports, then unregisters, dangling entries', async () => {
+      const projectPath = project({});
+      writeFiles(process.env.HOME!, {
+        '.bluekit/blueprintRegistry.json': JSON.stringify({
+          app: { projectPath, createdAt: '2026-01-01T00:00:00.000Z' },
+          gone: { projectPath: path.join(projectPath, 'missing'), createdAt: '2026-01-01T00:00:00.000Z' }
+        })
+      });
+
+      const report = await call('bluekit_blueprint_gc', {});
+      assert.match(report, /1 problem found\nScanned: 2 registry entries, 1 blueprint folder in 1 project\n/);
+      assert.match(report, /- gone: project .* no longer exists \(fixable: unregister\)/);
+
+      const fixed = await call('bluekit_blueprint_gc', { fix: true });
+      assert.match(fixed, /- gone: .* → unregistered/);
+      assert.match(fixed, /Removed 1 registry entry/);
+      assert.deepEqual(Object.keys(JSON.parse(readFile(process.env.HOME!, '.bluekit/blueprintRegistry.json'))), ['app']);
+    });
+  });
+
+  describe('bundles', () => {
+    it('exports a blueprint and imports it into another project, resolving ID collisions', async () => {
+      const source = project({}, { 'partials/header.hbs': '// header' });
+      const bundlePath = path.join(source, 'app-1.0.0.tar.gz');
+      assert.match(await call('bluekit_blueprint_export', { blueprintId: 'app', projectPath: source }), /Files: 2\n/);
+      assert.equal(fs.existsSync(bundlePath), true);
+      const projectPath = tempDir();
+
+      assert.match(await call('bluekit_blueprint_import', { bundlePath, projectPath }), /Verified: 2 files match the manifest/);
+      await assert.rejects(
+        call('bluekit_blueprint_import', { bundlePath, projectPath }),
+        /Cannot import "app": .* already exists\. Pass id to import it under another ID/
+      );
+      const renamed = await call('bluekit_blueprint_import', { bundlePath, projectPath, onCollision: 'rename', saveToGlobal: true });
+
+      assert.match(renamed, /Blueprint ID: app-2 \(renamed from app\)/);
+      const folder = path.join(projectPath, '.bluekit/blueprints/app-2');
+      assert.equal(JSON.parse(readFile(folder, 'blueprint.json')).id, 'app-2');
+      assert.equal(readFile(folder, 'partials/header.hbs'), '// header');
+      assert.equal(JSON.parse(readFile(process.env.HOME!, '.bluekit/blueprintRegistry.json'))['app-2'].projectPath, projectPath);
+    });
+
+    it('writes nothing when the bundle fails verification', async () => {
+      const bundlePath = path.join(tempDir(), 'broken.tar.gz');
+      fs.writeFileSync(bundlePath, 'not a bundle');
+      const projectPath = tempDir();
+
+      await assert.rejects(call('bluekit_blueprint_import', { bundlePath, projectPath }), /Not a blueprint bundle/);
+      assert.deepEqual(fs.readdirSync(projectPath), []);
+    });
+  });
+
+  describe('bluekit_blueprint_diff', () => {
+    it('returns a summary and the same comparison as JSON', async () => {
+      const layers = (name: string) => [{ id: 'foundation', order: 1, name, tasks: [{ id: 'setup', taskFile: 'setup.md', description: 'Setup' }] }];
+      const left = project({ layers: layers('Foundation') }, { 'setup.md': '# Setup\n' });
+      const right = project({ version: '1.1.0', layers: layers('Base') }, { 'setup.md': '# Set up\n' });
+
+      const [summary, json] = await tools.getToolHandler('bluekit_blueprint_diff')!({
+        left: { blueprintId: 'app', projectPath: left },
+        right: { path: path.join(right, '.bluekit/blueprints/app/blueprint.json') }
+      });
+
+      assert.match(summary.text, /^🔀 Blueprint diff: app@1\.0\.0 → app@1\.1\.0 \(.*\)\n/);
+      const result = JSON.parse(json.text);
+      assert.deepEqual(result.metadata, [{ field: 'version', left: '1.0.0', right: '1.1.0' }]);
+      assert.deepEqual(result.layers.changed, [{ id: 'foundation', changes: [{ field: 'name', left: 'Foundation', right: 'Base' }] }]);
+      assert.match(result.taskFiles[0].diff, /-# Setup\n\+# Set up\n/);
+    });
+
+    it('compares archived versions and names the ones it has', async () => {
+      const projectPath = project({}, { 'versions/0.9.0/blueprint.json': JSON.stringify({ id: 'app', version: '0.9.0', layers: [] }) });
+
+      const text = await call('bluekit_blueprint_diff', {
+        projectPath,
+        left: { blueprintId: 'app', version: '0.9' },
+        right: { blueprintId: 'app', version: '1.0.0' }
+      });
+
+      assert.match(text, /app@0\.9\.0 → app@1\.0\.0/);
+      await assert.rejects(
+        call('bluekit_blueprint_diff', { projectPath, left: { blueprintId: 'app', version: '0.5.0' }, right: { blueprintId: 'app' } }),
+        /left: version 0\.5\.0 of "app" not found \(current: 1\.0\.0; archived: 0\.9\.0\)/
+      );
+      await assert.rejects(
+        call('bluekit_blueprint_diff', { projectPath, left: { blueprintId: 'app', path: projectPath }, right: { blueprintId: 'app' } }),
+        /left must have either blueprintId or path/
+      );
+    });
+  });
+
+  describe('versioning', () => {
+    before(() => {
+      mock.method(console, 'error', () => {});
+    });
+    after(() => {
+      mock.restoreAll();
+    });
+
+    const definition = (version: string, taskFile: string) => ({
+      id: 'app',
+      name: 'App',
+      version,
+      description: 'App',
+      layers: [{ id: 'foundation', order: 1, name: 'Foundation', tasks: [{ id: 'setup', taskFile, description: 'Setup' }] }]
+    });
+    const generate = (projectPath: string, version: string, taskFile = 'setup.md', overwrite = false) =>
+      call('bluekit_blueprint_generateBlueprint', {
+        projectPath,
+        blueprint: definition(version, taskFile),
+        tasks: { [taskFile]: `# Setup ${version}\n` },
+        overwrite
+      });
+
+    it('refuses to replace the same or a newer version unless told to', async () => {
+      const projectPath = tempDir();
+      await generate(projectPath, '1.0.0');
+
+      await assert.rejects(generate(projectPath, '1.0.0'), /Blueprint "app" version 1\.0\.0 already exists at .*Bump blueprint\.version/);
+      await assert.rejects(generate(projectPath, '0.9.0'), /already at version 1\.0\.0, which is newer than 0\.9\.0/);
+      await generate(projectPath, '1.0.0', 'setup.md', true);
+      assert.equal(fs.existsSync(path.join(projectPath, '.bluekit/blueprints/app/versions')), false);
+    });
+
+    it('archives the previous version and drops task files the new one no longer has', async () => {
+      const projectPath = tempDir();
+      const folder = path.join(projectPath, '.bluekit/blueprints/app');
+      await generate(projectPath, '1.0.0');
+
+      await generate(projectPath, '1.1.0', 'install.md');
+
+      assert.equal(JSON.parse(readFile(folder, 'blueprint.json')).version, '1.1.0');
+      assert.equal(fs.existsSync(path.join(folder, 'setup.md')), false);
+      assert.match(readFile(folder, 'install.md'), /# Setup 1\.1\.0/);
+      assert.equal(JSON.parse(readFile(folder, 'versions/1.0.0/blueprint.json')).version, '1.0.0');
+      assert.match(readFile(folder, 'versions/1.0.0/setup.md'), /# Setup 1\.0\.0/);
+    });
+  });
+});
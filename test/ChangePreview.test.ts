@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { ChangePreview } from '../src/tools/ChangePreview.js';
+import { PlannedWrite } from '../src/tools/FileOperations.js';
+import { StructuredMerge } from '../src/tools/StructuredMerge.js';
+import { TextDiff } from '../src/tools/TextDiff.js';
+import { tempDir, writeFiles } from './helpers.js';
+
+function write(targetPath: string, file: string, fields: Partial<PlannedWrite>): PlannedWrite {
+  return { path: file, absolutePath: path.join(targetPath, file), onConflict: 'overwrite', description: file, ...fields };
+}
+
+describe('ChangePreview', () => {
+  it('previews writes on top of earlier ones and lists every origin of a path', () => {
+    const targetPath = tempDir();
+    const preview = new ChangePreview(new TextDiff(), new StructuredMerge());
+
+    preview.add(write(targetPath, 'README.md', { content: '# demo\n' }), 'Layer 1 / readme');
+    preview.add(write(targetPath, 'src/index.ts', { content: 'export {};\n' }), 'Layer 1 / readme');
+    preview.add(write(targetPath, 'README.md', { edit: existing => `${existing}\nMIT\n` }), 'Layer 2 / license');
+
+    assert.deepEqual(preview.getChanges(), [
+      { path: 'README.md', action: 'create', origins: ['Layer 1 / readme', 'Layer 2 / license'] },
+      { path: 'src/index.ts', action: 'create', origins: ['Layer 1 / readme'] }
+    ]);
+  });
+
+  it('diffs existing files and keeps them under the skip policy', () => {
+    const targetPath = tempDir();
+    writeFiles(targetPath, { 'a.txt': 'one\n', 'b.txt': 'mine\n', 'c.txt': 'same\n' });
+    const preview = new ChangePreview(new TextDiff(), new StructuredMerge());
+
+    preview.add(write(targetPath, 'a.txt', { content: 'two\n' }), 'Layer 1 / a');
+    preview.add(write(targetPath, 'b.txt', { content: 'theirs\n', onConflict: 'skip' }), 'Layer 1 / b');
+    preview.add(write(targetPath, 'c.txt', { content: 'same\n' }), 'Layer 1 / c');
+
+    const [modified, skipped, unchanged] = preview.getChanges();
+    assert.equal(modified.action, 'modify');
+    assert.match(modified.diff ?? '', /-one\n\+two/);
+    assert.deepEqual(skipped, { path: 'b.txt', action: 'skip', policy: 'skip', origins: ['Layer 1 / b'] });
+    assert.equal(unchanged.action, 'unchanged');
+  });
+
+  it('reports binary changes without a diff', () => {
+    const targetPath = tempDir();
+    const source = tempDir();
+    writeFiles(targetPath, { 'logo.png': 'old' });
+    writeFiles(source, { 'logo.png': 'new\0' });
+    const preview = new ChangePreview(new TextDiff(), new StructuredMerge());
+
+    const change = preview.add(write(targetPath, 'logo.png', { sourceFile: path.join(source, 'logo.png') }));
+
+    assert.deepEqual(change, { path: 'logo.png', action: 'modify', binary: true, policy: 'overwrite' });
+  });
+
+  it('merges JSON under the merge policy', () => {
+    const targetPath = tempDir();
+    writeFiles(targetPath, { 'package.json': '{ "name": "demo", "scripts": { "dev": "vite" } }\n' });
+    const preview = new ChangePreview(new TextDiff(), new StructuredMerge());
+
+    const change = preview.add(
+      write(targetPath, 'package.json', { content: '{ "scripts": { "build": "tsc" } }\n', onConflict: 'merge' }),
+      'Layer 1 / scripts'
+    );
+
+    assert.equal(change.action, 'modify');
+    assert.match(change.diff ?? '', /"build": "tsc"/);
+    assert.match(change.diff ?? '', /^\+ +"dev": "vite",$/m, 'existing keys are kept');
+  });
+});
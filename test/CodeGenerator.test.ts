@@ -0,0 +1,107 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CodeGenerator, GenerationRequest } from '../src/tools/CodeGenerator.js';
+import { createServices, readFile, tempDir, writeFiles } from './helpers.js';
+
+/**
+ * A server whose client declares sampling (or not) and answers every
+ * sampling request with the given text
+ */
+function fakeServer(reply: string | null, sampling = true) {
+  const createMessage = mock.fn(async () => ({ role: 'assistant', model: 'test-model', content: { type: 'text', text: reply } }));
+  const server = {
+    getClientCapabilities: () => (sampling ? { sampling: {} } : {}),
+    createMessage
+  } as unknown as Server;
+  return { server, createMessage };
+}
+
+const request: GenerationRequest = {
+  destination: 'src/users.ts',
+  config: { module: 'users' },
+  taskMarkdown: '# Users module\n\nCreate the users service.\n',
+  kits: [{ name: 'style', content: 'Use named exports.\n' }]
+};
+
+describe('CodeGenerator', () => {
+  it('is unavailable without a server or when the client cannot sample', async () => {
+    const generator = new CodeGenerator();
+    assert.equal(generator.isAvailable(), false);
+
+    generator.setServer(fakeServer('x', false).server);
+    assert.equal(generator.isAvailable(), false);
+    await assert.rejects(generator.generate(request), /does not support sampling/);
+  });
+
+  it('sends the task, config and kits, and strips a code fence around the reply', async () => {
+    const generator = new CodeGenerator();
+    const { server, createMessage } = fakeServer('```ts\nexport const users = [];\n```');
+    generator.setServer(server);
+
+    const generated = await generator.generate(request);
+
+    assert.deepEqual(generated, { content: 'export const users = [];', model: 'test-model' });
+    const [params] = createMessage.mock.calls[0].arguments as unknown as [{ messages: Array<{ content: { text: string } }> }];
+    const prompt = params.messages[0].content.text;
+    assert.match(prompt, /^Write the file `src\/users\.ts`\./);
+    assert.match(prompt, /## Task\n\n# Users module\n\nCreate the users service\./);
+    assert.match(prompt, /"module": "users"/);
+    assert.match(prompt, /## Kit: style\n\nUse named exports\./);
+  });
+
+  it('fails on an empty reply', async () => {
+    const generator = new CodeGenerator();
+    generator.setServer(fakeServer('  \n').server);
+
+    await assert.rejects(generator.generate(request), /Failed to generate src\/users\.ts: the model returned no text/);
+  });
+
+  describe('generate operations', () => {
+    before(() => {
+      mock.method(console, 'error', () => {});
+    });
+    after(() => {
+      mock.restoreAll();
+    });
+
+    it('write what the model returns, with the task file and kits as context', async () => {
+      const { fileOps, codeGenerator } = createServices();
+      const { server, createMessage } = fakeServer('export const users = [];\n');
+      codeGenerator.setServer(server);
+      const sourcePath = tempDir();
+      const targetPath = tempDir();
+      writeFiles(sourcePath, { 'tasks/users.md': '# Users\n' });
+      writeFiles(targetPath, { '.bluekit/kits/style.md': 'Use named exports.\n' });
+
+      const result = await fileOps.execute(
+        { type: 'generate', destination: 'src/{{module}}.ts', kits: ['style'] },
+        { module: 'users' }, sourcePath, targetPath, undefined, undefined, undefined, 'tasks/users.md'
+      );
+
+      assert.deepEqual(result.aiGenerated, [{ path: 'src/users.ts', model: 'test-model' }]);
+      assert.equal(readFile(targetPath, 'src/users.ts'), 'export const users = [];\n');
+      const [params] = createMessage.mock.calls[0].arguments as unknown as [{ messages: Array<{ content: { text: string } }> }];
+      assert.match(params.messages[0].content.text, /## Task\n\n# Users[\s\S]*## Kit: style/);
+    });
+
+    it('write a placeholder when the client cannot sample, and never sample in plans', async () => {
+      const { fileOps, codeGenerator } = createServices();
+      const { server, createMessage } = fakeServer('unused', false);
+      codeGenerator.setServer(server);
+      const sourcePath = tempDir();
+      const targetPath = tempDir();
+
+      const result = await fileOps.execute({ type: 'generate', destination: 'src/app.ts' }, {}, sourcePath, targetPath);
+      await fileOps.plan({ type: 'generate', destination: 'src/app.ts' }, {}, sourcePath, targetPath);
+
+      assert.deepEqual(result.placeholders, ['src/app.ts']);
+      assert.match(readFile(targetPath, 'src/app.ts'), /^\/\/ TODO: AI-generated code for src\/app\.ts/);
+      assert.equal(createMessage.mock.callCount(), 0);
+      await assert.rejects(
+        fileOps.plan({ type: 'generate', destination: 'x.ts', kits: ['../secrets'] }, {}, sourcePath, targetPath),
+        /kits entry must be a plain name/
+      );
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConfigExpression } from '../src/tools/ConfigExpression.js';
+
+const expression = new ConfigExpression();
+
+const config = {
+  app: { name: 'demo', port: 8080 },
+  ui: { theme: null },
+  contentTypes: [{ name: 'post', fields: [{ name: 'title' }] }, { name: 'page' }],
+  features: { auth: true }
+};
+
+describe('ConfigExpression', () => {
+  it('looks up dotted paths, indexes, quoted keys and lengths', () => {
+    assert.equal(expression.evaluate('app.name', config), 'demo');
+    assert.equal(expression.evaluate("contentTypes[0]['name']", config), 'post');
+    assert.equal(expression.evaluate('contentTypes[0].fields.length', config), 1);
+    assert.equal(expression.evaluate('app.name.length', config), 4);
+    assert.equal(expression.evaluate('missing.deeply.nested', config), undefined);
+  });
+
+  it('does not reach inherited properties', () => {
+    assert.equal(expression.evaluate('app.constructor', config), undefined);
+    assert.equal(expression.evaluate('toString', config), undefined);
+  });
+
+  it('treats null and undefined as equal, and compares everything else strictly', () => {
+    assert.equal(expression.test('ui.theme == null', config), true);
+    assert.equal(expression.test('ui.missing == undefined', config), true);
+    assert.equal(expression.test('app.port == "8080"', config), false);
+    assert.equal(expression.test("app.name != 'demo'", config), false);
+  });
+
+  it('compares numbers and strings', () => {
+    assert.equal(expression.test('contentTypes.length > 1', config), true);
+    assert.equal(expression.test('app.port <= 8079', config), false);
+    assert.equal(expression.test("app.name < 'e'", config), true);
+    assert.equal(expression.test('missing < 1 || missing >= 1', config), false, 'undefined cannot be ordered');
+    assert.equal(expression.test('ui.theme < 1 || ui.theme >= 0', config), false, 'null cannot be ordered');
+    assert.equal(expression.test("app.port < '9000' || app.port >= '0'", config), false, 'a number and a string cannot be ordered');
+    assert.equal(expression.test('features.auth > 0 || features.auth <= 1', config), false, 'booleans cannot be ordered');
+  });
+
+  it('does arithmetic and concatenation', () => {
+    assert.equal(expression.evaluate('app.port + 1', config), 8081);
+    assert.equal(expression.evaluate("app.name + '-' + app.port", config), 'demo-8080');
+    assert.equal(expression.evaluate('(2 + 3) * 4 % 6', config), 2);
+    assert.equal(expression.evaluate('-app.port / 2', config), -4040);
+  });
+
+  it('combines conditions with ! && || and parentheses', () => {
+    assert.equal(expression.test('features.auth && !features.billing', config), true);
+    assert.equal(expression.test('!(features.auth || features.billing)', config), false);
+  });
+
+  it('rejects malformed expressions', () => {
+    assert.throws(() => expression.parse('app.'), /expected a property name/);
+    assert.throws(() => expression.parse('a = 1'), /unexpected character "="/);
+    assert.throws(() => expression.parse('(a'), /expected "\)"/);
+    assert.throws(() => expression.parse('  '), /it is empty/);
+  });
+});
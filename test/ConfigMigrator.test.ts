@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConfigMigrator } from '../src/tools/ConfigMigrator.js';
+import { ConfigPath } from '../src/tools/ConfigPath.js';
+import { SemVer } from '../src/tools/SemVer.js';
+import { BlueprintMigration } from '../src/types.js';
+
+const migrator = new ConfigMigrator(new ConfigPath(), new SemVer());
+
+describe('ConfigMigrator', () => {
+  it('runs the migrations between two versions in version order', () => {
+    const migrations: BlueprintMigration[] = [
+      { version: '2.0.0', transforms: [{ op: 'rename', path: 'database.connectionString', to: 'dsn' }] },
+      { version: '1.1.0', transforms: [{ op: 'rename', path: 'database.url', to: 'connectionString' }] },
+      { version: '3.0.0', transforms: [{ op: 'set', path: 'database.pool', value: 10 }] }
+    ];
+    const config = { database: { url: 'postgres://localhost' } };
+
+    const result = migrator.migrate(config, '1.0.0', '2.0.0', migrations);
+
+    assert.deepEqual(result.config, { database: { dsn: 'postgres://localhost' } });
+    assert.deepEqual(result.applied.map(applied => applied.version), ['1.1.0', '2.0.0']);
+    assert.deepEqual(config, { database: { url: 'postgres://localhost' } }, 'the input is not modified');
+  });
+
+  it('applies default, remove and move, and wildcards over arrays', () => {
+    const migrations: BlueprintMigration[] = [{
+      version: 2,
+      transforms: [
+        { op: 'default', path: 'contentTypes[*].localized', value: false },
+        { op: 'remove', path: 'legacy' },
+        { op: 'move', path: 'server.port', to: 'http.port' }
+      ]
+    }];
+    const config = {
+      contentTypes: [{ name: 'post' }, { name: 'page', localized: true }],
+      legacy: true,
+      server: { port: 8080 }
+    };
+
+    const { config: migrated } = migrator.migrate(config, 1, 2, migrations);
+
+    assert.deepEqual(migrated, {
+      contentTypes: [{ name: 'post', localized: false }, { name: 'page', localized: true }],
+      server: {},
+      http: { port: 8080 }
+    });
+  });
+
+  it('refuses to rename onto an existing key', () => {
+    const migrations: BlueprintMigration[] = [{ version: 2, transforms: [{ op: 'rename', path: 'a', to: 'b' }] }];
+    assert.throws(() => migrator.migrate({ a: 1, b: 2 }, 1, 2, migrations), /b already exists/);
+  });
+
+  describe('prototype keys', () => {
+    for (const path of ['__proto__.polluted', 'constructor.prototype.polluted', "['__proto__'].polluted"]) {
+      it(`rejects ${path}`, () => {
+        const migration: BlueprintMigration = { version: 2, transforms: [{ op: 'set', path, value: 'yes' }] };
+
+        assert.match(migrator.validate(migration) ?? '', /is not allowed as a key/);
+        assert.throws(() => migrator.migrate({}, 1, 2, [migration]), /is not allowed as a key/);
+        assert.equal(({} as Record<string, unknown>).polluted, undefined);
+      });
+    }
+
+    it('rejects a rename to __proto__', () => {
+      const migration: BlueprintMigration = { version: 2, transforms: [{ op: 'rename', path: 'a', to: '__proto__' }] };
+      assert.match(migrator.validate(migration) ?? '', /cannot use "__proto__"/);
+    });
+
+    it('does not treat inherited properties as existing keys', () => {
+      const migrations: BlueprintMigration[] = [{ version: 2, transforms: [{ op: 'default', path: 'toString', value: 'x' }] }];
+      assert.deepEqual(migrator.migrate({}, 1, 2, migrations).config, { toString: 'x' });
+    });
+  });
+});
+
+describe('ConfigPath', () => {
+  const configPath = new ConfigPath();
+
+  it('selects own keys only', () => {
+    assert.deepEqual(configPath.values({ a: { b: 1 } }, 'a.b'), [1]);
+    assert.deepEqual(configPath.values({}, 'toString'), []);
+  });
+
+  it('rejects prototype keys', () => {
+    assert.throws(() => configPath.parse('a.constructor'), /is not allowed as a key/);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConfigPath } from '../src/tools/ConfigPath.js';
+
+const configPath = new ConfigPath();
+
+const config = {
+  app: { features: { auth: true, billing: false } },
+  contentTypes: [
+    { name: 'post', fields: [{ name: 'title' }, { name: 'body' }] },
+    { name: 'page', fields: [{ name: 'slug' }] },
+    { name: 'draft' }
+  ],
+  'odd key': ['x']
+};
+
+describe('ConfigPath', () => {
+  it('iterates the elements of a selected array', () => {
+    const items = configPath.iterate(config, 'contentTypes');
+
+    assert.deepEqual(items.map(({ item, index }) => [(item as { name: string }).name, index]), [['post', 0], ['page', 1], ['draft', 2]]);
+    assert.equal(items[0].parent, config);
+  });
+
+  it('iterates every array a wildcard path selects, with each array as its own index space', () => {
+    const items = configPath.iterate(config, '$.contentTypes[*].fields');
+
+    assert.deepEqual(items.map(({ item, index, parent }) => [
+      (parent as { name: string }).name, index, (item as { name: string }).name
+    ]), [
+      ['post', 0, 'title'],
+      ['post', 1, 'body'],
+      ['page', 0, 'slug']
+    ]);
+  });
+
+  it('iterates what a trailing wildcard matches, including object values', () => {
+    assert.deepEqual(configPath.iterate(config, 'app.features[*]').map(({ item }) => item), [true, false]);
+  });
+
+  it('selects nothing for missing keys and fails for non-arrays', () => {
+    assert.deepEqual(configPath.iterate(config, 'missing.items'), []);
+    assert.throws(() => configPath.iterate(config, 'app.features'), /"app.features" does not select an array/);
+  });
+
+  it('reads quoted keys and indexes', () => {
+    assert.deepEqual(configPath.values(config, "['odd key'][0]"), ['x']);
+    assert.deepEqual(configPath.values(config, 'contentTypes[1].fields[*].name'), ['slug']);
+    assert.throws(() => configPath.parse('contentTypes['), /Invalid path/);
+  });
+});
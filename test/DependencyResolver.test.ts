@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BlueprintLayer, BlueprintMetadata, BlueprintTask } from '../src/types.js';
+import { TaskDependencyResolver } from '../src/tools/DependencyResolver.js';
+
+const resolver = new TaskDependencyResolver();
+
+function task(id: string, dependencies: Partial<BlueprintTask> = {}): BlueprintTask {
+  return { id, taskFile: `${id}.md`, description: id, ...dependencies };
+}
+
+function blueprint(...layers: Array<Pick<BlueprintLayer, 'order' | 'tasks'>>): BlueprintMetadata {
+  return {
+    id: 'app',
+    name: 'App',
+    version: '1.0.0',
+    description: 'App',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    layers: layers.map(layer => ({ id: `layer-${layer.order}`, name: `Layer ${layer.order}`, ...layer }))
+  };
+}
+
+describe('TaskDependencyResolver', () => {
+  it('does nothing when no task declares dependencies', () => {
+    const analysis = resolver.analyze(blueprint({ order: 1, tasks: [task('a'), task('b')] }));
+
+    assert.equal(analysis.hasExplicitDependencies, false);
+    assert.equal(analysis.computedLayers, null);
+    assert.deepEqual(analysis.errors, []);
+  });
+
+  it('computes layers from dependsOn and provides/requires', () => {
+    const analysis = resolver.analyze(blueprint(
+      { order: 1, tasks: [task('database', { provides: ['db'] }), task('config')] },
+      { order: 2, tasks: [task('models', { requires: ['db'] })] },
+      { order: 3, tasks: [task('api', { dependsOn: ['models', 'config'] })] }
+    ));
+
+    assert.deepEqual(analysis.errors, []);
+    assert.deepEqual(analysis.computedLayers, [['database', 'config'], ['models'], ['api']]);
+  });
+
+  it('suggests tasks that could run in an earlier layer', () => {
+    const analysis = resolver.analyze(blueprint(
+      { order: 1, tasks: [task('database', { provides: ['db'] })] },
+      { order: 2, tasks: [task('models', { requires: ['db'] })] },
+      { order: 3, tasks: [task('docs', { dependsOn: ['database'] })] }
+    ));
+
+    assert.deepEqual(analysis.computedLayers, [['database'], ['models', 'docs']]);
+    assert.equal(analysis.suggestions.length, 1);
+    assert.match(analysis.suggestions[0], /"docs" is authored in Layer 3 .* computed layer 2/);
+  });
+
+  it('rejects a dependency on a task in the same or a later layer', () => {
+    const analysis = resolver.analyze(blueprint(
+      { order: 1, tasks: [task('a', { dependsOn: ['b'] }), task('b')] },
+      { order: 2, tasks: [task('c')] },
+      { order: 1.5, tasks: [task('d', { dependsOn: ['c'] })] }
+    ));
+
+    assert.equal(analysis.errors.length, 2);
+    assert.match(analysis.errors[0], /"a" .* is placed in the same layer as its dependency "b"/);
+    assert.match(analysis.errors[1], /"d" .* is placed in an earlier layer than its dependency "c"/);
+  });
+
+  it('reports unknown, self and duplicate tasks, and unprovided requirements', () => {
+    const analysis = resolver.analyze(blueprint(
+      { order: 1, tasks: [task('a', { dependsOn: ['a', 'missing'], requires: ['nothing'] }), task('a')] }
+    ));
+
+    assert.deepEqual(analysis.errors, [
+      'Task "a" is declared more than once - task IDs must be unique across layers.',
+      'Task "a" depends on itself.',
+      'Task "a" depends on unknown task "missing".'
+    ]);
+    assert.deepEqual(analysis.warnings, ['Task "a" requires "nothing" but no task in this blueprint provides it.']);
+  });
+
+  it('reports a cycle in dependency order', () => {
+    const analysis = resolver.analyze(blueprint(
+      { order: 1, tasks: [task('root')] },
+      { order: 2, tasks: [task('a', { dependsOn: ['b'] })] },
+      { order: 3, tasks: [task('b', { requires: ['c-output'] })] },
+      { order: 4, tasks: [task('c', { dependsOn: ['a'], provides: ['c-output'] })] }
+    ));
+
+    assert.equal(analysis.computedLayers, null);
+    assert.deepEqual(analysis.cycle, ['a', 'b', 'c', 'a']);
+    assert.ok(analysis.errors.some(error => error.startsWith('Dependency cycle detected: a → b → c → a')));
+  });
+});
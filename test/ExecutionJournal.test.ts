@@ -0,0 +1,159 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BlueprintMetadata } from '../src/types.js';
+import { createServices, readFile, tempDir, writeFiles } from './helpers.js';
+
+const { executor, journal, manifestStore } = createServices();
+
+const blueprint: BlueprintMetadata = {
+  id: 'starter',
+  name: 'Starter',
+  version: '1.0.0',
+  description: 'Writes a README and a config file',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  layers: [
+    {
+      id: 'docs',
+      order: 1,
+      name: 'Docs',
+      tasks: [{
+        id: 'readme',
+        taskFile: 'readme.md',
+        description: 'README',
+        operations: [{ type: 'template', source: 'README.md.hbs', destination: 'docs/README.md' }]
+      }]
+    },
+    {
+      id: 'config',
+      order: 2,
+      name: 'Config',
+      tasks: [{
+        id: 'settings',
+        taskFile: 'settings.md',
+        description: 'Settings',
+        operations: [{ type: 'template', source: 'settings.json.hbs', destination: 'settings.json', onConflict: 'overwrite' }]
+      }]
+    }
+  ]
+};
+
+function setup() {
+  const blueprintFolder = tempDir();
+  const targetPath = tempDir();
+  writeFiles(blueprintFolder, {
+    'README.md.hbs': '# {{app.name}}\n',
+    'settings.json.hbs': '{ "name": "{{app.name}}" }\n'
+  });
+  writeFiles(targetPath, { 'settings.json': '{ "name": "mine" }\n' });
+  return { blueprintFolder, targetPath };
+}
+
+describe('ExecutionJournal', () => {
+  it('restores overwritten files and removes created ones', async () => {
+    const { blueprintFolder, targetPath } = setup();
+    const run = await executor.run(executor.createRun(blueprint, blueprintFolder, targetPath, { app: { name: 'demo' } }));
+    assert.equal(readFile(targetPath, 'settings.json'), '{ "name": "demo" }\n');
+
+    const result = journal.rollback(run);
+
+    assert.deepEqual(result.restored, ['settings.json']);
+    assert.equal(readFile(targetPath, 'settings.json'), '{ "name": "mine" }\n');
+    assert.equal(fs.existsSync(path.join(targetPath, 'docs')), false, 'directories the run created are pruned');
+    assert.deepEqual(journal.readEntries(run), [], 'undone entries are dropped');
+  });
+
+  it('rolls back a single layer', async () => {
+    const { blueprintFolder, targetPath } = setup();
+    const run = await executor.run(executor.createRun(blueprint, blueprintFolder, targetPath, { app: { name: 'demo' } }));
+
+    journal.rollback(run, 'config');
+
+    assert.equal(readFile(targetPath, 'settings.json'), '{ "name": "mine" }\n');
+    assert.equal(readFile(targetPath, 'docs/README.md'), '# demo\n');
+    assert.ok(manifestStore.load(targetPath, blueprint.id), 'a layer rollback keeps the applied manifest');
+  });
+
+  it('removes the applied manifest a run created when the whole run is rolled back', async () => {
+    const { blueprintFolder, targetPath } = setup();
+    const run = await executor.run(executor.createRun(blueprint, blueprintFolder, targetPath, { app: { name: 'demo' } }));
+    assert.equal(manifestStore.load(targetPath, blueprint.id)?.runId, run.runId);
+
+    journal.rollback(run);
+
+    assert.equal(manifestStore.load(targetPath, blueprint.id), null);
+  });
+
+  it('restores the applied manifest of the previous run', async () => {
+    const { blueprintFolder, targetPath } = setup();
+    const first = await executor.run(executor.createRun(blueprint, blueprintFolder, targetPath, { app: { name: 'one' } }));
+    const second = await executor.run(executor.createRun(blueprint, blueprintFolder, targetPath, { app: { name: 'two' } }));
+
+    journal.rollback(second);
+
+    const manifest = manifestStore.load(targetPath, blueprint.id);
+    assert.equal(manifest?.runId, first.runId);
+    assert.equal(manifest?.files['settings.json'].content, '{ "name": "one" }\n');
+    assert.equal(readFile(targetPath, 'settings.json'), '{ "name": "one" }\n');
+  });
+
+  it('restores deleted directories, including empty ones', async () => {
+    const { blueprintFolder, targetPath } = setup();
+    writeFiles(targetPath, { 'legacy/old.txt': 'old\n', 'legacy/nested/deep.txt': 'deep\n' });
+    fs.mkdirSync(path.join(targetPath, 'legacy/empty'));
+    const cleanup: BlueprintMetadata = {
+      ...blueprint,
+      layers: [{
+        id: 'cleanup',
+        order: 1,
+        name: 'Cleanup',
+        tasks: [{ id: 'remove-legacy', taskFile: 'cleanup.md', description: 'Cleanup', operations: [{ type: 'delete', destination: 'legacy' }] }]
+      }]
+    };
+    const run = await executor.run(executor.createRun(cleanup, blueprintFolder, targetPath, {}));
+    assert.equal(fs.existsSync(path.join(targetPath, 'legacy')), false);
+
+    journal.rollback(run);
+
+    assert.equal(readFile(targetPath, 'legacy/old.txt'), 'old\n');
+    assert.equal(readFile(targetPath, 'legacy/nested/deep.txt'), 'deep\n');
+    assert.ok(fs.statSync(path.join(targetPath, 'legacy/empty')).isDirectory());
+  });
+
+  it('only removes directories the run created', async () => {
+    const { blueprintFolder, targetPath } = setup();
+    fs.mkdirSync(path.join(targetPath, 'docs'));
+    const run = await executor.run(executor.createRun(blueprint, blueprintFolder, targetPath, { app: { name: 'demo' } }));
+
+    journal.rollback(run);
+
+    assert.equal(fs.existsSync(path.join(targetPath, 'docs/README.md')), false);
+    assert.ok(fs.statSync(path.join(targetPath, 'docs')).isDirectory(), 'the empty directory that was there before is kept');
+  });
+
+  it('removes directories created by mkdir, unless something was added to them', async () => {
+    const { blueprintFolder, targetPath } = setup();
+    const scaffold: BlueprintMetadata = {
+      ...blueprint,
+      layers: [{
+        id: 'scaffold',
+        order: 1,
+        name: 'Scaffold',
+        tasks: [{
+          id: 'dirs',
+          taskFile: 'dirs.md',
+          description: 'Directories',
+          operations: [{ type: 'mkdir', destination: 'src/server/webhooks' }, { type: 'mkdir', destination: 'src/client' }]
+        }]
+      }]
+    };
+    const run = await executor.run(executor.createRun(scaffold, blueprintFolder, targetPath, {}));
+    writeFiles(targetPath, { 'src/client/main.ts': '// mine\n' });
+
+    journal.rollback(run);
+
+    assert.equal(fs.existsSync(path.join(targetPath, 'src/server')), false);
+    assert.equal(readFile(targetPath, 'src/client/main.ts'), '// mine\n');
+  });
+});
@@ -0,0 +1,340 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileOperation } from '../src/types.js';
+import { createServices, readFile, tempDir, writeFiles } from './helpers.js';
+
+const { fileOps, textDiff } = createServices();
+
+before(() => {
+  mock.method(console, 'error', () => {});
+});
+after(() => {
+  mock.restoreAll();
+});
+
+/**
+ * A blueprint folder with some source files, and an empty target
+ */
+function setup(sources: Record<string, string> = {}) {
+  const sourcePath = tempDir();
+  const targetPath = tempDir();
+  writeFiles(sourcePath, { 'app.yaml.hbs': 'name: {{name}}\n', ...sources });
+  return { sourcePath, targetPath };
+}
+
+describe('FileOperationsExecutor', () => {
+  describe('conflict policies', () => {
+    const template: FileOperation = { type: 'template', source: 'app.yaml.hbs', destination: 'app.yaml' };
+
+    it('overwrites templates and skips copies by default', async () => {
+      const { sourcePath, targetPath } = setup({ 'logo.svg': '<svg new/>' });
+      writeFiles(targetPath, { 'app.yaml': 'old\n', 'logo.svg': '<svg old/>' });
+
+      const rendered = await fileOps.execute(template, { name: 'shop' }, sourcePath, targetPath);
+      const copied = await fileOps.execute({ type: 'copy', source: 'logo.svg', destination: 'logo.svg' }, {}, sourcePath, targetPath);
+
+      assert.deepEqual(rendered.conflicts, [{ path: 'app.yaml', policy: 'overwrite' }]);
+      assert.equal(readFile(targetPath, 'app.yaml'), 'name: shop\n');
+      assert.deepEqual(copied.conflicts, [{ path: 'logo.svg', policy: 'skip' }]);
+      assert.deepEqual(copied.files, []);
+      assert.equal(readFile(targetPath, 'logo.svg'), '<svg old/>');
+    });
+
+    it('lets the operation policy win over the run policy', async () => {
+      const { sourcePath, targetPath } = setup();
+      writeFiles(targetPath, { 'app.yaml': 'old\n' });
+
+      const result = await fileOps.execute({ ...template, onConflict: 'skip' }, { name: 'shop' }, sourcePath, targetPath, undefined, 'overwrite');
+
+      assert.deepEqual(result.conflicts, [{ path: 'app.yaml', policy: 'skip' }]);
+      assert.equal(readFile(targetPath, 'app.yaml'), 'old\n');
+    });
+
+    it('backs up the existing file to the first free .orig path', async () => {
+      const { sourcePath, targetPath } = setup();
+      writeFiles(targetPath, { 'app.yaml': 'old\n', 'app.yaml.orig': 'older\n' });
+
+      const result = await fileOps.execute(template, { name: 'shop' }, sourcePath, targetPath, undefined, 'backup');
+
+      assert.deepEqual(result.conflicts, [{ path: 'app.yaml', policy: 'backup', backupPath: 'app.yaml.orig.1' }]);
+      assert.equal(readFile(targetPath, 'app.yaml'), 'name: shop\n');
+      assert.equal(readFile(targetPath, 'app.yaml.orig.1'), 'old\n');
+      assert.equal(readFile(targetPath, 'app.yaml.orig'), 'older\n');
+    });
+
+    it('fails before writing anything', async () => {
+      const { sourcePath, targetPath } = setup({ 'docs/a.txt': 'new a', 'docs/b.txt': 'new b' });
+      writeFiles(targetPath, { 'b.txt': 'old b' });
+
+      await assert.rejects(
+        fileOps.execute({ type: 'copy', source: 'docs', destination: '.', onConflict: 'fail' }, {}, sourcePath, targetPath),
+        /Destination already exists \(onConflict: fail\): b\.txt/
+      );
+      assert.equal(fs.existsSync(path.join(targetPath, 'a.txt')), false);
+    });
+
+    it('deep-merges JSON and YAML, and rejects operations merging other files', async () => {
+      const { sourcePath, targetPath } = setup({ 'README.md.hbs': 'x' });
+      writeFiles(targetPath, { 'app.yaml': 'name: old\nport: 8080\n' });
+
+      const result = await fileOps.execute({ ...template, onConflict: 'merge' }, { name: 'shop' }, sourcePath, targetPath);
+
+      assert.deepEqual(result.conflicts, [{ path: 'app.yaml', policy: 'merge' }]);
+      assert.equal(readFile(targetPath, 'app.yaml'), 'name: shop\nport: 8080\n');
+      await assert.rejects(
+        fileOps.plan({ type: 'template', source: 'README.md.hbs', destination: 'README.md', onConflict: 'merge' }, {}, sourcePath, targetPath),
+        /only supports JSON and YAML files, not README\.md/
+      );
+    });
+
+    it('falls back to the default policy for other files under a run-wide merge', async () => {
+      const { sourcePath, targetPath } = setup({ 'README.md.hbs': 'new', 'logo.svg': '<svg new/>' });
+
+      const [readme] = await fileOps.plan({ type: 'template', source: 'README.md.hbs', destination: 'README.md' }, {}, sourcePath, targetPath, 'merge');
+      const [logo] = await fileOps.plan({ type: 'copy', source: 'logo.svg', destination: 'logo.svg' }, {}, sourcePath, targetPath, 'merge');
+      const [app] = await fileOps.plan(template, { name: 'shop' }, sourcePath, targetPath, 'merge');
+
+      assert.equal(readme.onConflict, 'overwrite');
+      assert.equal(logo.onConflict, 'skip');
+      assert.equal(app.onConflict, 'merge');
+    });
+
+    it('does not treat identical content as a conflict', async () => {
+      const { sourcePath, targetPath } = setup();
+      writeFiles(targetPath, { 'app.yaml': 'name: shop\n' });
+
+      const result = await fileOps.execute(template, { name: 'shop' }, sourcePath, targetPath, undefined, 'fail');
+
+      assert.deepEqual(result.conflicts, []);
+    });
+  });
+
+  describe('edit operations', () => {
+    it('appends a snippet once, creating the file if needed', async () => {
+      const { sourcePath, targetPath } = setup();
+      const append: FileOperation = { type: 'append', content: '{{dir}}/', destination: '.gitignore' };
+
+      await fileOps.execute(append, { dir: 'node_modules' }, sourcePath, targetPath);
+      writeFiles(targetPath, { '.gitignore': `${readFile(targetPath, '.gitignore')}.env` });
+      await fileOps.execute(append, { dir: 'dist' }, sourcePath, targetPath);
+      const again = await fileOps.execute(append, { dir: 'dist' }, sourcePath, targetPath);
+
+      assert.equal(readFile(targetPath, '.gitignore'), 'node_modules/\n.env\ndist/\n');
+      assert.deepEqual(again.files, [], 'an edit that changes nothing writes nothing');
+    });
+
+    it('inserts a snippet before or after the first line containing the marker', async () => {
+      const { sourcePath, targetPath } = setup();
+      writeFiles(targetPath, { 'routes.ts': 'const routes = [\n  // bluekit:routes\n];' });
+
+      await fileOps.execute(
+        { type: 'insert-at-marker', content: '  users,', marker: 'bluekit:routes', destination: 'routes.ts' },
+        {}, sourcePath, targetPath
+      );
+      await fileOps.execute(
+        { type: 'insert-at-marker', content: 'import users from \'./users\';', marker: 'const routes', position: 'before', destination: 'routes.ts' },
+        {}, sourcePath, targetPath
+      );
+
+      assert.equal(readFile(targetPath, 'routes.ts'), 'import users from \'./users\';\nconst routes = [\n  // bluekit:routes\n  users,\n];');
+      await assert.rejects(
+        fileOps.execute({ type: 'insert-at-marker', content: 'x', marker: 'nowhere', destination: 'routes.ts' }, {}, sourcePath, targetPath),
+        /Failed to edit routes\.ts: marker "nowhere" not found/
+      );
+    });
+
+    it('applies a unified diff patch', async () => {
+      const original = 'a\nb\nc\n';
+      const { sourcePath, targetPath } = setup({ 'fix.patch': textDiff.unified(original, 'a\nB\nc\n', 'file.txt') });
+      writeFiles(targetPath, { 'file.txt': original });
+
+      await fileOps.execute({ type: 'patch', source: 'fix.patch', destination: 'file.txt' }, {}, sourcePath, targetPath);
+
+      assert.equal(readFile(targetPath, 'file.txt'), 'a\nB\nc\n');
+      await assert.rejects(
+        fileOps.execute({ type: 'patch', source: 'fix.patch', destination: 'missing.txt' }, {}, sourcePath, targetPath),
+        /file to patch does not exist/
+      );
+    });
+
+    it('deep-merges a snippet into JSON', async () => {
+      const { sourcePath, targetPath } = setup();
+      writeFiles(targetPath, { 'package.json': JSON.stringify({ name: 'shop', scripts: { build: 'tsc' } }, null, 2) });
+
+      await fileOps.execute(
+        { type: 'json-merge', content: '{ "scripts": { "test": "{{runner}}" } }', destination: 'package.json' },
+        { runner: 'vitest' }, sourcePath, targetPath
+      );
+
+      assert.deepEqual(JSON.parse(readFile(targetPath, 'package.json')), { name: 'shop', scripts: { build: 'tsc', test: 'vitest' } });
+    });
+
+    it('deletes files and directories and creates directories', async () => {
+      const { sourcePath, targetPath } = setup();
+      writeFiles(targetPath, { 'legacy/a.js': '', 'legacy/nested/b.js': '', 'keep.js': '' });
+
+      const deleted = await fileOps.execute({ type: 'delete', destination: 'legacy' }, {}, sourcePath, targetPath);
+      const missing = await fileOps.execute({ type: 'delete', destination: 'legacy' }, {}, sourcePath, targetPath);
+      await fileOps.execute({ type: 'mkdir', destination: 'src/{{module}}' }, { module: 'users' }, sourcePath, targetPath);
+
+      assert.ok(deleted.files.includes('legacy'));
+      assert.deepEqual(missing.files, []);
+      assert.equal(fs.existsSync(path.join(targetPath, 'legacy')), false);
+      assert.ok(fs.existsSync(path.join(targetPath, 'keep.js')));
+      assert.ok(fs.statSync(path.join(targetPath, 'src/users')).isDirectory());
+    });
+
+    it('refuses to delete the target root or anything under .bluekit', async () => {
+      const { sourcePath, targetPath } = setup();
+      writeFiles(targetPath, { 'keep.js': '', '.bluekit/applied/app.json': '{}' });
+
+      for (const destination of ['.', '{{missing}}', 'src/..']) {
+        await assert.rejects(
+          fileOps.execute({ type: 'delete', destination }, {}, sourcePath, targetPath),
+          /DELETE destination cannot be the target root/
+        );
+      }
+      for (const destination of ['.bluekit', './.bluekit/applied', '.bluekit/applied/app.json']) {
+        await assert.rejects(
+          fileOps.execute({ type: 'delete', destination }, {}, sourcePath, targetPath),
+          /DELETE destination cannot be inside \.bluekit/
+        );
+      }
+      assert.ok(fs.existsSync(path.join(targetPath, 'keep.js')));
+      assert.ok(fs.existsSync(path.join(targetPath, '.bluekit/applied/app.json')));
+    });
+  });
+
+  describe('directory and glob sources', () => {
+    const sources = {
+      'scaffold/src/index.ts': 'export {};\n',
+      'scaffold/src/{{module}}.ts.hbs': 'export const name = \'{{module}}\';\n',
+      'scaffold/src/index.test.ts': 'test\n',
+      'scaffold/.env.example': 'PORT=3000\n',
+      'scaffold/README.md.hbs': '# {{module}}\n'
+    };
+
+    it('copies a directory tree verbatim, filtered by include and exclude', async () => {
+      const { sourcePath, targetPath } = setup(sources);
+
+      const writes = await fileOps.plan(
+        { type: 'copy', source: 'scaffold', destination: 'app', exclude: ['*.test.ts', '*.hbs'] },
+        { module: 'users' }, sourcePath, targetPath
+      );
+
+      assert.deepEqual(writes.map(write => write.path), ['app/.env.example', 'app/src/index.ts']);
+      assert.ok(writes.every(write => write.sourceFile && write.onConflict === 'skip'));
+    });
+
+    it('copies the files a glob matches, relative to its first wildcard', async () => {
+      const { sourcePath, targetPath } = setup(sources);
+
+      await fileOps.execute({ type: 'copy', source: 'scaffold/src/*.ts', destination: 'lib' }, {}, sourcePath, targetPath);
+
+      assert.deepEqual(fs.readdirSync(path.join(targetPath, 'lib')).sort(), ['index.test.ts', 'index.ts']);
+      await assert.rejects(
+        fileOps.plan({ type: 'copy', source: 'scaffold/*.js', destination: 'lib' }, {}, sourcePath, targetPath),
+        /COPY source matched no files/
+      );
+    });
+
+    it('renders template files in a directory, dropping their extension, and copies the rest', async () => {
+      const { sourcePath, targetPath } = setup(sources);
+
+      const writes = await fileOps.plan(
+        { type: 'template', source: 'scaffold', destination: 'modules/{{module}}', include: ['src/**', 'README.md.hbs'] },
+        { module: 'users' }, sourcePath, targetPath
+      );
+
+      assert.deepEqual(writes.map(write => [write.path, write.content ?? 'copied']), [
+        ['modules/users/README.md', '# users\n'],
+        ['modules/users/src/index.test.ts', 'copied'],
+        ['modules/users/src/index.ts', 'copied'],
+        ['modules/users/src/users.ts', 'export const name = \'users\';\n']
+      ]);
+    });
+
+    it('renders only the files matching templatePattern', async () => {
+      const { sourcePath, targetPath } = setup({ 'pages/home.html.tpl': '<h1>{{title}}</h1>', 'pages/logo.svg': '<svg/>' });
+
+      const writes = await fileOps.plan(
+        { type: 'template', source: 'pages/*', destination: 'public', templatePattern: '*.tpl' },
+        { title: 'Shop' }, sourcePath, targetPath
+      );
+
+      assert.deepEqual(writes.map(write => [write.path, write.content ?? 'copied']), [
+        ['public/home.html', '<h1>Shop</h1>\n'],
+        ['public/logo.svg', 'copied']
+      ]);
+    });
+
+    it('rejects sources outside the blueprint folder', async () => {
+      const { sourcePath, targetPath } = setup();
+      const outside = tempDir();
+      writeFiles(outside, { 'secret.txt': 'secret\n' });
+      const secret = path.join(outside, 'secret.txt');
+      const escape = path.relative(sourcePath, secret);
+
+      for (const operation of [
+        { type: 'copy', source: secret, destination: 'secret.txt' },
+        { type: 'copy', source: escape, destination: 'secret.txt' },
+        { type: 'template', source: escape, destination: 'secret.txt' },
+        { type: 'append', source: secret, destination: 'secret.txt' },
+        { type: 'patch', source: escape, destination: 'secret.txt' }
+      ] as FileOperation[]) {
+        await assert.rejects(fileOps.plan(operation, {}, sourcePath, targetPath), /Source ".*secret\.txt" is outside/);
+      }
+      assert.throws(() => fileOps.templateSources({ type: 'template', source: escape, destination: 'x' }, sourcePath), /is outside/);
+    });
+  });
+
+  describe('each', () => {
+    const field = (name: string) => ({ name, type: 'string', required: true });
+    const config = {
+      contentTypes: [
+        { name: 'post', plural: 'posts', fields: [field('title'), field('body')] },
+        { name: 'page', plural: 'pages', fields: [field('slug')] }
+      ]
+    };
+
+    it('plans the operation once per item, with the item, index and parent in scope', async () => {
+      const { sourcePath, targetPath } = setup({ 'field.ts.hbs': '{{type.name}}.{{field.name}} #{{i}}' });
+
+      const writes = await fileOps.plan({
+        type: 'template',
+        source: 'field.ts.hbs',
+        destination: 'src/{{type.name}}/{{field.name}}.ts',
+        each: 'contentTypes[*].fields',
+        as: 'field',
+        indexAs: 'i',
+        parentAs: 'type'
+      }, config, sourcePath, targetPath);
+
+      assert.deepEqual(writes.map(write => [write.path, write.content]), [
+        ['src/post/title.ts', 'post.title #0\n'],
+        ['src/post/body.ts', 'post.body #1\n'],
+        ['src/page/slug.ts', 'page.slug #0\n']
+      ]);
+    });
+
+    it('checks when per item and does nothing for a missing collection', async () => {
+      const { sourcePath, targetPath } = setup();
+      const operation: FileOperation = {
+        type: 'mkdir',
+        destination: 'src/{{item.name}}',
+        each: 'contentTypes',
+        when: "item.name != 'page'"
+      };
+
+      assert.deepEqual((await fileOps.plan(operation, config, sourcePath, targetPath)).map(write => write.path), ['src/post']);
+      assert.deepEqual(await fileOps.plan(operation, {}, sourcePath, targetPath), []);
+    });
+
+    it('rejects malformed paths and variable names', () => {
+      assert.match(fileOps.validate({ type: 'mkdir', destination: 'x', each: 'contentTypes[' }) ?? '', /^each: Invalid path/);
+      assert.match(fileOps.validate({ type: 'mkdir', destination: 'x', each: 'contentTypes', as: 'my-item' }) ?? '', /as must be a variable name/);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileOperation } from '../src/types.js';
+import { PathSafety } from '../src/tools/PathSafety.js';
+import { createServices, tempDir } from './helpers.js';
+
+const pathSafety = new PathSafety([]);
+
+describe('PathSafety', () => {
+  it('accepts plain names only', () => {
+    pathSafety.assertSafeName('my-kit.md', 'name');
+    for (const name of ['', '.', '..', '../x', 'a/b', 'a\\b', 'a\0b']) {
+      assert.throws(() => pathSafety.assertSafeName(name, 'name'), /name must be a plain name without path separators/);
+    }
+  });
+
+  it('keeps paths inside the root', () => {
+    const root = tempDir();
+
+    assert.equal(pathSafety.resolveWithin(root, 'src/../README.md', 'Destination'), path.join(root, 'README.md'));
+    assert.throws(() => pathSafety.resolveWithin(root, '../outside.txt', 'Destination'), /Destination is outside/);
+    assert.throws(() => pathSafety.assertWithin(root, `${root}-sibling/x`, 'Destination'), /is outside/);
+  });
+
+  it('follows symlinks, including dangling ones and ones in missing parents', () => {
+    const root = tempDir();
+    const outside = tempDir();
+    fs.symlinkSync(outside, path.join(root, 'linked'));
+    fs.symlinkSync(path.join(outside, 'not-yet'), path.join(root, 'dangling'));
+    fs.mkdirSync(path.join(root, 'real'));
+    fs.symlinkSync(path.join(root, 'real'), path.join(root, 'inside-link'));
+
+    assert.throws(() => pathSafety.assertWithin(root, path.join(root, 'linked/new/file.txt'), 'Destination'), /follows a symlink outside/);
+    assert.throws(() => pathSafety.assertWithin(root, path.join(root, 'dangling'), 'Destination'), /follows a symlink outside/);
+    pathSafety.assertWithin(root, path.join(root, 'inside-link/file.txt'), 'Destination');
+  });
+
+  it('allows extra roots', () => {
+    const root = tempDir();
+    const shared = tempDir();
+
+    new PathSafety([shared]).assertWithin(root, path.join(shared, 'cache.json'), 'Destination');
+    assert.throws(() => pathSafety.assertWithin(root, path.join(shared, 'cache.json'), 'Destination'), /is outside/);
+  });
+
+  it('rejects file operations whose rendered destination escapes the target', async () => {
+    const { fileOps } = createServices();
+    const sourcePath = tempDir();
+    const targetPath = tempDir();
+    const operation: FileOperation = { type: 'template', content: 'x', destination: '{{name}}/file.txt' };
+
+    await assert.rejects(fileOps.plan(operation, { name: '../..' }, sourcePath, targetPath), /Destination "\.\.\/\.\.\/file\.txt" is outside/);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { BlueprintMetadata, BlueprintTask } from '../src/types.js';
+import { LayerRule, LayerRuleEngine } from '../src/tools/RuleEngine.js';
+import { tempDir, writeFiles } from './helpers.js';
+
+const engine = new LayerRuleEngine();
+
+function task(taskFile: string, description: string): BlueprintTask {
+  return { id: taskFile.replace(/\.md$/, ''), taskFile, description };
+}
+
+function blueprint(tasks: BlueprintTask[], disabledRules?: string[]): BlueprintMetadata {
+  return {
+    id: 'app',
+    name: 'App',
+    version: '1.0.0',
+    description: 'App',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    disabledRules,
+    layers: [{ id: 'foundation', order: 1, name: 'Foundation', tasks }]
+  };
+}
+
+const rules: LayerRule[] = [
+  {
+    id: 'migrations-with-models',
+    severity: 'warning',
+    scope: 'layer',
+    patterns: ['migration', 'model'],
+    message: 'Migrations run alongside the models they need.'
+  },
+  {
+    id: 'test-everything',
+    severity: 'suggestion',
+    scope: 'task',
+    field: 'taskFile',
+    patterns: ['^test-', 'all'],
+    message: 'Split broad test tasks.'
+  },
+  {
+    id: 'setup-chain',
+    severity: 'error',
+    scope: 'chain',
+    message: 'Tasks depend on each other.',
+    fix: 'Split into separate layers.',
+    capabilities: [
+      { pattern: 'create project', provides: 'project' },
+      { pattern: 'install', dependsOn: 'project' }
+    ]
+  }
+];
+
+describe('LayerRuleEngine', () => {
+  it('reports each scope under its severity', () => {
+    const findings = engine.evaluate(blueprint([
+      task('models.md', 'Create the data models'),
+      task('migrations.md', 'Write the migration scripts'),
+      task('test-all.md', 'Test everything'),
+      task('project.md', 'Create project skeleton'),
+      task('deps.md', 'Install dependencies')
+    ]), rules);
+
+    assert.deepEqual(findings.warnings, [
+      'Layer 1 (Foundation): Migrations run alongside the models they need.\n  [rule: migrations-with-models]'
+    ]);
+    assert.deepEqual(findings.suggestions, [
+      'Layer 1 (Foundation): Split broad test tasks.\n  Matching tasks: test-all.md\n  [rule: test-everything]'
+    ]);
+    assert.equal(findings.errors.length, 1);
+    assert.match(findings.errors[0], /^Layer 1 \(Foundation\): Tasks depend on each other\.\n {2}Detected dependency chain: project\n/);
+    assert.match(findings.errors[0], /FIX: Split into separate layers\.\n {2}\[rule: setup-chain\]$/);
+  });
+
+  it('skips layer and chain rules for single-task layers', () => {
+    const findings = engine.evaluate(blueprint([task('project.md', 'Create project and install dependencies')]), rules);
+
+    assert.deepEqual(findings, { errors: [], warnings: [], suggestions: [] });
+  });
+
+  it('skips rules the blueprint disables', () => {
+    const findings = engine.evaluate(blueprint([
+      task('models.md', 'Create the data models'),
+      task('migrations.md', 'Write the migration scripts')
+    ], ['migrations-with-models']), rules);
+
+    assert.deepEqual(findings.warnings, []);
+  });
+
+  it('loads packs in order, letting project rules override and disable earlier ones', () => {
+    const home = tempDir();
+    const project = tempDir();
+    writeFiles(home, {
+      '.bluekit/rules/team.yaml': [
+        'rules:',
+        '  - id: team-rule',
+        '    severity: warning',
+        '    scope: task',
+        '    patterns: [legacy]',
+        '    message: Legacy code.',
+        '  - id: broken',
+        '    severity: fatal',
+        '    scope: task',
+        '    patterns: []',
+        '    message: Never loaded.'
+      ].join('\n')
+    });
+    writeFiles(project, {
+      '.bluekit/rules/project.yml': [
+        'rules:',
+        '  - id: team-rule',
+        '    severity: error',
+        '    scope: task',
+        '    patterns: [legacy]',
+        '    message: No legacy code here.',
+        '  - id: keyword-dependency-chain',
+        '    enabled: false'
+      ].join('\n')
+    });
+    const originalHome = process.env.HOME;
+    process.env.HOME = home;
+    const consoleError = mock.method(console, 'error', () => {});
+    try {
+      const loaded = engine.loadRules(project);
+      const ids = loaded.map(rule => rule.id);
+
+      assert.ok(!ids.includes('keyword-dependency-chain'), 'disabled by the project pack');
+      assert.ok(!ids.includes('broken'), 'invalid rules are skipped');
+      const teamRule = loaded.find(rule => rule.id === 'team-rule');
+      assert.equal(teamRule?.severity, 'error');
+      assert.equal(teamRule?.message, 'No legacy code here.');
+      assert.ok(consoleError.mock.calls.some(call => String(call.arguments[0]).includes('severity must be error, warning or suggestion')));
+    } finally {
+      process.env.HOME = originalHome;
+      consoleError.mock.restore();
+    }
+  });
+});
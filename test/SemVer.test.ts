@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SemVer } from '../src/tools/SemVer.js';
+
+const semver = new SemVer();
+
+describe('SemVer', () => {
+  it('parses semantic versions, partial versions and plain numbers', () => {
+    assert.deepEqual(semver.parse('v1.2.3-beta.2+build.5'), { major: 1, minor: 2, patch: 3, prerelease: ['beta', '2'] });
+    assert.deepEqual(semver.parse('2.1'), { major: 2, minor: 1, patch: 0, prerelease: [] });
+    assert.deepEqual(semver.parse(3), { major: 3, minor: 0, patch: 0, prerelease: [] });
+  });
+
+  it('rejects anything else', () => {
+    assert.throws(() => semver.parse('1.2.3.4'), /Invalid version "1\.2\.3\.4": expected a semantic version like "1\.2\.0"/);
+    assert.throws(() => semver.parse(1.5), /numeric versions must be non-negative integers/);
+    assert.equal(semver.isValid(-1), false);
+    assert.equal(semver.isValid(null), false);
+    assert.equal(semver.isValid('1.0.0-rc.1'), true);
+  });
+
+  it('orders versions by semver precedence', () => {
+    const ordered = ['1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-alpha.beta', '1.0.0-beta.2', '1.0.0-beta.11', '1.0.0-rc.1', '1.0.0', '1.2', '2', '10.0.0'];
+
+    assert.deepEqual([...ordered].reverse().sort((a, b) => semver.compare(a, b)), ordered);
+    assert.equal(semver.compare(2, '2.0.0'), 0);
+    assert.equal(semver.compare('1.0.0+build.1', '1.0.0+build.2'), 0);
+  });
+});
@@ -0,0 +1,153 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { PathSafety } from '../src/tools/PathSafety.js';
+import { SourceResolver } from '../src/tools/SourceResolver.js';
+import { readFile, tempDir, writeFiles } from './helpers.js';
+
+const resolver = new SourceResolver(new PathSafety());
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+    cwd,
+    stdio: 'pipe',
+    encoding: 'utf-8'
+  }).trim();
+}
+
+function commit(repo: string, files: Record<string, string>, message: string): void {
+  writeFiles(repo, files);
+  git(repo, 'add', '-A');
+  git(repo, 'commit', '-q', '-m', message);
+}
+
+describe('SourceResolver', () => {
+  const originalHome = process.env.HOME;
+  const home = tempDir();
+
+  before(() => {
+    process.env.HOME = home;
+    mock.method(console, 'error', () => {});
+  });
+  after(() => {
+    process.env.HOME = originalHome;
+    mock.restoreAll();
+  });
+
+  it('resolves local paths and global registry IDs', async () => {
+    writeFiles(home, { '.bluekit/blueprintRegistry.json': JSON.stringify({ shop: { projectPath: '/projects/shop', createdAt: '' } }) });
+
+    assert.equal(await resolver.resolve({ type: 'local', path: '/a/b/../c' }), '/a/c');
+    assert.equal(await resolver.resolve({ type: 'local', path: 'src' }), path.resolve(process.cwd(), 'src'));
+    assert.equal(await resolver.resolve({ type: 'global', path: 'shop' }), '/projects/shop');
+    await assert.rejects(resolver.resolve({ type: 'global', path: 'missing' }), /"missing" not found in global registry/);
+  });
+
+  describe('git', () => {
+    const repo = tempDir();
+    let firstCommit = '';
+
+    before(() => {
+      git(repo, 'init', '-q', '-b', 'main');
+      commit(repo, { 'README.md': 'v1\n' }, 'first');
+      git(repo, 'tag', 'v1');
+      firstCommit = git(repo, 'rev-parse', 'HEAD');
+      commit(repo, { 'README.md': 'v2\n', 'build/out.js': 'generated\n' }, 'second');
+      git(repo, 'checkout', '-q', '-b', 'feature');
+      commit(repo, { 'README.md': 'feature\n' }, 'feature');
+      git(repo, 'checkout', '-q', 'main');
+    });
+
+    it('clones into the cache and checks out the default branch', async () => {
+      const checkout = await resolver.resolve({ type: 'git', gitUrl: repo });
+
+      assert.ok(checkout.startsWith(path.join(home, '.bluekit', 'cache', 'git')));
+      assert.equal(readFile(checkout, 'README.md'), 'v2\n');
+    });
+
+    it('checks out branches, tags and commits', async () => {
+      assert.equal(readFile(await resolver.resolve({ type: 'git', gitUrl: repo, gitRef: 'feature' }), 'README.md'), 'feature\n');
+      assert.equal(readFile(await resolver.resolve({ type: 'git', gitUrl: repo, gitRef: 'v1' }), 'README.md'), 'v1\n');
+
+      const checkout = await resolver.resolve({ type: 'git', gitUrl: repo, gitRef: firstCommit });
+      assert.equal(readFile(checkout, 'README.md'), 'v1\n');
+      assert.equal(fs.existsSync(path.join(checkout, 'build')), false, 'files of other refs are cleaned');
+    });
+
+    it('fetches new commits into a cached checkout', async () => {
+      await resolver.resolve({ type: 'git', gitUrl: repo, gitRef: 'main' });
+      commit(repo, { 'README.md': 'v3\n' }, 'third');
+
+      const checkout = await resolver.resolve({ type: 'git', gitUrl: repo, gitRef: 'main' });
+
+      assert.equal(readFile(checkout, 'README.md'), 'v3\n');
+    });
+
+    it('keeps separate checkouts for URLs that differ only in punctuation', async () => {
+      const parent = tempDir();
+      const checkouts: string[] = [];
+      for (const name of ['shop-ui', 'shop_ui']) {
+        const other = path.join(parent, name);
+        git(parent, 'init', '-q', '-b', 'main', name);
+        commit(other, { 'README.md': `${name}\n` }, name);
+        checkouts.push(await resolver.resolve({ type: 'git', gitUrl: other }));
+      }
+
+      assert.notEqual(checkouts[0], checkouts[1]);
+      assert.equal(readFile(checkouts[0], 'README.md'), 'shop-ui\n');
+      assert.equal(readFile(checkouts[1], 'README.md'), 'shop_ui\n');
+    });
+
+    it('stops git commands that run past the timeout', async () => {
+      const originalSsh = process.env.GIT_SSH_COMMAND;
+      process.env.GIT_SSH_COMMAND = 'sleep 5 #';
+      try {
+        await assert.rejects(
+          new SourceResolver(new PathSafety(), 200).resolve({ type: 'git', gitUrl: 'ssh://example.invalid/repo.git' }),
+          /Failed to clone .*: git clone timed out after 0\.2s/
+        );
+      } finally {
+        if (originalSsh === undefined) {
+          delete process.env.GIT_SSH_COMMAND;
+        } else {
+          process.env.GIT_SSH_COMMAND = originalSsh;
+        }
+      }
+    });
+
+    it('rejects unknown refs and unreachable repositories', async () => {
+      await assert.rejects(resolver.resolve({ type: 'git', gitUrl: repo, gitRef: 'nope' }), /Git ref "nope" not found/);
+      await assert.rejects(resolver.resolve({ type: 'git', gitUrl: path.join(repo, 'missing') }), /Failed to clone/);
+    });
+  });
+
+  it('plans preserved paths as skip-on-conflict copies', () => {
+    const source = tempDir();
+    writeFiles(source, { 'assets/logo.svg': '<svg/>', 'assets/icons/a.svg': '<svg/>', '.env.example': 'A=1' });
+    const consoleWarn = mock.method(console, 'warn', () => {});
+
+    const writes = resolver.planPreservedPaths(source, '/target', ['assets', '.env.example', 'missing']);
+
+    assert.deepEqual(writes.map(write => [write.path, write.onConflict]).sort(), [
+      ['.env.example', 'skip'],
+      ['assets/icons/a.svg', 'skip'],
+      ['assets/logo.svg', 'skip']
+    ]);
+    assert.equal(consoleWarn.mock.callCount(), 1);
+  });
+
+  it('keeps preserved paths inside the source and the target', async () => {
+    const parent = tempDir();
+    writeFiles(parent, { 'secret.txt': 'x', 'source/a.txt': 'a' });
+    const source = path.join(parent, 'source');
+    const target = tempDir();
+
+    assert.throws(() => resolver.planPreservedPaths(source, target, ['../secret.txt']), /Preserved path "\.\.\/secret\.txt" is outside/);
+    assert.throws(() => resolver.planPreservedPaths(source, target, [path.join(parent, 'secret.txt')]), /is outside/);
+    await assert.rejects(resolver.copyPreservedPaths(source, target, ['../secret.txt']), /is outside/);
+    assert.equal(fs.existsSync(path.join(target, 'secret.txt')), false);
+    assert.equal(fs.existsSync(path.join(path.dirname(target), 'secret.txt')), false);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as zlib from 'zlib';
+import { TarArchive } from '../src/tools/TarArchive.js';
+
+const tar = new TarArchive();
+
+describe('TarArchive', () => {
+  it('round-trips files, including empty ones and ones spanning several blocks', () => {
+    const entries = [
+      { path: 'bundle.json', content: Buffer.from('{}\n') },
+      { path: 'blueprint/empty.md', content: Buffer.alloc(0) },
+      { path: 'blueprint/templates/big.bin', content: Buffer.alloc(1300, 7) }
+    ];
+
+    const archive = tar.pack(entries);
+
+    assert.deepEqual([archive[0], archive[1]], [0x1f, 0x8b]);
+    assert.deepEqual(tar.unpack(archive), entries);
+    assert.deepEqual(tar.unpack(zlib.gunzipSync(archive)), entries, 'uncompressed archives are read too');
+  });
+
+  it('keeps long paths, in the ustar prefix or a PAX header', () => {
+    const prefixed = `${'a'.repeat(80)}/${'b'.repeat(60)}.md`;
+    const pax = `${'c'.repeat(200)}/${'d'.repeat(120)}.md`;
+
+    const paths = tar.unpack(tar.pack([prefixed, pax].map(path => ({ path, content: Buffer.from(path) })))).map(entry => entry.path);
+
+    assert.deepEqual(paths, [prefixed, pax]);
+  });
+
+  it('rejects corrupted and truncated archives', () => {
+    const raw = zlib.gunzipSync(tar.pack([{ path: 'file.txt', content: Buffer.alloc(2000, 1) }]));
+
+    const corrupted = Buffer.from(raw);
+    corrupted[0] ^= 1;
+    assert.throws(() => tar.unpack(corrupted), /Invalid tar header at byte 0 \(checksum mismatch\)/);
+    assert.throws(() => tar.unpack(raw.subarray(0, 1024)), /Archive is truncated/);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BlueprintMetadata, TaskCheck } from '../src/types.js';
+import { TaskVerifier } from '../src/tools/TaskVerifier.js';
+import { TemplateEngine } from '../src/tools/TemplateEngine.js';
+import { ConfigPath } from '../src/tools/ConfigPath.js';
+import { ConfigExpression } from '../src/tools/ConfigExpression.js';
+import { PathSafety } from '../src/tools/PathSafety.js';
+import { readFile, tempDir, writeFiles } from './helpers.js';
+
+const verifier = new TaskVerifier(new TemplateEngine(), new ConfigPath(), new ConfigExpression(), new PathSafety());
+
+function blueprintWith(checks: TaskCheck[], when?: string): BlueprintMetadata {
+  return {
+    id: 'checked',
+    name: 'Checked',
+    version: 1,
+    description: 'Declares checks',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    layers: [{ id: 'layer-1', order: 1, name: 'Setup', tasks: [{ id: 'setup', taskFile: 'setup.md', description: 'Setup', when, checks }] }]
+  };
+}
+
+async function verify(checks: TaskCheck[], targetPath: string, runCommands?: boolean, config: Record<string, unknown> = {}) {
+  const result = await verifier.verify(blueprintWith(checks), targetPath, targetPath, config, { runCommands });
+  return result.layers[0].tasks[0];
+}
+
+/**
+ * Whether a process is alive (killed processes nobody reaped yet count as stopped)
+ */
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+  const stat = `/proc/${pid}/stat`;
+  return !fs.existsSync(stat) || fs.readFileSync(stat, 'utf-8').split(') ')[1]?.[0] !== 'Z';
+}
+
+describe('TaskVerifier', () => {
+  it('checks files, patterns and JSON paths', async () => {
+    const targetPath = tempDir();
+    writeFiles(targetPath, {
+      'src/demo/App.tsx': 'export function App() {}\n',
+      'package.json': '{ "scripts": { "build": "tsc" } }\n'
+    });
+
+    const task = await verify([
+      { type: 'file-exists', path: 'src/{{app.name}}/App.tsx' },
+      { type: 'file-contains', path: 'src/demo/App.tsx', pattern: '^export function App' },
+      { type: 'json-path', path: 'package.json', jsonPath: 'scripts.build', equals: 'tsc' },
+      { type: 'json-path', path: 'package.json', jsonPath: 'scripts.test' }
+    ], targetPath, false, { app: { name: 'demo' } });
+
+    assert.equal(task.status, 'failed');
+    assert.deepEqual(task.checks.map(check => check.status), ['passed', 'passed', 'passed', 'failed']);
+    assert.equal(task.checks[3].message, 'scripts.test is not set in package.json');
+  });
+
+  it('rejects check paths outside the target', async () => {
+    const task = await verify([{ type: 'file-exists', path: '../outside' }], tempDir());
+    assert.equal(task.checks[0].status, 'failed');
+  });
+
+  it('skips tasks whose when is false', async () => {
+    const targetPath = tempDir();
+    const result = await verifier.verify(
+      blueprintWith([{ type: 'file-exists', path: 'missing' }], 'features.auth'),
+      targetPath,
+      targetPath,
+      { features: { auth: false } }
+    );
+    assert.equal(result.passed, true);
+    assert.equal(result.layers[0].tasks[0].status, 'skipped');
+  });
+
+  it('fails tasks whose when cannot be evaluated', async () => {
+    const targetPath = tempDir();
+    const result = await verifier.verify(
+      blueprintWith([{ type: 'file-exists', path: 'missing' }], 'ui.theme !='),
+      targetPath,
+      targetPath,
+      {}
+    );
+    const [layer] = result.layers;
+
+    assert.equal(result.passed, false);
+    assert.equal(layer.status, 'failed');
+    assert.equal(layer.tasks[0].status, 'failed');
+    assert.match(layer.tasks[0].error ?? '', /^when "ui\.theme !=" could not be evaluated: /);
+    assert.deepEqual(layer.tasks[0].checks, []);
+  });
+
+  describe('command checks', () => {
+    it('do not run unless enabled', async () => {
+      const targetPath = tempDir();
+      const task = await verify([{ type: 'command', command: 'touch ran' }], targetPath);
+
+      assert.equal(task.status, 'unchecked');
+      assert.equal(task.checks[0].status, 'skipped');
+      assert.equal(fs.existsSync(path.join(targetPath, 'ran')), false);
+    });
+
+    it('pass when the command exits 0 and report the output otherwise', async () => {
+      const targetPath = tempDir();
+      const task = await verify([
+        { type: 'command', command: 'test "$(pwd)" = "$PWD"' },
+        { type: 'command', command: 'echo broken >&2; exit 3' }
+      ], targetPath, true);
+
+      assert.deepEqual(task.checks.map(check => check.status), ['passed', 'failed']);
+      assert.equal(task.checks[1].message, 'exited with code 3:\nbroken');
+    });
+
+    it('stop every process of a command that times out', async () => {
+      const targetPath = tempDir();
+      const task = await verify([{ type: 'command', command: 'sleep 30 & echo $! > child.pid; wait', timeout: 500 }], targetPath, true);
+
+      assert.equal(task.checks[0].message, 'timed out after 500ms');
+      const pid = parseInt(readFile(targetPath, 'child.pid'), 10);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      assert.equal(isRunning(pid), false, 'the background process was stopped');
+    });
+
+    it('stop background processes a passing command leaves behind', async () => {
+      const targetPath = tempDir();
+      const task = await verify([{ type: 'command', command: 'sleep 30 & echo $! > child.pid', timeout: 5000 }], targetPath, true);
+
+      assert.equal(task.checks[0].status, 'passed');
+      const pid = parseInt(readFile(targetPath, 'child.pid'), 10);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      assert.equal(isRunning(pid), false);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TemplateEngine } from '../src/tools/TemplateEngine.js';
+import { tempDir, writeFiles } from './helpers.js';
+
+const engine = new TemplateEngine();
+
+describe('TemplateEngine', () => {
+  describe('partials and layouts', () => {
+    it('registers every file in the blueprint partials folder by its path', () => {
+      const blueprintFolder = tempDir();
+      writeFiles(blueprintFolder, {
+        'partials/header.hbs': '// {{app.name}}',
+        'partials/react/imports.handlebars': "import React from 'react';"
+      });
+
+      const output = engine.forBlueprint(blueprintFolder).compile('{{> header}} | {{> react/imports}}', { app: { name: 'Shop' } });
+
+      assert.equal(output, "// Shop | import React from 'react';");
+      assert.equal(engine.forBlueprint(tempDir()), engine, 'blueprints without partials use the shared engine');
+    });
+
+    it('rebuilds a cached blueprint engine when a partial changes', () => {
+      const blueprintFolder = tempDir();
+      writeFiles(blueprintFolder, { 'partials/greeting.hbs': 'Hello' });
+      const first = engine.forBlueprint(blueprintFolder);
+      assert.equal(engine.forBlueprint(blueprintFolder), first);
+
+      const partial = path.join(blueprintFolder, 'partials/greeting.hbs');
+      fs.writeFileSync(partial, 'Goodbye');
+      const later = new Date(Date.now() + 10_000);
+      fs.utimesSync(partial, later, later);
+
+      assert.equal(engine.forBlueprint(blueprintFolder).compile('{{> greeting}}', {}), 'Goodbye');
+    });
+
+    it('fills layout blocks, replacing, appending to or prepending to their defaults', () => {
+      const layoutEngine = new TemplateEngine();
+      layoutEngine.registerPartial('page', '<title>{{#block "title"}}Shop{{/block}}</title><main>{{#block "body"}}empty{{/block}}</main><footer>{{#block "footer"}}(c){{/block}}</footer>');
+
+      const output = layoutEngine.compile(
+        '{{#extend "page"}}{{#content "title" mode="prepend"}}{{name}} | {{/content}}{{#content "body"}}<h1>{{name}}</h1>{{/content}}{{/extend}}',
+        { name: 'Cart' }
+      );
+
+      assert.equal(output, '<title>Cart | Shop</title><main><h1>Cart</h1></main><footer>(c)</footer>');
+      assert.throws(() => layoutEngine.compile('{{#extend "missing"}}{{/extend}}', {}), /Layout partial "missing" not found/);
+      assert.throws(() => layoutEngine.compile('{{#content "body"}}x{{/content}}', {}), /must be used inside \{\{#extend\}\}/);
+    });
+  });
+
+  describe('helper packs', () => {
+    const packs = new TemplateEngine({ helperPacks: ['date', 'string', 'math', 'uuid'] });
+
+    it('registers only the packs a blueprint enables', () => {
+      assert.throws(() => engine.compile('{{slug title}}', { title: 'x' }), /Missing helper: "slug"/);
+      assert.throws(() => new TemplateEngine({ helperPacks: ['nope'] }), /Unknown helper pack "nope" \(available: date, uuid, string, math\)/);
+    });
+
+    it('formats dates in UTC', () => {
+      assert.equal(packs.compile('{{formatDate when "YYYY-MM-DD HH:mm"}}', { when: '2026-03-04T05:06:07Z' }), '2026-03-04 05:06');
+      assert.equal(packs.compile('{{formatDate when}}', { when: 'not a date' }), '');
+    });
+
+    it('provides string helpers, including block indent', () => {
+      const output = packs.compile(
+        '{{slug title}}|{{join tags}}|{{default missing "none"}}|{{padStart n 3 "0"}}\n{{#indent 2}}a\n\nb{{/indent}}',
+        { title: ' Hello, World! ', tags: ['a', 'b'], n: 7 }
+      );
+
+      assert.equal(output, 'hello-world|a, b|none|007\n  a\n\n  b');
+    });
+
+    it('provides math helpers and uuids', () => {
+      assert.equal(packs.compile('{{add a b}} {{round (divide a b) 2}} {{max a b}}', { a: 2, b: 3 }), '5 0.67 3');
+      assert.match(packs.compile('{{uuid}}', {}), /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+    });
+  });
+
+  describe('strict mode', () => {
+    const strict = new TemplateEngine({ strict: true });
+
+    it('renders undefined variables as empty strings unless strict', () => {
+      assert.equal(engine.compile('[{{app.dispalyName}}]', { app: {} }), '[]');
+    });
+
+    it('names the full path, line and column of an undefined variable', () => {
+      assert.throws(
+        () => strict.compile('line one\n  {{app.dispalyName}}', { app: { displayName: 'Shop' } }, 'templates/App.tsx.hbs'),
+        /^Error: Template compilation failed in templates\/App\.tsx\.hbs: undefined variable "app\.dispalyName" at line 2, column 5$/
+      );
+    });
+
+    it('allows missing helper arguments but not missing objects on their path', () => {
+      assert.equal(strict.compile('{{#if ui.theme}}themed{{else}}plain{{/if}}', { ui: {} }), 'plain');
+      assert.throws(() => strict.compile('{{#if ui.theme}}themed{{/if}}', {}), /"theme" was read from an object that is not defined/);
+    });
+  });
+
+  describe('analyze', () => {
+    it('resolves references through blocks, block params, ../ and @root', () => {
+      const template = [
+        '{{app.name}}',
+        '{{#each contentTypes}}{{name}}{{#each fields as |field|}}{{field.type}}{{../plural}}{{@root.app.version}}{{@index}}{{/each}}{{/each}}',
+        '{{#with app.owner}}{{email}}{{/with}}',
+        '{{pascalCase item.label}}'
+      ].join('\n');
+
+      const references = engine.analyze(template, { item: 'menu[]' });
+
+      assert.deepEqual(references.map(ref => ref.path), [
+        'app.name',
+        'contentTypes',
+        'contentTypes[].name',
+        'contentTypes[].fields',
+        'contentTypes[].fields[].type',
+        'contentTypes[].plural',
+        'app.version',
+        'app.owner',
+        'app.owner.email',
+        'menu[].label'
+      ]);
+      assert.deepEqual([references[1].line, references[1].column], [2, 9]);
+    });
+
+    it('follows references into partials and layouts', () => {
+      const withPartials = new TemplateEngine();
+      withPartials.registerPartial('footer', '{{company.name}}');
+
+      const [reference] = withPartials.analyze('\n{{> footer}}');
+
+      assert.deepEqual(reference, { path: 'company.name', line: 1, column: 3, partial: 'footer' });
+    });
+  });
+});
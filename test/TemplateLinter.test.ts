@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BlueprintMetadata, FileOperation } from '../src/types.js';
+import { TemplateEngine } from '../src/tools/TemplateEngine.js';
+import { TemplateLinter } from '../src/tools/TemplateLinter.js';
+import { ConfigPath } from '../src/tools/ConfigPath.js';
+import { createServices, tempDir, writeFiles } from './helpers.js';
+
+const { fileOps } = createServices();
+const linter = new TemplateLinter(new TemplateEngine(), fileOps, new ConfigPath());
+
+const configSchema: BlueprintMetadata['configSchema'] = {
+  type: 'object',
+  properties: {
+    app: { type: 'object', properties: { name: { type: 'string' }, displayName: { type: 'string' } } },
+    contentTypes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          fields: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' } } } }
+        }
+      }
+    },
+    env: { type: 'object', additionalProperties: { type: 'string' } },
+    extras: { type: 'object' }
+  }
+};
+
+function blueprint(operations: FileOperation[]): BlueprintMetadata {
+  return {
+    id: 'app',
+    name: 'App',
+    version: '1.0.0',
+    description: 'App',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    configSchema,
+    layers: [{ id: 'foundation', order: 1, name: 'Foundation', tasks: [{ id: 'setup', taskFile: 'setup.md', description: 'Setup', operations }] }]
+  };
+}
+
+describe('TemplateLinter', () => {
+  it('reports references the config schema does not define, with their location', () => {
+    const folder = tempDir();
+    writeFiles(folder, { 'templates/App.tsx.hbs': 'const name = "{{app.name}}";\nconst title = "{{app.dispalyName}}";\n' });
+
+    const result = linter.lint(blueprint([
+      { type: 'template', source: 'templates/App.tsx.hbs', destination: 'src/{{app.slug}}/App.tsx' }
+    ]), folder);
+
+    assert.equal(result.schemaChecked, true);
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.templates.map(template => [template.file, template.unresolved.map(ref => `${ref.path}@${ref.line}:${ref.column}`)]), [
+      ['destination', ['app.slug@1:7']],
+      ['templates/App.tsx.hbs', ['app.dispalyName@2:18']]
+    ]);
+  });
+
+  it('maps each variables to the config paths they hold', () => {
+    const result = linter.lint(blueprint([{
+      type: 'mkdir',
+      destination: '{{type.name}}/{{field.name}}/{{field.label}}-{{i}}',
+      each: 'contentTypes[*].fields',
+      as: 'field',
+      indexAs: 'i',
+      parentAs: 'type'
+    }]), tempDir());
+
+    assert.deepEqual(result.templates[0].references.map(ref => ref.path), [
+      'contentTypes[].name',
+      'contentTypes[].fields[].name',
+      'contentTypes[].fields[].label'
+    ]);
+    assert.deepEqual(result.templates[0].unresolved.map(ref => ref.path), ['contentTypes[].fields[].label']);
+  });
+
+  it('accepts any key of objects without declared properties or with additionalProperties', () => {
+    const result = linter.lint(blueprint([
+      { type: 'append', content: '{{env.DATABASE_URL}} {{extras.anything.deep}} {{contentTypes.length}}', destination: '.env' }
+    ]), tempDir());
+
+    assert.deepEqual(result.templates.flatMap(template => template.unresolved), []);
+  });
+
+  it('lists references without checking them when there is no schema, and reports unreadable templates', () => {
+    const result = linter.lint({
+      ...blueprint([
+        { type: 'append', content: '{{anything}}', destination: 'notes.md' },
+        { type: 'template', source: 'missing.hbs', destination: 'out.txt' },
+        { type: 'append', content: '{{#if}}', destination: 'broken.md' }
+      ]),
+      configSchema: undefined
+    }, tempDir());
+
+    assert.equal(result.schemaChecked, false);
+    const inline = result.templates.find(template => template.file === 'inline content');
+    assert.deepEqual(inline?.references.map(ref => ref.path), ['anything']);
+    assert.deepEqual(inline?.unresolved, []);
+    assert.equal(result.errors.length, 2);
+    assert.match(result.errors[0], /^Layer 1 \/ setup: operation 2: Template file does not exist/);
+    assert.match(result.errors[1], /^Layer 1 \/ setup: operation 3: /);
+  });
+});
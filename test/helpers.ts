@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { after } from 'node:test';
+import { FileOperationsExecutor } from '../src/tools/FileOperations.js';
+import { SourceResolver } from '../src/tools/SourceResolver.js';
+import { TemplateEngine } from '../src/tools/TemplateEngine.js';
+import { StructuredMerge } from '../src/tools/StructuredMerge.js';
+import { TextDiff } from '../src/tools/TextDiff.js';
+import { ConfigPath } from '../src/tools/ConfigPath.js';
+import { ConfigExpression } from '../src/tools/ConfigExpression.js';
+import { PathSafety } from '../src/tools/PathSafety.js';
+import { CodeGenerator } from '../src/tools/CodeGenerator.js';
+import { ExecutionStateStore } from '../src/tools/ExecutionStateStore.js';
+import { ExecutionJournal } from '../src/tools/ExecutionJournal.js';
+import { AppliedManifestStore } from '../src/tools/AppliedManifestStore.js';
+import { BlueprintExecutor } from '../src/tools/BlueprintExecutor.js';
+import { BlueprintReapplier } from '../src/tools/BlueprintReapplier.js';
+
+/**
+ * A temporary directory, removed after the test or suite that created it
+ */
+export function tempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bluekit-test-'));
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+/**
+ * Write files (relative path -> content) under a directory
+ */
+export function writeFiles(dir: string, files: Record<string, string>): void {
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), content);
+  }
+}
+
+export function readFile(dir: string, file: string): string {
+  return fs.readFileSync(path.join(dir, file), 'utf-8');
+}
+
+/**
+ * The execution services, wired the way BlueprintTools wires them
+ */
+export function createServices(overrides: { stateStore?: ExecutionStateStore } = {}) {
+  const textDiff = new TextDiff();
+  const structuredMerge = new StructuredMerge();
+  const configPath = new ConfigPath();
+  const configExpression = new ConfigExpression();
+  const codeGenerator = new CodeGenerator();
+  const pathSafety = new PathSafety();
+  const fileOps = new FileOperationsExecutor(
+    new SourceResolver(pathSafety), new TemplateEngine(), structuredMerge, textDiff, configPath, configExpression,
+    pathSafety, codeGenerator
+  );
+  const stateStore = overrides.stateStore ?? new ExecutionStateStore();
+  const journal = new ExecutionJournal(stateStore);
+  const manifestStore = new AppliedManifestStore();
+  const executor = new BlueprintExecutor(
+    fileOps, stateStore, journal, textDiff, structuredMerge, manifestStore, configExpression
+  );
+  const reapplier = new BlueprintReapplier(executor, manifestStore, textDiff);
+  return { textDiff, codeGenerator, fileOps, stateStore, journal, manifestStore, executor, reapplier };
+}